@@ -0,0 +1,41 @@
+/**
+ * Wallet encryption migration
+ * Run (after `npm run build`): npm run migrate:wallet
+ *
+ * - Encrypts social media passwords that are still stored as plain text
+ * - With --rewrap: re-wraps every couple data key with the current
+ *   WALLET_MASTER_KEY (use after rotating the master key; keep the old key in
+ *   WALLET_PREVIOUS_MASTER_KEYS until this has run)
+ */
+
+const mongoose = require('mongoose');
+require('dotenv').config();
+
+const migrateWalletEncryption = async () => {
+  try {
+    const walletCryptoService = require('../dist/services/walletCryptoService').default;
+
+    const mongoUri = process.env.MONGODB_URI || 'mongodb://localhost:27017/bond-mate';
+    await mongoose.connect(mongoUri);
+    console.log('✅ Connected to MongoDB');
+
+    if (process.argv.includes('--rewrap')) {
+      console.log('🔑 Re-wrapping wallet data keys with the current master key...');
+      const rewrapped = await walletCryptoService.rewrapDataKeys();
+      console.log(`✅ Re-wrapped ${rewrapped} data keys`);
+    }
+
+    console.log('🔒 Encrypting plaintext wallet passwords...');
+    const migrated = await walletCryptoService.migratePlaintextItems();
+    console.log(`✅ Encrypted ${migrated} wallet items`);
+
+    await mongoose.disconnect();
+    process.exit(0);
+  } catch (error) {
+    console.error('❌ Wallet encryption migration failed:', error);
+    await mongoose.disconnect();
+    process.exit(1);
+  }
+};
+
+migrateWalletEncryption();
@@ -1,3 +1,5 @@
+import os from 'os';
+import path from 'path';
 import dotenv from 'dotenv';
 
 dotenv.config();
@@ -21,6 +23,66 @@ export const config = {
   upload: {
     maxFileSize: parseInt(process.env.MAX_FILE_SIZE || '10485760', 10), // 10MB
     path: process.env.UPLOAD_PATH || './uploads',
+    // Multer writes here first; files move to the storage backend once processed
+    tempPath: process.env.UPLOAD_TEMP_PATH || path.join(os.tmpdir(), 'bond-mate-uploads'),
+  },
+  malwareScan: {
+    // clamd socket (unix socket path, or host:port); uploads aren't scanned when unset
+    clamavSocket: process.env.CLAMAV_SOCKET || '',
+    timeoutMs: parseInt(process.env.CLAMAV_TIMEOUT_MS || '30000', 10),
+    // Refuse uploads while the scanner is unreachable instead of storing them unscanned
+    failClosed: process.env.CLAMAV_FAIL_CLOSED === 'true',
+  },
+  resumableUploads: {
+    maxFileSize: parseInt(process.env.RESUMABLE_UPLOAD_MAX_SIZE || '524288000', 10), // 500MB
+    chunkMaxBytes: parseInt(process.env.RESUMABLE_UPLOAD_CHUNK_MAX_BYTES || '8388608', 10), // 8MB
+    // Partial uploads untouched for this long are deleted by the background worker
+    expiryHours: parseInt(process.env.RESUMABLE_UPLOAD_EXPIRY_HOURS || '24', 10),
+  },
+  storageQuota: {
+    // Bytes each user and each couple may store across chat files, voice notes, diary
+    // images, media items and memories; 0 means no limit
+    userBytes: parseInt(process.env.STORAGE_QUOTA_USER_BYTES || '2147483648', 10), // 2GB
+    coupleBytes: parseInt(process.env.STORAGE_QUOTA_COUPLE_BYTES || '5368709120', 10), // 5GB
+  },
+  diaryExport: {
+    // Finished exports can be downloaded for this long before the file is deleted
+    expiryHours: parseInt(process.env.DIARY_EXPORT_EXPIRY_HOURS || '24', 10),
+    // TrueType/OpenType font for PDF exports; without one PDFs use Helvetica, which
+    // can't draw emoji or non-Latin scripts
+    pdfFontPath: process.env.DIARY_EXPORT_PDF_FONT || '',
+  },
+  calendarFeed: {
+    // Public base URL of this API for calendar feed links (e.g. https://api.example.com);
+    // taken from the request when unset
+    publicBaseUrl: process.env.PUBLIC_API_URL || '',
+  },
+  fileUrls: {
+    // HMAC key for the signed /api/files URLs handed to clients
+    signingSecret: process.env.FILE_URL_SECRET || process.env.JWT_SECRET || 'fallback-file-url-secret',
+    ttlSeconds: parseInt(process.env.FILE_URL_TTL_SECONDS || '3600', 10), // 1 hour
+    oneViewTtlSeconds: 5 * 60,
+    // How long an opened one-view file keeps streaming (video seeks) before it is revoked
+    oneViewGraceSeconds: 2 * 60,
+  },
+  storage: {
+    provider: (process.env.STORAGE_PROVIDER || 'local') as 'local' | 's3' | 'cloudinary',
+    signedUrlTtlSeconds: parseInt(process.env.STORAGE_SIGNED_URL_TTL_SECONDS || '900', 10), // 15 minutes
+    s3: {
+      bucket: process.env.S3_BUCKET || '',
+      region: process.env.S3_REGION || 'us-east-1',
+      endpoint: process.env.S3_ENDPOINT || '', // set for MinIO and other S3-compatible stores
+      forcePathStyle: process.env.S3_FORCE_PATH_STYLE === 'true',
+      accessKeyId: process.env.S3_ACCESS_KEY_ID || '',
+      secretAccessKey: process.env.S3_SECRET_ACCESS_KEY || '',
+      keyPrefix: process.env.S3_KEY_PREFIX || '',
+    },
+    cloudinary: {
+      cloudName: process.env.CLOUDINARY_CLOUD_NAME || '',
+      apiKey: process.env.CLOUDINARY_API_KEY || '',
+      apiSecret: process.env.CLOUDINARY_API_SECRET || '',
+      folder: process.env.CLOUDINARY_FOLDER || 'bond-mate',
+    },
   },
   email: {
     host: process.env.SMTP_HOST || '',
@@ -28,7 +90,42 @@ export const config = {
     user: process.env.SMTP_USER || '',
     pass: process.env.SMTP_PASS || '',
   },
+  wallet: {
+    // Master key wrapping the per-couple wallet data keys
+    masterKey: process.env.WALLET_MASTER_KEY || 'fallback-wallet-master-key',
+    masterKeyId: process.env.WALLET_MASTER_KEY_ID || 'v1',
+    // Retired master keys still needed to unwrap old data keys, as "id:key,id:key"
+    previousMasterKeys: process.env.WALLET_PREVIOUS_MASTER_KEYS || '',
+  },
+  linkPreview: {
+    enabled: process.env.LINK_PREVIEWS_ENABLED !== 'false',
+    timeoutMs: parseInt(process.env.LINK_PREVIEW_TIMEOUT_MS || '5000', 10),
+    maxBytes: parseInt(process.env.LINK_PREVIEW_MAX_BYTES || '524288', 10), // 512KB
+    cacheTtlSeconds: parseInt(process.env.LINK_PREVIEW_CACHE_TTL_SECONDS || '21600', 10), // 6 hours
+    failureCacheTtlSeconds: 30 * 60,
+  },
+  media: {
+    // Used for video poster frames, duration and metadata stripping
+    ffmpegPath: process.env.FFMPEG_PATH || 'ffmpeg',
+    ffprobePath: process.env.FFPROBE_PATH || 'ffprobe',
+    voiceMaxDurationSeconds: parseInt(process.env.VOICE_MAX_DURATION_SECONDS || '300', 10), // 5 minutes
+    voiceWaveformLength: 64, // number of peaks stored per voice message
+  },
+  eventJournal: {
+    // How long missed socket events are kept for reconnecting clients
+    retentionHours: parseInt(process.env.EVENT_JOURNAL_RETENTION_HOURS || '72', 10),
+  },
   redis: {
     url: process.env.REDIS_URL || 'redis://localhost:6379',
   },
 };
+
+// Without it every couple's wallet would be encrypted under the publicly known fallback key
+if (config.nodeEnv === 'production' && !process.env.WALLET_MASTER_KEY) {
+  throw new Error('WALLET_MASTER_KEY must be set in production');
+}
+
+// Anyone who knows the fallback could sign links to any stored file
+if (config.nodeEnv === 'production' && !process.env.FILE_URL_SECRET && !process.env.JWT_SECRET) {
+  throw new Error('FILE_URL_SECRET or JWT_SECRET must be set in production');
+}
@@ -90,7 +90,7 @@ async function calculateXP(userId: string, partnerId?: string): Promise<number>
   totalXP += achievements.reduce((sum, ach) => sum + (ach.xpReward || 0), 0);
 
   // XP from diary entries (5 XP per entry)
-  const diaryCount = await DiaryEntry.countDocuments({ authorId: userId, isDeleted: false });
+  const diaryCount = await DiaryEntry.countDocuments({ authorId: userId, isDeleted: false, status: { $ne: 'draft' } });
   totalXP += diaryCount * 5;
 
   return totalXP;
@@ -256,7 +256,7 @@ async function getCoupleStats(userId: string, partnerId: string): Promise<{
   const streakInfo = await calculateStreak(userId, partnerId);
 
   // Goals completed (from diary entries or other sources)
-  const goalsCompleted = await DiaryEntry.countDocuments({ authorId: userId, isDeleted: false });
+  const goalsCompleted = await DiaryEntry.countDocuments({ authorId: userId, isDeleted: false, status: { $ne: 'draft' } });
 
   return {
     messagesExchanged,
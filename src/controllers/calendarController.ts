@@ -1,9 +1,78 @@
 import { Request, Response } from 'express';
 import { asyncHandler, AppError } from '@/middleware/errorHandler';
-import CalendarNote from '@/models/CalendarNote';
+import CalendarNote, { ICalendarNote, ICalendarRecurrence } from '@/models/CalendarNote';
 import User from '@/models/User';
+import calendarRecurrenceService from '@/services/calendarRecurrenceService';
+import calendarReminderService, { ReminderFields } from '@/services/calendarReminderService';
 import { getSocketHandler } from '@/socket/socketHandler';
 
+// Fields recorded in an update's audit entry
+const AUDITED_NOTE_FIELDS = [
+  'text', 'privacy', 'tags', 'recurrence',
+  'reminderOffsets', 'reminderAt', 'reminderOccurrence', 'reminderSent'
+] as const;
+
+// Validate a { rrule, timezone } (or bare RRULE) body field into a fresh recurrence (no exceptions or overrides yet)
+const buildRecurrence = (date: Date, input: any): ICalendarRecurrence => {
+  if (typeof input === 'string') input = { rrule: input };
+  if (typeof input !== 'object') {
+    throw new AppError('recurrence must be an RRULE or an object with an rrule', 400);
+  }
+
+  const recurrence: ICalendarRecurrence = {
+    rrule: calendarRecurrenceService.normalizeRule(input.rrule),
+    timezone: calendarRecurrenceService.parseTimezone(input.timezone),
+    exdates: [],
+    overrides: []
+  };
+  recurrence.endsAt = calendarRecurrenceService.computeEndsAt(date, recurrence);
+  return recurrence;
+};
+
+// reminderOffsets (one offset or a list); reminderOffsetMinutes is the older single-offset name
+const readReminderOffsets = (body: any): unknown => body.reminderOffsets ?? body.reminderOffsetMinutes;
+
+// A fixed reminder time as the offset before the note's start (at the start if it's later)
+const offsetBefore = (date: Date, reminderAt: unknown): number[] | undefined =>
+  calendarReminderService.parseOffsets(Math.max(Math.round((date.getTime() - new Date(reminderAt as string).getTime()) / 60000), 0));
+
+const parseOccurrenceDate = (value: string): Date => {
+  const date = new Date(value);
+  if (isNaN(date.getTime())) {
+    throw new AppError('Invalid occurrence date', 400);
+  }
+  return date;
+};
+
+// Load the caller's recurring note and check `occurrenceDate` is one of its occurrences
+const findOwnOccurrence = async (noteId: string, userId: string, occurrenceDate: string) => {
+  const note = await CalendarNote.findById(noteId);
+  if (!note || note.isDeleted) {
+    throw new AppError('Note not found', 404);
+  }
+  if (note.authorId !== userId) {
+    throw new AppError('You can only change your own notes', 403);
+  }
+  if (!note.recurrence) {
+    throw new AppError('Note does not repeat', 400);
+  }
+
+  const originalDate = parseOccurrenceDate(occurrenceDate);
+  if (!calendarRecurrenceService.isOccurrence(note, originalDate)) {
+    throw new AppError('Occurrence not found', 404);
+  }
+  return { note, recurrence: note.recurrence, originalDate };
+};
+
+// After exceptions or overrides change: refresh the series end and the pending reminder
+const refreshSeries = (note: ICalendarNote) => {
+  if (!note.recurrence) return;
+  note.recurrence.endsAt = calendarRecurrenceService.computeEndsAt(note.date, note.recurrence);
+  if (note.reminderOffsets?.length) {
+    note.set(calendarReminderService.schedule(note));
+  }
+};
+
 // Get calendar notes
 export const getCalendarNotes = asyncHandler(async (req: Request, res: Response) => {
   const userId = req.user?.userId;
@@ -22,12 +91,26 @@ export const getCalendarNotes = asyncHandler(async (req: Request, res: Response)
     ]
   };
 
-  // Date range filter
+  // Date range filter; recurring notes match while their series overlaps the range
+  let rangeStart: Date | undefined;
+  let rangeEnd: Date | undefined;
   if (start && end) {
-    query.date = {
-      $gte: new Date(start as string),
-      $lte: new Date(end as string)
-    };
+    rangeStart = new Date(start as string);
+    rangeEnd = new Date(end as string);
+    if (isNaN(rangeStart.getTime()) || isNaN(rangeEnd.getTime())) {
+      throw new AppError('Invalid start or end date', 400);
+    }
+
+    query.$and = [{
+      $or: [
+        { recurrence: { $exists: false }, date: { $gte: rangeStart, $lte: rangeEnd } },
+        {
+          recurrence: { $exists: true },
+          date: { $lte: rangeEnd },
+          $or: [{ 'recurrence.endsAt': { $exists: false } }, { 'recurrence.endsAt': { $gte: rangeStart } }]
+        }
+      ]
+    }];
   }
 
   // Tags filter
@@ -45,14 +128,31 @@ export const getCalendarNotes = asyncHandler(async (req: Request, res: Response)
 
   const notes = await CalendarNote.find(query)
     .sort({ date: -1, createdAt: -1 })
-    .limit(100);
+    .limit(rangeStart ? 500 : 100);
 
   console.log('Found calendar notes:', notes.length);
 
+  // Within a range, recurring notes are returned once per occurrence
+  const data = rangeStart && rangeEnd
+    ? notes
+      .flatMap((note): any[] => {
+        if (!note.recurrence) return [note.toObject()];
+        return calendarRecurrenceService.expand(note, rangeStart as Date, rangeEnd as Date).map(occurrence => ({
+          ...note.toObject(),
+          date: occurrence.date,
+          text: occurrence.text,
+          tags: occurrence.tags,
+          occurrenceDate: occurrence.originalDate,
+          isOverridden: occurrence.isOverridden
+        }));
+      })
+      .sort((a, b) => b.date.getTime() - a.date.getTime() || b.createdAt.getTime() - a.createdAt.getTime())
+    : notes;
+
   res.json({
     success: true,
     message: 'Calendar notes retrieved successfully',
-    data: notes
+    data
   });
 });
 
@@ -69,20 +169,38 @@ export const createCalendarNote = asyncHandler(async (req: Request, res: Respons
     throw new AppError('Date, text, and author name are required', 400);
   }
 
+  const noteDate = new Date(date);
+  if (isNaN(noteDate.getTime())) {
+    throw new AppError('Invalid date', 400);
+  }
+
+  // Reminders are offsets before the start (of each occurrence, for repeating notes).
+  // One-off notes may instead have a fixed reminderAt; repeating ones take it as an offset.
+  const recurrence = req.body.recurrence ? buildRecurrence(noteDate, req.body.recurrence) : undefined;
+  let reminderOffsets = calendarReminderService.parseOffsets(readReminderOffsets(req.body));
+  if (recurrence && reminderOffsets === undefined && reminderAt) {
+    reminderOffsets = offsetBefore(noteDate, reminderAt);
+  }
+
+  const reminder: ReminderFields = reminderOffsets?.length
+    ? calendarReminderService.schedule({ date: noteDate, text, tags, recurrence, reminderOffsets })
+    : { reminderAt: reminderAt ? new Date(reminderAt) : undefined, reminderSent: false };
+
   // Get user's partner ID
   const user = await User.findById(userId).select('partners');
   const partnerId = user?.partners?.[0]?.partnerId || null;
 
   const note = await CalendarNote.create({
     partnerId,
-    date: new Date(date),
+    date: noteDate,
     text: text.trim(),
     authorId: userId,
     authorName: authorName.trim(),
     privacy,
     tags: Array.isArray(tags) ? tags : [],
-    reminderAt: reminderAt ? new Date(reminderAt) : undefined,
-    reminderSent: false,
+    ...reminder,
+    reminderOffsets: reminderOffsets?.length ? reminderOffsets : undefined,
+    recurrence,
     auditTrail: [{
       action: 'created',
       userId,
@@ -138,7 +256,58 @@ export const updateCalendarNote = asyncHandler(async (req: Request, res: Respons
   if (text !== undefined) updateData.text = text.trim();
   if (privacy !== undefined) updateData.privacy = privacy;
   if (tags !== undefined) updateData.tags = Array.isArray(tags) ? tags : [];
-  if (reminderAt !== undefined) updateData.reminderAt = reminderAt ? new Date(reminderAt) : undefined;
+
+  // A new rule starts over without the old exceptions and overrides; null stops repeating
+  let recurrence = note.recurrence;
+  if (req.body.recurrence !== undefined) {
+    recurrence = req.body.recurrence ? buildRecurrence(note.date, req.body.recurrence) : undefined;
+    if (recurrence) {
+      updateData.recurrence = recurrence;
+    } else {
+      updateData.$unset = { recurrence: 1 };
+    }
+  }
+
+  // New offsets or a new fixed reminderAt replace the note's reminders
+  const offsetsInput = readReminderOffsets(req.body);
+  let reminderOffsets = offsetsInput !== undefined ? calendarReminderService.parseOffsets(offsetsInput) : note.reminderOffsets;
+  if (offsetsInput === undefined && reminderAt !== undefined) {
+    reminderOffsets = recurrence && reminderAt ? offsetBefore(note.date, reminderAt) : undefined;
+  }
+
+  if (reminderOffsets?.length) {
+    updateData.reminderOffsets = reminderOffsets;
+    Object.assign(updateData, calendarReminderService.schedule({
+      date: note.date,
+      text: updateData.text ?? note.text,
+      tags: updateData.tags ?? note.tags,
+      recurrence,
+      reminderOffsets
+    }));
+    if (!updateData.reminderOccurrence) {
+      delete updateData.reminderOccurrence;
+      updateData.$unset = { ...updateData.$unset, reminderOccurrence: 1 };
+    }
+  } else if (offsetsInput !== undefined || reminderAt !== undefined) {
+    updateData.$unset = { ...updateData.$unset, reminderOffsets: 1, reminderOccurrence: 1 };
+    if (reminderAt) {
+      updateData.reminderAt = new Date(reminderAt);
+      updateData.reminderSent = false;
+    } else {
+      // Reminders switched off
+      updateData.$unset.reminderAt = 1;
+    }
+  }
+
+  // Only the note's own fields go in the audit trail; cleared ones are recorded as null
+  const changes: Record<string, unknown> = {};
+  AUDITED_NOTE_FIELDS.forEach(field => {
+    if (updateData[field] !== undefined) {
+      changes[field] = updateData[field];
+    } else if (updateData.$unset?.[field]) {
+      changes[field] = null;
+    }
+  });
 
   updateData.updatedAt = new Date();
   
@@ -148,7 +317,7 @@ export const updateCalendarNote = asyncHandler(async (req: Request, res: Respons
     userId,
     userName: note.authorName,
     timestamp: new Date().toISOString(),
-    changes: { ...updateData }
+    changes
   };
 
   updateData.$push = {
@@ -254,7 +423,16 @@ export const restoreCalendarNote = asyncHandler(async (req: Request, res: Respon
     }
   };
 
-  const restoredNote = await CalendarNote.findByIdAndUpdate(noteId, updateData, { new: true });
+  let restoredNote;
+  try {
+    restoredNote = await CalendarNote.findByIdAndUpdate(noteId, updateData, { new: true });
+  } catch (error) {
+    // Deleted imported notes leave the UID index, so the event may have been imported again since
+    if ((error as { code?: number }).code === 11000) {
+      throw new AppError('This event has been imported again since the note was deleted', 409);
+    }
+    throw error;
+  }
 
   console.log('Restored calendar note:', noteId);
 
@@ -290,7 +468,8 @@ export const getAuditTrail = asyncHandler(async (req: Request, res: Response) =>
   });
 });
 
-// Get reminders
+// Get the caller's pending reminders. The server delivers them as push notifications
+// when due, so clients no longer need to poll this.
 export const getReminders = asyncHandler(async (req: Request, res: Response) => {
   const userId = req.user?.userId;
 
@@ -298,13 +477,14 @@ export const getReminders = asyncHandler(async (req: Request, res: Response) =>
     throw new AppError('Authentication required', 401);
   }
 
-  const now = new Date();
   const reminders = await CalendarNote.find({
     authorId: userId,
     isDeleted: false,
-    reminderAt: { $lte: now },
+    reminderAt: { $exists: true },
     reminderSent: false
-  }).sort({ reminderAt: 1 });
+  })
+    .sort({ reminderAt: 1 })
+    .limit(100);
 
   res.json({
     success: true,
@@ -313,7 +493,8 @@ export const getReminders = asyncHandler(async (req: Request, res: Response) =>
   });
 });
 
-// Mark reminder as sent
+// Dismiss the pending reminder so the server doesn't deliver it (kept for clients
+// that still report reminders they showed themselves)
 export const markReminderSent = asyncHandler(async (req: Request, res: Response) => {
   const userId = req.user?.userId;
   const { noteId } = req.params;
@@ -331,11 +512,129 @@ export const markReminderSent = asyncHandler(async (req: Request, res: Response)
     throw new AppError('You can only mark reminders of your own notes', 403);
   }
 
-  note.reminderSent = true;
-  await note.save();
+  // Notes with more reminders to come move on to the next one
+  if (!note.reminderSent) {
+    await calendarReminderService.advance(note);
+  }
 
   res.json({
     success: true,
     message: 'Reminder marked as sent'
   });
 });
+
+// Change one occurrence of a recurring note (move it, or give it its own text or tags).
+// `reset: true` drops the override again.
+export const updateOccurrence = asyncHandler(async (req: Request, res: Response) => {
+  const userId = req.user?.userId;
+  const { noteId, occurrenceDate } = req.params;
+  const { date, text, tags, reset } = req.body;
+
+  if (!userId) {
+    throw new AppError('Authentication required', 401);
+  }
+
+  const { note, recurrence, originalDate } = await findOwnOccurrence(noteId, userId, occurrenceDate);
+  if (recurrence.exdates.some(exdate => exdate.getTime() === originalDate.getTime())) {
+    throw new AppError('Occurrence is cancelled', 400);
+  }
+
+  const overrides = recurrence.overrides.filter(override => override.originalDate.getTime() !== originalDate.getTime());
+  const existing = recurrence.overrides.find(override => override.originalDate.getTime() === originalDate.getTime());
+
+  if (!reset) {
+    if (typeof text === 'string' && text.length > 600) {
+      throw new AppError('Text cannot exceed 600 characters', 400);
+    }
+    const movedTo = date !== undefined && date !== null ? parseOccurrenceDate(date) : existing?.date;
+    overrides.push({
+      originalDate,
+      date: movedTo && movedTo.getTime() !== originalDate.getTime() ? movedTo : undefined,
+      text: typeof text === 'string' ? text.trim() : existing?.text,
+      tags: Array.isArray(tags) ? tags : existing?.tags
+    });
+  }
+
+  recurrence.overrides = overrides;
+  note.auditTrail.push({
+    action: 'updated',
+    userId,
+    userName: note.authorName,
+    timestamp: new Date(),
+    changes: { occurrence: originalDate, override: reset ? null : overrides[overrides.length - 1] }
+  });
+  refreshSeries(note);
+  await note.save();
+
+  res.json({
+    success: true,
+    message: reset ? 'Occurrence reset' : 'Occurrence updated',
+    data: note
+  });
+});
+
+// Cancel one occurrence of a recurring note (an RRULE exception)
+export const cancelOccurrence = asyncHandler(async (req: Request, res: Response) => {
+  const userId = req.user?.userId;
+  const { noteId, occurrenceDate } = req.params;
+
+  if (!userId) {
+    throw new AppError('Authentication required', 401);
+  }
+
+  const { note, recurrence, originalDate } = await findOwnOccurrence(noteId, userId, occurrenceDate);
+  if (recurrence.exdates.some(exdate => exdate.getTime() === originalDate.getTime())) {
+    throw new AppError('Occurrence already cancelled', 400);
+  }
+
+  recurrence.exdates.push(originalDate);
+  recurrence.overrides = recurrence.overrides.filter(override => override.originalDate.getTime() !== originalDate.getTime());
+  note.auditTrail.push({
+    action: 'updated',
+    userId,
+    userName: note.authorName,
+    timestamp: new Date(),
+    changes: { occurrence: originalDate, cancelled: true }
+  });
+  refreshSeries(note);
+  await note.save();
+
+  res.json({
+    success: true,
+    message: 'Occurrence cancelled',
+    data: note
+  });
+});
+
+// Bring back a cancelled occurrence
+export const restoreOccurrence = asyncHandler(async (req: Request, res: Response) => {
+  const userId = req.user?.userId;
+  const { noteId, occurrenceDate } = req.params;
+
+  if (!userId) {
+    throw new AppError('Authentication required', 401);
+  }
+
+  const { note, recurrence, originalDate } = await findOwnOccurrence(noteId, userId, occurrenceDate);
+  const exdates = recurrence.exdates.filter(exdate => exdate.getTime() !== originalDate.getTime());
+  if (exdates.length === recurrence.exdates.length) {
+    throw new AppError('Occurrence is not cancelled', 400);
+  }
+
+  recurrence.exdates = exdates;
+  note.auditTrail.push({
+    action: 'updated',
+    userId,
+    userName: note.authorName,
+    timestamp: new Date(),
+    changes: { occurrence: originalDate, cancelled: false }
+  });
+  refreshSeries(note);
+  await note.save();
+
+  res.json({
+    success: true,
+    message: 'Occurrence restored',
+    data: note
+  });
+});
@@ -0,0 +1,138 @@
+import { Request, Response } from 'express';
+import multer from 'multer';
+import { asyncHandler, AppError } from '@/middleware/errorHandler';
+import User from '@/models/User';
+import calendarFeedService from '@/services/calendarFeedService';
+import { getSocketHandler } from '@/socket/socketHandler';
+import { config } from '@/config/env';
+
+const MAX_ICS_FILE_SIZE = 1024 * 1024; // 1MB
+
+// .ics imports are parsed straight from memory, never stored
+export const icsUpload = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: MAX_ICS_FILE_SIZE, files: 1 },
+  fileFilter: (req, file, cb) => {
+    if (file.mimetype === 'text/calendar' || file.originalname.toLowerCase().endsWith('.ics')) {
+      cb(null, true);
+    } else {
+      cb(new AppError('Only .ics files can be imported', 400));
+    }
+  }
+});
+
+const feedUrls = (req: Request, token: string) => {
+  const baseUrl = config.calendarFeed.publicBaseUrl || `${req.protocol}://${req.get('host')}`;
+  const url = `${baseUrl.replace(/\/$/, '')}/api/calendar/feed/${token}.ics`;
+  return { url, webcalUrl: url.replace(/^https?:/, 'webcal:') };
+};
+
+// Whether the caller has a feed link (the link itself is only shown when created)
+export const getFeedStatus = asyncHandler(async (req: Request, res: Response) => {
+  const userId = req.user?.userId;
+
+  if (!userId) {
+    throw new AppError('Authentication required', 401);
+  }
+
+  const feed = await calendarFeedService.getFeed(userId);
+
+  res.json({
+    success: true,
+    message: 'Calendar feed status retrieved successfully',
+    data: {
+      active: !!feed,
+      createdAt: feed?.createdAt,
+      lastAccessedAt: feed?.lastAccessedAt
+    }
+  });
+});
+
+// Create the caller's feed link, or replace it (the old link stops working)
+export const createFeedToken = asyncHandler(async (req: Request, res: Response) => {
+  const userId = req.user?.userId;
+
+  if (!userId) {
+    throw new AppError('Authentication required', 401);
+  }
+
+  const { token, feed } = await calendarFeedService.issueToken(userId);
+
+  res.status(201).json({
+    success: true,
+    message: 'Calendar feed link created. Keep it private: anyone with it can read your calendar.',
+    data: {
+      ...feedUrls(req, token),
+      createdAt: feed.createdAt
+    }
+  });
+});
+
+// Revoke the caller's feed link
+export const revokeFeedToken = asyncHandler(async (req: Request, res: Response) => {
+  const userId = req.user?.userId;
+
+  if (!userId) {
+    throw new AppError('Authentication required', 401);
+  }
+
+  if (!(await calendarFeedService.revokeToken(userId))) {
+    throw new AppError('No calendar feed to revoke', 404);
+  }
+
+  res.json({
+    success: true,
+    message: 'Calendar feed link revoked'
+  });
+});
+
+// The iCalendar feed itself; authenticated only by the secret token in the URL
+export const serveFeed = asyncHandler(async (req: Request, res: Response) => {
+  const calendar = await calendarFeedService.renderFeed(req.params.token);
+
+  res.setHeader('Content-Type', 'text/calendar; charset=utf-8');
+  res.setHeader('Content-Disposition', 'inline; filename="calendar.ics"');
+  res.setHeader('Cache-Control', 'private, max-age=300');
+  res.send(calendar);
+});
+
+// Import events from an .ics file (multipart `file`, or the text as `ics`)
+export const importCalendar = asyncHandler(async (req: Request, res: Response) => {
+  const userId = req.user?.userId;
+  const { privacy } = req.body;
+
+  if (!userId) {
+    throw new AppError('Authentication required', 401);
+  }
+
+  const content = req.file ? req.file.buffer.toString('utf8') : req.body.ics;
+  if (typeof content !== 'string' || !content.trim()) {
+    throw new AppError('An .ics file is required', 400);
+  }
+  if (privacy !== undefined && privacy !== 'public' && privacy !== 'private') {
+    throw new AppError('privacy must be public or private', 400);
+  }
+
+  let authorName = typeof req.body.authorName === 'string' ? req.body.authorName.trim() : '';
+  if (!authorName) {
+    const user = await User.findById(userId).select('name');
+    authorName = user?.name || 'Unknown';
+  }
+
+  const result = await calendarFeedService.importCalendar(userId, authorName, content, { privacy });
+
+  const partnerId = result.notes.find(note => note.partnerId && note.privacy === 'public')?.partnerId;
+  const socketHandler = getSocketHandler();
+  if (socketHandler && partnerId) {
+    socketHandler.emitCalendarUpdate(partnerId, 'notes_imported', {
+      count: result.notes.filter(note => note.privacy === 'public').length,
+      authorName
+    });
+  }
+
+  res.status(result.imported > 0 ? 201 : 200).json({
+    success: true,
+    message: `Imported ${result.imported} ${result.imported === 1 ? 'event' : 'events'}`,
+    data: result
+  });
+});
@@ -3,9 +3,19 @@ import { asyncHandler, AppError } from '@/middleware/errorHandler';
 import Chat from '@/models/Chat';
 import Message, { IMessage } from '@/models/Message';
 import User from '@/models/User';
-import Notification from '@/models/Notification';
+import StarredMessage, { IStarredMessage } from '@/models/StarredMessage';
 import { getSocketHandler } from '@/socket/socketHandler';
 import { decodeMessageCursor, encodeMessageCursor } from '@/utils/cursor';
+import disappearingMessageService from '@/services/disappearingMessageService';
+import e2eeService from '@/services/e2eeService';
+import messageReceiptService from '@/services/messageReceiptService';
+import messageDispatchService from '@/services/messageDispatchService';
+import linkPreviewService from '@/services/linkPreviewService';
+import storageService from '@/services/storageService';
+import fileAccessService from '@/services/fileAccessService';
+import { ENCRYPTED_MESSAGE_PREVIEW } from '@/utils/messagePreview';
+import { buildSearchSnippet } from '@/utils/searchSnippet';
+import { isExtensionAllowed } from '@/utils/fileSignature';
 import { FilterQuery, Types } from 'mongoose';
 
 // Get or create chat with current partner
@@ -100,6 +110,177 @@ export const getOrCreateChat = asyncHandler(async (req: Request, res: Response)
   });
 });
 
+// Normalization helpers shared by the message list endpoints
+const normalizeSender = (sender: any) => {
+  if (!sender) {
+    return sender;
+  }
+
+  if (typeof sender === 'object' && sender._id) {
+    return {
+      _id: sender._id.toString(),
+      name: sender.name,
+      avatar: sender.avatar,
+    };
+  }
+
+  return sender.toString();
+};
+
+const normalizeReply = (reply: any) => {
+  if (!reply) {
+    return reply;
+  }
+
+  if (typeof reply === 'object' && reply._id) {
+    return {
+      ...reply,
+      _id: reply._id.toString(),
+      senderId: normalizeSender(reply.senderId),
+    };
+  }
+
+  return reply.toString();
+};
+
+const normalizeObjectIdArray = (values?: Array<Types.ObjectId | string>) =>
+  values?.map((value) => value.toString());
+
+// Ciphertext and key envelopes are passed through untouched; only ids are stringified
+const normalizeKeyEnvelopes = (envelopes?: IMessage['keyEnvelopes']) =>
+  envelopes?.map((envelope) => ({
+    userId: envelope.userId.toString(),
+    deviceId: envelope.deviceId,
+    encryptedKey: envelope.encryptedKey,
+    preKeyId: envelope.preKeyId,
+  }));
+
+const normalizeReactions = (reactions?: Array<{ userId: any; emoji: string }>) => {
+  if (!reactions) {
+    return reactions;
+  }
+
+  return reactions.map((reaction) => {
+    const { userId } = reaction;
+    let normalizedUserId: string;
+
+    if (!userId) {
+      normalizedUserId = '';
+    } else if (typeof userId === 'string') {
+      normalizedUserId = userId;
+    } else if (typeof userId === 'object' && 'toString' in userId) {
+      normalizedUserId = (userId as Types.ObjectId).toString();
+    } else if (typeof userId === 'object' && '_id' in userId) {
+      normalizedUserId = (userId as { _id: Types.ObjectId })._id.toString();
+    } else {
+      normalizedUserId = String(userId);
+    }
+
+    return {
+      emoji: reaction.emoji,
+      userId: normalizedUserId,
+    };
+  });
+};
+
+const serializeMessage = (message: IMessage, starredIds?: Set<string>) => {
+  const plain = message.toObject<IMessage>();
+
+  return {
+    _id: message.id,
+    chatId: message.chatId.toString(),
+    senderId: normalizeSender(plain.senderId),
+    content: plain.content,
+    type: plain.type,
+    fileUrl: plain.fileUrl,
+    fileName: plain.fileName,
+    fileSize: plain.fileSize,
+    mimeType: plain.mimeType,
+    thumbnailUrl: plain.thumbnailUrl,
+    thumbnails: plain.thumbnails?.map(({ size, url, width, height }) => ({ size, url, width, height })),
+    width: plain.width,
+    height: plain.height,
+    mediaStatus: plain.mediaStatus,
+    scanStatus: plain.scanStatus,
+    duration: plain.duration,
+    isOneView: plain.isOneView,
+    viewedBy: normalizeObjectIdArray(plain.viewedBy),
+    viewedAt: plain.viewedAt ? plain.viewedAt.toISOString() : undefined,
+    viewCount: plain.viewCount,
+    replyTo: normalizeReply(plain.replyTo),
+    isEdited: plain.isEdited,
+    editedAt: plain.editedAt ? plain.editedAt.toISOString() : undefined,
+    isDeleted: plain.isDeleted,
+    deletedAt: plain.deletedAt ? plain.deletedAt.toISOString() : undefined,
+    deletedFor: normalizeObjectIdArray(plain.deletedFor),
+    isDeletedForEveryone: plain.isDeletedForEveryone,
+    stickerId: plain.stickerId,
+    stickerUrl: plain.stickerUrl,
+    stickerCategory: plain.stickerCategory,
+    voiceDuration: plain.voiceDuration,
+    voiceWaveform: plain.voiceWaveform ? [...plain.voiceWaveform] : undefined,
+    reactions: normalizeReactions(plain.reactions),
+    createdAt: message.createdAt.toISOString(),
+    updatedAt: message.updatedAt?.toISOString(),
+    isEncrypted: plain.isEncrypted,
+    ciphertext: plain.ciphertext,
+    keyEnvelopes: normalizeKeyEnvelopes(plain.keyEnvelopes),
+    expiresAt: plain.expiresAt ? plain.expiresAt.toISOString() : undefined,
+    status: plain.status,
+    deliveredAt: plain.deliveredAt ? plain.deliveredAt.toISOString() : undefined,
+    readAt: plain.readAt ? plain.readAt.toISOString() : undefined,
+    isPinned: plain.isPinned,
+    pinnedBy: plain.pinnedBy?.toString(),
+    pinnedAt: plain.pinnedAt ? plain.pinnedAt.toISOString() : undefined,
+    isStarred: starredIds ? starredIds.has(message.id) : undefined,
+    linkPreview: plain.linkPreview,
+  };
+};
+
+// Ids of the given messages that the user has starred
+const getStarredMessageIds = async (userId: string, messages: IMessage[]) => {
+  const stars = await StarredMessage.find({
+    userId,
+    messageId: { $in: messages.map((message) => message._id) },
+  }).select('messageId');
+
+  return new Set(stars.map((star) => star.messageId.toString()));
+};
+
+const MESSAGE_REPLY_POPULATE = {
+  path: 'replyTo',
+  select: 'content type senderId fileUrl thumbnailUrl mimeType isEncrypted',
+  populate: {
+    path: 'senderId',
+    select: 'name avatar',
+  },
+};
+
+// Visibility rules shared by every message list: not deleted for the user, not expired
+const buildVisibilityFilters = (userId: string): FilterQuery<IMessage>[] => [
+  { isDeleted: false },
+  {
+    $or: [
+      { deletedFor: { $ne: new Types.ObjectId(userId) } },
+      { deletedFor: { $exists: false } },
+    ],
+  },
+  // Hide disappearing messages that expired before the sweep removed them
+  {
+    $or: [
+      { expiresAt: { $exists: false } },
+      { expiresAt: null },
+      { expiresAt: { $gt: new Date() } },
+    ],
+  },
+];
+
+// Messages in a chat that the given user is still allowed to see
+const buildVisibleMessageFilters = (chatId: string, userId: string): FilterQuery<IMessage>[] => [
+  { chatId: new Types.ObjectId(chatId) },
+  ...buildVisibilityFilters(userId),
+];
+
 // Get chat messages (cursor-based pagination)
 export const getChatMessages = asyncHandler(async (req: Request, res: Response) => {
   const { chatId } = req.params;
@@ -122,16 +303,7 @@ export const getChatMessages = asyncHandler(async (req: Request, res: Response)
 
   const limitNumber = Math.min(Math.max(Number(limitQuery) || 20, 1), 100);
 
-  const filters: FilterQuery<IMessage>[] = [
-    { chatId: new Types.ObjectId(chatId) },
-    { isDeleted: false },
-    {
-      $or: [
-        { deletedFor: { $ne: new Types.ObjectId(userId) } },
-        { deletedFor: { $exists: false } },
-      ],
-    },
-  ];
+  const filters = buildVisibleMessageFilters(chatId, userId);
 
   if (cursor) {
     const { createdAt, id } = decodeMessageCursor(cursor);
@@ -152,140 +324,203 @@ export const getChatMessages = asyncHandler(async (req: Request, res: Response)
     .sort({ createdAt: -1, _id: -1 })
     .limit(limitNumber + 1)
     .populate('senderId', 'name avatar')
-    .populate({
-      path: 'replyTo',
-      select: 'content type senderId fileUrl thumbnailUrl mimeType',
-      populate: {
-        path: 'senderId',
-        select: 'name avatar',
-      },
-    });
+    .populate(MESSAGE_REPLY_POPULATE);
 
   const hasMore = messages.length > limitNumber;
   const trimmed = hasMore ? messages.slice(0, limitNumber) : messages;
   const ordered = trimmed.reverse();
 
-  const normalizeSender = (sender: any) => {
-    if (!sender) {
-      return sender;
-    }
+  const starredIds = await getStarredMessageIds(userId, ordered);
+  const responseMessages = ordered.map((message) => serializeMessage(message, starredIds));
 
-    if (typeof sender === 'object' && sender._id) {
-      return {
-        _id: sender._id.toString(),
-        name: sender.name,
-        avatar: sender.avatar,
-      };
-    }
+  const nextCursor =
+    hasMore && ordered.length
+      ? encodeMessageCursor({
+          createdAt: ordered[0].createdAt.toISOString(),
+          id: ordered[0].id,
+        })
+      : null;
 
-    return sender.toString();
-  };
+  // Cursor of the newest message on this page, used to mark the chat read
+  const newestMessage = ordered[ordered.length - 1];
+  const readCursor = newestMessage
+    ? encodeMessageCursor({
+      createdAt: newestMessage.createdAt.toISOString(),
+      id: newestMessage.id,
+    })
+    : null;
 
-  const normalizeReply = (reply: any) => {
-    if (!reply) {
-      return reply;
-    }
+  res.json({
+    messages: responseMessages,
+    nextCursor,
+    readCursor,
+    hasMore,
+  });
+});
 
-    if (typeof reply === 'object' && reply._id) {
-      return {
-        ...reply,
-        _id: reply._id.toString(),
-        senderId: normalizeSender(reply.senderId),
-      };
-    }
+const SEARCHABLE_MESSAGE_TYPES: IMessage['type'][] = ['text', 'image', 'video', 'audio', 'file', 'emoji', 'sticker', 'voice', 'pdf', 'system'];
+const SEARCH_CONTEXT_MESSAGES = 10;
 
-    return reply.toString();
-  };
+// Search chat history (text index on content, newest first, cursor-based pagination)
+export const searchChatMessages = asyncHandler(async (req: Request, res: Response) => {
+  const { chatId } = req.params;
+
+  // Repeated query params arrive as arrays (?type=a&type=b)
+  const repeatedParam = ['q', 'type', 'senderId', 'from', 'to', 'limit', 'cursor']
+    .find((name) => req.query[name] !== undefined && typeof req.query[name] !== 'string');
+  if (repeatedParam) {
+    throw new AppError(`${repeatedParam} must be a single value`, 400);
+  }
+
+  const {
+    q,
+    type,
+    senderId,
+    from,
+    to,
+    limit: limitQuery,
+    cursor
+  } = req.query as Record<string, string | undefined>;
+  const userId = req.user?.userId;
+
+  if (!Types.ObjectId.isValid(chatId)) {
+    throw new AppError('Invalid chat ID', 400);
+  }
+
+  const query = q?.trim();
+  if (!query) {
+    throw new AppError('Search query is required', 400);
+  }
+  if (query.length > 200) {
+    throw new AppError('Search query is too long', 400);
+  }
+
+  const chat = await Chat.findById(chatId).select('participants');
+  if (!chat) {
+    throw new AppError('Chat not found', 404);
+  }
+
+  if (!userId || !chat.participants.some((participant) => participant.toString() === userId)) {
+    throw new AppError('Access denied', 403);
+  }
 
-  const normalizeObjectIdArray = (values?: Array<Types.ObjectId | string>) =>
-    values?.map((value) => value.toString());
+  const limitNumber = Math.min(Math.max(Number(limitQuery) || 20, 1), 50);
 
-  const normalizeReactions = (reactions?: Array<{ userId: any; emoji: string }>) => {
-    if (!reactions) {
-      return reactions;
+  const filters = buildVisibleMessageFilters(chatId, userId);
+  filters.push(
+    { isDeletedForEveryone: { $ne: true } },
+    // One-view messages must not be readable outside the single view
+    { isOneView: { $ne: true } }
+  );
+
+  if (type) {
+    const types = type.split(',').map((value) => value.trim()).filter(Boolean);
+    const invalidType = types.find((value) => !SEARCHABLE_MESSAGE_TYPES.includes(value as IMessage['type']));
+    if (invalidType) {
+      throw new AppError(`Invalid message type: ${invalidType}`, 400);
     }
+    filters.push({ type: { $in: types } });
+  }
 
-    return reactions.map((reaction) => {
-      const { userId } = reaction;
-      let normalizedUserId: string;
-
-      if (!userId) {
-        normalizedUserId = '';
-      } else if (typeof userId === 'string') {
-        normalizedUserId = userId;
-      } else if (typeof userId === 'object' && 'toString' in userId) {
-        normalizedUserId = (userId as Types.ObjectId).toString();
-      } else if (typeof userId === 'object' && '_id' in userId) {
-        normalizedUserId = (userId as { _id: Types.ObjectId })._id.toString();
-      } else {
-        normalizedUserId = String(userId);
-      }
+  if (senderId) {
+    if (!chat.participants.some((participant) => participant.toString() === senderId)) {
+      throw new AppError('Sender is not part of this chat', 400);
+    }
+    filters.push({ senderId: new Types.ObjectId(senderId) });
+  }
 
-      return {
-        emoji: reaction.emoji,
-        userId: normalizedUserId,
-      };
+  const fromDate = from ? new Date(from) : undefined;
+  const toDate = to ? new Date(to) : undefined;
+  if ((fromDate && Number.isNaN(fromDate.getTime())) || (toDate && Number.isNaN(toDate.getTime()))) {
+    throw new AppError('Invalid date range', 400);
+  }
+  if (fromDate || toDate) {
+    filters.push({
+      createdAt: {
+        ...(fromDate ? { $gte: fromDate } : {}),
+        ...(toDate ? { $lte: toDate } : {}),
+      },
     });
-  };
+  }
 
-  const responseMessages = ordered.map((message) => {
-    const plain = message.toObject<IMessage>();
+  if (cursor) {
+    let decoded;
+    try {
+      decoded = decodeMessageCursor(cursor);
+    } catch (error) {
+      throw new AppError('Invalid cursor', 400);
+    }
+    const cursorDate = new Date(decoded.createdAt);
+
+    filters.push({
+      $or: [
+        { createdAt: { $lt: cursorDate } },
+        { createdAt: cursorDate, _id: { $lt: new Types.ObjectId(decoded.id) } },
+      ],
+    });
+  }
+
+  // $text must sit at the top level of the query
+  const hits = await Message.find({ $text: { $search: query }, $and: filters })
+    .sort({ createdAt: -1, _id: -1 })
+    .limit(limitNumber + 1)
+    .populate('senderId', 'name avatar');
+
+  const hasMore = hits.length > limitNumber;
+  const trimmed = hasMore ? hits.slice(0, limitNumber) : hits;
+  const starredIds = await getStarredMessageIds(userId, trimmed);
+  const visibleFilters = buildVisibleMessageFilters(chatId, userId);
+
+  const results = await Promise.all(trimmed.map(async (message) => {
+    // Cursor just above the hit so getChatMessages returns it with surrounding messages.
+    // null means the hit is within the newest page.
+    const anchor = await Message.findOne({
+      $and: [
+        ...visibleFilters,
+        {
+          $or: [
+            { createdAt: { $gt: message.createdAt } },
+            { createdAt: message.createdAt, _id: { $gt: message._id } },
+          ],
+        },
+      ],
+    })
+      .sort({ createdAt: 1, _id: 1 })
+      .skip(SEARCH_CONTEXT_MESSAGES)
+      .select('_id createdAt');
 
     return {
-      _id: message.id,
-      chatId: message.chatId.toString(),
-      senderId: normalizeSender(plain.senderId),
-      content: plain.content,
-      type: plain.type,
-      fileUrl: plain.fileUrl,
-      fileName: plain.fileName,
-      fileSize: plain.fileSize,
-      mimeType: plain.mimeType,
-      thumbnailUrl: plain.thumbnailUrl,
-      duration: plain.duration,
-      isOneView: plain.isOneView,
-      viewedBy: normalizeObjectIdArray(plain.viewedBy),
-      viewedAt: plain.viewedAt ? plain.viewedAt.toISOString() : undefined,
-      viewCount: plain.viewCount,
-      replyTo: normalizeReply(plain.replyTo),
-      isEdited: plain.isEdited,
-      editedAt: plain.editedAt ? plain.editedAt.toISOString() : undefined,
-      isDeleted: plain.isDeleted,
-      deletedAt: plain.deletedAt ? plain.deletedAt.toISOString() : undefined,
-      deletedFor: normalizeObjectIdArray(plain.deletedFor),
-      isDeletedForEveryone: plain.isDeletedForEveryone,
-      stickerId: plain.stickerId,
-      stickerUrl: plain.stickerUrl,
-      stickerCategory: plain.stickerCategory,
-      voiceDuration: plain.voiceDuration,
-      voiceWaveform: plain.voiceWaveform ? [...plain.voiceWaveform] : undefined,
-      reactions: normalizeReactions(plain.reactions),
-      createdAt: message.createdAt.toISOString(),
-      updatedAt: message.updatedAt?.toISOString(),
-      encryptionKey: plain.encryptionKey,
-      isEncrypted: plain.isEncrypted,
-      expiresAt: plain.expiresAt ? plain.expiresAt.toISOString() : undefined,
+      message: serializeMessage(message, starredIds),
+      ...buildSearchSnippet(message.content, query),
+      contextCursor: anchor
+        ? encodeMessageCursor({ createdAt: anchor.createdAt.toISOString(), id: anchor.id })
+        : null,
     };
-  });
+  }));
 
+  const lastHit = trimmed[trimmed.length - 1];
   const nextCursor =
-    hasMore && ordered.length
+    hasMore && lastHit
       ? encodeMessageCursor({
-          createdAt: ordered[0].createdAt.toISOString(),
-          id: ordered[0].id,
-        })
+        createdAt: lastHit.createdAt.toISOString(),
+        id: lastHit.id,
+      })
       : null;
 
   res.json({
-    messages: responseMessages,
-    nextCursor,
-    hasMore,
+    success: true,
+    data: {
+      results,
+      contextLimit: SEARCH_CONTEXT_MESSAGES * 2 + 1,
+      nextCursor,
+      hasMore,
+    }
   });
 });
 
 // Send message
 export const sendMessage = asyncHandler(async (req: Request, res: Response) => {
-  const { chatId, content, type = 'text', replyTo, isOneView = false } = req.body;
+  const { chatId, content, type = 'text', replyTo, isOneView = false, ttlSeconds, isEncrypted = false, ciphertext, keyEnvelopes } = req.body;
   const userId = req.user?.userId;
 
   const chat = await Chat.findById(chatId);
@@ -298,13 +533,30 @@ export const sendMessage = asyncHandler(async (req: Request, res: Response) => {
     throw new AppError('Access denied', 403);
   }
 
+  if (type === 'system') {
+    throw new AppError('System messages cannot be sent directly', 400);
+  }
+
+  // End-to-end encrypted messages store only the opaque payload, never plaintext
+  const encryptedPayload = isEncrypted
+    ? e2eeService.validateEncryptedPayload(chat, userId, { ciphertext, keyEnvelopes })
+    : undefined;
+
+  if (encryptedPayload && !['text', 'emoji'].includes(type)) {
+    throw new AppError('Only text messages can be end-to-end encrypted', 400);
+  }
+
   const message = await Message.create({
     chatId,
     senderId: userId,
-    content,
+    content: encryptedPayload ? undefined : content,
     type,
     replyTo,
-    isOneView
+    isOneView,
+    isEncrypted: !!encryptedPayload,
+    ciphertext: encryptedPayload?.ciphertext,
+    keyEnvelopes: encryptedPayload?.keyEnvelopes,
+    expiresAt: disappearingMessageService.resolveExpiresAt(chat, ttlSeconds)
   });
 
   // Populate all fields including replyTo
@@ -314,7 +566,7 @@ export const sendMessage = asyncHandler(async (req: Request, res: Response) => {
   if (replyTo) {
     await message.populate({
       path: 'replyTo',
-      select: 'content type senderId fileUrl',
+      select: 'content type senderId fileUrl isEncrypted',
       populate: {
         path: 'senderId',
         select: 'name avatar'
@@ -322,64 +574,90 @@ export const sendMessage = asyncHandler(async (req: Request, res: Response) => {
     });
   }
 
-  // Update chat last message
-  chat.lastMessage = message._id as any;
-  chat.lastMessageAt = new Date();
-  await chat.save();
+  await messageDispatchService.dispatch(chat, message, userId);
+
+  res.json({
+    success: true,
+    message: 'Message sent successfully',
+    data: { message }
+  });
+});
 
-  // Get other participant
-  const otherParticipant = chat.participants.find(p => p.toString() !== userId);
+// Set the chat's default disappearing messages timer (either partner)
+export const updateDisappearingMessages = asyncHandler(async (req: Request, res: Response) => {
+  const { chatId } = req.params;
+  const { ttlSeconds } = req.body;
+  const userId = req.user?.userId;
 
-  // Create notification for other participant
-  await Notification.create({
-    userId: otherParticipant,
-    type: 'message',
-    title: 'New Message',
-    message: type === 'text' ? content : `Sent a ${type}`,
-    data: { chatId, messageId: message._id }
+  const chat = await Chat.findById(chatId);
+  if (!chat) {
+    throw new AppError('Chat not found', 404);
+  }
+
+  // Check if user is participant
+  if (!userId || !chat.participants.some(p => p.toString() === userId)) {
+    throw new AppError('Access denied', 403);
+  }
+
+  const ttl = disappearingMessageService.parseTtl(ttlSeconds);
+  if ((chat.defaultMessageTtl || null) === ttl) {
+    return res.json({
+      success: true,
+      message: 'Disappearing messages setting unchanged',
+      data: { chatId, ttlSeconds: ttl }
+    });
+  }
+
+  chat.defaultMessageTtl = ttl || undefined;
+  chat.defaultMessageTtlUpdatedBy = new Types.ObjectId(userId);
+  chat.defaultMessageTtlUpdatedAt = new Date();
+
+  const user = await User.findById(userId).select('name');
+  const description = disappearingMessageService.describeTtl(ttl);
+
+  // Record the change in the conversation itself; the notice never expires
+  const systemMessage = await Message.create({
+    chatId,
+    senderId: userId,
+    content: ttl
+      ? `${user?.name || 'Your partner'} set disappearing messages to ${description}`
+      : `${user?.name || 'Your partner'} turned off disappearing messages`,
+    type: 'system'
   });
 
-  // Emit socket event to chat participants
+  chat.lastMessage = systemMessage._id as any;
+  chat.lastMessageAt = new Date();
+  await chat.save();
+
+  await systemMessage.populate('senderId', 'name avatar');
+
   const socketHandler = getSocketHandler();
-  console.log('🔌 Socket handler available:', !!socketHandler);
-  
   if (socketHandler) {
-    console.log('📡 Broadcasting message via socket to chat:', chatId);
-    console.log('📡 Message data:', {
-      _id: message._id,
-      content: message.content,
-      senderId: message.senderId,
-      createdAt: message.createdAt,
-      type: message.type
-    });
-    
-    // Send to chat room only (participants will receive via room membership)
     socketHandler.sendMessageToChat(chatId, {
       chatId,
       message: {
-        _id: message._id,
-        content: message.content,
-        senderId: message.senderId,
-        createdAt: message.createdAt,
-        type: message.type,
-        fileUrl: message.fileUrl,
-        thumbnailUrl: message.thumbnailUrl,
-        isOneView: message.isOneView,
-        viewedBy: message.viewedBy,
-        viewCount: message.viewCount,
-        replyTo: message.replyTo
+        _id: systemMessage._id,
+        content: systemMessage.content,
+        senderId: systemMessage.senderId,
+        createdAt: systemMessage.createdAt,
+        type: systemMessage.type
       }
     });
-    
-    console.log('✅ Socket message broadcast completed');
-  } else {
-    console.log('❌ Socket handler not available - message sent via API only');
+
+    chat.participants.forEach(participant => {
+      socketHandler.emitToUser(participant.toString(), 'disappearing_messages_updated', {
+        chatId,
+        ttlSeconds: ttl,
+        updatedBy: userId,
+        updatedAt: chat.defaultMessageTtlUpdatedAt
+      });
+    });
   }
 
-  res.json({
+  return res.json({
     success: true,
-    message: 'Message sent successfully',
-    data: { message }
+    message: 'Disappearing messages updated',
+    data: { chatId, ttlSeconds: ttl, message: systemMessage }
   });
 });
 
@@ -465,10 +743,70 @@ export const getUserChats = asyncHandler(async (req: Request, res: Response) =>
     .populate('lastMessage')
     .sort({ lastMessageAt: -1 });
 
+  const unreadCounts = await messageReceiptService.getUnreadCounts(
+    userId as string,
+    chats.map(chat => chat._id as Types.ObjectId)
+  );
+
   res.json({
     success: true,
     message: 'Chats retrieved successfully',
-    data: { chats }
+    data: {
+      chats: chats.map(chat => ({
+        ...chat.toJSON(),
+        unreadCount: unreadCounts.get(chat.id) || 0
+      }))
+    }
+  });
+});
+
+// Mark a chat as read up to a message cursor (defaults to the newest message)
+export const markChatAsRead = asyncHandler(async (req: Request, res: Response) => {
+  const { chatId } = req.params;
+  const { cursor } = req.body;
+  const userId = req.user?.userId;
+
+  if (!Types.ObjectId.isValid(chatId)) {
+    throw new AppError('Invalid chat ID', 400);
+  }
+
+  const chat = await Chat.findById(chatId);
+  if (!chat) {
+    throw new AppError('Chat not found', 404);
+  }
+
+  if (!userId || !chat.participants.some(p => p.toString() === userId)) {
+    throw new AppError('Access denied', 403);
+  }
+
+  const { lastRead, updatedCount } = await messageReceiptService.markChatRead(chat, userId, cursor);
+
+  res.json({
+    success: true,
+    message: 'Chat marked as read',
+    data: {
+      chatId,
+      lastRead,
+      updatedCount
+    }
+  });
+});
+
+// Acknowledge delivery of messages (used by push notification handlers)
+export const markMessagesDelivered = asyncHandler(async (req: Request, res: Response) => {
+  const { messageIds } = req.body;
+  const userId = req.user?.userId;
+
+  if (!userId) {
+    throw new AppError('User not authenticated', 401);
+  }
+
+  const deliveredIds = await messageReceiptService.markDelivered(userId, messageIds);
+
+  res.json({
+    success: true,
+    message: 'Messages marked as delivered',
+    data: { messageIds: deliveredIds }
   });
 });
 
@@ -535,9 +873,17 @@ export const deleteMessageForEveryone = asyncHandler(async (req: Request, res: R
   // Soft delete the message for everyone
   message.isDeletedForEveryone = true;
   message.content = 'This message was deleted.';
+  message.isEncrypted = false;
+  message.ciphertext = undefined;
+  message.keyEnvelopes = [];
+  message.isPinned = false;
+  message.pinnedBy = undefined;
+  message.pinnedAt = undefined;
   message.deletedAt = new Date();
   await message.save();
 
+  await StarredMessage.deleteMany({ messageId: message._id });
+
   // Emit socket event to all chat participants
   const socketHandler = getSocketHandler();
   if (socketHandler) {
@@ -583,11 +929,27 @@ export const editMessage = asyncHandler(async (req: Request, res: Response) => {
     throw new AppError('Only text messages can be edited', 400);
   }
 
+  // The server cannot re-encrypt on the sender's behalf
+  if (message.isEncrypted) {
+    throw new AppError('Encrypted messages cannot be edited', 400);
+  }
+
+  // Drop a preview that no longer matches the first link in the text
+  const previousUrl = linkPreviewService.extractFirstUrl(message.content);
+  const nextUrl = linkPreviewService.extractFirstUrl(content);
+
   message.content = content;
   message.isEdited = true;
   message.editedAt = new Date();
+  if (previousUrl !== nextUrl) {
+    message.linkPreview = undefined;
+  }
   await message.save();
 
+  if (previousUrl !== nextUrl) {
+    linkPreviewService.schedulePreview(message);
+  }
+
   res.json({
     success: true,
     message: 'Message edited successfully',
@@ -659,6 +1021,281 @@ export const reactToMessage = asyncHandler(async (req: Request, res: Response) =
   });
 });
 
+const MAX_PINNED_MESSAGES_PER_CHAT = 5;
+
+// Load a message the user can see, together with its chat
+const findVisibleMessageForUser = async (messageId: string, userId?: string) => {
+  if (!Types.ObjectId.isValid(messageId)) {
+    throw new AppError('Invalid message ID', 400);
+  }
+
+  const message = await Message.findById(messageId);
+  if (!message || message.isDeleted || message.isDeletedForEveryone ||
+      message.deletedFor?.some((id) => id.toString() === userId) ||
+      (message.expiresAt && message.expiresAt <= new Date())) {
+    throw new AppError('Message not found', 404);
+  }
+
+  const chat = await Chat.findById(message.chatId).select('participants');
+  if (!chat) {
+    throw new AppError('Chat not found', 404);
+  }
+
+  if (!userId || !chat.participants.some((participant) => participant.toString() === userId)) {
+    throw new AppError('Access denied', 403);
+  }
+
+  return { message, chat, userId };
+};
+
+// Pin or unpin a message for both participants
+const setMessagePinned = async (req: Request, res: Response, pinned: boolean) => {
+  const { message, chat, userId } = await findVisibleMessageForUser(req.params.messageId, req.user?.userId);
+
+  if (pinned) {
+    if (message.type === 'system' || message.isOneView) {
+      throw new AppError('This message cannot be pinned', 400);
+    }
+
+    if (!message.isPinned) {
+      const limitMessage = `A chat can have at most ${MAX_PINNED_MESSAGES_PER_CHAT} pinned messages. Unpin one first.`;
+      const pinnedCount = await Message.countDocuments({ chatId: chat._id, isPinned: true });
+      if (pinnedCount >= MAX_PINNED_MESSAGES_PER_CHAT) {
+        throw new AppError(limitMessage, 400);
+      }
+
+      const pinnedBy = new Types.ObjectId(userId);
+      const pinnedAt = new Date();
+      const result = await Message.updateOne(
+        { _id: message._id, isPinned: { $ne: true } },
+        { $set: { isPinned: true, pinnedBy, pinnedAt } }
+      );
+
+      if (result.modifiedCount === 1) {
+        // Pins made at the same time can pass the check together; undo ours if they did
+        const pinnedAfter = await Message.countDocuments({ chatId: chat._id, isPinned: true });
+        if (pinnedAfter > MAX_PINNED_MESSAGES_PER_CHAT) {
+          await Message.updateOne(
+            { _id: message._id, pinnedAt },
+            { $set: { isPinned: false }, $unset: { pinnedBy: 1, pinnedAt: 1 } }
+          );
+          throw new AppError(limitMessage, 400);
+        }
+      }
+
+      // Pinned by us just now, or by the partner a moment earlier
+      const current = await Message.findById(message._id).select('isPinned pinnedBy pinnedAt');
+      message.isPinned = !!current?.isPinned;
+      message.pinnedBy = current?.pinnedBy;
+      message.pinnedAt = current?.pinnedAt;
+    }
+  } else if (message.isPinned) {
+    message.isPinned = false;
+    message.pinnedBy = undefined;
+    message.pinnedAt = undefined;
+    await message.save();
+  }
+
+  const payload = {
+    chatId: chat.id,
+    messageId: message.id,
+    isPinned: !!message.isPinned,
+    pinnedBy: message.pinnedBy?.toString(),
+    pinnedAt: message.pinnedAt,
+    changedBy: userId
+  };
+
+  const socketHandler = getSocketHandler();
+  if (socketHandler) {
+    chat.participants.forEach(participant => {
+      socketHandler.emitToUser(participant.toString(), 'message_pinned', payload);
+    });
+  }
+
+  res.json({
+    success: true,
+    message: pinned ? 'Message pinned' : 'Message unpinned',
+    data: payload
+  });
+};
+
+// Pin message
+export const pinMessage = asyncHandler(async (req: Request, res: Response) => {
+  await setMessagePinned(req, res, true);
+});
+
+// Unpin message
+export const unpinMessage = asyncHandler(async (req: Request, res: Response) => {
+  await setMessagePinned(req, res, false);
+});
+
+// Get a chat's pinned messages, most recently pinned first (cursor-based pagination)
+export const getPinnedMessages = asyncHandler(async (req: Request, res: Response) => {
+  const { chatId } = req.params;
+  const { limit: limitQuery, cursor } = req.query as { limit?: string; cursor?: string };
+  const userId = req.user?.userId;
+
+  if (!Types.ObjectId.isValid(chatId)) {
+    throw new AppError('Invalid chat ID', 400);
+  }
+
+  const chat = await Chat.findById(chatId).select('participants');
+  if (!chat) {
+    throw new AppError('Chat not found', 404);
+  }
+
+  if (!userId || !chat.participants.some((participant) => participant.toString() === userId)) {
+    throw new AppError('Access denied', 403);
+  }
+
+  const limitNumber = Math.min(Math.max(Number(limitQuery) || 20, 1), 100);
+  const filters = buildVisibleMessageFilters(chatId, userId);
+  filters.push({ isPinned: true });
+
+  if (cursor) {
+    let decoded;
+    try {
+      decoded = decodeMessageCursor(cursor);
+    } catch (error) {
+      throw new AppError('Invalid cursor', 400);
+    }
+    const { createdAt, id } = decoded;
+    const cursorDate = new Date(createdAt);
+
+    filters.push({
+      $or: [
+        { pinnedAt: { $lt: cursorDate } },
+        { pinnedAt: cursorDate, _id: { $lt: new Types.ObjectId(id) } },
+      ],
+    });
+  }
+
+  const messages = await Message.find({ $and: filters })
+    .sort({ pinnedAt: -1, _id: -1 })
+    .limit(limitNumber + 1)
+    .populate('senderId', 'name avatar')
+    .populate(MESSAGE_REPLY_POPULATE);
+
+  const hasMore = messages.length > limitNumber;
+  const trimmed = hasMore ? messages.slice(0, limitNumber) : messages;
+  const starredIds = await getStarredMessageIds(userId, trimmed);
+  const last = trimmed[trimmed.length - 1];
+
+  res.json({
+    messages: trimmed.map((message) => serializeMessage(message, starredIds)),
+    nextCursor: hasMore && last?.pinnedAt
+      ? encodeMessageCursor({ createdAt: last.pinnedAt.toISOString(), id: last.id })
+      : null,
+    hasMore,
+  });
+});
+
+// Star message (private to the caller)
+export const starMessage = asyncHandler(async (req: Request, res: Response) => {
+  const { message, userId } = await findVisibleMessageForUser(req.params.messageId, req.user?.userId);
+
+  await StarredMessage.updateOne(
+    { userId, messageId: message._id },
+    { $setOnInsert: { chatId: message.chatId } },
+    { upsert: true }
+  );
+
+  res.json({
+    success: true,
+    message: 'Message starred',
+    data: { messageId: message.id, isStarred: true }
+  });
+});
+
+// Unstar message
+export const unstarMessage = asyncHandler(async (req: Request, res: Response) => {
+  const { messageId } = req.params;
+  const userId = req.user?.userId;
+
+  if (!Types.ObjectId.isValid(messageId)) {
+    throw new AppError('Invalid message ID', 400);
+  }
+
+  await StarredMessage.deleteOne({ userId, messageId });
+
+  res.json({
+    success: true,
+    message: 'Message unstarred',
+    data: { messageId, isStarred: false }
+  });
+});
+
+// Get the caller's starred messages, most recently starred first (cursor-based pagination)
+export const getStarredMessages = asyncHandler(async (req: Request, res: Response) => {
+  const { limit: limitQuery, cursor, chatId } = req.query as { limit?: string; cursor?: string; chatId?: string };
+  const userId = req.user?.userId;
+
+  if (!userId) {
+    throw new AppError('User not authenticated', 401);
+  }
+
+  if (chatId && !Types.ObjectId.isValid(chatId)) {
+    throw new AppError('Invalid chat ID', 400);
+  }
+
+  const limitNumber = Math.min(Math.max(Number(limitQuery) || 20, 1), 100);
+  const starFilters: FilterQuery<IStarredMessage>[] = [{ userId: new Types.ObjectId(userId) }];
+
+  if (chatId) {
+    starFilters.push({ chatId: new Types.ObjectId(chatId) });
+  }
+
+  if (cursor) {
+    let decoded;
+    try {
+      decoded = decodeMessageCursor(cursor);
+    } catch (error) {
+      throw new AppError('Invalid cursor', 400);
+    }
+    const { createdAt, id } = decoded;
+    const cursorDate = new Date(createdAt);
+
+    starFilters.push({
+      $or: [
+        { createdAt: { $lt: cursorDate } },
+        { createdAt: cursorDate, _id: { $lt: new Types.ObjectId(id) } },
+      ],
+    });
+  }
+
+  const stars = await StarredMessage.find({ $and: starFilters })
+    .sort({ createdAt: -1, _id: -1 })
+    .limit(limitNumber + 1);
+
+  const hasMore = stars.length > limitNumber;
+  const trimmed = hasMore ? stars.slice(0, limitNumber) : stars;
+
+  // Stars on messages that are no longer visible are skipped
+  const messages = await Message.find({
+    $and: [
+      { _id: { $in: trimmed.map((star) => star.messageId) } },
+      ...buildVisibilityFilters(userId),
+    ],
+  })
+    .populate('senderId', 'name avatar')
+    .populate(MESSAGE_REPLY_POPULATE);
+
+  const messagesById = new Map(messages.map((message) => [message.id, message]));
+  const starredIds = new Set(messagesById.keys());
+  const last = trimmed[trimmed.length - 1];
+
+  res.json({
+    messages: trimmed
+      .map((star) => messagesById.get(star.messageId.toString()))
+      .filter((message): message is NonNullable<typeof message> => !!message)
+      .map((message) => serializeMessage(message, starredIds)),
+    nextCursor: hasMore && last
+      ? encodeMessageCursor({ createdAt: last.createdAt.toISOString(), id: last.id })
+      : null,
+    hasMore,
+  });
+});
+
 // Process and format messages for frontend
 export const processMessages = asyncHandler(async (req: Request, res: Response) => {
   const { chatId } = req.params;
@@ -672,7 +1309,7 @@ export const processMessages = asyncHandler(async (req: Request, res: Response)
 
   const messages = await Message.find({ chatId })
     .populate('senderId', 'name avatar')
-    .populate('replyTo', 'content type senderId')
+    .populate('replyTo', 'content type senderId isEncrypted')
     .sort({ createdAt: -1 })
     .limit(50);
 
@@ -680,14 +1317,19 @@ export const processMessages = asyncHandler(async (req: Request, res: Response)
   const processedMessages = messages.map(msg => {
     const processed: any = msg.toObject();
     
-    // Format file URLs
-    if (processed.fileUrl && !processed.fileUrl.startsWith('http')) {
-      processed.fileUrl = `${process.env.API_BASE_URL || 'http://localhost:3000'}${processed.fileUrl}`;
-    }
-    
-    if (processed.thumbnailUrl && !processed.thumbnailUrl.startsWith('http')) {
-      processed.thumbnailUrl = `${process.env.API_BASE_URL || 'http://localhost:3000'}${processed.thumbnailUrl}`;
-    }
+    // Format file URLs (stored files get signed, expiring links; opened one-view files none)
+    const formatFileUrl = (url?: string) => {
+      if (!url || url.startsWith('http')) return url;
+      if (!storageService.keyFromUrl(url)) return `${process.env.API_BASE_URL || 'http://localhost:3000'}${url}`;
+      if (msg.isOneView && fileAccessService.isOneViewRevoked(msg)) return undefined;
+      if (msg.scanStatus === 'quarantined') return undefined;
+
+      const access = msg.isOneView ? { oneViewMessageId: msg.id } : {};
+      return `${process.env.API_BASE_URL || 'http://localhost:3000'}${fileAccessService.signUrl(url, userId as string, access).url}`;
+    };
+
+    processed.fileUrl = formatFileUrl(processed.fileUrl);
+    processed.thumbnailUrl = formatFileUrl(processed.thumbnailUrl);
 
     // Format sender info
     if (processed.senderId && typeof processed.senderId === 'object') {
@@ -702,6 +1344,10 @@ export const processMessages = asyncHandler(async (req: Request, res: Response)
                               replyTo.type === 'video' ? '🎥 Video' : 
                               replyTo.type === 'audio' ? '🎤 Audio' : 
                               replyTo.content;
+      // The server cannot read encrypted replies
+      if (replyTo.isEncrypted) {
+        processed.replyContent = ENCRYPTED_MESSAGE_PREVIEW;
+      }
     }
 
     // Format reactions
@@ -743,6 +1389,11 @@ export const validateFileUpload = asyncHandler(async (req: Request, res: Respons
     throw new AppError('File type not allowed', 400);
   }
 
+  // The upload itself is sniffed too; this catches obvious mismatches before sending it
+  if (!isExtensionAllowed(mimeType, fileName)) {
+    throw new AppError('File extension does not match the file type', 400);
+  }
+
   // File name sanitization
   const sanitizedFileName = fileName.replace(/[^a-zA-Z0-9.-]/g, '_');
 
@@ -0,0 +1,123 @@
+import { Request, Response } from 'express';
+import { asyncHandler, AppError } from '@/middleware/errorHandler';
+import DeviceKey from '@/models/DeviceKey';
+import User from '@/models/User';
+import e2eeService from '@/services/e2eeService';
+
+// Publish (or replace) the key bundle for one of the caller's devices
+export const publishDeviceKeys = asyncHandler(async (req: Request, res: Response) => {
+  const userId = req.user?.userId;
+  const { deviceId } = req.params;
+  const { registrationId, identityKey, signedPreKey, oneTimePreKeys } = req.body;
+
+  if (!userId) {
+    throw new AppError('User not authenticated', 401);
+  }
+
+  const deviceKey = await e2eeService.publishDeviceKeys(userId, deviceId, {
+    registrationId,
+    identityKey,
+    signedPreKey,
+    oneTimePreKeys
+  });
+
+  res.json({
+    success: true,
+    message: 'Device keys published successfully',
+    data: {
+      deviceId: deviceKey.deviceId,
+      identityKey: deviceKey.identityKey,
+      signedPreKeyId: deviceKey.signedPreKey.keyId,
+      oneTimePreKeyCount: deviceKey.oneTimePreKeys.length
+    }
+  });
+});
+
+// Upload additional one-time prekeys for a device
+export const uploadOneTimePreKeys = asyncHandler(async (req: Request, res: Response) => {
+  const userId = req.user?.userId;
+  const { deviceId } = req.params;
+  const { oneTimePreKeys } = req.body;
+
+  if (!userId) {
+    throw new AppError('User not authenticated', 401);
+  }
+
+  const oneTimePreKeyCount = await e2eeService.addOneTimePreKeys(userId, deviceId, oneTimePreKeys);
+
+  res.json({
+    success: true,
+    message: 'Prekeys uploaded successfully',
+    data: { deviceId, oneTimePreKeyCount }
+  });
+});
+
+// List the caller's registered devices and how many prekeys each has left
+export const getMyDeviceKeys = asyncHandler(async (req: Request, res: Response) => {
+  const userId = req.user?.userId;
+
+  if (!userId) {
+    throw new AppError('User not authenticated', 401);
+  }
+
+  const devices = await DeviceKey.find({ userId, isActive: true }).sort({ updatedAt: -1 });
+
+  res.json({
+    success: true,
+    data: {
+      devices: devices.map(device => ({
+        deviceId: device.deviceId,
+        identityKey: device.identityKey,
+        signedPreKeyId: device.signedPreKey.keyId,
+        oneTimePreKeyCount: device.oneTimePreKeys.length,
+        updatedAt: device.updatedAt
+      }))
+    }
+  });
+});
+
+// Revoke a device's keys so partners stop encrypting to it
+export const revokeDeviceKeys = asyncHandler(async (req: Request, res: Response) => {
+  const userId = req.user?.userId;
+  const { deviceId } = req.params;
+
+  if (!userId) {
+    throw new AppError('User not authenticated', 401);
+  }
+
+  const deviceKey = await DeviceKey.findOneAndUpdate(
+    { userId, deviceId, isActive: true },
+    { $set: { isActive: false, revokedAt: new Date(), oneTimePreKeys: [] } },
+    { new: true }
+  );
+
+  if (!deviceKey) {
+    throw new AppError('Device keys not found', 404);
+  }
+
+  res.json({
+    success: true,
+    message: 'Device keys revoked'
+  });
+});
+
+// Fetch the active partner's prekey bundles to start encrypted sessions
+export const getPartnerPreKeys = asyncHandler(async (req: Request, res: Response) => {
+  const userId = req.user?.userId;
+
+  const user = await User.findById(userId).select('partners');
+  const activePartner = user?.partners?.find(p => p.status === 'active');
+  if (!activePartner) {
+    throw new AppError('No active partner found', 404);
+  }
+
+  const devices = await e2eeService.claimPreKeyBundles(activePartner.partnerId);
+
+  res.json({
+    success: true,
+    data: {
+      partnerId: activePartner.partnerId,
+      devices
+    }
+  });
+});
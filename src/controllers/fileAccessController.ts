@@ -0,0 +1,132 @@
+import { Request, Response } from 'express';
+import path from 'path';
+import { pipeline } from 'stream/promises';
+import { asyncHandler, AppError } from '@/middleware/errorHandler';
+import fileAccessService from '@/services/fileAccessService';
+import storageService from '@/services/storageService';
+import { QUARANTINE_PREFIX } from '@/services/uploadSafetyService';
+import { DIARY_EXPORT_PREFIX } from '@/services/diaryExportService';
+import logger from '@/utils/logger';
+
+const MAX_URLS_PER_REQUEST = 100;
+
+// Exchange stored `/uploads/...` URLs for signed, expiring file URLs
+export const signFileUrls = asyncHandler(async (req: Request, res: Response) => {
+  const userId = req.user?.userId;
+  const { urls } = req.body;
+
+  if (!userId) {
+    throw new AppError('User not authenticated', 401);
+  }
+
+  if (!Array.isArray(urls) || urls.length === 0 || urls.some(url => typeof url !== 'string')) {
+    throw new AppError('urls must be a non-empty array of file URLs', 400);
+  }
+
+  if (urls.length > MAX_URLS_PER_REQUEST) {
+    throw new AppError(`At most ${MAX_URLS_PER_REQUEST} URLs can be signed at once`, 400);
+  }
+
+  // Each URL succeeds or fails on its own so one revoked file doesn't break a gallery
+  const files = await Promise.all([...new Set<string>(urls)].map(async url => {
+    try {
+      const access = await fileAccessService.authorize(userId, url);
+      const signed = fileAccessService.signUrl(url, userId, access);
+      return { url, signedUrl: signed.url, expiresAt: signed.expiresAt };
+    } catch (error) {
+      if (error instanceof AppError) {
+        return { url, error: error.message, status: error.statusCode };
+      }
+      throw error;
+    }
+  }));
+
+  res.json({
+    success: true,
+    data: { files }
+  });
+});
+
+// Legacy `/uploads/<key>` links still stored in messages, media, memories and diary
+// entries: check access and redirect to a signed URL
+export const redirectLegacyUpload = asyncHandler(async (req: Request, res: Response) => {
+  const userId = req.user?.userId;
+
+  if (!userId) {
+    throw new AppError('User not authenticated', 401);
+  }
+
+  const key = storageService.keyFromUrl(`/uploads/${req.params[0] || ''}`);
+  if (!key || key.startsWith(`${QUARANTINE_PREFIX}/`)) {
+    throw new AppError('File not found', 404);
+  }
+
+  const fileUrl = storageService.urlForKey(key);
+  const access = await fileAccessService.authorize(userId, fileUrl);
+
+  res.setHeader('Cache-Control', 'private, no-store');
+  res.redirect(302, fileAccessService.signUrl(fileUrl, userId, access).url);
+});
+
+// Serve a file through a signed URL, with HTTP range support for audio/video
+export const serveSignedFile = asyncHandler(async (req: Request, res: Response) => {
+  const key = storageService.keyFromUrl(`/uploads/${req.params[0] || ''}`);
+  if (!key || key.startsWith(`${QUARANTINE_PREFIX}/`)) {
+    throw new AppError('File not found', 404);
+  }
+
+  const params = fileAccessService.verify(key, req.query);
+  if (params.ov) {
+    await fileAccessService.assertOneViewAvailable(params.ov);
+  }
+
+  const stored = await storageService.stat(key);
+  if (!stored) {
+    throw new AppError('File not found', 404);
+  }
+
+  res.setHeader('Accept-Ranges', 'bytes');
+  res.setHeader('Cache-Control', params.ov ? 'private, no-store' : `private, max-age=${Math.max(params.exp - Math.floor(Date.now() / 1000), 0)}`);
+  res.type(stored.contentType || path.extname(key) || 'application/octet-stream');
+  // Diary exports download under their file name
+  if (key.startsWith(`${DIARY_EXPORT_PREFIX}/`)) {
+    res.attachment(path.posix.basename(key));
+  }
+
+  let range: { start: number; end: number } | undefined;
+  if (req.headers.range && stored.size > 0) {
+    const ranges = req.range(stored.size, { combine: true });
+    if (ranges === -1) {
+      res.setHeader('Content-Range', `bytes */${stored.size}`);
+      throw new AppError('Requested range not satisfiable', 416);
+    }
+    // Malformed or multi-part ranges fall back to the whole file
+    if (ranges !== -2 && ranges && ranges.type === 'bytes' && ranges.length === 1) {
+      range = { start: ranges[0].start, end: ranges[0].end };
+    }
+  }
+
+  if (range) {
+    res.status(206);
+    res.setHeader('Content-Range', `bytes ${range.start}-${range.end}/${stored.size}`);
+    res.setHeader('Content-Length', range.end - range.start + 1);
+  } else {
+    res.setHeader('Content-Length', stored.size);
+  }
+
+  if (req.method === 'HEAD') {
+    res.end();
+    return;
+  }
+
+  const stream = await storageService.getStream(key, range);
+  try {
+    await pipeline(stream, res);
+  } catch (error) {
+    // Clients abort media requests all the time while seeking
+    logger.debug('File stream ended early', {
+      key,
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
@@ -1,22 +1,24 @@
 import { Request, Response } from 'express';
 import { asyncHandler, AppError } from '@/middleware/errorHandler';
 import multer from 'multer';
-import path from 'path';
-import { spawn } from 'child_process';
 import fs from 'fs';
-import Message from '@/models/Message';
-import Chat from '@/models/Chat';
+import path from 'path';
+import Message, { IMessage } from '@/models/Message';
+import Chat, { IChat } from '@/models/Chat';
 import Notification from '@/models/Notification';
 import { getSocketHandler } from '@/socket/socketHandler';
-
-// Configure multer for file uploads
+import disappearingMessageService from '@/services/disappearingMessageService';
+import mediaProcessingService from '@/services/mediaProcessingService';
+import storageService, { StagedFile } from '@/services/storageService';
+import fileAccessService from '@/services/fileAccessService';
+import voiceAnalysisService from '@/services/voiceAnalysisService';
+import uploadSafetyService, { QUARANTINE_PREFIX } from '@/services/uploadSafetyService';
+import storageQuotaService from '@/services/storageQuotaService';
+
+// Configure multer for file uploads (staged locally, then moved to the storage backend)
 const storage = multer.diskStorage({
   destination: (req, file, cb) => {
-    const uploadDir = 'uploads/';
-    if (!fs.existsSync(uploadDir)) {
-      fs.mkdirSync(uploadDir, { recursive: true });
-    }
-    cb(null, uploadDir);
+    cb(null, storageService.getStagingDir());
   },
   filename: (req, file, cb) => {
     const uniqueSuffix = Date.now() + '-' + Math.round(Math.random() * 1E9);
@@ -24,27 +26,28 @@ const storage = multer.diskStorage({
   }
 });
 
+// Allow images, videos, audio, documents, and voice files
+export const ALLOWED_FILE_MIME_TYPES = [
+  // Images
+  'image/jpeg', 'image/png', 'image/gif', 'image/webp', 'image/bmp', 'image/svg+xml',
+  // Videos
+  'video/mp4', 'video/quicktime', 'video/x-msvideo', 'video/avi', 'video/mov', 'video/wmv', 'video/flv', 'video/webm',
+  // Audio
+  'audio/mpeg', 'audio/wav', 'audio/ogg', 'audio/mp3', 'audio/aac', 'audio/flac', 'audio/m4a',
+  'audio/mp4', 'audio/x-m4a', 'audio/x-wav', 'audio/wave', 'audio/webm', 'audio/opus',
+  // Documents
+  'application/pdf', 'text/plain', 'text/csv',
+  'application/msword',
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  'application/vnd.ms-excel',
+  'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  'application/vnd.ms-powerpoint',
+  'application/vnd.openxmlformats-officedocument.presentationml.presentation',
+  'application/zip', 'application/x-rar-compressed', 'application/x-7z-compressed'
+];
+
 const fileFilter = (req: any, file: Express.Multer.File, cb: multer.FileFilterCallback) => {
-  // Allow images, videos, audio, documents, and voice files
-  const allowedMimes = [
-    // Images
-    'image/jpeg', 'image/png', 'image/gif', 'image/webp', 'image/bmp', 'image/svg+xml',
-    // Videos
-    'video/mp4', 'video/quicktime', 'video/x-msvideo', 'video/avi', 'video/mov', 'video/wmv', 'video/flv', 'video/webm',
-    // Audio
-    'audio/mpeg', 'audio/wav', 'audio/ogg', 'audio/mp3', 'audio/aac', 'audio/flac', 'audio/m4a',
-    // Documents
-    'application/pdf', 'text/plain', 'text/csv',
-    'application/msword',
-    'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
-    'application/vnd.ms-excel',
-    'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
-    'application/vnd.ms-powerpoint',
-    'application/vnd.openxmlformats-officedocument.presentationml.presentation',
-    'application/zip', 'application/x-rar-compressed', 'application/x-7z-compressed'
-  ];
-
-  if (allowedMimes.includes(file.mimetype)) {
+  if (ALLOWED_FILE_MIME_TYPES.includes(file.mimetype)) {
     cb(null, true);
   } else {
     cb(new Error(`File type ${file.mimetype} not allowed`));
@@ -59,79 +62,78 @@ export const upload = multer({
   }
 });
 
-// Upload file and create message
-export const uploadFile = asyncHandler(async (req: Request, res: Response) => {
-  const { chatId, isOneView } = req.body;
-  const userId = req.user?.userId;
-  
-  console.log('📤 File upload request:', { chatId, isOneView, isOneViewType: typeof isOneView, userId });
-
-  if (!req.file) {
-    throw new AppError('No file uploaded', 400);
-  }
-
-  const chat = await Chat.findById(chatId);
-  if (!chat) {
-    throw new AppError('Chat not found', 404);
-  }
-
-  // Check if user is participant
-  if (!userId || !chat.participants.some(p => p.toString() === userId)) {
-    throw new AppError('Access denied', 403);
-  }
+// Remove a staged upload that failed its checks before being stored
+const discardStagedFile = (file: StagedFile) => fs.promises.unlink(file.path).catch(() => undefined);
+
+/**
+ * Store a staged upload and post it to the chat as a file message: strips metadata,
+ * notifies the partner and queues thumbnails. Shared by multipart and resumable uploads.
+ */
+export const createFileMessage = async (
+  chat: IChat,
+  userId: string,
+  file: StagedFile,
+  options: { isOneView?: boolean; ttlSeconds?: unknown } = {}
+): Promise<IMessage> => {
+  const chatId = chat.id;
 
   // Determine file type based on mime type
   let messageType = 'file';
-  if (req.file.mimetype.startsWith('image/')) {
+  if (file.mimetype.startsWith('image/')) {
     messageType = 'image';
-  } else if (req.file.mimetype.startsWith('video/')) {
+  } else if (file.mimetype.startsWith('video/')) {
     messageType = 'video';
-  } else if (req.file.mimetype.startsWith('audio/')) {
+  } else if (file.mimetype.startsWith('audio/')) {
     messageType = 'audio';
-  } else if (req.file.mimetype === 'application/pdf') {
+  } else if (file.mimetype === 'application/pdf') {
     messageType = 'pdf';
   }
 
-  // Parse isOneView correctly (can be string or boolean)
-  const isOneViewBool = isOneView === 'true' || isOneView === true || (typeof isOneView === 'string' && isOneView.toLowerCase() === 'true');
-  
-  console.log('📤 Creating message with isOneView:', isOneViewBool);
-
-  const message = await Message.create({
-    chatId,
-    senderId: userId,
-    content: req.file.originalname,
-    type: messageType as any,
-    fileUrl: `/uploads/${req.file.filename}`,
-    fileName: req.file.originalname,
-    fileSize: req.file.size,
-    mimeType: req.file.mimetype,
-    isOneView: isOneViewBool
-  });
+  // Validate the TTL before anything is stored
+  let expiresAt: Date | undefined;
+  try {
+    expiresAt = disappearingMessageService.resolveExpiresAt(chat, options.ttlSeconds);
+  } catch (error) {
+    await discardStagedFile(file);
+    throw error;
+  }
+  const reservedBytes = await storageQuotaService.reserveUploads(userId, 'chatFiles', [file]);
+
+  let message: IMessage;
+  let needsProcessing: boolean;
+  try {
+    // Check the real content type and scan before anything else opens the file
+    const scan = await uploadSafetyService.inspect(file);
+    const quarantined = scan.scanStatus === 'quarantined';
+
+    // Strip EXIF/GPS before the file becomes reachable; derivatives are made after responding
+    needsProcessing = !quarantined && await mediaProcessingService.prepareUpload(file);
+    const fileUrl = await storageService.putUpload(file, {
+      prefix: quarantined ? QUARANTINE_PREFIX : undefined,
+      keepLocal: needsProcessing
+    });
 
-  // Generate a thumbnail for videos (best-effort). Requires ffmpeg available on server.
-  if (messageType === 'video') {
-    try {
-      const uploadsDir = 'uploads';
-      const videoPath = path.join(uploadsDir, req.file.filename);
-      const thumbFile = `thumb-${path.parse(req.file.filename).name}.jpg`;
-      const thumbPath = path.join(uploadsDir, thumbFile);
-
-      await new Promise<void>((resolve, reject) => {
-        const ff = spawn('ffmpeg', ['-y', '-i', videoPath, '-ss', '00:00:01.000', '-vframes', '1', thumbPath]);
-        ff.on('close', (code) => {
-          if (code === 0) resolve();
-          else reject(new Error(`ffmpeg exited with code ${code}`));
-        });
-        ff.on('error', reject);
-      });
-
-      message.thumbnailUrl = `/uploads/${thumbFile}` as any;
-      await message.save();
-    } catch (err) {
-      console.error('⚠️ Video thumbnail generation failed:', err);
-    }
+    message = await Message.create({
+      chatId,
+      senderId: userId,
+      content: file.originalname,
+      type: messageType as any,
+      fileUrl,
+      fileName: file.originalname,
+      fileSize: file.size,
+      mimeType: file.mimetype,
+      mediaStatus: needsProcessing ? 'processing' : undefined,
+      scanStatus: scan.scanStatus,
+      scanThreat: scan.threat,
+      isOneView: !!options.isOneView,
+      expiresAt
+    });
+  } catch (error) {
+    await storageQuotaService.release(userId, 'chatFiles', reservedBytes);
+    throw error;
   }
+  // Stripping metadata changes the size; the quota counts what was stored
+  await storageQuotaService.record(userId, 'chatFiles', (message.fileSize || 0) - reservedBytes);
 
   await message.populate('senderId', 'name avatar');
 
@@ -174,13 +176,58 @@ export const uploadFile = asyncHandler(async (req: Request, res: Response) => {
         isOneView: message.isOneView,
         viewedBy: message.viewedBy,
         viewCount: message.viewCount,
-        duration: message.duration
+        duration: message.duration,
+        mediaStatus: message.mediaStatus,
+        scanStatus: message.scanStatus,
+        expiresAt: message.expiresAt
       }
     });
   } else {
     console.log('⚠️ Socket handler not available for file upload');
   }
 
+  // Thumbnails, poster frame and duration follow in `message_media_ready`
+  if (needsProcessing) {
+    mediaProcessingService.processMessageMedia(message.id, file.path);
+  }
+
+  return message;
+};
+
+// Upload file and create message
+export const uploadFile = asyncHandler(async (req: Request, res: Response) => {
+  const { chatId, isOneView, ttlSeconds } = req.body;
+  const userId = req.user?.userId;
+  
+  console.log('📤 File upload request:', { chatId, isOneView, isOneViewType: typeof isOneView, userId });
+
+  if (!req.file) {
+    throw new AppError('No file uploaded', 400);
+  }
+
+  let chat: IChat | null;
+  try {
+    chat = await Chat.findById(chatId);
+    if (!chat) {
+      throw new AppError('Chat not found', 404);
+    }
+
+    // Check if user is participant
+    if (!userId || !chat.participants.some(p => p.toString() === userId)) {
+      throw new AppError('Access denied', 403);
+    }
+  } catch (error) {
+    await discardStagedFile(req.file);
+    throw error;
+  }
+
+  // Parse isOneView correctly (can be string or boolean)
+  const isOneViewBool = isOneView === 'true' || isOneView === true || (typeof isOneView === 'string' && isOneView.toLowerCase() === 'true');
+  
+  console.log('📤 Creating message with isOneView:', isOneViewBool);
+
+  const message = await createFileMessage(chat, userId, req.file, { isOneView: isOneViewBool, ttlSeconds });
+
   res.json({
     success: true,
     message: 'File uploaded successfully',
@@ -188,16 +235,20 @@ export const uploadFile = asyncHandler(async (req: Request, res: Response) => {
   });
 });
 
-// Get file
+// Get file (redirects to a signed URL once access is checked)
 export const getFile = asyncHandler(async (req: Request, res: Response) => {
   const { filename } = req.params;
-  const filePath = path.join('uploads', filename);
+  const userId = req.user?.userId;
 
-  if (!fs.existsSync(filePath)) {
-    throw new AppError('File not found', 404);
+  if (!userId) {
+    throw new AppError('User not authenticated', 401);
   }
 
-  res.sendFile(path.resolve(filePath));
+  const fileUrl = `/uploads/${filename}`;
+  const access = await fileAccessService.authorize(userId, fileUrl);
+
+  res.setHeader('Cache-Control', 'private, no-store');
+  res.redirect(302, fileAccessService.signUrl(fileUrl, userId, access).url);
 });
 
 // Delete file
@@ -215,12 +266,17 @@ export const deleteFile = asyncHandler(async (req: Request, res: Response) => {
     throw new AppError('You can only delete your own files', 403);
   }
 
-  // Soft delete only - do not delete physical files
-  // Mark message as deleted
+  // Mark message as deleted; the stored file and its thumbnails go with it
+  const wasDeleted = message.isDeleted;
   message.isDeleted = true;
   message.deletedAt = new Date();
   await message.save();
 
+  await storageService.deleteByUrls([message.fileUrl, ...mediaProcessingService.getDerivedUrls(message)]);
+  if (!wasDeleted) {
+    await storageQuotaService.record(message.senderId, message.type === 'voice' ? 'voiceNotes' : 'chatFiles', -(message.fileSize || 0));
+  }
+
   res.json({
     success: true,
     message: 'File deleted successfully'
@@ -229,46 +285,79 @@ export const deleteFile = asyncHandler(async (req: Request, res: Response) => {
 
 // Upload voice message
 export const uploadVoiceMessage = asyncHandler(async (req: Request, res: Response) => {
-  const { chatId, duration, waveform, isOneView = false } = req.body;
+  const { chatId, duration, waveform, isOneView = false, ttlSeconds } = req.body;
   const userId = req.user?.userId;
 
   if (!req.file) {
     throw new AppError('No voice file uploaded', 400);
   }
 
-  const chat = await Chat.findById(chatId);
-  if (!chat) {
-    throw new AppError('Chat not found', 404);
-  }
+  let chat: IChat | null;
+  try {
+    chat = await Chat.findById(chatId);
+    if (!chat) {
+      throw new AppError('Chat not found', 404);
+    }
 
-  // Check if user is participant
-  if (!userId || !chat.participants.some(p => p.toString() === userId)) {
-    throw new AppError('Access denied', 403);
+    // Check if user is participant
+    if (!userId || !chat.participants.some(p => p.toString() === userId)) {
+      throw new AppError('Access denied', 403);
+    }
+  } catch (error) {
+    await discardStagedFile(req.file);
+    throw error;
   }
 
-  // Parse waveform if provided
-  let voiceWaveform: number[] = [];
-  if (waveform) {
-    try {
-      voiceWaveform = JSON.parse(waveform);
-    } catch (error) {
-      console.error('Error parsing waveform:', error);
-    }
+  // Validate the TTL before anything is stored
+  let expiresAt: Date | undefined;
+  try {
+    expiresAt = disappearingMessageService.resolveExpiresAt(chat, ttlSeconds);
+  } catch (error) {
+    await discardStagedFile(req.file);
+    throw error;
   }
+  const reservedBytes = await storageQuotaService.reserveUploads(userId, 'voiceNotes', [req.file]);
+
+  let message: IMessage;
+  try {
+    const scan = await uploadSafetyService.inspect(req.file);
+    const quarantined = scan.scanStatus === 'quarantined';
+
+    // Duration and waveform come from decoding the audio; client values are only a
+    // fallback for servers without ffmpeg
+    const analysis = quarantined ? null : await voiceAnalysisService.analyzeUpload(req.file);
+
+    let voiceWaveform: number[] = analysis?.waveform || [];
+    if (!analysis && waveform) {
+      try {
+        voiceWaveform = JSON.parse(waveform);
+      } catch (error) {
+        console.error('Error parsing waveform:', error);
+      }
+    }
 
-  const message = await Message.create({
-    chatId,
-    senderId: userId,
-    content: 'Voice message',
-    type: 'voice',
-    fileUrl: `/uploads/${req.file.filename}`,
-    fileName: req.file.originalname,
-    fileSize: req.file.size,
-    mimeType: req.file.mimetype,
-    voiceDuration: duration ? parseInt(duration) : 0,
-    voiceWaveform,
-    isOneView: isOneView === 'true'
-  });
+    const fileUrl = await storageService.putUpload(req.file, { prefix: quarantined ? QUARANTINE_PREFIX : undefined });
+
+    message = await Message.create({
+      chatId,
+      senderId: userId,
+      content: 'Voice message',
+      type: 'voice',
+      fileUrl,
+      fileName: req.file.originalname,
+      fileSize: req.file.size,
+      mimeType: req.file.mimetype,
+      voiceDuration: analysis ? analysis.duration : (duration ? parseInt(duration) : 0),
+      voiceWaveform,
+      scanStatus: scan.scanStatus,
+      scanThreat: scan.threat,
+      isOneView: isOneView === 'true',
+      expiresAt
+    });
+  } catch (error) {
+    await storageQuotaService.release(userId, 'voiceNotes', reservedBytes);
+    throw error;
+  }
 
   await message.populate('senderId', 'name avatar');
 
@@ -306,7 +395,9 @@ export const uploadVoiceMessage = asyncHandler(async (req: Request, res: Respons
         mimeType: message.mimeType,
         voiceDuration: message.voiceDuration,
         voiceWaveform: message.voiceWaveform,
-        isOneView: message.isOneView
+        scanStatus: message.scanStatus,
+        isOneView: message.isOneView,
+        expiresAt: message.expiresAt
       }
     });
   }
@@ -0,0 +1,360 @@
+import { Request, Response } from 'express';
+import { Types } from 'mongoose';
+import { asyncHandler, AppError } from '@/middleware/errorHandler';
+import MediaAlbum, { IMediaAlbum, MAX_ALBUM_ITEMS, MAX_ALBUM_NAME_LENGTH } from '@/models/MediaAlbum';
+import MediaItem, { IMediaItem } from '@/models/MediaItem';
+import mediaGalleryService, {
+  CHAT_ALBUM_ID,
+  CHAT_ALBUM_NAME,
+  Couple,
+  FAVORITES_ALBUM_ID,
+  FAVORITES_ALBUM_NAME,
+  parsePageSize
+} from '@/services/mediaGalleryService';
+
+const COVER_FIELDS = 'fileUrl thumbnailUrl thumbnails mimeType';
+
+const validateName = (name: unknown): string => {
+  if (typeof name !== 'string' || !name.trim()) {
+    throw new AppError('Album name is required', 400);
+  }
+  if (name.trim().length > MAX_ALBUM_NAME_LENGTH) {
+    throw new AppError(`Album name cannot exceed ${MAX_ALBUM_NAME_LENGTH} characters`, 400);
+  }
+  return name.trim();
+};
+
+const requireUserId = (req: Request): string => {
+  const userId = req.user?.userId;
+  if (!userId) {
+    throw new AppError('User not authenticated', 401);
+  }
+  return userId;
+};
+
+// Albums belong to the couple, so either partner can change them
+const findCoupleAlbum = async (couple: Couple, albumId: string): Promise<IMediaAlbum> => {
+  const album = Types.ObjectId.isValid(albumId)
+    ? await MediaAlbum.findOne({ _id: albumId, members: { $all: [couple.userId, couple.partnerId] } })
+    : null;
+  if (!album) {
+    throw new AppError('Album not found', 404);
+  }
+  return album;
+};
+
+const summarizeAlbum = (album: IMediaAlbum, covers: Map<string, IMediaItem>) => {
+  const coverId = (album.coverItemId || album.items[0]?.mediaItemId)?.toString();
+  return {
+    _id: album.id,
+    name: album.name,
+    itemCount: album.items.length,
+    position: album.position,
+    coverItemId: album.coverItemId,
+    cover: coverId ? covers.get(coverId) || null : null,
+    createdBy: album.createdBy,
+    createdAt: album.createdAt,
+    updatedAt: album.updatedAt
+  };
+};
+
+// List the couple's albums plus the "From our chats" and favourites smart albums
+export const getAlbums = asyncHandler(async (req: Request, res: Response) => {
+  const userId = requireUserId(req);
+  const couple = await mediaGalleryService.requireCouple(userId);
+
+  const albums = await MediaAlbum.find({ members: { $all: [couple.userId, couple.partnerId] } })
+    .sort({ position: 1, createdAt: 1 });
+
+  const coverIds = albums
+    .map(album => album.coverItemId || album.items[0]?.mediaItemId)
+    .filter((id): id is Types.ObjectId => !!id);
+  const favoritesFilter = { $and: [mediaGalleryService.coupleMediaFilter(couple), { favoritedBy: couple.userId }] };
+
+  const [covers, chatSummary, favoriteCount, latestFavorite] = await Promise.all([
+    MediaItem.find({ _id: { $in: coverIds }, isDeleted: false }).select(COVER_FIELDS),
+    mediaGalleryService.chatMediaSummary(couple),
+    MediaItem.countDocuments(favoritesFilter),
+    MediaItem.findOne(favoritesFilter).select(COVER_FIELDS).sort({ uploadedAt: -1, _id: -1 })
+  ]);
+  const coversById = new Map(covers.map(cover => [cover.id as string, cover]));
+
+  res.json({
+    success: true,
+    data: {
+      albums: albums.map(album => summarizeAlbum(album, coversById)),
+      smartAlbums: [
+        { _id: CHAT_ALBUM_ID, name: CHAT_ALBUM_NAME, ...chatSummary },
+        { _id: FAVORITES_ALBUM_ID, name: FAVORITES_ALBUM_NAME, itemCount: favoriteCount, cover: latestFavorite }
+      ]
+    }
+  });
+});
+
+// Create an album, optionally with its first items
+export const createAlbum = asyncHandler(async (req: Request, res: Response) => {
+  const userId = requireUserId(req);
+  const { name, itemIds = [] } = req.body;
+
+  const albumName = validateName(name);
+  const couple = await mediaGalleryService.requireCouple(userId);
+  const ids = await mediaGalleryService.assertCoupleItems(couple, itemIds);
+
+  if (ids.length > MAX_ALBUM_ITEMS) {
+    throw new AppError(`Albums can hold at most ${MAX_ALBUM_ITEMS} items`, 400);
+  }
+
+  // New albums go to the end of the list
+  const last = await MediaAlbum.findOne({ members: { $all: [couple.userId, couple.partnerId] } })
+    .sort({ position: -1 })
+    .select('position');
+
+  const album = await MediaAlbum.create({
+    members: [couple.userId, couple.partnerId],
+    createdBy: couple.userId,
+    name: albumName,
+    items: ids.map(mediaItemId => ({ mediaItemId, addedBy: couple.userId, addedAt: new Date() })),
+    position: last ? last.position + 1 : 0
+  });
+
+  res.status(201).json({
+    success: true,
+    message: 'Album created successfully',
+    data: album
+  });
+});
+
+// Rename an album or change its cover (coverItemId: null goes back to the first item)
+export const updateAlbum = asyncHandler(async (req: Request, res: Response) => {
+  const userId = requireUserId(req);
+  const { name, coverItemId } = req.body;
+
+  const couple = await mediaGalleryService.requireCouple(userId);
+  const album = await findCoupleAlbum(couple, req.params.albumId);
+
+  if (name !== undefined) {
+    album.name = validateName(name);
+  }
+
+  if (coverItemId === null) {
+    album.coverItemId = undefined;
+  } else if (coverItemId !== undefined) {
+    const inAlbum = album.items.some(item => item.mediaItemId.toString() === coverItemId);
+    if (!inAlbum) {
+      throw new AppError('The cover must be one of the album\'s items', 400);
+    }
+    album.coverItemId = new Types.ObjectId(coverItemId);
+  }
+
+  await album.save();
+
+  res.json({
+    success: true,
+    message: 'Album updated successfully',
+    data: album
+  });
+});
+
+// Reorder the couple's albums; albumIds must list every album once
+export const reorderAlbums = asyncHandler(async (req: Request, res: Response) => {
+  const userId = requireUserId(req);
+  const { albumIds } = req.body;
+
+  if (!Array.isArray(albumIds) || albumIds.some(id => typeof id !== 'string')) {
+    throw new AppError('albumIds must be an array of album IDs', 400);
+  }
+
+  const couple = await mediaGalleryService.requireCouple(userId);
+  const albums = await MediaAlbum.find({ members: { $all: [couple.userId, couple.partnerId] } }).select('_id');
+  const existing = new Set(albums.map(album => album.id as string));
+
+  if (albumIds.length !== existing.size || new Set(albumIds).size !== albumIds.length || albumIds.some(id => !existing.has(id))) {
+    throw new AppError('albumIds must contain each of your albums exactly once', 400);
+  }
+
+  await MediaAlbum.bulkWrite(albumIds.map((id: string, position: number) => ({
+    updateOne: { filter: { _id: new Types.ObjectId(id) }, update: { $set: { position } } }
+  })));
+
+  res.json({
+    success: true,
+    message: 'Albums reordered successfully'
+  });
+});
+
+// Delete an album; its media items stay in the gallery
+export const deleteAlbum = asyncHandler(async (req: Request, res: Response) => {
+  const userId = requireUserId(req);
+  const couple = await mediaGalleryService.requireCouple(userId);
+  const album = await findCoupleAlbum(couple, req.params.albumId);
+
+  await album.deleteOne();
+
+  res.json({
+    success: true,
+    message: 'Album deleted successfully'
+  });
+});
+
+// Items of an album in album order; the cursor is the last item ID returned
+export const getAlbumItems = asyncHandler(async (req: Request, res: Response) => {
+  const userId = requireUserId(req);
+  const { cursor, limit: limitQuery } = req.query as { cursor?: string; limit?: string };
+
+  const couple = await mediaGalleryService.requireCouple(userId);
+  const album = await findCoupleAlbum(couple, req.params.albumId);
+  const limit = parsePageSize(limitQuery);
+
+  let start = 0;
+  if (cursor) {
+    const index = album.items.findIndex(item => item.mediaItemId.toString() === cursor);
+    if (index === -1) {
+      throw new AppError('Invalid cursor', 400);
+    }
+    start = index + 1;
+  }
+
+  const slice = album.items.slice(start, start + limit);
+  const mediaItems = await MediaItem.find({ _id: { $in: slice.map(item => item.mediaItemId) }, isDeleted: false })
+    .populate('userId', 'name email')
+    .populate('partnerId', 'name email');
+  const byId = new Map(mediaItems.map(item => [item.id as string, item]));
+
+  const hasMore = start + limit < album.items.length;
+  res.json({
+    success: true,
+    // Items deleted since they were added are skipped
+    data: slice.flatMap(item => byId.get(item.mediaItemId.toString()) || []),
+    nextCursor: hasMore && slice.length ? slice[slice.length - 1].mediaItemId.toString() : null,
+    hasMore
+  });
+});
+
+// Add media items to the end of an album (ones already in it are skipped)
+export const addAlbumItems = asyncHandler(async (req: Request, res: Response) => {
+  const userId = requireUserId(req);
+  const couple = await mediaGalleryService.requireCouple(userId);
+  const album = await findCoupleAlbum(couple, req.params.albumId);
+  const ids = await mediaGalleryService.assertCoupleItems(couple, req.body.itemIds);
+
+  const present = new Set(album.items.map(item => item.mediaItemId.toString()));
+  const added = ids.filter(id => !present.has(id.toString()));
+
+  if (album.items.length + added.length > MAX_ALBUM_ITEMS) {
+    throw new AppError(`Albums can hold at most ${MAX_ALBUM_ITEMS} items`, 400);
+  }
+
+  const updated = await MediaAlbum.findOneAndUpdate(
+    { _id: album._id, 'items.mediaItemId': { $nin: added } },
+    { $push: { items: { $each: added.map(mediaItemId => ({ mediaItemId, addedBy: couple.userId, addedAt: new Date() })) } } },
+    { new: true }
+  );
+  if (!updated) {
+    throw new AppError('Album changed while adding items; please try again', 409);
+  }
+
+  res.json({
+    success: true,
+    message: `${added.length} item(s) added to the album`,
+    data: updated
+  });
+});
+
+// Remove a media item from an album (the item itself is kept)
+export const removeAlbumItem = asyncHandler(async (req: Request, res: Response) => {
+  const userId = requireUserId(req);
+  const { mediaId } = req.params;
+
+  const couple = await mediaGalleryService.requireCouple(userId);
+  const album = await findCoupleAlbum(couple, req.params.albumId);
+
+  if (!album.items.some(item => item.mediaItemId.toString() === mediaId)) {
+    throw new AppError('Item is not in this album', 404);
+  }
+
+  const mediaItemId = new Types.ObjectId(mediaId);
+  const updated = await MediaAlbum.findByIdAndUpdate(
+    album._id,
+    {
+      $pull: { items: { mediaItemId } },
+      ...(album.coverItemId?.equals(mediaItemId) ? { $unset: { coverItemId: 1 } } : {})
+    },
+    { new: true }
+  );
+
+  res.json({
+    success: true,
+    message: 'Item removed from the album',
+    data: updated
+  });
+});
+
+// Reorder an album's items; itemIds must list every item once
+export const reorderAlbumItems = asyncHandler(async (req: Request, res: Response) => {
+  const userId = requireUserId(req);
+  const { itemIds } = req.body;
+
+  if (!Array.isArray(itemIds) || itemIds.some(id => typeof id !== 'string')) {
+    throw new AppError('itemIds must be an array of media item IDs', 400);
+  }
+
+  const couple = await mediaGalleryService.requireCouple(userId);
+  const album = await findCoupleAlbum(couple, req.params.albumId);
+  const byId = new Map(album.items.map(item => [item.mediaItemId.toString(), item]));
+
+  if (itemIds.length !== byId.size || new Set(itemIds).size !== itemIds.length || itemIds.some(id => !byId.has(id))) {
+    throw new AppError('itemIds must contain each item of the album exactly once', 400);
+  }
+
+  // Only write if nobody changed the album since we read it
+  const updated = await MediaAlbum.findOneAndUpdate(
+    { _id: album._id, updatedAt: album.updatedAt },
+    { $set: { items: itemIds.map((id: string) => byId.get(id)) } },
+    { new: true }
+  );
+  if (!updated) {
+    throw new AppError('Album changed while reordering; please reload it and try again', 409);
+  }
+
+  res.json({
+    success: true,
+    message: 'Album reordered successfully',
+    data: updated
+  });
+});
+
+// The "From our chats" smart album: every image and video sent in the couple's chat
+export const getChatAlbumItems = asyncHandler(async (req: Request, res: Response) => {
+  const userId = requireUserId(req);
+  const { cursor, limit } = req.query;
+
+  const couple = await mediaGalleryService.requireCouple(userId);
+  const page = await mediaGalleryService.listChatMedia(couple, { cursor: cursor as string | undefined, limit });
+
+  res.json({
+    success: true,
+    data: page.items,
+    nextCursor: page.nextCursor,
+    hasMore: page.hasMore
+  });
+});
+
+// The favourites smart album: the caller's favourite media items
+export const getFavoritesAlbumItems = asyncHandler(async (req: Request, res: Response) => {
+  const userId = requireUserId(req);
+  const { cursor, limit } = req.query;
+
+  const couple = await mediaGalleryService.requireCouple(userId);
+  const page = await mediaGalleryService.listMedia(couple, {
+    cursor: cursor as string | undefined,
+    limit,
+    favoritesOnly: true
+  });
+
+  res.json({
+    success: true,
+    data: page.items,
+    nextCursor: page.nextCursor,
+    hasMore: page.hasMore
+  });
+});
@@ -1,19 +1,21 @@
 import { Request, Response } from 'express';
 import multer from 'multer';
 import path from 'path';
-import fs from 'fs';
 import mongoose from 'mongoose';
 import { v4 as uuidv4 } from 'uuid';
-import MediaItem from '@/models/MediaItem';
+import MediaItem, { IMediaItem } from '@/models/MediaItem';
+import MediaAlbum from '@/models/MediaAlbum';
 import { asyncHandler, AppError } from '@/middleware/errorHandler';
+import mediaGalleryService from '@/services/mediaGalleryService';
+import mediaProcessingService from '@/services/mediaProcessingService';
+import storageService, { StagedFile } from '@/services/storageService';
+import uploadSafetyService, { QUARANTINE_PREFIX } from '@/services/uploadSafetyService';
+import storageQuotaService from '@/services/storageQuotaService';
+import { formatBytes } from '@/utils/formatBytes';
 
 const storage = multer.diskStorage({
   destination: (req, file, cb) => {
-    const uploadDir = path.join(__dirname, '../../uploads/media');
-    if (!fs.existsSync(uploadDir)) {
-      fs.mkdirSync(uploadDir, { recursive: true });
-    }
-    cb(null, uploadDir);
+    cb(null, storageService.getStagingDir('media'));
   },
   filename: (req, file, cb) => {
     const uniqueName = `${uuidv4()}-${Date.now()}${path.extname(file.originalname)}`;
@@ -38,66 +40,50 @@ const upload = multer({
 
 export const uploadMedia = upload.single('image');
 
-// Get all media items for a user and their partner
+// Get the couple's media items, newest first (cursor-based pagination)
 export const getMediaItems = asyncHandler(async (req: Request, res: Response) => {
   const userId = req.user?.userId;
+  const { cursor, limit, favorites, period, timezone } = req.query;
   
   if (!userId) {
     throw new AppError('User not authenticated', 401);
   }
 
-  // Get user's partner
-  const User = require('@/models/User').default;
-  const user = await User.findById(userId);
-  
-  if (!user) {
-    throw new AppError('User not found', 404);
-  }
+  const couple = await mediaGalleryService.getCouple(userId);
 
-  // Check for active partner
-  const activePartner = user?.partners?.find((partner: any) => partner.status === 'active');
-  
   // If no active partner, return empty array instead of error
-  if (!activePartner?.partnerId) {
+  if (!couple) {
     return res.json({
       success: true,
       data: [],
-      count: 0
+      count: 0,
+      nextCursor: null,
+      hasMore: false
     });
   }
 
-  const partnerId = activePartner.partnerId;
-
-  // Get media items for both user and partner
-  const mediaItems = await MediaItem.find({
-    $or: [
-      { userId: userId, partnerId: partnerId, isDeleted: false },
-      { userId: partnerId, partnerId: userId, isDeleted: false }
-    ]
-  })
-  .populate('userId', 'name email')
-  .populate('partnerId', 'name email')
-  .sort({ uploadedAt: -1 });
+  const page = await mediaGalleryService.listMedia(couple, {
+    cursor: cursor as string | undefined,
+    limit,
+    favoritesOnly: favorites === 'true',
+    period: period as string | undefined,
+    timezone: timezone as string | undefined
+  });
 
   return res.json({
     success: true,
-    data: mediaItems,
-    count: mediaItems.length
+    data: page.items,
+    count: page.items.length,
+    nextCursor: page.nextCursor,
+    hasMore: page.hasMore
   });
 });
 
-// Upload a new media item
-export const createMediaItem = asyncHandler(async (req: Request, res: Response) => {
-  const userId = req.user?.userId;
-  
-  if (!userId) {
-    throw new AppError('User not authenticated', 401);
-  }
-
-  if (!req.file) {
-    throw new AppError('No file uploaded', 400);
-  }
-
+/**
+ * Store a staged upload as a shared media item with the user's active partner.
+ * Shared by multipart and resumable uploads; thumbnails follow in `media_item_ready`.
+ */
+export const createMediaItemFromFile = async (userId: string, file: StagedFile): Promise<IMediaItem> => {
   // Get user's partner
   const User = require('@/models/User').default;
   const user = await User.findById(userId);
@@ -115,22 +101,66 @@ export const createMediaItem = asyncHandler(async (req: Request, res: Response)
 
   const partnerId = activePartner.partnerId;
 
-  // Create media item
-  const mediaItem = new MediaItem({
-    userId: userId,
-    partnerId: partnerId,
-    fileName: req.file.originalname,
-    fileUrl: `/uploads/media/${req.file.filename}`,
-    fileSize: req.file.size,
-    mimeType: req.file.mimetype
-  });
+  const reservedBytes = await storageQuotaService.reserveUploads(userId, 'mediaItems', [file]);
+
+  let mediaItem: IMediaItem;
+  let needsProcessing: boolean;
+  try {
+    // Check the real content type and scan, then strip EXIF/GPS before storing
+    const scan = await uploadSafetyService.inspect(file);
+    const quarantined = scan.scanStatus === 'quarantined';
+    needsProcessing = !quarantined && await mediaProcessingService.prepareUpload(file);
+    const fileUrl = await storageService.putUpload(file, {
+      prefix: quarantined ? QUARANTINE_PREFIX : 'media',
+      keepLocal: needsProcessing
+    });
 
-  await mediaItem.save();
+    // Create media item
+    mediaItem = new MediaItem({
+      userId: userId,
+      partnerId: partnerId,
+      fileName: file.originalname,
+      fileUrl,
+      fileSize: file.size,
+      mimeType: file.mimetype,
+      mediaStatus: needsProcessing ? 'processing' : undefined,
+      scanStatus: scan.scanStatus,
+      scanThreat: scan.threat
+    });
+
+    await mediaItem.save();
+  } catch (error) {
+    await storageQuotaService.release(userId, 'mediaItems', reservedBytes);
+    throw error;
+  }
+  // Stripping metadata changes the size; the quota counts what was stored
+  await storageQuotaService.record(userId, 'mediaItems', mediaItem.fileSize - reservedBytes);
+
+  if (needsProcessing) {
+    mediaProcessingService.processMediaItem(mediaItem.id, file.path);
+  }
 
   // Populate user details
   await mediaItem.populate('userId', 'name email');
   await mediaItem.populate('partnerId', 'name email');
 
+  return mediaItem;
+};
+
+// Upload a new media item
+export const createMediaItem = asyncHandler(async (req: Request, res: Response) => {
+  const userId = req.user?.userId;
+  
+  if (!userId) {
+    throw new AppError('User not authenticated', 401);
+  }
+
+  if (!req.file) {
+    throw new AppError('No file uploaded', 400);
+  }
+
+  const mediaItem = await createMediaItemFromFile(userId, req.file);
+
   res.status(201).json({
     success: true,
     message: 'Media uploaded successfully',
@@ -138,6 +168,62 @@ export const createMediaItem = asyncHandler(async (req: Request, res: Response)
   });
 });
 
+// Month/year buckets of the couple's media for the timeline view
+export const getMediaTimeline = asyncHandler(async (req: Request, res: Response) => {
+  const userId = req.user?.userId;
+  const { groupBy = 'month', cursor, limit, timezone } = req.query;
+
+  if (!userId) {
+    throw new AppError('User not authenticated', 401);
+  }
+
+  if (groupBy !== 'month' && groupBy !== 'year') {
+    throw new AppError('groupBy must be "month" or "year"', 400);
+  }
+
+  const couple = await mediaGalleryService.requireCouple(userId);
+  const page = await mediaGalleryService.timeline(couple, groupBy, {
+    cursor: cursor as string | undefined,
+    limit,
+    timezone: timezone as string | undefined
+  });
+
+  res.json({
+    success: true,
+    data: page.items,
+    nextCursor: page.nextCursor,
+    hasMore: page.hasMore
+  });
+});
+
+// Mark or unmark a media item as one of the caller's favourites
+const setFavorite = (favorite: boolean) => asyncHandler(async (req: Request, res: Response) => {
+  const userId = req.user?.userId;
+  const { mediaId } = req.params;
+
+  if (!userId) {
+    throw new AppError('User not authenticated', 401);
+  }
+
+  const couple = await mediaGalleryService.requireCouple(userId);
+  const [id] = await mediaGalleryService.assertCoupleItems(couple, [mediaId]);
+
+  const mediaItem = await MediaItem.findByIdAndUpdate(
+    id,
+    favorite ? { $addToSet: { favoritedBy: couple.userId } } : { $pull: { favoritedBy: couple.userId } },
+    { new: true }
+  );
+
+  res.json({
+    success: true,
+    message: favorite ? 'Added to favourites' : 'Removed from favourites',
+    data: mediaItem
+  });
+});
+
+export const favoriteMediaItem = setFavorite(true);
+export const unfavoriteMediaItem = setFavorite(false);
+
 // Delete a media item (soft delete)
 export const deleteMediaItem = asyncHandler(async (req: Request, res: Response) => {
   const userId = req.user?.userId;
@@ -159,11 +245,24 @@ export const deleteMediaItem = asyncHandler(async (req: Request, res: Response)
     throw new AppError('You can only delete your own media items', 403);
   }
 
-  // Soft delete
+  // Soft delete the record and remove the stored file and thumbnails
+  const wasDeleted = mediaItem.isDeleted;
   mediaItem.isDeleted = true;
   mediaItem.deletedAt = new Date();
   await mediaItem.save();
 
+  await storageService.deleteByUrls([mediaItem.fileUrl, ...mediaProcessingService.getDerivedUrls(mediaItem)]);
+  if (!wasDeleted) {
+    await storageQuotaService.record(userId, 'mediaItems', -mediaItem.fileSize);
+  }
+
+  // Take it out of any albums, including as their cover
+  await MediaAlbum.updateMany(
+    { 'items.mediaItemId': mediaItem._id },
+    { $pull: { items: { mediaItemId: mediaItem._id } } }
+  );
+  await MediaAlbum.updateMany({ coverItemId: mediaItem._id }, { $unset: { coverItemId: 1 } });
+
   res.json({
     success: true,
     message: 'Media deleted successfully'
@@ -246,12 +345,3 @@ export const getMediaStats = asyncHandler(async (req: Request, res: Response) =>
     }
   });
 });
-
-// Helper function to format bytes
-function formatBytes(bytes: number): string {
-  if (bytes === 0) return '0 Bytes';
-  const k = 1024;
-  const sizes = ['Bytes', 'KB', 'MB', 'GB'];
-  const i = Math.floor(Math.log(bytes) / Math.log(k));
-  return parseFloat((bytes / Math.pow(k, i)).toFixed(2)) + ' ' + sizes[i];
-}
@@ -0,0 +1,239 @@
+import express, { Request, Response } from 'express';
+import path from 'path';
+import { Types } from 'mongoose';
+import { asyncHandler, AppError } from '@/middleware/errorHandler';
+import Chat from '@/models/Chat';
+import Message, { IMessage } from '@/models/Message';
+import MediaItem, { IMediaItem } from '@/models/MediaItem';
+import ResumableUpload, { IResumableUpload } from '@/models/ResumableUpload';
+import { config } from '@/config/env';
+import disappearingMessageService from '@/services/disappearingMessageService';
+import resumableUploadService from '@/services/resumableUploadService';
+import { ALLOWED_FILE_MIME_TYPES, createFileMessage } from './fileController';
+import { createMediaItemFromFile } from './mediaController';
+import logger from '@/utils/logger';
+
+export const CHUNK_CONTENT_TYPE = 'application/offset+octet-stream';
+
+// Chunk bodies arrive raw; anything else leaves req.body unparsed and is rejected
+export const parseChunk = express.raw({
+  type: CHUNK_CONTENT_TYPE,
+  limit: config.resumableUploads.chunkMaxBytes
+});
+
+const setProgressHeaders = (res: Response, upload: IResumableUpload) => {
+  res.setHeader('Upload-Offset', String(upload.offset));
+  res.setHeader('Upload-Length', String(upload.totalSize));
+  res.setHeader('Cache-Control', 'no-store');
+};
+
+const loadResult = async (upload: IResumableUpload) => {
+  if (upload.target === 'media') {
+    const mediaItem = await MediaItem.findById(upload.mediaItemId)
+      .populate('userId', 'name email')
+      .populate('partnerId', 'name email');
+    return { mediaItem };
+  }
+  const message = await Message.findById(upload.messageId).populate('senderId', 'name avatar');
+  return { message };
+};
+
+// Start a resumable upload for a chat file or a shared media item
+export const createResumableUpload = asyncHandler(async (req: Request, res: Response) => {
+  const userId = req.user?.userId;
+  const { target = 'message', chatId, fileName, mimeType, fileSize, isOneView, ttlSeconds } = req.body;
+
+  if (!userId) {
+    throw new AppError('User not authenticated', 401);
+  }
+
+  if (!['message', 'media'].includes(target)) {
+    throw new AppError('target must be "message" or "media"', 400);
+  }
+
+  if (typeof fileName !== 'string' || !fileName.trim() || fileName.length > 255) {
+    throw new AppError('fileName is required (max 255 characters)', 400);
+  }
+
+  const totalSize = Number(fileSize);
+  if (!Number.isInteger(totalSize) || totalSize <= 0) {
+    throw new AppError('fileSize must be a positive number of bytes', 400);
+  }
+  if (totalSize > config.resumableUploads.maxFileSize) {
+    throw new AppError(`Files can be at most ${config.resumableUploads.maxFileSize} bytes`, 413);
+  }
+
+  const allowed = target === 'media'
+    ? typeof mimeType === 'string' && (mimeType.startsWith('image/') || mimeType.startsWith('video/'))
+    : ALLOWED_FILE_MIME_TYPES.includes(mimeType);
+  if (!allowed) {
+    throw new AppError(`File type ${mimeType} not allowed`, 400);
+  }
+
+  let ttl: number | undefined;
+  if (target === 'message') {
+    const chat = Types.ObjectId.isValid(chatId) ? await Chat.findById(chatId) : null;
+    if (!chat) {
+      throw new AppError('Chat not found', 404);
+    }
+    if (!chat.participants.some(p => p.toString() === userId)) {
+      throw new AppError('Access denied', 403);
+    }
+    // Validate now so the client doesn't upload a whole file to hear about a bad TTL
+    if (ttlSeconds !== undefined) {
+      ttl = disappearingMessageService.parseTtl(ttlSeconds) ?? 0;
+    }
+  }
+
+  const upload = await resumableUploadService.create(userId, {
+    target,
+    chatId: target === 'message' ? chatId : undefined,
+    fileName: path.basename(fileName.trim()),
+    mimeType,
+    totalSize,
+    isOneView: target === 'message' && (isOneView === true || isOneView === 'true'),
+    ttlSeconds: ttl
+  });
+
+  res.setHeader('Location', `${req.baseUrl}/${upload.id}`);
+  setProgressHeaders(res, upload);
+  res.status(201).json({
+    success: true,
+    message: 'Upload created',
+    data: { upload }
+  });
+});
+
+// Upload progress; HEAD answers with just the Upload-Offset/Upload-Length headers
+export const getResumableUpload = asyncHandler(async (req: Request, res: Response) => {
+  const userId = req.user?.userId;
+  if (!userId) {
+    throw new AppError('User not authenticated', 401);
+  }
+
+  const upload = await resumableUploadService.getForUser(req.params.id, userId);
+  setProgressHeaders(res, upload);
+
+  if (req.method === 'HEAD') {
+    res.status(200).end();
+    return;
+  }
+
+  res.json({
+    success: true,
+    data: { upload }
+  });
+});
+
+// Append one chunk at Upload-Offset, verified against Upload-Checksum
+export const uploadChunk = asyncHandler(async (req: Request, res: Response) => {
+  const userId = req.user?.userId;
+  if (!userId) {
+    throw new AppError('User not authenticated', 401);
+  }
+
+  if (!Buffer.isBuffer(req.body)) {
+    throw new AppError(`Chunks must be sent as ${CHUNK_CONTENT_TYPE}`, 415);
+  }
+
+  const offsetHeader = req.get('Upload-Offset');
+  const offset = Number(offsetHeader);
+  if (!offsetHeader || !Number.isInteger(offset) || offset < 0) {
+    throw new AppError('Upload-Offset header is required', 400);
+  }
+
+  const upload = await resumableUploadService.getForUser(req.params.id, userId);
+  try {
+    upload.offset = await resumableUploadService.appendChunk(upload, offset, req.body, req.get('Upload-Checksum'));
+  } finally {
+    // Tell the client where to resume from, whether or not this chunk was accepted
+    setProgressHeaders(res, upload);
+  }
+
+  res.status(204).end();
+});
+
+// Turn a fully received upload into a chat message or media item
+export const finalizeResumableUpload = asyncHandler(async (req: Request, res: Response) => {
+  const userId = req.user?.userId;
+  if (!userId) {
+    throw new AppError('User not authenticated', 401);
+  }
+
+  const upload = await resumableUploadService.getForUser(req.params.id, userId);
+  const claimed = await resumableUploadService.claimForFinalize(upload);
+
+  if (!claimed) {
+    // Re-read: another request may have claimed or finished it since we loaded it
+    const current = await ResumableUpload.findById(upload._id) || upload;
+
+    // Finalizing twice (e.g. after a lost response) returns the same result
+    if (current.status === 'completed') {
+      res.json({
+        success: true,
+        message: 'Upload already finalized',
+        data: { upload: current, ...(await loadResult(current)) }
+      });
+      return;
+    }
+    if (current.status === 'uploading' && current.offset < current.totalSize) {
+      setProgressHeaders(res, current);
+      throw new AppError(`Upload is incomplete (${current.offset} of ${current.totalSize} bytes received)`, 409);
+    }
+    if (current.status === 'uploading' || current.status === 'expired') {
+      throw new AppError('Upload has expired; start a new upload', 410);
+    }
+    throw new AppError(`Upload is already ${current.status}`, 409);
+  }
+
+  let filePath = claimed.stagingPath;
+  try {
+    const file = await resumableUploadService.toStagedFile(claimed);
+    filePath = file.path;
+
+    let result: { message?: IMessage; mediaItem?: IMediaItem };
+    if (claimed.target === 'media') {
+      const mediaItem = await createMediaItemFromFile(userId, file);
+      await resumableUploadService.markCompleted(claimed, { mediaItemId: mediaItem._id });
+      result = { mediaItem };
+    } else {
+      const chat = await Chat.findById(claimed.chatId);
+      if (!chat || !chat.participants.some(p => p.toString() === userId)) {
+        throw new AppError('Chat not found', 404);
+      }
+      const message = await createFileMessage(chat, userId, file, {
+        isOneView: claimed.isOneView,
+        ttlSeconds: claimed.ttlSeconds
+      });
+      await resumableUploadService.markCompleted(claimed, { messageId: message._id });
+      result = { message };
+    }
+
+    const completed = await ResumableUpload.findById(claimed._id);
+    res.status(201).json({
+      success: true,
+      message: 'File uploaded successfully',
+      data: { upload: completed, ...result }
+    });
+  } catch (error) {
+    logger.warn('Failed to finalize resumable upload', {
+      uploadId: claimed.id,
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+    await resumableUploadService.markFailed(claimed, error instanceof Error ? error.message : 'Unknown error', filePath);
+    throw error;
+  }
+});
+
+// Cancel an upload and delete its partial data
+export const abortResumableUpload = asyncHandler(async (req: Request, res: Response) => {
+  const userId = req.user?.userId;
+  if (!userId) {
+    throw new AppError('User not authenticated', 401);
+  }
+
+  const upload = await resumableUploadService.getForUser(req.params.id, userId);
+  await resumableUploadService.abort(upload);
+
+  res.status(204).end();
+});
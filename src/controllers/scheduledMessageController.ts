@@ -0,0 +1,175 @@
+import { Request, Response } from 'express';
+import { Types } from 'mongoose';
+import { asyncHandler, AppError } from '@/middleware/errorHandler';
+import Message from '@/models/Message';
+import ScheduledMessage, { MAX_SCHEDULED_MESSAGE_LENGTH } from '@/models/ScheduledMessage';
+import disappearingMessageService from '@/services/disappearingMessageService';
+import scheduledMessageService, { MAX_PENDING_SCHEDULED_MESSAGES } from '@/services/scheduledMessageService';
+
+const validateContent = (content: unknown): string => {
+  if (typeof content !== 'string' || !content.trim()) {
+    throw new AppError('Message content is required', 400);
+  }
+  if (content.length > MAX_SCHEDULED_MESSAGE_LENGTH) {
+    throw new AppError(`Message content cannot exceed ${MAX_SCHEDULED_MESSAGE_LENGTH} characters`, 400);
+  }
+  return content.trim();
+};
+
+// Schedule a message to the active partner
+export const createScheduledMessage = asyncHandler(async (req: Request, res: Response) => {
+  const userId = req.user?.userId;
+  const { content, type = 'text', scheduledFor, replyTo, ttlSeconds, isEncrypted } = req.body;
+
+  if (!userId) {
+    throw new AppError('User not authenticated', 401);
+  }
+
+  if (isEncrypted) {
+    throw new AppError('End-to-end encrypted messages cannot be scheduled', 400);
+  }
+
+  if (!['text', 'emoji'].includes(type)) {
+    throw new AppError('Only text messages can be scheduled', 400);
+  }
+
+  const messageContent = validateContent(content);
+  const sendAt = scheduledMessageService.parseScheduledFor(scheduledFor);
+  const ttl = ttlSeconds !== undefined ? disappearingMessageService.parseTtl(ttlSeconds) : undefined;
+
+  const chat = await scheduledMessageService.getActivePartnerChat(userId);
+
+  if (replyTo) {
+    const original = Types.ObjectId.isValid(replyTo)
+      ? await Message.findOne({ _id: replyTo, chatId: chat._id, isDeleted: false }).select('_id')
+      : null;
+    if (!original) {
+      throw new AppError('Reply target not found in this chat', 400);
+    }
+  }
+
+  const pendingCount = await ScheduledMessage.countDocuments({ senderId: userId, status: 'scheduled' });
+  if (pendingCount >= MAX_PENDING_SCHEDULED_MESSAGES) {
+    throw new AppError(`You can have at most ${MAX_PENDING_SCHEDULED_MESSAGES} scheduled messages`, 400);
+  }
+
+  const scheduledMessage = await ScheduledMessage.create({
+    chatId: chat._id,
+    senderId: userId,
+    content: messageContent,
+    type,
+    replyTo,
+    ttlSeconds: ttl ?? undefined,
+    scheduledFor: sendAt
+  });
+
+  res.status(201).json({
+    success: true,
+    message: 'Message scheduled successfully',
+    data: { scheduledMessage }
+  });
+});
+
+// List the caller's scheduled messages (pending by default)
+export const getScheduledMessages = asyncHandler(async (req: Request, res: Response) => {
+  const userId = req.user?.userId;
+  const { status = 'scheduled', limit = 50 } = req.query;
+
+  const statuses = ['scheduled', 'sent', 'cancelled', 'failed'];
+  if (status !== 'all' && !statuses.includes(status as string)) {
+    throw new AppError('Invalid status filter', 400);
+  }
+
+  const query: Record<string, unknown> = { senderId: userId };
+  if (status !== 'all') {
+    // Messages being sent right now still count as pending
+    query.status = status === 'scheduled' ? { $in: ['scheduled', 'sending'] } : status;
+  }
+
+  const scheduledMessages = await ScheduledMessage.find(query)
+    .sort({ scheduledFor: status === 'scheduled' ? 1 : -1 })
+    .limit(Math.min(Math.max(Number(limit) || 50, 1), 100));
+
+  res.json({
+    success: true,
+    data: { scheduledMessages }
+  });
+});
+
+// Edit a scheduled message that has not been sent yet
+export const updateScheduledMessage = asyncHandler(async (req: Request, res: Response) => {
+  const userId = req.user?.userId;
+  const { id } = req.params;
+  const { content, scheduledFor, ttlSeconds } = req.body;
+
+  if (!Types.ObjectId.isValid(id)) {
+    throw new AppError('Invalid scheduled message ID', 400);
+  }
+
+  const updates: Record<string, unknown> = {};
+  const unset: Record<string, 1> = {};
+
+  if (content !== undefined) {
+    updates.content = validateContent(content);
+  }
+  if (scheduledFor !== undefined) {
+    updates.scheduledFor = scheduledMessageService.parseScheduledFor(scheduledFor);
+  }
+  if (ttlSeconds !== undefined) {
+    const ttl = disappearingMessageService.parseTtl(ttlSeconds);
+    if (ttl) {
+      updates.ttlSeconds = ttl;
+    } else {
+      unset.ttlSeconds = 1;
+    }
+  }
+
+  if (Object.keys(updates).length === 0 && Object.keys(unset).length === 0) {
+    throw new AppError('Nothing to update', 400);
+  }
+
+  // Only pending messages can change; the status check keeps this safe against the worker
+  const scheduledMessage = await ScheduledMessage.findOneAndUpdate(
+    { _id: id, senderId: userId, status: 'scheduled' },
+    { $set: updates, ...(Object.keys(unset).length ? { $unset: unset } : {}) },
+    { new: true, runValidators: true }
+  );
+
+  if (!scheduledMessage) {
+    const exists = await ScheduledMessage.exists({ _id: id, senderId: userId });
+    throw new AppError(exists ? 'This message has already been sent or cancelled' : 'Scheduled message not found', exists ? 409 : 404);
+  }
+
+  res.json({
+    success: true,
+    message: 'Scheduled message updated successfully',
+    data: { scheduledMessage }
+  });
+});
+
+// Cancel a scheduled message that has not been sent yet
+export const cancelScheduledMessage = asyncHandler(async (req: Request, res: Response) => {
+  const userId = req.user?.userId;
+  const { id } = req.params;
+
+  if (!Types.ObjectId.isValid(id)) {
+    throw new AppError('Invalid scheduled message ID', 400);
+  }
+
+  const scheduledMessage = await ScheduledMessage.findOneAndUpdate(
+    { _id: id, senderId: userId, status: 'scheduled' },
+    { $set: { status: 'cancelled', cancelledAt: new Date() } },
+    { new: true }
+  );
+
+  if (!scheduledMessage) {
+    const exists = await ScheduledMessage.exists({ _id: id, senderId: userId });
+    throw new AppError(exists ? 'This message has already been sent or cancelled' : 'Scheduled message not found', exists ? 409 : 404);
+  }
+
+  res.json({
+    success: true,
+    message: 'Scheduled message cancelled',
+    data: { scheduledMessage }
+  });
+});
@@ -0,0 +1,24 @@
+import { Request, Response } from 'express';
+import { asyncHandler, AppError } from '@/middleware/errorHandler';
+import storageQuotaService from '@/services/storageQuotaService';
+import { formatBytes } from '@/utils/formatBytes';
+
+// Storage used by the caller (and the couple) per category, against the quotas
+export const getStorageUsage = asyncHandler(async (req: Request, res: Response) => {
+  const userId = req.user?.userId;
+
+  if (!userId) {
+    throw new AppError('User not authenticated', 401);
+  }
+
+  const usage = await storageQuotaService.getUsage(userId);
+
+  res.json({
+    success: true,
+    data: {
+      ...usage,
+      user: { ...usage.user, formattedUsed: formatBytes(usage.user.usedBytes) },
+      couple: usage.couple && { ...usage.couple, formattedUsed: formatBytes(usage.couple.usedBytes) }
+    }
+  });
+});
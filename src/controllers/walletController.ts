@@ -3,6 +3,31 @@ import mongoose from 'mongoose';
 import { asyncHandler, AppError } from '@/middleware/errorHandler';
 import WalletItem from '@/models/WalletItem';
 import { IWalletItem } from '@/models/WalletItem';
+import User from '@/models/User';
+import { comparePassword } from '@/utils/hash';
+import walletCryptoService from '@/services/walletCryptoService';
+import auditService from '@/services/auditService';
+
+// Check the user's secret code (sub-password) the same way verifySecretCode does
+const verifyUserSecretCode = async (userId: string, secretCode?: string) => {
+  if (!secretCode) {
+    throw new AppError('Secret code is required', 400);
+  }
+
+  const user = await User.findById(userId);
+  if (!user) {
+    throw new AppError('User not found', 404);
+  }
+
+  if (!user.subPassword) {
+    throw new AppError('No secret code set for this user', 400);
+  }
+
+  const isSecretCodeValid = await comparePassword(secretCode, user.subPassword);
+  if (!isSecretCodeValid) {
+    throw new AppError('Invalid secret code', 401);
+  }
+};
 
 // Get wallet categories
 export const getWalletCategories = asyncHandler(async (req: Request, res: Response) => {
@@ -102,7 +127,13 @@ export const getWalletItems = asyncHandler(async (req: Request, res: Response) =
 // Create wallet item
 export const createWalletItem = asyncHandler(async (req: Request, res: Response) => {
   const userId = req.user?.userId;
-  const { category, type, ...itemData } = req.body;
+  const { category } = req.body;
+  const itemData = { ...req.body };
+  delete itemData.category;
+  delete itemData.type;
+  // Encryption state is owned by the server, never by the client
+  delete itemData.isEncrypted;
+  delete itemData.encryptionKeyVersion;
 
   if (!userId) {
     throw new AppError('User not authenticated', 401);
@@ -143,13 +174,15 @@ export const createWalletItem = asyncHandler(async (req: Request, res: Response)
     }
   }
 
-  const walletItem = await WalletItem.create({
+  const walletItem = new WalletItem({
     userId,
     partnerId,
     category,
     type: category,
     ...itemData
   });
+  await walletCryptoService.sealPassword(walletItem);
+  await walletItem.save();
 
   await walletItem.populate('userId', 'name avatar');
   await walletItem.populate('partnerId', 'name avatar');
@@ -212,6 +245,7 @@ export const updateWalletItem = asyncHandler(async (req: Request, res: Response)
   walletItem.approvalStatusUpdatedAt = new Date();
   walletItem.approvalStatusUpdatedBy = new mongoose.Types.ObjectId(userId);
 
+  await walletCryptoService.sealPassword(walletItem);
   await walletItem.save();
 
   await walletItem.populate('userId', 'name avatar');
@@ -341,4 +375,91 @@ export const updateWalletItemApproval = asyncHandler(async (req: Request, res: R
     message: `Wallet item ${action === 'approve' ? 'approved' : 'rejected'} successfully`,
     data: { walletItem }
   });
-});
\ No newline at end of file
+});
+
+// Reveal the decrypted password of a social media wallet item
+export const revealWalletItemPassword = asyncHandler(async (req: Request, res: Response) => {
+  const userId = req.user?.userId;
+  const { id } = req.params;
+  const { secretCode } = req.body as { secretCode?: string };
+
+  if (!userId) {
+    throw new AppError('User not authenticated', 401);
+  }
+
+  // Check if user has access to this item
+  const walletItem = await WalletItem.findOne({
+    _id: id,
+    $or: [
+      { userId: userId },
+      { partnerId: userId }
+    ]
+  });
+
+  if (!walletItem || walletItem.category !== 'socialmedia') {
+    throw new AppError('Wallet item not found or access denied', 404);
+  }
+
+  await verifyUserSecretCode(userId, secretCode);
+
+  let password = walletItem.password || '';
+  if (walletItem.encryptionKeyVersion && password) {
+    password = await walletCryptoService.decryptSecret(
+      walletItem.userId.toString(),
+      walletItem.partnerId.toString(),
+      password,
+      walletItem.encryptionKeyVersion as number
+    );
+  }
+
+  await auditService.logActivity({
+    userId,
+    action: 'wallet_secret_revealed',
+    details: `Revealed password for wallet item ${walletItem.id}`,
+    ipAddress: req.ip,
+    userAgent: req.get('User-Agent'),
+    metadata: { walletItemId: walletItem.id, platform: walletItem.platform }
+  });
+
+  res.json({
+    success: true,
+    data: { password }
+  });
+});
+
+// Rotate the couple's wallet data key and re-encrypt all stored passwords
+export const rotateWalletKey = asyncHandler(async (req: Request, res: Response) => {
+  const userId = req.user?.userId;
+  const { secretCode } = req.body as { secretCode?: string };
+
+  if (!userId) {
+    throw new AppError('User not authenticated', 401);
+  }
+
+  const user = await User.findById(userId);
+  const activePartner = user?.partners?.find((partner) => partner.status === 'active');
+
+  if (!activePartner?.partnerId) {
+    throw new AppError('No partner found', 404);
+  }
+
+  await verifyUserSecretCode(userId, secretCode);
+
+  const result = await walletCryptoService.rotateCoupleKey(userId, activePartner.partnerId);
+
+  await auditService.logActivity({
+    userId,
+    action: 'wallet_key_rotated',
+    targetUserId: activePartner.partnerId,
+    details: `Rotated wallet data key to v${result.version}`,
+    ipAddress: req.ip,
+    userAgent: req.get('User-Agent'),
+    metadata: { ...result }
+  });
+
+  res.json({
+    success: true,
+    message: 'Wallet key rotated successfully',
+    data: result
+  });
+});
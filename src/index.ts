@@ -7,6 +7,8 @@ import { createServer } from 'http';
 import { config } from '@/config/env';
 import { errorHandler, notFoundHandler } from '@/middleware/errorHandler';
 import routes from '@/routes';
+import { authenticate } from '@/middleware/auth';
+import { redirectLegacyUpload } from '@/controllers/fileAccessController';
 import connectDB from '@/config/database';
 import { initializeSocketHandler } from '@/socket/socketHandler';
 import logger from '@/utils/logger';
@@ -23,6 +25,8 @@ app.use(helmet());
 app.use(cors({
   origin: config.nodeEnv === 'development' ? true : config.cors.origin,
   credentials: true,
+  // Resumable upload progress has to be readable by browser clients
+  exposedHeaders: ['Location', 'Upload-Offset', 'Upload-Length'],
 }));
 
 // Body parsing middleware
@@ -59,8 +63,8 @@ if (config.nodeEnv === 'development') {
 // API routes
 app.use('/api', routes);
 
-// Serve uploaded files
-app.use('/uploads', express.static('uploads'));
+// Stored file URLs are still `/uploads/...`; redirect them to signed URLs for callers with access
+app.get('/uploads/*', authenticate, redirectLegacyUpload);
 
 // 404 handler
 app.use(notFoundHandler);
@@ -38,7 +38,9 @@ const ActivityLogSchema = new Schema<IActivityLog>({
       'security_violation',
       'rate_limit_exceeded',
       'authentication_failed',
-      'authorization_failed'
+      'authorization_failed',
+      'wallet_secret_revealed',
+      'wallet_key_rotated'
     ],
     index: true
   },
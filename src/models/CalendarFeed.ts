@@ -0,0 +1,38 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+// A user's secret iCalendar feed link; only a hash of the token is stored
+export interface ICalendarFeed extends Document {
+  userId: mongoose.Types.ObjectId;
+  tokenHash: string; // sha256 of the token in the feed URL
+  lastAccessedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const CalendarFeedSchema = new Schema<ICalendarFeed>({
+  userId: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true,
+    unique: true
+  },
+  tokenHash: {
+    type: String,
+    required: true,
+    unique: true
+  },
+  lastAccessedAt: {
+    type: Date
+  }
+}, {
+  timestamps: true,
+  toJSON: {
+    transform: function(doc, ret: Record<string, unknown>) {
+      if (Object.prototype.hasOwnProperty.call(ret, '__v')) delete ret.__v;
+      delete ret.tokenHash;
+      return ret;
+    }
+  }
+});
+
+export default mongoose.model<ICalendarFeed>('CalendarFeed', CalendarFeedSchema);
@@ -1,8 +1,24 @@
 import mongoose, { Document, Schema } from 'mongoose';
 
+// A changed occurrence of a recurring note
+export interface ICalendarOccurrenceOverride {
+  originalDate: Date; // start the rule gives the occurrence
+  date?: Date; // moved start
+  text?: string;
+  tags?: string[];
+}
+
+export interface ICalendarRecurrence {
+  rrule: string; // RFC 5545 RRULE value, e.g. FREQ=WEEKLY;BYDAY=FR
+  timezone: string; // occurrences keep the first one's wall-clock time here across DST changes
+  exdates: Date[]; // cancelled occurrences, by their original start
+  overrides: ICalendarOccurrenceOverride[];
+  endsAt?: Date; // latest occurrence start; unset when the rule repeats forever
+}
+
 export interface ICalendarNote extends Document {
   partnerId?: string;
-  date: Date;
+  date: Date; // start of the first occurrence for recurring notes
   text: string;
   authorId: string;
   authorName: string;
@@ -11,8 +27,12 @@ export interface ICalendarNote extends Document {
   deletedBy?: string;
   deletedReason?: string;
   privacy: 'public' | 'private';
-  reminderAt?: Date;
-  reminderSent: boolean;
+  reminderAt?: Date; // next reminder due; derived from reminderOffsets when those are set
+  reminderSent: boolean; // no reminder left to deliver
+  reminderOffsets?: number[]; // minutes before the start (of each occurrence, for recurring notes) to remind
+  reminderOccurrence?: Date; // recurring notes: occurrence the pending reminderAt is for
+  recurrence?: ICalendarRecurrence;
+  icalUid?: string; // UID of the imported .ics event, for de-duplication
   tags: string[];
   auditTrail: Array<{
     action: 'created' | 'updated' | 'deleted' | 'restored';
@@ -82,6 +102,59 @@ const CalendarNoteSchema = new Schema<ICalendarNote>({
     type: Boolean,
     default: false
   },
+  reminderOffsets: {
+    type: [{
+      type: Number,
+      min: 0
+    }],
+    default: undefined
+  },
+  reminderOccurrence: {
+    type: Date
+  },
+  recurrence: {
+    type: new Schema<ICalendarRecurrence>({
+      rrule: {
+        type: String,
+        required: true,
+        maxlength: 500
+      },
+      timezone: {
+        type: String,
+        default: 'UTC'
+      },
+      exdates: [{
+        type: Date
+      }],
+      overrides: [{
+        _id: false,
+        originalDate: {
+          type: Date,
+          required: true
+        },
+        date: {
+          type: Date
+        },
+        text: {
+          type: String,
+          maxlength: [600, 'Text cannot exceed 600 characters']
+        },
+        tags: {
+          type: [String],
+          default: undefined
+        }
+      }],
+      endsAt: {
+        type: Date
+      }
+    }, { _id: false }),
+    required: false
+  },
+  icalUid: {
+    type: String,
+    trim: true,
+    maxlength: 255
+  },
   tags: [{
     type: String,
     trim: true
@@ -121,5 +194,11 @@ CalendarNoteSchema.index({ date: 1, isDeleted: 1 });
 CalendarNoteSchema.index({ partnerId: 1, isDeleted: 1 });
 CalendarNoteSchema.index({ tags: 1, isDeleted: 1 });
 CalendarNoteSchema.index({ reminderAt: 1, reminderSent: 1 });
+// One live note per imported event, so concurrent imports of the same file can't both add it
+CalendarNoteSchema.index(
+  { authorId: 1, icalUid: 1 },
+  { unique: true, partialFilterExpression: { icalUid: { $exists: true }, isDeleted: false } }
+);
+CalendarNoteSchema.index({ 'recurrence.endsAt': 1, date: 1 }, { partialFilterExpression: { recurrence: { $exists: true } } });
 
 export default mongoose.model<ICalendarNote>('CalendarNote', CalendarNoteSchema);
\ No newline at end of file
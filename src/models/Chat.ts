@@ -1,10 +1,23 @@
 import mongoose, { Document, Schema } from 'mongoose';
 
+export interface IChatReadPointer {
+  userId: mongoose.Types.ObjectId;
+  messageId: mongoose.Types.ObjectId;
+  messageCreatedAt: Date;
+  readAt: Date;
+}
+
 export interface IChat extends Document {
   participants: mongoose.Types.ObjectId[];
   lastMessage?: mongoose.Types.ObjectId;
   lastMessageAt?: Date;
   isActive: boolean;
+  // Disappearing messages timer applied to new messages (seconds)
+  defaultMessageTtl?: number;
+  defaultMessageTtlUpdatedBy?: mongoose.Types.ObjectId;
+  defaultMessageTtlUpdatedAt?: Date;
+  // Last message each participant has read
+  lastRead: IChatReadPointer[];
   createdAt: Date;
   updatedAt: Date;
 }
@@ -26,7 +39,25 @@ const ChatSchema = new Schema<IChat>({
   isActive: {
     type: Boolean,
     default: true
-  }
+  },
+  defaultMessageTtl: {
+    type: Number,
+    min: 0
+  },
+  defaultMessageTtlUpdatedBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'User'
+  },
+  defaultMessageTtlUpdatedAt: {
+    type: Date
+  },
+  lastRead: [{
+    _id: false,
+    userId: { type: Schema.Types.ObjectId, ref: 'User', required: true },
+    messageId: { type: Schema.Types.ObjectId, ref: 'Message', required: true },
+    messageCreatedAt: { type: Date, required: true },
+    readAt: { type: Date, required: true }
+  }]
 }, {
   timestamps: true
 });
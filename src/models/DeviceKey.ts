@@ -0,0 +1,100 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+export interface IPreKey {
+  keyId: number;
+  publicKey: string; // base64
+}
+
+export interface ISignedPreKey extends IPreKey {
+  signature: string; // base64 signature by the identity key
+}
+
+export interface IDeviceKey extends Document {
+  userId: mongoose.Types.ObjectId;
+  deviceId: string; // matches an entry in User.loginHistory
+  registrationId?: number;
+  identityKey: string; // base64 public identity key
+  signedPreKey: ISignedPreKey;
+  oneTimePreKeys: IPreKey[];
+  isActive: boolean;
+  revokedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export const MAX_ONE_TIME_PREKEYS = 100;
+
+const PreKeySchema = new Schema<IPreKey>({
+  keyId: {
+    type: Number,
+    required: true,
+    min: 0
+  },
+  publicKey: {
+    type: String,
+    required: true,
+    maxlength: 512
+  }
+}, { _id: false });
+
+const DeviceKeySchema = new Schema<IDeviceKey>({
+  userId: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  deviceId: {
+    type: String,
+    required: true,
+    trim: true
+  },
+  registrationId: {
+    type: Number
+  },
+  identityKey: {
+    type: String,
+    required: true,
+    maxlength: 512
+  },
+  signedPreKey: {
+    keyId: {
+      type: Number,
+      required: true,
+      min: 0
+    },
+    publicKey: {
+      type: String,
+      required: true,
+      maxlength: 512
+    },
+    signature: {
+      type: String,
+      required: true,
+      maxlength: 1024
+    }
+  },
+  oneTimePreKeys: {
+    type: [PreKeySchema],
+    default: []
+  },
+  isActive: {
+    type: Boolean,
+    default: true
+  },
+  revokedAt: {
+    type: Date
+  }
+}, {
+  timestamps: true,
+  toJSON: {
+    transform: function(doc, ret: Record<string, unknown>) {
+      if (Object.prototype.hasOwnProperty.call(ret, '__v')) delete ret.__v;
+      return ret;
+    }
+  }
+});
+
+DeviceKeySchema.index({ userId: 1, deviceId: 1 }, { unique: true });
+DeviceKeySchema.index({ userId: 1, isActive: 1 });
+
+export default mongoose.model<IDeviceKey>('DeviceKey', DeviceKeySchema);
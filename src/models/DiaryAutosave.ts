@@ -0,0 +1,56 @@
+import mongoose, { Document, Schema, Types } from 'mongoose';
+
+// In-progress text of an entry, saved as the author types. Kept apart from the entry so
+// the partner keeps seeing the last saved version; an explicit save or restore clears it.
+export interface IDiaryAutosave extends Document {
+  entryId: Types.ObjectId;
+  authorId: Types.ObjectId;
+  title?: string;
+  description?: string;
+  tags?: string[];
+  baseRevision: number; // entry revision the text was started from
+  savedAt: Date;
+}
+
+const DiaryAutosaveSchema = new Schema<IDiaryAutosave>({
+  entryId: {
+    type: Schema.Types.ObjectId,
+    ref: 'DiaryEntry',
+    required: true,
+    unique: true
+  },
+  authorId: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  title: {
+    type: String,
+    maxlength: 120
+  },
+  description: {
+    type: String,
+    maxlength: 4000
+  },
+  tags: {
+    type: [String],
+    default: undefined
+  },
+  baseRevision: {
+    type: Number,
+    default: 0
+  },
+  savedAt: {
+    type: Date,
+    default: Date.now
+  }
+}, {
+  toJSON: {
+    transform: function(doc, ret: Record<string, unknown>) {
+      if (Object.prototype.hasOwnProperty.call(ret, '__v')) delete ret.__v;
+      return ret;
+    }
+  }
+});
+
+export default mongoose.model<IDiaryAutosave>('DiaryAutosave', DiaryAutosaveSchema);
@@ -0,0 +1,103 @@
+import mongoose, { Document, Schema, Types } from 'mongoose';
+import { DiaryAuditEntrySchema, IDiaryAuditEntry } from './DiaryEntry';
+
+export const MAX_DIARY_COMMENT_LENGTH = 2000;
+
+export interface IDiaryComment extends Document {
+  entryId: Types.ObjectId;
+  partnerId: Types.ObjectId; // relationship (Partner), same as the entry's
+  parentId?: Types.ObjectId; // top-level comment this replies to; threads are one level deep
+  authorId: Types.ObjectId;
+  authorName: string;
+  body: string;
+  editedAt?: Date;
+  replyCount: number; // replies that aren't deleted, top-level comments only
+  isDeleted: boolean;
+  deletedAt?: Date;
+  deletedBy?: Types.ObjectId;
+  auditTrail: IDiaryAuditEntry[];
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const DiaryCommentSchema = new Schema<IDiaryComment>({
+  entryId: {
+    type: Schema.Types.ObjectId,
+    ref: 'DiaryEntry',
+    required: true
+  },
+  partnerId: {
+    type: Schema.Types.ObjectId,
+    ref: 'Partner',
+    required: true
+  },
+  parentId: {
+    type: Schema.Types.ObjectId,
+    ref: 'DiaryComment'
+  },
+  authorId: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  authorName: {
+    type: String,
+    required: true,
+    trim: true,
+    maxlength: 100
+  },
+  body: {
+    type: String,
+    required: true,
+    trim: true,
+    maxlength: MAX_DIARY_COMMENT_LENGTH
+  },
+  editedAt: {
+    type: Date
+  },
+  replyCount: {
+    type: Number,
+    default: 0
+  },
+  isDeleted: {
+    type: Boolean,
+    default: false
+  },
+  deletedAt: {
+    type: Date
+  },
+  deletedBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'User'
+  },
+  auditTrail: [DiaryAuditEntrySchema]
+}, {
+  timestamps: true,
+  toJSON: {
+    transform: function(doc, ret: Record<string, unknown>) {
+      if (Object.prototype.hasOwnProperty.call(ret, '__v')) delete ret.__v;
+      // The trail (with earlier wordings) is only served by the audit endpoint
+      delete ret.auditTrail;
+      // Deleted comments stay as placeholders so their replies keep a parent
+      if (ret.isDeleted) ret.body = '';
+      return ret;
+    }
+  }
+});
+
+DiaryCommentSchema.index({ entryId: 1, parentId: 1, createdAt: 1 });
+
+// Record who wrote the comment, like diary entries do
+DiaryCommentSchema.pre('save', function(next) {
+  if (this.isNew) {
+    this.auditTrail.push({
+      action: 'created',
+      userId: this.authorId,
+      userName: this.authorName,
+      timestamp: new Date()
+    });
+  }
+  next();
+});
+
+export default mongoose.model<IDiaryComment>('DiaryComment', DiaryCommentSchema);
@@ -1,10 +1,55 @@
 import mongoose, { Document, Schema, Types } from 'mongoose';
+import { IMediaVariant, MediaVariantSchema } from './MediaVariant';
+
+export interface IDiaryImageVariants {
+  original: string; // matches an entry in images
+  thumbnails: IMediaVariant[];
+}
+
+export interface IDiaryAuditEntry {
+  action: 'created' | 'updated' | 'deleted' | 'restored';
+  userId: Types.ObjectId;
+  userName: string;
+  timestamp: Date;
+  changes?: any;
+  reason?: string;
+}
+
+export interface IDiaryReaction {
+  userId: Types.ObjectId;
+  emoji: string;
+  reactedAt: Date;
+}
+
+export const DIARY_REACTION_EMOJIS = ['❤️', '😂', '👍', '😮', '😢', '🙏'];
+
+export interface IDiaryMoodLevel {
+  value: number;
+  label: string;
+  emoji: string;
+}
+
+// Fixed mood scale; entries store the value
+export const DIARY_MOOD_SCALE: IDiaryMoodLevel[] = [
+  { value: 1, label: 'awful', emoji: '😞' },
+  { value: 2, label: 'low', emoji: '😕' },
+  { value: 3, label: 'okay', emoji: '😐' },
+  { value: 4, label: 'good', emoji: '🙂' },
+  { value: 5, label: 'great', emoji: '😄' }
+];
+
+// Energy uses the same 1-5 range, from drained to energised
+export const MIN_DIARY_LEVEL = 1;
+export const MAX_DIARY_LEVEL = 5;
 
 export interface IDiaryEntry extends Document {
   partnerId: Types.ObjectId; // relationship (Partner)
   title: string;
   description: string;
   images: string[]; // stored file urls like /uploads/...
+  imageVariants: IDiaryImageVariants[]; // WebP thumbnails, filled in after upload
+  imageBytes: number; // size of the stored images, for storage accounting
+  imageBytesCheckedAt?: Date; // when imageBytes was read back from storage for an older entry
   authorId: Types.ObjectId;
   authorName: string;
   isDeleted: boolean;
@@ -12,35 +57,66 @@ export interface IDiaryEntry extends Document {
   deletedBy?: Types.ObjectId;
   deletedReason?: string;
   privacy: 'public' | 'private'; // public = both partners see, private = only author
+  status: 'draft' | 'published'; // drafts are only visible to their author
+  publishedAt?: Date;
+  revision: number; // latest DiaryRevision number; 0 for entries written before revisions
   tags: string[];
+  mood?: number; // DIARY_MOOD_SCALE value
+  energy?: number; // 1 (drained) to 5 (energised)
   searchKeywords: string[]; // auto-generated for search
-  auditTrail: Array<{
-    action: 'created' | 'updated' | 'deleted' | 'restored';
-    userId: Types.ObjectId;
-    userName: string;
-    timestamp: Date;
-    changes?: any;
-    reason?: string;
-  }>;
+  reactions: IDiaryReaction[]; // one per user, from either partner
+  auditTrail: IDiaryAuditEntry[];
   createdAt: Date;
   updatedAt: Date;
 }
 
+// Shared with diary comments so both keep the same trail
+export const DiaryAuditEntrySchema = new Schema<IDiaryAuditEntry>({
+  action: {
+    type: String,
+    enum: ['created', 'updated', 'deleted', 'restored'],
+    required: true
+  },
+  userId: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  userName: {
+    type: String,
+    required: true,
+    trim: true
+  },
+  timestamp: {
+    type: Date,
+    default: Date.now
+  },
+  changes: {
+    type: Schema.Types.Mixed
+  },
+  reason: {
+    type: String,
+    trim: true,
+    maxlength: 200
+  }
+});
+
 const DiaryEntrySchema = new Schema<IDiaryEntry>({
   partnerId: {
     type: Schema.Types.ObjectId,
     ref: 'Partner',
     required: true
   },
+  // Drafts may be saved before they have a title or any text
   title: {
     type: String,
-    required: true,
+    required: function(this: IDiaryEntry) { return this.status !== 'draft'; },
     trim: true,
     maxlength: 120
   },
   description: {
     type: String,
-    required: true,
+    required: function(this: IDiaryEntry) { return this.status !== 'draft'; },
     trim: true,
     maxlength: 4000
   },
@@ -48,6 +124,21 @@ const DiaryEntrySchema = new Schema<IDiaryEntry>({
     type: String,
     trim: true
   }],
+  imageVariants: [{
+    _id: false,
+    original: {
+      type: String,
+      required: true
+    },
+    thumbnails: [MediaVariantSchema]
+  }],
+  imageBytes: {
+    type: Number,
+    default: 0
+  },
+  imageBytesCheckedAt: {
+    type: Date
+  },
   authorId: {
     type: Schema.Types.ObjectId,
     ref: 'User',
@@ -80,45 +171,58 @@ const DiaryEntrySchema = new Schema<IDiaryEntry>({
     enum: ['public', 'private'],
     default: 'public'
   },
+  status: {
+    type: String,
+    enum: ['draft', 'published'],
+    default: 'published'
+  },
+  publishedAt: {
+    type: Date
+  },
+  revision: {
+    type: Number,
+    default: 0
+  },
   tags: [{
     type: String,
     trim: true,
     maxlength: 50
   }],
+  mood: {
+    type: Number,
+    min: MIN_DIARY_LEVEL,
+    max: MAX_DIARY_LEVEL,
+    validate: { validator: Number.isInteger, message: 'Mood must be a whole number' }
+  },
+  energy: {
+    type: Number,
+    min: MIN_DIARY_LEVEL,
+    max: MAX_DIARY_LEVEL,
+    validate: { validator: Number.isInteger, message: 'Energy must be a whole number' }
+  },
   searchKeywords: [{
     type: String,
     trim: true,
     lowercase: true
   }],
-  auditTrail: [{
-    action: {
-      type: String,
-      enum: ['created', 'updated', 'deleted', 'restored'],
-      required: true
-    },
+  reactions: [{
+    _id: false,
     userId: {
       type: Schema.Types.ObjectId,
       ref: 'User',
       required: true
     },
-    userName: {
+    emoji: {
       type: String,
-      required: true,
-      trim: true
+      enum: DIARY_REACTION_EMOJIS,
+      required: true
     },
-    timestamp: {
+    reactedAt: {
       type: Date,
       default: Date.now
-    },
-    changes: {
-      type: Schema.Types.Mixed
-    },
-    reason: {
-      type: String,
-      trim: true,
-      maxlength: 200
     }
-  }]
+  }],
+  auditTrail: [DiaryAuditEntrySchema]
 }, {
   timestamps: true,
   toJSON: {
@@ -133,9 +237,13 @@ const DiaryEntrySchema = new Schema<IDiaryEntry>({
 DiaryEntrySchema.index({ partnerId: 1, createdAt: -1, isDeleted: 1 });
 DiaryEntrySchema.index({ authorId: 1, createdAt: -1, isDeleted: 1 });
 DiaryEntrySchema.index({ partnerId: 1, isDeleted: 1, privacy: 1 });
+DiaryEntrySchema.index({ authorId: 1, status: 1, updatedAt: -1 });
+DiaryEntrySchema.index({ partnerId: 1, mood: 1, createdAt: -1 }, { partialFilterExpression: { mood: { $exists: true } } });
 DiaryEntrySchema.index({ tags: 1 });
 DiaryEntrySchema.index({ searchKeywords: 1 });
 DiaryEntrySchema.index({ 'auditTrail.timestamp': 1 });
+DiaryEntrySchema.index({ images: 1 });
+DiaryEntrySchema.index({ 'imageVariants.thumbnails.url': 1 }, { sparse: true });
 
 // Text index for search functionality
 DiaryEntrySchema.index({ 
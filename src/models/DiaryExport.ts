@@ -0,0 +1,103 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+export type DiaryExportFormat = 'zip' | 'pdf';
+export type DiaryExportStatus = 'pending' | 'processing' | 'completed' | 'failed' | 'expired';
+
+// The list endpoint's filters, applied when the export runs
+export interface DiaryExportFilters {
+  startDate?: Date;
+  endDate?: Date;
+  tags?: string[];
+  author?: mongoose.Types.ObjectId;
+  privacy?: 'public' | 'private';
+  timezone?: string; // for the dates printed in the export
+}
+
+export interface IDiaryExport extends Document {
+  userId: mongoose.Types.ObjectId;
+  format: DiaryExportFormat;
+  filters: DiaryExportFilters;
+  status: DiaryExportStatus;
+  attempts: number;
+  entryCount?: number;
+  fileUrl?: string; // stored `/uploads/exports/...` file, handed out as signed links
+  fileName?: string;
+  fileSize?: number;
+  failureReason?: string;
+  startedAt?: Date;
+  completedAt?: Date;
+  expiresAt?: Date; // the file is deleted after this
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const DiaryExportSchema = new Schema<IDiaryExport>({
+  userId: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  format: {
+    type: String,
+    enum: ['zip', 'pdf'],
+    required: true
+  },
+  filters: {
+    _id: false,
+    startDate: Date,
+    endDate: Date,
+    tags: { type: [String], default: undefined },
+    author: { type: Schema.Types.ObjectId, ref: 'User' },
+    privacy: { type: String, enum: ['public', 'private'] },
+    timezone: String
+  },
+  status: {
+    type: String,
+    enum: ['pending', 'processing', 'completed', 'failed', 'expired'],
+    default: 'pending'
+  },
+  attempts: {
+    type: Number,
+    default: 0
+  },
+  entryCount: {
+    type: Number
+  },
+  fileUrl: {
+    type: String
+  },
+  fileName: {
+    type: String
+  },
+  fileSize: {
+    type: Number
+  },
+  failureReason: {
+    type: String
+  },
+  startedAt: {
+    type: Date
+  },
+  completedAt: {
+    type: Date
+  },
+  expiresAt: {
+    type: Date
+  }
+}, {
+  timestamps: true,
+  toJSON: {
+    transform: function(doc, ret: Record<string, unknown>) {
+      if (Object.prototype.hasOwnProperty.call(ret, '__v')) delete ret.__v;
+      // Only reachable through signed download links
+      delete ret.fileUrl;
+      return ret;
+    }
+  }
+});
+
+DiaryExportSchema.index({ status: 1, createdAt: 1 });
+DiaryExportSchema.index({ userId: 1, createdAt: -1 });
+DiaryExportSchema.index({ fileUrl: 1 }, { sparse: true });
+
+export default mongoose.model<IDiaryExport>('DiaryExport', DiaryExportSchema);
@@ -0,0 +1,70 @@
+import mongoose, { Document, Schema, Types } from 'mongoose';
+
+export type DiaryRevisionReason = 'created' | 'edited' | 'restored';
+
+export interface IDiaryRevision extends Document {
+  entryId: Types.ObjectId;
+  revision: number; // 1, 2, 3... per entry
+  title: string;
+  description: string;
+  tags: string[];
+  reason: DiaryRevisionReason;
+  restoredFrom?: number; // revision copied by a restore
+  createdBy: Types.ObjectId;
+  createdByName: string;
+  createdAt: Date;
+}
+
+const DiaryRevisionSchema = new Schema<IDiaryRevision>({
+  entryId: {
+    type: Schema.Types.ObjectId,
+    ref: 'DiaryEntry',
+    required: true
+  },
+  revision: {
+    type: Number,
+    required: true,
+    min: 1
+  },
+  title: {
+    type: String,
+    default: ''
+  },
+  description: {
+    type: String,
+    default: ''
+  },
+  tags: [{
+    type: String
+  }],
+  reason: {
+    type: String,
+    enum: ['created', 'edited', 'restored'],
+    required: true
+  },
+  restoredFrom: {
+    type: Number
+  },
+  createdBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  createdByName: {
+    type: String,
+    required: true,
+    trim: true
+  }
+}, {
+  timestamps: { createdAt: true, updatedAt: false },
+  toJSON: {
+    transform: function(doc, ret: Record<string, unknown>) {
+      if (Object.prototype.hasOwnProperty.call(ret, '__v')) delete ret.__v;
+      return ret;
+    }
+  }
+});
+
+DiaryRevisionSchema.index({ entryId: 1, revision: -1 }, { unique: true });
+
+export default mongoose.model<IDiaryRevision>('DiaryRevision', DiaryRevisionSchema);
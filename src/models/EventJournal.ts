@@ -0,0 +1,54 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+export interface IEventJournal extends Document {
+  userId: mongoose.Types.ObjectId;
+  seq: number; // per-user, strictly increasing
+  event: string;
+  payload: unknown;
+  createdAt: Date;
+}
+
+export interface IEventSequence extends Document {
+  userId: mongoose.Types.ObjectId;
+  seq: number; // last sequence number handed out
+}
+
+const EventJournalSchema = new Schema<IEventJournal>({
+  userId: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  seq: {
+    type: Number,
+    required: true
+  },
+  event: {
+    type: String,
+    required: true
+  },
+  payload: {
+    type: Schema.Types.Mixed
+  }
+}, {
+  timestamps: { createdAt: true, updatedAt: false }
+});
+
+const EventSequenceSchema = new Schema<IEventSequence>({
+  userId: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true,
+    unique: true
+  },
+  seq: {
+    type: Number,
+    default: 0
+  }
+});
+
+EventJournalSchema.index({ userId: 1, seq: 1 }, { unique: true });
+EventJournalSchema.index({ createdAt: 1 });
+
+export const EventSequence = mongoose.model<IEventSequence>('EventSequence', EventSequenceSchema);
+export default mongoose.model<IEventJournal>('EventJournal', EventJournalSchema);
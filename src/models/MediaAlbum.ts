@@ -0,0 +1,81 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+export interface IMediaAlbumItem {
+  mediaItemId: mongoose.Types.ObjectId;
+  addedBy: mongoose.Types.ObjectId;
+  addedAt: Date;
+}
+
+export interface IMediaAlbum extends Document {
+  members: mongoose.Types.ObjectId[]; // the couple sharing the album
+  createdBy: mongoose.Types.ObjectId;
+  name: string;
+  items: IMediaAlbumItem[]; // in display order
+  coverItemId?: mongoose.Types.ObjectId; // falls back to the first item
+  position: number; // order among the couple's albums
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export const MAX_ALBUM_NAME_LENGTH = 100;
+export const MAX_ALBUM_ITEMS = 5000;
+
+const MediaAlbumItemSchema = new Schema<IMediaAlbumItem>({
+  mediaItemId: {
+    type: Schema.Types.ObjectId,
+    ref: 'MediaItem',
+    required: true
+  },
+  addedBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  addedAt: {
+    type: Date,
+    default: Date.now
+  }
+}, { _id: false });
+
+const MediaAlbumSchema = new Schema<IMediaAlbum>({
+  members: {
+    type: [{ type: Schema.Types.ObjectId, ref: 'User' }],
+    required: true
+  },
+  createdBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  name: {
+    type: String,
+    required: true,
+    trim: true,
+    maxlength: MAX_ALBUM_NAME_LENGTH
+  },
+  items: {
+    type: [MediaAlbumItemSchema],
+    default: []
+  },
+  coverItemId: {
+    type: Schema.Types.ObjectId,
+    ref: 'MediaItem'
+  },
+  position: {
+    type: Number,
+    default: 0
+  }
+}, {
+  timestamps: true,
+  toJSON: {
+    transform: function(doc, ret: Record<string, unknown>) {
+      if (Object.prototype.hasOwnProperty.call(ret, '__v')) delete ret.__v;
+      return ret;
+    }
+  }
+});
+
+MediaAlbumSchema.index({ members: 1, position: 1 });
+MediaAlbumSchema.index({ 'items.mediaItemId': 1 });
+
+export default mongoose.model<IMediaAlbum>('MediaAlbum', MediaAlbumSchema);
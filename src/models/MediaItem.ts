@@ -1,4 +1,5 @@
 import mongoose, { Document, Schema } from 'mongoose';
+import { IMediaVariant, MediaProcessingStatus, MediaVariantSchema, UploadScanStatus } from './MediaVariant';
 
 export interface IMediaItem extends Document {
   userId: mongoose.Types.ObjectId;
@@ -7,6 +8,15 @@ export interface IMediaItem extends Document {
   fileUrl: string;
   fileSize: number;
   mimeType: string;
+  thumbnailUrl?: string;
+  thumbnails?: IMediaVariant[];
+  width?: number;
+  height?: number;
+  duration?: number; // seconds, videos only
+  mediaStatus?: MediaProcessingStatus;
+  scanStatus?: UploadScanStatus; // quarantined files are kept out of reach of signed URLs
+  scanThreat?: string; // what the scanner found
+  favoritedBy?: mongoose.Types.ObjectId[]; // users who marked it a favourite
   uploadedAt: Date;
   isDeleted: boolean;
   deletedAt?: Date;
@@ -45,6 +55,37 @@ const MediaItemSchema = new Schema<IMediaItem>({
     required: true,
     trim: true
   },
+  thumbnailUrl: {
+    type: String
+  },
+  thumbnails: {
+    type: [MediaVariantSchema],
+    default: undefined
+  },
+  width: {
+    type: Number
+  },
+  height: {
+    type: Number
+  },
+  duration: {
+    type: Number
+  },
+  mediaStatus: {
+    type: String,
+    enum: ['processing', 'ready', 'failed']
+  },
+  scanStatus: {
+    type: String,
+    enum: ['clean', 'quarantined']
+  },
+  scanThreat: {
+    type: String
+  },
+  favoritedBy: [{
+    type: Schema.Types.ObjectId,
+    ref: 'User'
+  }],
   uploadedAt: {
     type: Date,
     default: Date.now,
@@ -69,6 +110,10 @@ const MediaItemSchema = new Schema<IMediaItem>({
 MediaItemSchema.index({ userId: 1, isDeleted: 1, uploadedAt: -1 });
 MediaItemSchema.index({ partnerId: 1, isDeleted: 1, uploadedAt: -1 });
 MediaItemSchema.index({ userId: 1, partnerId: 1, isDeleted: 1 });
+MediaItemSchema.index({ favoritedBy: 1, isDeleted: 1, uploadedAt: -1 });
+MediaItemSchema.index({ fileUrl: 1 });
+MediaItemSchema.index({ thumbnailUrl: 1 }, { sparse: true });
+MediaItemSchema.index({ 'thumbnails.url': 1 }, { sparse: true });
 
 // Virtual for file extension
 MediaItemSchema.virtual('fileExtension').get(function() {
@@ -0,0 +1,34 @@
+import { Schema } from 'mongoose';
+
+// A derived, resized copy of an uploaded image or video poster (stored next to the original)
+export interface IMediaVariant {
+  size: 'small' | 'medium' | 'large';
+  url: string;
+  width: number;
+  height: number;
+}
+
+export type MediaProcessingStatus = 'processing' | 'ready' | 'failed';
+
+// Malware scan outcome; unset when no scanner is configured or the scan couldn't run
+export type UploadScanStatus = 'clean' | 'quarantined';
+
+export const MediaVariantSchema = new Schema<IMediaVariant>({
+  size: {
+    type: String,
+    enum: ['small', 'medium', 'large'],
+    required: true
+  },
+  url: {
+    type: String,
+    required: true
+  },
+  width: {
+    type: Number,
+    required: true
+  },
+  height: {
+    type: Number,
+    required: true
+  }
+}, { _id: false });
@@ -1,16 +1,41 @@
 import mongoose, { Document, Schema } from 'mongoose';
+import { IMediaVariant, MediaProcessingStatus, MediaVariantSchema, UploadScanStatus } from './MediaVariant';
+
+export interface IKeyEnvelope {
+  userId: mongoose.Types.ObjectId;
+  deviceId: string;
+  encryptedKey: string;
+  preKeyId?: number; // one-time prekey consumed to establish the session, if any
+}
+
+export interface ILinkPreview {
+  url: string;
+  title?: string;
+  description?: string;
+  image?: string;
+  siteName?: string;
+  fetchedAt?: Date;
+}
+
+export type MessageStatus = 'sent' | 'delivered' | 'read';
 
 export interface IMessage extends Document {
   chatId: mongoose.Types.ObjectId;
   senderId: mongoose.Types.ObjectId;
   content: string;
-  type: 'text' | 'image' | 'video' | 'audio' | 'file' | 'emoji' | 'sticker' | 'voice' | 'pdf';
+  type: 'text' | 'image' | 'video' | 'audio' | 'file' | 'emoji' | 'sticker' | 'voice' | 'pdf' | 'system';
   fileUrl?: string;
   fileName?: string;
   fileSize?: number;
   mimeType?: string;
   thumbnailUrl?: string; // For videos and images
   duration?: number; // For audio and video files
+  thumbnails?: IMediaVariant[]; // WebP thumbnails of images / video posters
+  width?: number;
+  height?: number;
+  mediaStatus?: MediaProcessingStatus; // set for images and videos while derivatives are generated
+  scanStatus?: UploadScanStatus; // quarantined files are kept out of reach of signed URLs
+  scanThreat?: string; // what the scanner found
   isOneView?: boolean;
   viewedBy?: mongoose.Types.ObjectId[];
   viewedAt?: Date;
@@ -27,14 +52,26 @@ export interface IMessage extends Document {
   stickerUrl?: string;
   stickerCategory?: string;
   // Voice specific fields
-  voiceDuration?: number;
-  voiceWaveform?: number[]; // For voice visualization
+  voiceDuration?: number; // seconds, measured by the server when ffmpeg is available
+  voiceWaveform?: number[]; // For voice visualization: fixed-length peaks in 0..1
   // Reactions
   reactions?: { userId: mongoose.Types.ObjectId; emoji: string }[];
   // Privacy and security
   isEncrypted?: boolean;
-  encryptionKey?: string;
+  ciphertext?: string; // opaque end-to-end encrypted payload, never decrypted server-side
+  keyEnvelopes?: IKeyEnvelope[]; // message key wrapped for each recipient device
   expiresAt?: Date; // For self-destructing messages
+  // Delivery receipts (chats have exactly one recipient)
+  status: MessageStatus;
+  deliveredAt?: Date;
+  readAt?: Date;
+  // Pins are shared by both participants
+  isPinned?: boolean;
+  pinnedBy?: mongoose.Types.ObjectId;
+  pinnedAt?: Date;
+  scheduledMessageId?: mongoose.Types.ObjectId; // set when sent by the scheduler
+  dispatchedAt?: Date; // scheduled messages: when the socket event and notifications went out
+  linkPreview?: ILinkPreview; // fetched in the background for text messages with a URL
   createdAt: Date;
   updatedAt: Date;
 }
@@ -53,12 +90,13 @@ const MessageSchema = new Schema<IMessage>({
   content: {
     type: String,
     required: function() {
-      return this.type === 'text' || this.type === 'emoji';
+      // Encrypted messages carry their text inside the ciphertext only
+      return !this.isEncrypted && (this.type === 'text' || this.type === 'emoji' || this.type === 'system');
     }
   },
   type: {
     type: String,
-    enum: ['text', 'image', 'video', 'audio', 'file', 'emoji', 'sticker', 'voice', 'pdf'],
+    enum: ['text', 'image', 'video', 'audio', 'file', 'emoji', 'sticker', 'voice', 'pdf', 'system'],
     required: true
   },
   fileUrl: {
@@ -79,6 +117,27 @@ const MessageSchema = new Schema<IMessage>({
   duration: {
     type: Number
   },
+  thumbnails: {
+    type: [MediaVariantSchema],
+    default: undefined
+  },
+  width: {
+    type: Number
+  },
+  height: {
+    type: Number
+  },
+  mediaStatus: {
+    type: String,
+    enum: ['processing', 'ready', 'failed']
+  },
+  scanStatus: {
+    type: String,
+    enum: ['clean', 'quarantined']
+  },
+  scanThreat: {
+    type: String
+  },
   isOneView: {
     type: Boolean,
     default: false
@@ -147,11 +206,62 @@ const MessageSchema = new Schema<IMessage>({
     type: Boolean,
     default: false
   },
-  encryptionKey: {
-    type: String
+  ciphertext: {
+    type: String,
+    required: function() {
+      return this.isEncrypted;
+    }
   },
+  keyEnvelopes: [{
+    _id: false,
+    userId: { type: Schema.Types.ObjectId, ref: 'User', required: true },
+    deviceId: { type: String, required: true },
+    encryptedKey: { type: String, required: true },
+    preKeyId: { type: Number }
+  }],
   expiresAt: {
     type: Date
+  },
+  // Delivery receipts
+  status: {
+    type: String,
+    enum: ['sent', 'delivered', 'read'],
+    default: 'sent'
+  },
+  deliveredAt: {
+    type: Date
+  },
+  readAt: {
+    type: Date
+  },
+  // Pins
+  isPinned: {
+    type: Boolean,
+    default: false
+  },
+  pinnedBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'User'
+  },
+  pinnedAt: {
+    type: Date
+  },
+  scheduledMessageId: {
+    type: Schema.Types.ObjectId,
+    ref: 'ScheduledMessage'
+  },
+  dispatchedAt: {
+    type: Date
+  },
+  linkPreview: {
+    type: new Schema<ILinkPreview>({
+      url: { type: String, required: true },
+      title: { type: String },
+      description: { type: String },
+      image: { type: String },
+      siteName: { type: String },
+      fetchedAt: { type: Date }
+    }, { _id: false })
   }
 }, {
   timestamps: true
@@ -162,5 +272,16 @@ MessageSchema.index({ chatId: 1, createdAt: -1, _id: -1 });
 MessageSchema.index({ senderId: 1 });
 MessageSchema.index({ isOneView: 1, viewedBy: 1 });
 MessageSchema.index({ 'reactions.userId': 1 });
+MessageSchema.index({ expiresAt: 1 }, { sparse: true });
+MessageSchema.index({ chatId: 1, status: 1, senderId: 1 });
+MessageSchema.index({ chatId: 1, isPinned: 1, pinnedAt: -1 });
+// A scheduled message can only ever produce one chat message
+MessageSchema.index({ scheduledMessageId: 1 }, { unique: true, sparse: true });
+// Full-text search within a chat
+MessageSchema.index({ chatId: 1, content: 'text' }, { name: 'chat_content_text' });
+// Signed file URL checks look messages up by any of their stored files
+MessageSchema.index({ fileUrl: 1 }, { sparse: true });
+MessageSchema.index({ thumbnailUrl: 1 }, { sparse: true });
+MessageSchema.index({ 'thumbnails.url': 1 }, { sparse: true });
 
 export default mongoose.model<IMessage>('Message', MessageSchema);
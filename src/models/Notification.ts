@@ -2,7 +2,7 @@ import mongoose, { Document, Schema } from 'mongoose';
 
 export interface INotification extends Document {
   userId: mongoose.Types.ObjectId;
-  type: 'message' | 'partner_request' | 'partner_accepted' | 'partner_rejected' | 'file_shared' | 'one_view_opened';
+  type: 'message' | 'partner_request' | 'partner_accepted' | 'partner_rejected' | 'file_shared' | 'one_view_opened' | 'diary_comment' | 'diary_reaction' | 'mood_check_in' | 'calendar_reminder';
   title: string;
   message: string;
   data?: Record<string, unknown>;
@@ -20,7 +20,7 @@ const NotificationSchema = new Schema<INotification>({
   },
   type: {
     type: String,
-    enum: ['message', 'partner_request', 'partner_accepted', 'partner_rejected', 'file_shared', 'one_view_opened'],
+    enum: ['message', 'partner_request', 'partner_accepted', 'partner_rejected', 'file_shared', 'one_view_opened', 'diary_comment', 'diary_reaction', 'mood_check_in', 'calendar_reminder'],
     required: true
   },
   title: {
@@ -0,0 +1,111 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+export type ResumableUploadTarget = 'message' | 'media';
+export type ResumableUploadStatus = 'uploading' | 'finalizing' | 'completed' | 'aborted' | 'failed' | 'expired';
+
+export interface IResumableUpload extends Document {
+  userId: mongoose.Types.ObjectId;
+  target: ResumableUploadTarget; // what finalize creates: a chat message or a shared media item
+  chatId?: mongoose.Types.ObjectId; // message uploads only
+  fileName: string;
+  mimeType: string;
+  totalSize: number;
+  offset: number; // bytes received and verified so far
+  isOneView: boolean;
+  ttlSeconds?: number; // disappearing timer for the resulting message
+  status: ResumableUploadStatus;
+  stagingPath: string; // partial file on the local staging disk
+  expiresAt: Date; // pushed forward by every chunk; abandoned uploads are cleaned up after this
+  messageId?: mongoose.Types.ObjectId;
+  mediaItemId?: mongoose.Types.ObjectId;
+  completedAt?: Date;
+  failureReason?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const ResumableUploadSchema = new Schema<IResumableUpload>({
+  userId: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  target: {
+    type: String,
+    enum: ['message', 'media'],
+    required: true
+  },
+  chatId: {
+    type: Schema.Types.ObjectId,
+    ref: 'Chat'
+  },
+  fileName: {
+    type: String,
+    required: true,
+    trim: true
+  },
+  mimeType: {
+    type: String,
+    required: true,
+    trim: true
+  },
+  totalSize: {
+    type: Number,
+    required: true,
+    min: 1
+  },
+  offset: {
+    type: Number,
+    default: 0,
+    min: 0
+  },
+  isOneView: {
+    type: Boolean,
+    default: false
+  },
+  ttlSeconds: {
+    type: Number,
+    min: 0
+  },
+  status: {
+    type: String,
+    enum: ['uploading', 'finalizing', 'completed', 'aborted', 'failed', 'expired'],
+    default: 'uploading'
+  },
+  stagingPath: {
+    type: String,
+    required: true
+  },
+  expiresAt: {
+    type: Date,
+    required: true
+  },
+  messageId: {
+    type: Schema.Types.ObjectId,
+    ref: 'Message'
+  },
+  mediaItemId: {
+    type: Schema.Types.ObjectId,
+    ref: 'MediaItem'
+  },
+  completedAt: {
+    type: Date
+  },
+  failureReason: {
+    type: String
+  }
+}, {
+  timestamps: true,
+  toJSON: {
+    transform: function(doc, ret: Record<string, unknown>) {
+      if (Object.prototype.hasOwnProperty.call(ret, '__v')) delete ret.__v;
+      delete ret.stagingPath;
+      return ret;
+    }
+  }
+});
+
+ResumableUploadSchema.index({ status: 1, expiresAt: 1 });
+ResumableUploadSchema.index({ userId: 1, status: 1 });
+
+export default mongoose.model<IResumableUpload>('ResumableUpload', ResumableUploadSchema);
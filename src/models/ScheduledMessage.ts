@@ -0,0 +1,104 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+export type ScheduledMessageStatus = 'scheduled' | 'sending' | 'sent' | 'cancelled' | 'failed';
+
+export interface IScheduledMessage extends Document {
+  chatId: mongoose.Types.ObjectId;
+  senderId: mongoose.Types.ObjectId;
+  content: string;
+  type: 'text' | 'emoji';
+  replyTo?: mongoose.Types.ObjectId;
+  ttlSeconds?: number; // disappearing timer applied when the message is sent
+  scheduledFor: Date;
+  status: ScheduledMessageStatus;
+  lockedAt?: Date; // when a worker claimed it for sending
+  attempts: number;
+  nextAttemptAt?: Date; // after a failed attempt, not retried before this
+  messageId?: mongoose.Types.ObjectId; // the chat message created on dispatch
+  sentAt?: Date;
+  cancelledAt?: Date;
+  failureReason?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export const MAX_SCHEDULED_MESSAGE_LENGTH = 5000;
+
+const ScheduledMessageSchema = new Schema<IScheduledMessage>({
+  chatId: {
+    type: Schema.Types.ObjectId,
+    ref: 'Chat',
+    required: true
+  },
+  senderId: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  content: {
+    type: String,
+    required: true,
+    trim: true,
+    maxlength: MAX_SCHEDULED_MESSAGE_LENGTH
+  },
+  type: {
+    type: String,
+    enum: ['text', 'emoji'],
+    default: 'text'
+  },
+  replyTo: {
+    type: Schema.Types.ObjectId,
+    ref: 'Message'
+  },
+  ttlSeconds: {
+    type: Number,
+    min: 0
+  },
+  scheduledFor: {
+    type: Date,
+    required: true
+  },
+  status: {
+    type: String,
+    enum: ['scheduled', 'sending', 'sent', 'cancelled', 'failed'],
+    default: 'scheduled'
+  },
+  lockedAt: {
+    type: Date
+  },
+  attempts: {
+    type: Number,
+    default: 0
+  },
+  nextAttemptAt: {
+    type: Date
+  },
+  messageId: {
+    type: Schema.Types.ObjectId,
+    ref: 'Message'
+  },
+  sentAt: {
+    type: Date
+  },
+  cancelledAt: {
+    type: Date
+  },
+  failureReason: {
+    type: String
+  }
+}, {
+  timestamps: true,
+  toJSON: {
+    transform: function(doc, ret: Record<string, unknown>) {
+      if (Object.prototype.hasOwnProperty.call(ret, '__v')) delete ret.__v;
+      delete ret.lockedAt;
+      delete ret.nextAttemptAt;
+      return ret;
+    }
+  }
+});
+
+ScheduledMessageSchema.index({ status: 1, scheduledFor: 1 });
+ScheduledMessageSchema.index({ senderId: 1, status: 1, scheduledFor: 1 });
+
+export default mongoose.model<IScheduledMessage>('ScheduledMessage', ScheduledMessageSchema);
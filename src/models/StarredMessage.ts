@@ -0,0 +1,35 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+// A message a user starred. Stars are private to the user who made them.
+export interface IStarredMessage extends Document {
+  userId: mongoose.Types.ObjectId;
+  messageId: mongoose.Types.ObjectId;
+  chatId: mongoose.Types.ObjectId;
+  createdAt: Date;
+}
+
+const StarredMessageSchema = new Schema<IStarredMessage>({
+  userId: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  messageId: {
+    type: Schema.Types.ObjectId,
+    ref: 'Message',
+    required: true
+  },
+  chatId: {
+    type: Schema.Types.ObjectId,
+    ref: 'Chat',
+    required: true
+  }
+}, {
+  timestamps: { createdAt: true, updatedAt: false }
+});
+
+StarredMessageSchema.index({ userId: 1, messageId: 1 }, { unique: true });
+StarredMessageSchema.index({ userId: 1, createdAt: -1, _id: -1 });
+StarredMessageSchema.index({ messageId: 1 });
+
+export default mongoose.model<IStarredMessage>('StarredMessage', StarredMessageSchema);
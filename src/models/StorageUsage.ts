@@ -0,0 +1,51 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+export type StorageCategory = 'chatFiles' | 'voiceNotes' | 'diaryImages' | 'mediaItems' | 'memories';
+
+export const STORAGE_CATEGORIES: StorageCategory[] = ['chatFiles', 'voiceNotes', 'diaryImages', 'mediaItems', 'memories'];
+
+export type StorageBreakdown = Record<StorageCategory, number>;
+
+export interface IStorageUsage extends Document {
+  userId: mongoose.Types.ObjectId;
+  categories: StorageBreakdown; // bytes of original uploads per category
+  totalBytes: number;
+  reconciledAt?: Date; // last time the totals were recomputed from the stored documents
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const StorageBreakdownSchema = new Schema<StorageBreakdown>(
+  Object.fromEntries(STORAGE_CATEGORIES.map(category => [category, { type: Number, default: 0 }])),
+  { _id: false }
+);
+
+const StorageUsageSchema = new Schema<IStorageUsage>({
+  userId: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true,
+    unique: true
+  },
+  categories: {
+    type: StorageBreakdownSchema,
+    default: () => ({})
+  },
+  totalBytes: {
+    type: Number,
+    default: 0
+  },
+  reconciledAt: {
+    type: Date
+  }
+}, {
+  timestamps: true,
+  toJSON: {
+    transform: function(doc, ret: Record<string, unknown>) {
+      if (Object.prototype.hasOwnProperty.call(ret, '__v')) delete ret.__v;
+      return ret;
+    }
+  }
+});
+
+export default mongoose.model<IStorageUsage>('StorageUsage', StorageUsageSchema);
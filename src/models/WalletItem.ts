@@ -27,6 +27,7 @@ export interface IWalletItem extends Document {
   
   // Common fields
   isEncrypted: boolean;
+  encryptionKeyVersion?: number; // couple data key version the password is sealed with
   tags?: string[];
   isShared: boolean;
   approvalStatus: 'pending' | 'approved' | 'rejected';
@@ -123,6 +124,9 @@ const WalletItemSchema = new Schema<IWalletItem>({
     type: Boolean,
     default: false
   },
+  encryptionKeyVersion: {
+    type: Number
+  },
   tags: [{
     type: String
   }],
@@ -143,7 +147,17 @@ const WalletItemSchema = new Schema<IWalletItem>({
     ref: 'User'
   }
 }, {
-  timestamps: true
+  timestamps: true,
+  toJSON: {
+    transform: function(doc, ret: Record<string, unknown>) {
+      // Passwords are only ever returned through the reveal endpoint
+      if (Object.prototype.hasOwnProperty.call(ret, 'password')) {
+        ret.hasPassword = !!ret.password;
+        delete ret.password;
+      }
+      return ret;
+    }
+  }
 });
 
 // Indexes for efficient queries
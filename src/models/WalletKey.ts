@@ -0,0 +1,55 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+export interface IWalletKey extends Document {
+  coupleId: string; // sorted "userA:userB" pair the key belongs to
+  userIds: mongoose.Types.ObjectId[];
+  version: number;
+  wrappedKey: string; // data key encrypted with the master key
+  masterKeyId: string;
+  status: 'active' | 'retired';
+  retiredAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const WalletKeySchema = new Schema<IWalletKey>({
+  coupleId: {
+    type: String,
+    required: true
+  },
+  userIds: [{
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  }],
+  version: {
+    type: Number,
+    required: true,
+    min: 1
+  },
+  wrappedKey: {
+    type: String,
+    required: true
+  },
+  masterKeyId: {
+    type: String,
+    required: true
+  },
+  status: {
+    type: String,
+    enum: ['active', 'retired'],
+    default: 'active'
+  },
+  retiredAt: {
+    type: Date
+  }
+}, {
+  timestamps: true
+});
+
+// One row per key version; at most one active key per couple is enforced by the service
+WalletKeySchema.index({ coupleId: 1, version: 1 }, { unique: true });
+WalletKeySchema.index({ coupleId: 1, status: 1 });
+WalletKeySchema.index({ masterKeyId: 1 });
+
+export default mongoose.model<IWalletKey>('WalletKey', WalletKeySchema);
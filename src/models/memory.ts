@@ -1,10 +1,101 @@
-import { Schema, model, Types } from 'mongoose';
+import mongoose, { Document, Schema, Types } from 'mongoose';
 
-const memorySchema = new Schema({
-  imageUrl: { type: String, required: true },
-  uploadedBy: { type: Types.ObjectId, ref: 'User', required: true },
-  uploadedAt: { type: Date, default: Date.now },
-  coupleId: { type: Types.ObjectId, ref: 'Couple', required: true },
+export interface IMemory extends Document {
+  partnerId: Types.ObjectId; // relationship (Partner)
+  uploadedBy: Types.ObjectId;
+  imageUrl: string; // stored file url like /uploads/...
+  fileName: string;
+  fileSize: number;
+  mimeType: string;
+  caption?: string;
+  album: string;
+  isAlbumCover: boolean;
+  uploadedAt: Date;
+  isDeleted: boolean;
+  deletedAt?: Date;
+  deletedBy?: Types.ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export const DEFAULT_MEMORY_ALBUM = 'All Memories';
+
+const MemorySchema = new Schema<IMemory>({
+  partnerId: {
+    type: Schema.Types.ObjectId,
+    ref: 'Partner',
+    required: true
+  },
+  uploadedBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  imageUrl: {
+    type: String,
+    required: true,
+    trim: true
+  },
+  fileName: {
+    type: String,
+    required: true,
+    trim: true
+  },
+  fileSize: {
+    type: Number,
+    required: true,
+    min: 0
+  },
+  mimeType: {
+    type: String,
+    required: true,
+    trim: true
+  },
+  caption: {
+    type: String,
+    trim: true,
+    maxlength: 500
+  },
+  album: {
+    type: String,
+    trim: true,
+    maxlength: 60,
+    default: DEFAULT_MEMORY_ALBUM
+  },
+  isAlbumCover: {
+    type: Boolean,
+    default: false
+  },
+  uploadedAt: {
+    type: Date,
+    default: Date.now
+  },
+  isDeleted: {
+    type: Boolean,
+    default: false
+  },
+  deletedAt: {
+    type: Date
+  },
+  deletedBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'User'
+  }
+}, {
+  timestamps: true,
+  toJSON: {
+    transform: function(doc, ret: Record<string, unknown>) {
+      if (Object.prototype.hasOwnProperty.call(ret, '__v')) delete ret.__v;
+      return ret;
+    }
+  }
 });
 
-export default model('Memory', memorySchema);
+// Indexes for better performance
+MemorySchema.index({ partnerId: 1, isDeleted: 1, uploadedAt: -1 });
+MemorySchema.index({ partnerId: 1, album: 1, isDeleted: 1, uploadedAt: -1 });
+MemorySchema.index({ partnerId: 1, album: 1, isAlbumCover: 1 });
+MemorySchema.index({ imageUrl: 1 });
+MemorySchema.index({ uploadedBy: 1 });
+
+export default mongoose.model<IMemory>('Memory', MemorySchema);
@@ -1,4 +1,5 @@
 import { Router } from 'express';
+import { rateLimit } from 'express-rate-limit';
 import { authenticate } from '@/middleware/auth';
 import {
   getCalendarNotes,
@@ -8,14 +9,40 @@ import {
   restoreCalendarNote,
   getAuditTrail,
   getReminders,
-  markReminderSent
+  markReminderSent,
+  updateOccurrence,
+  cancelOccurrence,
+  restoreOccurrence
 } from '@/controllers/calendarController';
+import {
+  getFeedStatus,
+  createFeedToken,
+  revokeFeedToken,
+  serveFeed,
+  importCalendar,
+  icsUpload
+} from '@/controllers/calendarFeedController';
 
 const router = Router();
 
-// All routes require authentication
+// Calendar apps poll the feed; the token in the URL is its only authentication
+const feedLimiter = rateLimit({
+  windowMs: 15 * 60 * 1000, // 15 minutes
+  max: 60,
+  message: 'Too many calendar feed requests, please try again later.'
+});
+
+router.get('/feed/:token.ics', feedLimiter, serveFeed);
+
+// All other routes require authentication
 router.use(authenticate);
 
+// Feed link management and .ics import
+router.get('/feed', getFeedStatus);
+router.post('/feed', createFeedToken);
+router.delete('/feed', revokeFeedToken);
+router.post('/import', icsUpload.single('file'), importCalendar);
+
 // Calendar notes routes
 router.get('/', getCalendarNotes);
 router.post('/', createCalendarNote);
@@ -24,6 +51,11 @@ router.delete('/:noteId', deleteCalendarNote);
 router.post('/:noteId/restore', restoreCalendarNote);
 router.get('/:noteId/audit', getAuditTrail);
 
+// Single occurrences of recurring notes, identified by their original start (ISO date)
+router.put('/:noteId/occurrences/:occurrenceDate', updateOccurrence);
+router.delete('/:noteId/occurrences/:occurrenceDate', cancelOccurrence);
+router.post('/:noteId/occurrences/:occurrenceDate/restore', restoreOccurrence);
+
 // Reminders routes
 router.get('/reminders', getReminders);
 router.post('/:noteId/reminder-sent', markReminderSent);
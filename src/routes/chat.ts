@@ -12,10 +12,33 @@ import {
   editMessage,
   reactToMessage,
   processMessages,
-  validateFileUpload
+  validateFileUpload,
+  updateDisappearingMessages,
+  markChatAsRead,
+  markMessagesDelivered,
+  searchChatMessages,
+  pinMessage,
+  unpinMessage,
+  getPinnedMessages,
+  starMessage,
+  unstarMessage,
+  getStarredMessages
 } from '@/controllers/chatController';
 import { uploadFile, getFile, deleteFile, uploadVoiceMessage } from '@/controllers/fileController';
 import { upload } from '@/controllers/fileController';
+import {
+  publishDeviceKeys,
+  uploadOneTimePreKeys,
+  getMyDeviceKeys,
+  revokeDeviceKeys,
+  getPartnerPreKeys
+} from '@/controllers/e2eeController';
+import {
+  createScheduledMessage,
+  getScheduledMessages,
+  updateScheduledMessage,
+  cancelScheduledMessage
+} from '@/controllers/scheduledMessageController';
 import { authenticate } from '@/middleware/auth';
 
 const router = express.Router();
@@ -23,16 +46,39 @@ const router = express.Router();
 // Apply authentication middleware to all routes
 router.use(authenticate);
 
+// End-to-end encryption key routes
+router.get('/keys/devices', getMyDeviceKeys);
+router.put('/keys/devices/:deviceId', publishDeviceKeys);
+router.post('/keys/devices/:deviceId/prekeys', uploadOneTimePreKeys);
+router.delete('/keys/devices/:deviceId', revokeDeviceKeys);
+router.get('/keys/partner', getPartnerPreKeys);
+
+// Scheduled message routes
+router.get('/scheduled', getScheduledMessages);
+router.post('/scheduled', createScheduledMessage);
+router.patch('/scheduled/:id', updateScheduledMessage);
+router.delete('/scheduled/:id', cancelScheduledMessage);
+
 // Chat routes
 router.get('/chats', getUserChats);
 router.get('/current', getCurrentPartnerChat); // New endpoint for current partner chat
+router.get('/starred', getStarredMessages);
 router.get('/:partnerId', getOrCreateChat);
 router.get('/:chatId/messages', getChatMessages);
+router.get('/:chatId/search', searchChatMessages);
+router.get('/:chatId/pins', getPinnedMessages);
 router.post('/send', sendMessage);
+router.put('/:chatId/disappearing', updateDisappearingMessages);
+router.put('/:chatId/read', markChatAsRead);
+router.post('/messages/delivered', markMessagesDelivered);
 router.put('/message/:messageId/viewed', markMessageAsViewed);
 router.get('/message/:messageId/view-status', getMessageViewStatus);
 router.put('/message/:messageId/edit', editMessage);
 router.put('/message/:messageId/react', reactToMessage);
+router.put('/message/:messageId/pin', pinMessage);
+router.delete('/message/:messageId/pin', unpinMessage);
+router.put('/message/:messageId/star', starMessage);
+router.delete('/message/:messageId/star', unstarMessage);
 router.get('/:chatId/processed-messages', processMessages);
 router.post('/validate-file', validateFileUpload);
 router.patch('/message/:messageId/delete-for-me', deleteMessageForMe);
@@ -1,10 +1,27 @@
 import express from 'express';
+import fs from 'fs';
+import mongoose from 'mongoose';
 import { authenticate } from '@/middleware/auth';
 import { Partner } from '@/models/Partner';
-import DiaryEntry from '@/models/DiaryEntry';
+import DiaryEntry, { DIARY_MOOD_SCALE, DIARY_REACTION_EMOJIS, IDiaryEntry, MAX_DIARY_LEVEL, MIN_DIARY_LEVEL } from '@/models/DiaryEntry';
+import DiaryComment, { MAX_DIARY_COMMENT_LENGTH } from '@/models/DiaryComment';
+import DiaryRevision, { DiaryRevisionReason, IDiaryRevision } from '@/models/DiaryRevision';
+import DiaryAutosave from '@/models/DiaryAutosave';
+import Notification from '@/models/Notification';
 import User from '@/models/User';
 import { upload } from '@/controllers/fileController';
+import mediaProcessingService, { UploadedImage } from '@/services/mediaProcessingService';
+import storageService from '@/services/storageService';
+import uploadSafetyService from '@/services/uploadSafetyService';
+import storageQuotaService from '@/services/storageQuotaService';
+import diaryExportService from '@/services/diaryExportService';
+import diaryMoodService, { MoodInterval } from '@/services/diaryMoodService';
+import notificationService from '@/services/notificationService';
+import { getSocketHandler } from '@/socket/socketHandler';
+import { AppError } from '@/middleware/errorHandler';
 import { rateLimit } from 'express-rate-limit';
+import logger from '@/utils/logger';
+import { countChangedWords, diffWords } from '@/utils/wordDiff';
 
 const router = express.Router();
 
@@ -17,6 +34,24 @@ const createEntryLimiter = rateLimit({
   message: 'Too many diary entries created, please try again later.'
 });
 
+const commentLimiter = rateLimit({
+  windowMs: 15 * 60 * 1000, // 15 minutes
+  max: 60, // limit each IP to 60 comments per windowMs
+  message: 'Too many comments, please try again later.'
+});
+
+const exportLimiter = rateLimit({
+  windowMs: 60 * 60 * 1000, // 1 hour
+  max: 10, // limit each IP to 10 exports per windowMs
+  message: 'Too many diary exports, please try again later.'
+});
+
+interface StoredImages {
+  urls: string[];
+  bytes: number;
+  pending: UploadedImage[];
+}
+
 async function getActivePartnerId(userId: string) {
   const partner = await Partner.findOne({
     status: 'active',
@@ -25,6 +60,177 @@ async function getActivePartnerId(userId: string) {
   return partner?._id;
 }
 
+// Helper: reserve quota, scan and strip metadata from uploaded images and store them; throws if
+// one is rejected (the whole batch is discarded and the quota released). Returns the stored URLs
+// and their total size, already counted against the quota, plus the images still waiting for thumbnails.
+async function storeImages(userId: string, files: Express.Multer.File[]): Promise<StoredImages> {
+  const reservedBytes = await storageQuotaService.reserveUploads(userId, 'diaryImages', files);
+
+  try {
+    await Promise.all(files.map(async file => {
+      await uploadSafetyService.assertSafe(file);
+      await mediaProcessingService.prepareUpload(file);
+    }));
+  } catch (error) {
+    await Promise.all(files.map(file => fs.promises.unlink(file.path).catch(() => undefined)));
+    await storageQuotaService.release(userId, 'diaryImages', reservedBytes);
+    throw error;
+  }
+
+  const pending: UploadedImage[] = [];
+  let urls: string[];
+  try {
+    urls = await Promise.all(files.map(async file => {
+      const needsThumbnails = mediaProcessingService.isImage(file.mimetype);
+      const url = await storageService.putUpload(file, { keepLocal: needsThumbnails });
+      if (needsThumbnails) {
+        pending.push({ path: file.path, url, mimeType: file.mimetype });
+      }
+      return url;
+    }));
+  } catch (error) {
+    await storageQuotaService.release(userId, 'diaryImages', reservedBytes);
+    throw error;
+  }
+
+  // Sizes after metadata stripping, as stored
+  const bytes = files.reduce((sum, file) => sum + file.size, 0);
+  await storageQuotaService.record(userId, 'diaryImages', bytes - reservedBytes);
+  return { urls, bytes, pending };
+}
+
+// Helper: an entry the caller may see: their couple's, not deleted, and not the partner's
+// private entry or draft. Anything else comes back as null so those look like missing ones.
+async function findVisibleEntry(userId: string, entryId: string) {
+  if (!mongoose.Types.ObjectId.isValid(entryId)) return null;
+
+  const entry = await DiaryEntry.findById(entryId);
+  if (!entry || entry.isDeleted) return null;
+
+  const partnerId = await getActivePartnerId(userId);
+  if (!partnerId || entry.partnerId.toString() !== partnerId.toString()) return null;
+  if ((entry.privacy === 'private' || entry.status === 'draft') && entry.authorId.toString() !== userId) return null;
+
+  return entry;
+}
+
+// Helper: an entry the caller wrote and hasn't deleted, or null
+async function findOwnEntry(userId: string, entryId: string) {
+  if (!mongoose.Types.ObjectId.isValid(entryId)) return null;
+
+  const entry = await DiaryEntry.findById(entryId);
+  return entry && !entry.isDeleted && entry.authorId.toString() === userId ? entry : null;
+}
+
+// Helper: tell the other partner about activity on a shared entry with a diary_update event
+// and, when given, a notification. Private entries, drafts and solo diaries have nobody to tell.
+async function notifyPartner(
+  entry: IDiaryEntry,
+  userId: string,
+  action: string,
+  data: Record<string, unknown>,
+  notification?: {
+    type: 'diary_comment' | 'diary_reaction';
+    title: string;
+    message: string;
+    data?: Record<string, unknown>;
+  }
+) {
+  if (entry.privacy === 'private' || entry.status === 'draft') return;
+
+  const partner = await Partner.findById(entry.partnerId).select('user1Id user2Id');
+  const recipientId = partner && (partner.user1Id.toString() === userId ? partner.user2Id : partner.user1Id).toString();
+  if (!recipientId || recipientId === userId) return;
+
+  getSocketHandler()?.emitDiaryUpdate(recipientId, action, { entryId: entry.id, ...data });
+
+  if (!notification) return;
+
+  await Notification.create({
+    userId: recipientId,
+    type: notification.type,
+    title: notification.title,
+    message: notification.message,
+    data: { entryId: entry._id, ...notification.data }
+  });
+
+  // Push is best effort; the notification is already stored
+  notificationService.sendPushNotification(recipientId, notification.title, notification.message, {
+    type: notification.type,
+    entryId: entry.id
+  }).catch(error => {
+    logger.warn('Failed to send diary push notification', {
+      entryId: entry.id,
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  });
+}
+
+// Helper: read a mood or energy level from a form field. Undefined when not sent,
+// null when cleared and NaN when it isn't a level on the scale.
+function parseLevel(value: unknown): number | null | undefined {
+  if (value === undefined) return undefined;
+  if (value === null || value === '') return null;
+  const level = Number(value);
+  return Number.isInteger(level) && level >= MIN_DIARY_LEVEL && level <= MAX_DIARY_LEVEL ? level : NaN;
+}
+
+// Helper: validate comment text, returning an error message or null
+function validateCommentBody(body: unknown): string | null {
+  if (typeof body !== 'string' || !body.trim()) return 'Comment text is required';
+  if (body.length > MAX_DIARY_COMMENT_LENGTH) {
+    return `Comment too long. Maximum ${MAX_DIARY_COMMENT_LENGTH} characters allowed.`;
+  }
+  return null;
+}
+
+// Helper: store text as the entry's next revision (the entry's current text by default).
+// Numbers are handed out atomically so concurrent saves can't collide.
+async function recordRevision(
+  entry: IDiaryEntry,
+  userId: string,
+  reason: DiaryRevisionReason,
+  snapshot: { title: string; description: string; tags: string[] } = entry,
+  extra: { restoredFrom?: number; createdAt?: Date } = {}
+) {
+  const counter = await DiaryEntry.findByIdAndUpdate(
+    entry._id,
+    { $inc: { revision: 1 } },
+    { new: true, timestamps: false }
+  ).select('revision');
+  const userInfo = await getUserInfo(userId);
+
+  const revision = await DiaryRevision.create({
+    entryId: entry._id,
+    revision: counter?.revision,
+    title: snapshot.title,
+    description: snapshot.description,
+    tags: [...snapshot.tags],
+    reason,
+    restoredFrom: extra.restoredFrom,
+    createdBy: userId,
+    createdByName: userInfo.name,
+    createdAt: extra.createdAt
+  });
+
+  entry.revision = revision.revision;
+  return revision;
+}
+
+// Helper: revision metadata for listings, without the full text
+function summarizeRevision(revision: IDiaryRevision) {
+  return {
+    revision: revision.revision,
+    title: revision.title,
+    reason: revision.reason,
+    restoredFrom: revision.restoredFrom,
+    wordCount: revision.description.split(/\s+/).filter(Boolean).length,
+    createdBy: revision.createdBy,
+    createdByName: revision.createdByName,
+    createdAt: revision.createdAt
+  };
+}
+
 // Helper: get user info for audit trail
 async function getUserInfo(userId: string) {
   const user = await User.findById(userId);
@@ -39,6 +245,7 @@ router.get('/', async (req: any, res) => {
     tags, 
     author, 
     privacy, 
+    status,
     startDate, 
     endDate, 
     page = 1, 
@@ -58,7 +265,7 @@ router.get('/', async (req: any, res) => {
     $and: [
       {
         $or: [
-          { privacy: 'public' },
+          { privacy: 'public', status: { $ne: 'draft' } },
           { authorId: userId }
         ]
       }
@@ -92,6 +299,11 @@ router.get('/', async (req: any, res) => {
     filter.privacy = privacy;
   }
 
+  // Draft filtering (drafts are only ever the caller's own)
+  if (status) {
+    filter.status = status === 'draft' ? 'draft' : { $ne: 'draft' };
+  }
+
   // Date range filtering
   if (startDate || endDate) {
     filter.createdAt = {};
@@ -141,7 +353,7 @@ router.get('/search', async (req: any, res) => {
     $and: [
       {
         $or: [
-          { privacy: 'public' },
+          { privacy: 'public', status: { $ne: 'draft' } },
           { authorId: userId }
         ]
       }
@@ -198,7 +410,7 @@ router.get('/tags', async (req: any, res) => {
         partnerId, 
         isDeleted: false,
         $or: [
-          { privacy: 'public' },
+          { privacy: 'public', status: { $ne: 'draft' } },
           { authorId: userId }
         ]
       } 
@@ -212,33 +424,125 @@ router.get('/tags', async (req: any, res) => {
   return res.json({ success: true, data: tags });
 });
 
+// The mood scale entries are rated on
+router.get('/moods', (req, res) => {
+  return res.json({ success: true, data: DIARY_MOOD_SCALE });
+});
+
+// Mood analytics for the couple: mood over time and by weekday per partner, correlation
+// with chat volume and the "both had a low week" signal
+router.get('/analytics/mood', async (req: any, res) => {
+  const userId = req.user?.userId as string;
+  const { startDate, endDate, interval, timezone } = req.query;
+
+  const start = startDate ? new Date(startDate as string) : undefined;
+  const end = endDate ? new Date(endDate as string) : undefined;
+  if ((start && isNaN(start.getTime())) || (end && isNaN(end.getTime()))) {
+    return res.status(400).json({ success: false, message: 'Invalid date range' });
+  }
+
+  try {
+    const analytics = await diaryMoodService.getAnalytics(userId, {
+      startDate: start,
+      endDate: end,
+      interval: interval as MoodInterval | undefined,
+      timezone: timezone as string | undefined
+    });
+    return res.json({ success: true, data: analytics });
+  } catch (error) {
+    return res.status(error instanceof AppError ? error.statusCode : 500).json({
+      success: false,
+      message: error instanceof AppError ? error.message : 'Failed to load mood analytics'
+    });
+  }
+});
+
+// Export entries as a ZIP of Markdown files and images, or a PDF book. Takes the list
+// filters; the export is built in the background and announced over the socket.
+router.post('/export', exportLimiter, async (req: any, res) => {
+  const userId = req.user?.userId as string;
+  const { format = 'zip', ...filters } = { ...req.query, ...req.body };
+
+  try {
+    const job = await diaryExportService.request(userId, format, diaryExportService.parseFilters(filters));
+    return res.status(202).json({ success: true, message: 'Export started', data: job });
+  } catch (error) {
+    return res.status(error instanceof AppError ? error.statusCode : 500).json({
+      success: false,
+      message: error instanceof AppError ? error.message : 'Failed to start the export'
+    });
+  }
+});
+
+// The caller's recent exports
+router.get('/exports', async (req: any, res) => {
+  const userId = req.user?.userId as string;
+  const jobs = await diaryExportService.listForUser(userId);
+  return res.json({ success: true, data: jobs });
+});
+
+// Export status, with a signed download link once it's ready
+router.get('/exports/:exportId', async (req: any, res) => {
+  const userId = req.user?.userId as string;
+
+  try {
+    const job = await diaryExportService.getForUser(req.params.exportId, userId);
+    const link = diaryExportService.downloadLink(job);
+    return res.json({
+      success: true,
+      data: {
+        ...job.toJSON(),
+        downloadUrl: link?.url,
+        downloadUrlExpiresAt: link?.expiresAt
+      }
+    });
+  } catch (error) {
+    return res.status(error instanceof AppError ? error.statusCode : 500).json({
+      success: false,
+      message: error instanceof AppError ? error.message : 'Failed to load the export'
+    });
+  }
+});
+
 // Create entry with images
 router.post('/', createEntryLimiter, upload.array('images', 10), async (req: any, res) => {
   const userId = req.user?.userId as string;
-  const { title, description, authorName, privacy = 'public', tags = [] } = req.body;
+  const { title, description, authorName, privacy = 'public', tags = [], status = 'published' } = req.body;
+  const mood = parseLevel(req.body.mood);
+  const energy = parseLevel(req.body.energy);
   
   // Validation
-  if (!title || !description || !authorName) {
+  if (status !== 'draft' && status !== 'published') {
+    return res.status(400).json({ success: false, message: 'status must be "draft" or "published"' });
+  }
+  const isDraft = status === 'draft';
+
+  // Drafts can start out without a title or text
+  if (!authorName || (!isDraft && (!title || !description))) {
     return res.status(400).json({ 
       success: false, 
-      message: 'Title, description, and author name are required' 
+      message: isDraft ? 'Author name is required' : 'Title, description, and author name are required' 
     });
   }
 
-  if (title.length > 120) {
+  if (title && title.length > 120) {
     return res.status(400).json({ 
       success: false, 
       message: 'Title too long. Maximum 120 characters allowed.' 
     });
   }
 
-  if (description.length > 4000) {
+  if (description && description.length > 4000) {
     return res.status(400).json({ 
       success: false, 
       message: 'Description too long. Maximum 4000 characters allowed.' 
     });
   }
 
+  if (Number.isNaN(mood) || Number.isNaN(energy)) {
+    return res.status(400).json({ success: false, message: `Mood and energy must be whole numbers from ${MIN_DIARY_LEVEL} to ${MAX_DIARY_LEVEL}` });
+  }
+
   let partnerId = await getActivePartnerId(userId);
   
   // If no active partner, create a self-partner for individual use
@@ -253,18 +557,43 @@ router.post('/', createEntryLimiter, upload.array('images', 10), async (req: any
     partnerId = selfPartner._id;
   }
   
-  const images: string[] = (req.files || []).map((f: any) => `/uploads/${f.filename}`);
+  let stored: StoredImages;
+  try {
+    stored = await storeImages(userId, req.files || []);
+  } catch (error) {
+    return res.status(error instanceof AppError ? error.statusCode : 400).json({
+      success: false,
+      message: error instanceof AppError ? error.message : 'One of the images could not be processed'
+    });
+  }
+  const images = stored.urls;
   
-  const entry = await DiaryEntry.create({
-    partnerId,
-    title: title.trim(),
-    description: description.trim(),
-    images,
-    authorId: userId,
-    authorName: authorName.trim(),
-    privacy,
-    tags: Array.isArray(tags) ? tags : []
-  });
+  let entry;
+  try {
+    entry = await DiaryEntry.create({
+      partnerId,
+      title: (title || '').trim(),
+      description: (description || '').trim(),
+      images,
+      imageBytes: stored.bytes,
+      authorId: userId,
+      authorName: authorName.trim(),
+      privacy,
+      status,
+      publishedAt: isDraft ? undefined : new Date(),
+      tags: Array.isArray(tags) ? tags : [],
+      mood: mood ?? undefined,
+      energy: energy ?? undefined
+    });
+  } catch (error) {
+    await storageQuotaService.release(userId, 'diaryImages', stored.bytes);
+    throw error;
+  }
+
+  await recordRevision(entry, userId, 'created');
+
+  // Thumbnails land in imageVariants shortly after
+  mediaProcessingService.processDiaryImages(entry.id, stored.pending);
   
   return res.status(201).json({ success: true, data: entry });
 });
@@ -280,6 +609,8 @@ router.put('/:entryId', upload.array('images', 10), async (req: any, res) => {
   if (entry.isDeleted) return res.status(404).json({ success: false, message: 'Entry deleted' });
   if (entry.authorId.toString() !== userId) return res.status(403).json({ success: false, message: 'Forbidden' });
 
+  const before = { title: entry.title, description: entry.description, tags: [...entry.tags], savedAt: entry.updatedAt };
+
   if (title !== undefined) {
     if (title.length > 120) {
       return res.status(400).json({ 
@@ -302,14 +633,70 @@ router.put('/:entryId', upload.array('images', 10), async (req: any, res) => {
   
   if (privacy !== undefined) entry.privacy = privacy;
   if (tags !== undefined) entry.tags = Array.isArray(tags) ? tags : [];
+
+  // Sending an empty value clears the mood or energy
+  const mood = parseLevel(req.body.mood);
+  const energy = parseLevel(req.body.energy);
+  if (Number.isNaN(mood) || Number.isNaN(energy)) {
+    return res.status(400).json({ success: false, message: `Mood and energy must be whole numbers from ${MIN_DIARY_LEVEL} to ${MAX_DIARY_LEVEL}` });
+  }
+  if (mood !== undefined) entry.mood = mood ?? undefined;
+  if (energy !== undefined) entry.energy = energy ?? undefined;
   
-  const images: string[] = (req.files || []).map((f: any) => `/uploads/${f.filename}`);
+  let stored: StoredImages;
+  try {
+    stored = await storeImages(userId, req.files || []);
+  } catch (error) {
+    return res.status(error instanceof AppError ? error.statusCode : 400).json({
+      success: false,
+      message: error instanceof AppError ? error.message : 'One of the images could not be processed'
+    });
+  }
+  const images = stored.urls;
+  const previousImageBytes = entry.imageBytes || 0;
+  let replacedUrls: string[] = [];
   if (images.length > 0) {
-    if (mode === 'replace') entry.images = images;
-    else entry.images = [...(entry.images || []), ...images];
+    if (mode === 'replace') {
+      replacedUrls = [
+        ...(entry.images || []),
+        ...(entry.imageVariants || []).flatMap(variant => mediaProcessingService.getDerivedUrls(variant))
+      ];
+      entry.images = images;
+      entry.imageVariants = [];
+      entry.imageBytes = stored.bytes;
+    } else {
+      entry.images = [...(entry.images || []), ...images];
+      entry.imageBytes = previousImageBytes + stored.bytes;
+    }
   }
   
-  await entry.save();
+  const textChanged = entry.title !== before.title
+    || entry.description !== before.description
+    || entry.tags.join('\n') !== before.tags.join('\n');
+
+  try {
+    await entry.save();
+  } catch (error) {
+    await storageQuotaService.release(userId, 'diaryImages', stored.bytes);
+    throw error;
+  }
+  // The new images were counted when stored; this hands back the replaced ones
+  await storageQuotaService.record(userId, 'diaryImages', entry.imageBytes - previousImageBytes - stored.bytes);
+  // Replaced images no longer count towards the quota, so they can't stay stored either
+  await storageService.deleteByUrls(replacedUrls);
+  mediaProcessingService.processDiaryImages(entry.id, stored.pending);
+
+  if (textChanged) {
+    // Entries written before revisions existed keep their original text as revision 1
+    if (!entry.revision) {
+      await recordRevision(entry, userId, 'created', before, { createdAt: before.savedAt });
+    }
+    await recordRevision(entry, userId, 'edited');
+  }
+
+  // An explicit save supersedes whatever was autosaved
+  await DiaryAutosave.deleteOne({ entryId: entry._id });
+
   return res.json({ success: true, data: entry });
 });
 
@@ -400,10 +787,431 @@ router.get('/:entryId/audit', async (req: any, res) => {
   if (!partnerId || entry.partnerId.toString() !== partnerId.toString()) {
     return res.status(403).json({ success: false, message: 'Forbidden' });
   }
+
+  // The trail holds earlier wordings, so private entries keep it to their author
+  if (entry.privacy === 'private' && entry.authorId.toString() !== userId) {
+    return res.status(403).json({ success: false, message: 'Private entry' });
+  }
+  if (entry.status === 'draft' && entry.authorId.toString() !== userId) {
+    return res.status(404).json({ success: false, message: 'Not found' });
+  }
   
   return res.json({ success: true, data: entry.auditTrail });
 });
 
+// List comments on an entry: top-level comments oldest first, each with its replies
+router.get('/:entryId/comments', async (req: any, res) => {
+  const userId = req.user?.userId as string;
+  const { page = 1, limit = 20 } = req.query;
+
+  const entry = await findVisibleEntry(userId, req.params.entryId);
+  if (!entry) return res.status(404).json({ success: false, message: 'Not found' });
+
+  const pageNumber = Math.max(parseInt(page as string) || 1, 1);
+  const pageSize = Math.min(Math.max(parseInt(limit as string) || 20, 1), 100);
+
+  // Deleted comments only stay (as placeholders) while they still have replies
+  const filter = {
+    entryId: entry._id,
+    parentId: null,
+    $or: [{ isDeleted: false }, { replyCount: { $gt: 0 } }]
+  };
+
+  const total = await DiaryComment.countDocuments(filter);
+  const comments = await DiaryComment.find(filter)
+    .sort({ createdAt: 1 })
+    .skip((pageNumber - 1) * pageSize)
+    .limit(pageSize);
+
+  const replies = await DiaryComment.find({
+    entryId: entry._id,
+    parentId: { $in: comments.map(comment => comment._id) },
+    isDeleted: false
+  }).sort({ createdAt: 1 });
+
+  return res.json({
+    success: true,
+    data: comments.map(comment => ({
+      ...comment.toJSON(),
+      replies: replies.filter(reply => reply.parentId?.toString() === comment.id)
+    })),
+    pagination: {
+      page: pageNumber,
+      limit: pageSize,
+      total,
+      pages: Math.ceil(total / pageSize)
+    }
+  });
+});
+
+// Comment on an entry, or reply to a comment (replies to replies join the same thread)
+router.post('/:entryId/comments', commentLimiter, async (req: any, res) => {
+  const userId = req.user?.userId as string;
+  const { body, parentId } = req.body;
+
+  const invalid = validateCommentBody(body);
+  if (invalid) return res.status(400).json({ success: false, message: invalid });
+
+  const entry = await findVisibleEntry(userId, req.params.entryId);
+  if (!entry) return res.status(404).json({ success: false, message: 'Not found' });
+
+  let threadId: mongoose.Types.ObjectId | undefined;
+  if (parentId) {
+    const parent = mongoose.Types.ObjectId.isValid(parentId)
+      ? await DiaryComment.findOne({ _id: parentId, entryId: entry._id, isDeleted: false })
+      : null;
+    if (!parent) return res.status(404).json({ success: false, message: 'Parent comment not found' });
+    threadId = parent.parentId || parent._id as mongoose.Types.ObjectId;
+  }
+
+  const userInfo = await getUserInfo(userId);
+  const comment = await DiaryComment.create({
+    entryId: entry._id,
+    partnerId: entry.partnerId,
+    parentId: threadId,
+    authorId: userId,
+    authorName: userInfo.name,
+    body: body.trim()
+  });
+
+  if (threadId) {
+    await DiaryComment.updateOne({ _id: threadId }, { $inc: { replyCount: 1 } });
+  }
+
+  await notifyPartner(entry, userId, 'comment_created', { comment: comment.toJSON() }, {
+    type: 'diary_comment',
+    title: threadId ? 'New Reply' : 'New Comment',
+    message: `${userInfo.name} commented on "${entry.title}"`,
+    data: { commentId: comment._id }
+  });
+
+  return res.status(201).json({ success: true, data: comment });
+});
+
+// Edit a comment (comment author only)
+router.put('/:entryId/comments/:commentId', async (req: any, res) => {
+  const userId = req.user?.userId as string;
+  const { commentId } = req.params;
+  const { body } = req.body;
+
+  const invalid = validateCommentBody(body);
+  if (invalid) return res.status(400).json({ success: false, message: invalid });
+
+  const entry = await findVisibleEntry(userId, req.params.entryId);
+  if (!entry) return res.status(404).json({ success: false, message: 'Not found' });
+
+  const comment = mongoose.Types.ObjectId.isValid(commentId)
+    ? await DiaryComment.findOne({ _id: commentId, entryId: entry._id, isDeleted: false })
+    : null;
+  if (!comment) return res.status(404).json({ success: false, message: 'Comment not found' });
+  if (comment.authorId.toString() !== userId) return res.status(403).json({ success: false, message: 'Forbidden' });
+
+  const text = body.trim();
+  if (text === comment.body) return res.json({ success: true, data: comment });
+
+  const userInfo = await getUserInfo(userId);
+  comment.auditTrail.push({
+    action: 'updated',
+    userId: new mongoose.Types.ObjectId(userId),
+    userName: userInfo.name,
+    timestamp: new Date(),
+    changes: { body: { from: comment.body, to: text } }
+  });
+  comment.body = text;
+  comment.editedAt = new Date();
+  await comment.save();
+
+  await notifyPartner(entry, userId, 'comment_updated', { comment: comment.toJSON() });
+
+  return res.json({ success: true, data: comment });
+});
+
+// Delete a comment (its author, or the entry's author); replies stay under a placeholder
+router.delete('/:entryId/comments/:commentId', async (req: any, res) => {
+  const userId = req.user?.userId as string;
+  const { commentId } = req.params;
+  const { reason } = req.body || {};
+
+  if (reason && reason.length > 200) {
+    return res.status(400).json({ success: false, message: 'Reason too long. Maximum 200 characters allowed.' });
+  }
+
+  const entry = await findVisibleEntry(userId, req.params.entryId);
+  if (!entry) return res.status(404).json({ success: false, message: 'Not found' });
+
+  const comment = mongoose.Types.ObjectId.isValid(commentId)
+    ? await DiaryComment.findOne({ _id: commentId, entryId: entry._id, isDeleted: false })
+    : null;
+  if (!comment) return res.status(404).json({ success: false, message: 'Comment not found' });
+  if (comment.authorId.toString() !== userId && entry.authorId.toString() !== userId) {
+    return res.status(403).json({ success: false, message: 'Forbidden' });
+  }
+
+  const userInfo = await getUserInfo(userId);
+  comment.isDeleted = true;
+  comment.deletedAt = new Date();
+  comment.deletedBy = new mongoose.Types.ObjectId(userId);
+  comment.auditTrail.push({
+    action: 'deleted',
+    userId: new mongoose.Types.ObjectId(userId),
+    userName: userInfo.name,
+    timestamp: new Date(),
+    reason: reason || undefined
+  });
+  await comment.save();
+
+  if (comment.parentId) {
+    await DiaryComment.updateOne({ _id: comment.parentId }, { $inc: { replyCount: -1 } });
+  }
+
+  await notifyPartner(entry, userId, 'comment_deleted', { commentId: comment.id, parentId: comment.parentId });
+
+  return res.json({ success: true });
+});
+
+// Get audit trail for a comment
+router.get('/:entryId/comments/:commentId/audit', async (req: any, res) => {
+  const userId = req.user?.userId as string;
+  const { commentId } = req.params;
+
+  const entry = await findVisibleEntry(userId, req.params.entryId);
+  if (!entry) return res.status(404).json({ success: false, message: 'Not found' });
+
+  const comment = mongoose.Types.ObjectId.isValid(commentId)
+    ? await DiaryComment.findOne({ _id: commentId, entryId: entry._id })
+    : null;
+  if (!comment) return res.status(404).json({ success: false, message: 'Comment not found' });
+
+  return res.json({ success: true, data: comment.auditTrail });
+});
+
+// React to an entry: a new emoji replaces the caller's reaction, the same one removes it
+router.post('/:entryId/reactions', async (req: any, res) => {
+  const userId = req.user?.userId as string;
+  const { emoji } = req.body;
+
+  if (!emoji) return res.status(400).json({ success: false, message: 'Emoji is required' });
+  if (!DIARY_REACTION_EMOJIS.includes(emoji)) {
+    return res.status(400).json({ success: false, message: 'Emoji not allowed' });
+  }
+
+  const entry = await findVisibleEntry(userId, req.params.entryId);
+  if (!entry) return res.status(404).json({ success: false, message: 'Not found' });
+
+  const reactorId = new mongoose.Types.ObjectId(userId);
+  const ownReactions = { $filter: { input: { $ifNull: ['$reactions', []] }, cond: { $eq: ['$$this.userId', reactorId] } } };
+
+  // One pipeline update, so concurrent toggles can't leave the user with two reactions.
+  // Reactions aren't edits: they skip the audit trail and leave updatedAt alone.
+  const previous = await DiaryEntry.findOneAndUpdate({ _id: entry._id }, [{
+    $set: {
+      reactions: {
+        $concatArrays: [
+          { $filter: { input: { $ifNull: ['$reactions', []] }, cond: { $ne: ['$$this.userId', reactorId] } } },
+          {
+            $cond: [
+              { $in: [{ $literal: emoji }, { $map: { input: ownReactions, in: '$$this.emoji' } }] },
+              [],
+              [{ userId: reactorId, emoji: { $literal: emoji }, reactedAt: '$$NOW' }]
+            ]
+          }
+        ]
+      }
+    }
+  }], { new: false, timestamps: false }).select('reactions');
+  const added = previous?.reactions.find(reaction => reaction.userId.toString() === userId)?.emoji !== emoji;
+
+  const updated = await DiaryEntry.findById(entry._id).select('reactions');
+  const reactions = updated?.reactions || [];
+
+  // Only reactions to the partner's own entries are worth a notification
+  const notifyAuthor = added && entry.authorId.toString() !== userId;
+  const userInfo = notifyAuthor ? await getUserInfo(userId) : null;
+  await notifyPartner(entry, userId, 'reaction_updated', { reactions }, userInfo ? {
+    type: 'diary_reaction',
+    title: 'New Reaction',
+    message: `${userInfo.name} reacted ${emoji} to "${entry.title}"`,
+    data: { emoji }
+  } : undefined);
+
+  return res.json({ success: true, message: 'Reaction updated', data: { reactions } });
+});
+
+// Publish a draft so the partner can see it (author only)
+router.post('/:entryId/publish', async (req: any, res) => {
+  const userId = req.user?.userId as string;
+
+  const entry = await findOwnEntry(userId, req.params.entryId);
+  if (!entry) return res.status(404).json({ success: false, message: 'Not found' });
+  if (entry.status !== 'draft') return res.status(400).json({ success: false, message: 'Entry is already published' });
+  if (!entry.title || !entry.description) {
+    return res.status(400).json({ success: false, message: 'Title and description are required to publish' });
+  }
+
+  entry.status = 'published';
+  entry.publishedAt = new Date();
+  await entry.save();
+
+  await notifyPartner(entry, userId, 'entry_published', { entry: entry.toJSON() });
+
+  return res.json({ success: true, data: entry });
+});
+
+// Get the autosaved, not yet saved text of an entry (author only)
+router.get('/:entryId/autosave', async (req: any, res) => {
+  const userId = req.user?.userId as string;
+
+  const entry = await findOwnEntry(userId, req.params.entryId);
+  if (!entry) return res.status(404).json({ success: false, message: 'Not found' });
+
+  const autosave = await DiaryAutosave.findOne({ entryId: entry._id });
+
+  return res.json({
+    success: true,
+    // Stale when the entry was saved again after this text was started
+    data: autosave && { ...autosave.toJSON(), isStale: autosave.baseRevision !== entry.revision }
+  });
+});
+
+// Autosave in-progress text (author only). The entry and its revisions are left alone
+// until the author saves.
+router.put('/:entryId/autosave', async (req: any, res) => {
+  const userId = req.user?.userId as string;
+  const { title, description, tags } = req.body;
+
+  if (title !== undefined && (typeof title !== 'string' || title.length > 120)) {
+    return res.status(400).json({ success: false, message: 'Title too long. Maximum 120 characters allowed.' });
+  }
+  if (description !== undefined && (typeof description !== 'string' || description.length > 4000)) {
+    return res.status(400).json({ success: false, message: 'Description too long. Maximum 4000 characters allowed.' });
+  }
+
+  const entry = await findOwnEntry(userId, req.params.entryId);
+  if (!entry) return res.status(404).json({ success: false, message: 'Not found' });
+
+  const fields: Record<string, unknown> = { authorId: entry.authorId, savedAt: new Date() };
+  if (title !== undefined) fields.title = title;
+  if (description !== undefined) fields.description = description;
+  if (tags !== undefined) fields.tags = Array.isArray(tags) ? tags : [];
+
+  const autosave = await DiaryAutosave.findOneAndUpdate(
+    { entryId: entry._id },
+    { $set: fields, $setOnInsert: { baseRevision: entry.revision } },
+    { upsert: true, new: true }
+  );
+
+  return res.json({ success: true, data: autosave });
+});
+
+// Discard autosaved text (author only)
+router.delete('/:entryId/autosave', async (req: any, res) => {
+  const userId = req.user?.userId as string;
+
+  const entry = await findOwnEntry(userId, req.params.entryId);
+  if (!entry) return res.status(404).json({ success: false, message: 'Not found' });
+
+  await DiaryAutosave.deleteOne({ entryId: entry._id });
+
+  return res.json({ success: true });
+});
+
+// List an entry's revisions, newest first (author only)
+router.get('/:entryId/revisions', async (req: any, res) => {
+  const userId = req.user?.userId as string;
+
+  const entry = await findOwnEntry(userId, req.params.entryId);
+  if (!entry) return res.status(404).json({ success: false, message: 'Not found' });
+
+  const revisions = await DiaryRevision.find({ entryId: entry._id }).sort({ revision: -1 });
+
+  return res.json({ success: true, data: revisions.map(summarizeRevision), currentRevision: entry.revision });
+});
+
+// Word-level diff between two revisions (author only); `to` defaults to the latest
+router.get('/:entryId/revisions/diff', async (req: any, res) => {
+  const userId = req.user?.userId as string;
+
+  const entry = await findOwnEntry(userId, req.params.entryId);
+  if (!entry) return res.status(404).json({ success: false, message: 'Not found' });
+
+  const from = parseInt(req.query.from as string);
+  const to = req.query.to === undefined ? entry.revision : parseInt(req.query.to as string);
+  if (!Number.isInteger(from) || !Number.isInteger(to)) {
+    return res.status(400).json({ success: false, message: 'from and to must be revision numbers' });
+  }
+
+  const [older, newer] = await Promise.all([
+    DiaryRevision.findOne({ entryId: entry._id, revision: from }),
+    DiaryRevision.findOne({ entryId: entry._id, revision: to })
+  ]);
+  if (!older || !newer) return res.status(404).json({ success: false, message: 'Revision not found' });
+
+  const title = diffWords(older.title, newer.title);
+  const description = diffWords(older.description, newer.description);
+  const titleChanges = countChangedWords(title);
+  const descriptionChanges = countChangedWords(description);
+
+  return res.json({
+    success: true,
+    data: {
+      from: summarizeRevision(older),
+      to: summarizeRevision(newer),
+      title,
+      description,
+      tags: {
+        added: newer.tags.filter(tag => !older.tags.includes(tag)),
+        removed: older.tags.filter(tag => !newer.tags.includes(tag))
+      },
+      stats: {
+        wordsAdded: titleChanges.added + descriptionChanges.added,
+        wordsRemoved: titleChanges.removed + descriptionChanges.removed
+      }
+    }
+  });
+});
+
+// Get one revision's full text (author only)
+router.get('/:entryId/revisions/:revision', async (req: any, res) => {
+  const userId = req.user?.userId as string;
+
+  const entry = await findOwnEntry(userId, req.params.entryId);
+  if (!entry) return res.status(404).json({ success: false, message: 'Not found' });
+
+  const revision = await DiaryRevision.findOne({ entryId: entry._id, revision: parseInt(req.params.revision) || 0 });
+  if (!revision) return res.status(404).json({ success: false, message: 'Revision not found' });
+
+  return res.json({ success: true, data: revision });
+});
+
+// Restore a revision's text (author only). The restored text becomes a new revision, so
+// nothing in the history is lost.
+router.post('/:entryId/revisions/:revision/restore', async (req: any, res) => {
+  const userId = req.user?.userId as string;
+
+  const entry = await findOwnEntry(userId, req.params.entryId);
+  if (!entry) return res.status(404).json({ success: false, message: 'Not found' });
+
+  const source = await DiaryRevision.findOne({ entryId: entry._id, revision: parseInt(req.params.revision) || 0 });
+  if (!source) return res.status(404).json({ success: false, message: 'Revision not found' });
+
+  if (entry.status === 'published' && (!source.title || !source.description)) {
+    return res.status(400).json({
+      success: false,
+      message: 'This revision has no title or text, so it cannot be restored on a published entry'
+    });
+  }
+
+  entry.title = source.title;
+  entry.description = source.description;
+  entry.tags = [...source.tags];
+  await entry.save();
+
+  const revision = await recordRevision(entry, userId, 'restored', entry, { restoredFrom: source.revision });
+  await DiaryAutosave.deleteOne({ entryId: entry._id });
+
+  return res.json({ success: true, data: { entry, revision: summarizeRevision(revision) } });
+});
+
 // Get entry by ID
 router.get('/:entryId', async (req: any, res) => {
   const userId = req.user?.userId as string;
@@ -422,6 +1230,11 @@ router.get('/:entryId', async (req: any, res) => {
   if (entry.privacy === 'private' && entry.authorId.toString() !== userId) {
     return res.status(403).json({ success: false, message: 'Private entry' });
   }
+
+  // The partner only sees an entry once it is published
+  if (entry.status === 'draft' && entry.authorId.toString() !== userId) {
+    return res.status(404).json({ success: false, message: 'Not found' });
+  }
   
   return res.json({ success: true, data: entry });
 });
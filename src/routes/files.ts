@@ -0,0 +1,13 @@
+import express from 'express';
+import { signFileUrls, serveSignedFile } from '@/controllers/fileAccessController';
+import { authenticate } from '@/middleware/auth';
+
+const router = express.Router();
+
+// POST /api/files/sign - Get signed URLs for stored files the caller can access
+router.post('/sign', authenticate, signFileUrls);
+
+// GET /api/files/<key>?uid=&exp=&sig= - The signature is the credential (usable from <img>/<video>)
+router.get('/*', serveSignedFile);
+
+export default router;
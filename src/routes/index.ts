@@ -19,6 +19,9 @@ import nicknameRoutes from './nickname';
 import monitoringRoutes from './monitoring';
 import adminRoutes from './admin';
 import achievementsRoutes from './achievements';
+import fileRoutes from './files';
+import uploadRoutes from './uploads';
+import storageRoutes from './storage';
 import { securityMiddleware, securityHeaders } from '@/middleware/security';
 
 const router = Router();
@@ -59,5 +62,8 @@ router.use('/nicknames', nicknameRoutes);
 router.use('/monitoring', monitoringRoutes);
 router.use('/admin', adminRoutes);
 router.use('/achievements', achievementsRoutes);
+router.use('/files', fileRoutes);
+router.use('/uploads', uploadRoutes);
+router.use('/storage', storageRoutes);
 
 export default router;
\ No newline at end of file
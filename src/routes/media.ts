@@ -4,8 +4,24 @@ import {
   createMediaItem, 
   deleteMediaItem, 
   getMediaStats,
+  getMediaTimeline,
+  favoriteMediaItem,
+  unfavoriteMediaItem,
   uploadMedia 
 } from '@/controllers/mediaController';
+import {
+  getAlbums,
+  createAlbum,
+  updateAlbum,
+  reorderAlbums,
+  deleteAlbum,
+  getAlbumItems,
+  addAlbumItems,
+  removeAlbumItem,
+  reorderAlbumItems,
+  getChatAlbumItems,
+  getFavoritesAlbumItems
+} from '@/controllers/mediaAlbumController';
 import { authenticate } from '@/middleware/auth';
 
 const router = express.Router();
@@ -13,16 +29,36 @@ const router = express.Router();
 // Apply authentication middleware to all routes
 router.use(authenticate);
 
-// GET /api/media - Get all media items for user and partner
+// GET /api/media - Get media items for user and partner (?cursor, ?limit, ?favorites=true, ?period=YYYY[-MM])
 router.get('/', getMediaItems);
 
 // POST /api/media/upload - Upload a new media item
 router.post('/upload', uploadMedia, createMediaItem);
 
-// DELETE /api/media/:mediaId - Delete a media item
-router.delete('/:mediaId', deleteMediaItem);
-
 // GET /api/media/stats - Get media statistics
 router.get('/stats', getMediaStats);
 
+// GET /api/media/timeline - Media grouped by month or year (?groupBy=month|year)
+router.get('/timeline', getMediaTimeline);
+
+// Album routes (smart albums before /:albumId so their IDs aren't taken for album IDs)
+router.get('/albums', getAlbums);
+router.post('/albums', createAlbum);
+router.put('/albums/order', reorderAlbums);
+router.get('/albums/from-chats/items', getChatAlbumItems);
+router.get('/albums/favorites/items', getFavoritesAlbumItems);
+router.patch('/albums/:albumId', updateAlbum);
+router.delete('/albums/:albumId', deleteAlbum);
+router.get('/albums/:albumId/items', getAlbumItems);
+router.post('/albums/:albumId/items', addAlbumItems);
+router.put('/albums/:albumId/items/order', reorderAlbumItems);
+router.delete('/albums/:albumId/items/:mediaId', removeAlbumItem);
+
+// PUT/DELETE /api/media/:mediaId/favorite - Mark or unmark a favourite
+router.put('/:mediaId/favorite', favoriteMediaItem);
+router.delete('/:mediaId/favorite', unfavoriteMediaItem);
+
+// DELETE /api/media/:mediaId - Delete a media item
+router.delete('/:mediaId', deleteMediaItem);
+
 export default router;
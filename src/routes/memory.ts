@@ -1,39 +1,289 @@
 import express from 'express';
-import Memory from '../models/memory';
-import { Types } from 'mongoose';
-import { authenticate } from '../middleware/auth';
+import fs from 'fs';
+import { FilterQuery, Types } from 'mongoose';
+import { authenticate } from '@/middleware/auth';
+import { asyncHandler } from '@/middleware/errorHandler';
+import { Partner } from '@/models/Partner';
+import Memory, { DEFAULT_MEMORY_ALBUM, IMemory } from '@/models/memory';
+import { upload } from '@/controllers/fileController';
+import storageService from '@/services/storageService';
+import uploadSafetyService from '@/services/uploadSafetyService';
+import storageQuotaService from '@/services/storageQuotaService';
 
 const router = express.Router();
 
 // Apply authentication middleware to all routes
 router.use(authenticate);
 
-// Add a new memory (dummy image for now)
-router.post('/add', async (req, res) => {
+async function getActivePartnerId(userId: string) {
+  const partner = await Partner.findOne({
+    status: 'active',
+    $or: [{ user1Id: userId }, { user2Id: userId }]
+  });
+  return partner?._id;
+}
+
+// Helper: load a memory and make sure it belongs to the caller's couple
+async function findCoupleMemory(userId: string, memoryId: string) {
+  const partnerId = await getActivePartnerId(userId);
+  if (!partnerId) return { partnerId: undefined, memory: null };
+
+  const memory = await Memory.findById(memoryId);
+  if (!memory || memory.partnerId.toString() !== partnerId.toString()) {
+    return { partnerId, memory: null };
+  }
+  return { partnerId, memory };
+}
+
+function normalizeAlbum(album: unknown) {
+  return typeof album === 'string' && album.trim() ? album.trim() : DEFAULT_MEMORY_ALBUM;
+}
+
+// List memories with album filter and pagination
+router.get('/', asyncHandler(async (req: any, res) => {
+  const userId = req.user?.userId as string;
+  const { album, page = 1, limit = 20 } = req.query;
+
+  if (album !== undefined && typeof album !== 'string') {
+    return res.status(400).json({ success: false, message: 'album must be a single value' });
+  }
+
+  const pageNumber = Math.max(parseInt(page as string) || 1, 1);
+  const limitNumber = Math.min(Math.max(parseInt(limit as string) || 20, 1), 100);
+
+  const partnerId = await getActivePartnerId(userId);
+  if (!partnerId) {
+    return res.json({ success: true, data: [], pagination: { page: 1, limit: limitNumber, total: 0, pages: 0 } });
+  }
+
+  const filter: FilterQuery<IMemory> = { partnerId, isDeleted: false };
+  if (album) filter.album = normalizeAlbum(album);
+
+  const total = await Memory.countDocuments(filter);
+  const memories = await Memory.find(filter)
+    .sort({ uploadedAt: -1, _id: -1 })
+    .skip((pageNumber - 1) * limitNumber)
+    .limit(limitNumber)
+    .populate('uploadedBy', 'name avatar')
+    .lean();
+
+  return res.json({
+    success: true,
+    data: memories,
+    pagination: {
+      page: pageNumber,
+      limit: limitNumber,
+      total,
+      pages: Math.ceil(total / limitNumber)
+    }
+  });
+}));
+
+// List albums with item counts and cover photos
+router.get('/albums', asyncHandler(async (req: any, res) => {
+  const userId = req.user?.userId as string;
+  const partnerId = await getActivePartnerId(userId);
+  if (!partnerId) {
+    return res.json({ success: true, data: [] });
+  }
+
+  const albums = await Memory.aggregate([
+    { $match: { partnerId, isDeleted: false } },
+    { $sort: { uploadedAt: -1 } },
+    {
+      $group: {
+        _id: '$album',
+        count: { $sum: 1 },
+        latestAt: { $first: '$uploadedAt' },
+        latestImageUrl: { $first: '$imageUrl' },
+        coverImageUrl: { $max: { $cond: ['$isAlbumCover', '$imageUrl', null] } }
+      }
+    },
+    { $sort: { latestAt: -1 } },
+    {
+      $project: {
+        _id: 0,
+        album: '$_id',
+        count: 1,
+        latestAt: 1,
+        coverImageUrl: { $ifNull: ['$coverImageUrl', '$latestImageUrl'] }
+      }
+    }
+  ]);
+
+  return res.json({ success: true, data: albums });
+}));
+
+// List soft-deleted memories so they can be restored
+router.get('/trash', asyncHandler(async (req: any, res) => {
+  const userId = req.user?.userId as string;
+  const partnerId = await getActivePartnerId(userId);
+  if (!partnerId) {
+    return res.json({ success: true, data: [] });
+  }
+
+  const memories = await Memory.find({ partnerId, isDeleted: true })
+    .sort({ deletedAt: -1 })
+    .limit(100)
+    .populate('uploadedBy', 'name avatar')
+    .lean();
+
+  return res.json({ success: true, data: memories });
+}));
+
+// Upload a memory image
+router.post('/', upload.single('image'), asyncHandler(async (req: any, res) => {
+  const userId = req.user?.userId as string;
+  const { caption, album } = req.body;
+
+  if (!req.file) {
+    return res.status(400).json({ success: false, message: 'Image is required' });
+  }
+
+  const discardUpload = () => fs.promises.unlink(req.file.path).catch(() => undefined);
+
+  if (!req.file.mimetype.startsWith('image/')) {
+    await discardUpload();
+    return res.status(400).json({ success: false, message: 'Only image files are allowed' });
+  }
+
+  if (caption && caption.length > 500) {
+    await discardUpload();
+    return res.status(400).json({
+      success: false,
+      message: 'Caption too long. Maximum 500 characters allowed.'
+    });
+  }
+
+  const partnerId = await getActivePartnerId(userId);
+  if (!partnerId) {
+    await discardUpload();
+    return res.status(404).json({ success: false, message: 'No active partner found' });
+  }
+
+  const reservedBytes = await storageQuotaService.reserveUploads(userId, 'memories', [req.file]);
+
+  let memory: IMemory;
   try {
-    const { uploadedBy, coupleId } = req.body;
-    // Dummy image URL
-    const imageUrl = 'https://via.placeholder.com/300x200.png?text=Dummy+Image';
-    const memory = await Memory.create({
+    await uploadSafetyService.assertSafe(req.file);
+    const imageUrl = await storageService.putUpload(req.file);
+
+    memory = await Memory.create({
+      partnerId,
+      uploadedBy: userId,
       imageUrl,
-      uploadedBy: new Types.ObjectId(uploadedBy),
-      coupleId: new Types.ObjectId(coupleId),
+      fileName: req.file.originalname,
+      fileSize: req.file.size,
+      mimeType: req.file.mimetype,
+      caption: caption?.trim() || undefined,
+      album: normalizeAlbum(album)
     });
-    res.status(201).json(memory);
-  } catch (err) {
-    res.status(500).json({ error: "Error adding memory"});
+  } catch (error) {
+    await storageQuotaService.release(userId, 'memories', reservedBytes);
+    throw error;
   }
-});
 
-// Get all memories for a couple
-router.get('/:coupleId', async (req, res) => {
-  try {
-    const { coupleId } = req.params;
-    const memories = await Memory.find({ coupleId }).populate('uploadedBy', 'name');
-    res.json(memories);
-  } catch (err) {
-    res.status(500).json({ error: "Error fetching memories" });
+  await memory.populate('uploadedBy', 'name avatar');
+
+  return res.status(201).json({ success: true, data: memory });
+}));
+
+// Get memory by ID
+router.get('/:memoryId', asyncHandler(async (req: any, res) => {
+  const userId = req.user?.userId as string;
+  const { memory } = await findCoupleMemory(userId, req.params.memoryId);
+
+  if (!memory) return res.status(404).json({ success: false, message: 'Not found' });
+  if (memory.isDeleted) return res.status(404).json({ success: false, message: 'Memory deleted' });
+
+  await memory.populate('uploadedBy', 'name avatar');
+  return res.json({ success: true, data: memory });
+}));
+
+// Update caption or move to another album
+router.patch('/:memoryId', asyncHandler(async (req: any, res) => {
+  const userId = req.user?.userId as string;
+  const { caption, album } = req.body;
+  const { memory } = await findCoupleMemory(userId, req.params.memoryId);
+
+  if (!memory) return res.status(404).json({ success: false, message: 'Not found' });
+  if (memory.isDeleted) return res.status(404).json({ success: false, message: 'Memory deleted' });
+
+  if (caption !== undefined) {
+    if (caption && caption.length > 500) {
+      return res.status(400).json({
+        success: false,
+        message: 'Caption too long. Maximum 500 characters allowed.'
+      });
+    }
+    memory.caption = caption ? caption.trim() : undefined;
   }
-});
+
+  if (album !== undefined) {
+    const nextAlbum = normalizeAlbum(album);
+    if (nextAlbum !== memory.album) {
+      memory.album = nextAlbum;
+      // A cover only makes sense within its own album
+      memory.isAlbumCover = false;
+    }
+  }
+
+  await memory.save();
+  await memory.populate('uploadedBy', 'name avatar');
+  return res.json({ success: true, data: memory });
+}));
+
+// Set memory as the cover photo of its album
+router.post('/:memoryId/cover', asyncHandler(async (req: any, res) => {
+  const userId = req.user?.userId as string;
+  const { partnerId, memory } = await findCoupleMemory(userId, req.params.memoryId);
+
+  if (!memory) return res.status(404).json({ success: false, message: 'Not found' });
+  if (memory.isDeleted) return res.status(404).json({ success: false, message: 'Memory deleted' });
+
+  await Memory.updateMany(
+    { partnerId, album: memory.album, isAlbumCover: true, _id: { $ne: memory._id } },
+    { $set: { isAlbumCover: false } }
+  );
+
+  memory.isAlbumCover = true;
+  await memory.save();
+  return res.json({ success: true, data: memory });
+}));
+
+// Soft delete memory (uploader only)
+router.delete('/:memoryId', asyncHandler(async (req: any, res) => {
+  const userId = req.user?.userId as string;
+  const { memory } = await findCoupleMemory(userId, req.params.memoryId);
+
+  if (!memory) return res.status(404).json({ success: false, message: 'Not found' });
+  if (memory.isDeleted) return res.status(404).json({ success: false, message: 'Already deleted' });
+  if (memory.uploadedBy.toString() !== userId) return res.status(403).json({ success: false, message: 'Forbidden' });
+
+  memory.isDeleted = true;
+  memory.deletedAt = new Date();
+  memory.deletedBy = new Types.ObjectId(userId);
+  memory.isAlbumCover = false;
+
+  await memory.save();
+  return res.json({ success: true });
+}));
+
+// Restore deleted memory (uploader only)
+router.post('/:memoryId/restore', asyncHandler(async (req: any, res) => {
+  const userId = req.user?.userId as string;
+  const { memory } = await findCoupleMemory(userId, req.params.memoryId);
+
+  if (!memory) return res.status(404).json({ success: false, message: 'Not found' });
+  if (!memory.isDeleted) return res.status(400).json({ success: false, message: 'Not deleted' });
+  if (memory.uploadedBy.toString() !== userId) return res.status(403).json({ success: false, message: 'Forbidden' });
+
+  memory.isDeleted = false;
+  memory.deletedAt = undefined;
+  memory.deletedBy = undefined;
+
+  await memory.save();
+  return res.json({ success: true, data: memory });
+}));
 
 export default router;
@@ -0,0 +1,13 @@
+import express from 'express';
+import { getStorageUsage } from '@/controllers/storageController';
+import { authenticate } from '@/middleware/auth';
+
+const router = express.Router();
+
+// Apply authentication middleware to all routes
+router.use(authenticate);
+
+// GET /api/storage/usage - Bytes used per category by the user and the couple, with quotas
+router.get('/usage', getStorageUsage);
+
+export default router;
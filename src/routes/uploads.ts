@@ -0,0 +1,33 @@
+import express from 'express';
+import {
+  createResumableUpload,
+  getResumableUpload,
+  uploadChunk,
+  finalizeResumableUpload,
+  abortResumableUpload,
+  parseChunk
+} from '@/controllers/resumableUploadController';
+import { authenticate } from '@/middleware/auth';
+
+const router = express.Router();
+
+// Apply authentication middleware to all routes
+router.use(authenticate);
+
+// POST /api/uploads - Start a resumable upload (chat file or media item)
+router.post('/', createResumableUpload);
+
+// HEAD/GET /api/uploads/:id - Current offset, for resuming after a dropped connection
+router.head('/:id', getResumableUpload);
+router.get('/:id', getResumableUpload);
+
+// PATCH /api/uploads/:id - Append a chunk (Upload-Offset + Upload-Checksum headers)
+router.patch('/:id', parseChunk, uploadChunk);
+
+// POST /api/uploads/:id/finalize - Create the message or media item from the upload
+router.post('/:id/finalize', finalizeResumableUpload);
+
+// DELETE /api/uploads/:id - Abort and discard the partial upload
+router.delete('/:id', abortResumableUpload);
+
+export default router;
@@ -7,7 +7,9 @@ import {
   updateWalletItem,
   deleteWalletItem,
   toggleTodoItem,
-  updateWalletItemApproval
+  updateWalletItemApproval,
+  revealWalletItemPassword,
+  rotateWalletKey
 } from '@/controllers/walletController';
 import { authenticate } from '@/middleware/auth';
 
@@ -40,4 +42,10 @@ router.patch('/items/:id/todo/:todoItemId', toggleTodoItem);
 // Update approval status for a wallet item
 router.post('/items/:id/approval', updateWalletItemApproval);
 
+// Reveal a decrypted social media password (requires secret code)
+router.post('/items/:id/reveal', revealWalletItemPassword);
+
+// Rotate the couple's wallet encryption key (requires secret code)
+router.post('/keys/rotate', rotateWalletKey);
+
 export default router;
@@ -133,7 +133,7 @@ class AuditService {
     }
 
     // Medium severity events
-    if (['relationship_started', 'relationship_ended', 'data_restored', 'data_archived'].includes(action)) {
+    if (['relationship_started', 'relationship_ended', 'data_restored', 'data_archived', 'wallet_secret_revealed', 'wallet_key_rotated'].includes(action)) {
       return 'medium';
     }
 
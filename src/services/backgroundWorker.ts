@@ -4,6 +4,15 @@ import User from '@/models/User';
 import { PartnerRequest, PartnerHistory } from '@/models/Partner';
 import auditService from './auditService';
 import enhancedNotificationService from './enhancedNotificationService';
+import disappearingMessageService, { MESSAGE_SWEEP_BATCH_SIZE } from './disappearingMessageService';
+import eventJournalService from './eventJournalService';
+import scheduledMessageService, { SCHEDULED_DISPATCH_BATCH_SIZE } from './scheduledMessageService';
+import resumableUploadService, { UPLOAD_CLEANUP_BATCH_SIZE } from './resumableUploadService';
+import storageQuotaService from './storageQuotaService';
+import diaryExportService, { EXPORT_CLEANUP_BATCH_SIZE } from './diaryExportService';
+import diaryMoodService from './diaryMoodService';
+import calendarReminderService, { REMINDER_DISPATCH_BATCH_SIZE } from './calendarReminderService';
+import messageReceiptService from './messageReceiptService';
 import logger from '@/utils/logger';
 
 class BackgroundWorker {
@@ -41,6 +50,57 @@ class BackgroundWorker {
       this.retryFailedNotifications();
     });
 
+    // Delete expired disappearing messages (every minute)
+    cron.schedule('* * * * *', () => {
+      this.sweepExpiredMessages();
+    });
+
+    // Send scheduled messages that are due (every minute)
+    cron.schedule('* * * * *', () => {
+      this.dispatchScheduledMessages();
+    });
+
+    // Catch up on scheduled messages missed while the server was down
+    this.dispatchScheduledMessages();
+
+    // Give messages from before read receipts a status so they don't count as unread
+    this.markLegacyMessagesRead();
+
+    // Prune the socket event journal (hourly)
+    cron.schedule('15 * * * *', () => {
+      this.pruneEventJournal();
+    });
+
+    // Delete abandoned partial uploads (hourly)
+    cron.schedule('45 * * * *', () => {
+      this.cleanupAbandonedUploads();
+    });
+
+    // Recompute storage usage from the stored documents (daily at 4 AM)
+    cron.schedule('0 4 * * *', () => {
+      this.reconcileStorageUsage();
+    });
+
+    // Build queued diary exports, including ones interrupted by a restart (every minute)
+    cron.schedule('* * * * *', () => {
+      this.processDiaryExports();
+    });
+
+    // Delete expired diary export files (hourly)
+    cron.schedule('30 * * * *', () => {
+      this.cleanupExpiredDiaryExports();
+    });
+
+    // Check in on couples who both logged a low mood this week (daily at 7 PM)
+    cron.schedule('0 19 * * *', () => {
+      this.sendMoodCheckIns();
+    });
+
+    // Deliver calendar reminders that are due (every minute)
+    cron.schedule('* * * * *', () => {
+      this.dispatchCalendarReminders();
+    });
+
     // Health check (every 5 minutes)
     cron.schedule('*/5 * * * *', () => {
       this.healthCheck();
@@ -204,6 +264,163 @@ class BackgroundWorker {
     }
   }
 
+  /**
+   * Delete disappearing messages whose timer has run out
+   */
+  private async sweepExpiredMessages(): Promise<void> {
+    try {
+      // Keep sweeping while full batches come back so a backlog drains in one run
+      let deletedCount = 0;
+      let batchCount: number;
+      do {
+        batchCount = await disappearingMessageService.sweepExpiredMessages();
+        deletedCount += batchCount;
+      } while (batchCount >= MESSAGE_SWEEP_BATCH_SIZE && deletedCount < 20 * MESSAGE_SWEEP_BATCH_SIZE);
+    } catch (error) {
+      logger.error('Failed to sweep expired messages', {
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  }
+
+  /**
+   * Send due scheduled messages through the normal message path
+   */
+  /**
+   * One-off backfill of receipt statuses; a no-op once every message has one
+   */
+  private async markLegacyMessagesRead(): Promise<void> {
+    try {
+      await messageReceiptService.markLegacyMessagesRead();
+    } catch (error) {
+      logger.error('Failed to mark legacy messages as read', {
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  }
+
+  private async dispatchScheduledMessages(): Promise<void> {
+    try {
+      // Keep going while full batches come back so a backlog after downtime drains
+      let batchCount: number;
+      let rounds = 0;
+      do {
+        batchCount = await scheduledMessageService.dispatchDueMessages();
+        rounds++;
+      } while (batchCount >= SCHEDULED_DISPATCH_BATCH_SIZE && rounds < 10);
+    } catch (error) {
+      logger.error('Failed to dispatch scheduled messages', {
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  }
+
+  /**
+   * Drop journaled socket events older than the retention window
+   */
+  private async pruneEventJournal(): Promise<void> {
+    try {
+      await eventJournalService.pruneOldEntries();
+    } catch (error) {
+      logger.error('Failed to prune event journal', {
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  }
+
+  /**
+   * Expire resumable uploads that stopped receiving chunks and delete their partial files
+   */
+  private async cleanupAbandonedUploads(): Promise<void> {
+    try {
+      let batchCount: number;
+      let rounds = 0;
+      do {
+        batchCount = await resumableUploadService.cleanupAbandoned();
+        rounds++;
+      } while (batchCount >= UPLOAD_CLEANUP_BATCH_SIZE && rounds < 10);
+    } catch (error) {
+      logger.error('Failed to clean up abandoned uploads', {
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  }
+
+  /**
+   * Correct drift in the per-user storage counters used for quotas
+   */
+  private async reconcileStorageUsage(): Promise<void> {
+    try {
+      await storageQuotaService.reconcile();
+    } catch (error) {
+      logger.error('Failed to reconcile storage usage', {
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  }
+
+  /**
+   * Build diary exports queued by users
+   */
+  private async processDiaryExports(): Promise<void> {
+    try {
+      await diaryExportService.processPending();
+    } catch (error) {
+      logger.error('Failed to process diary exports', {
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  }
+
+  /**
+   * Delete the files of diary exports past their download window
+   */
+  private async cleanupExpiredDiaryExports(): Promise<void> {
+    try {
+      let batchCount: number;
+      let rounds = 0;
+      do {
+        batchCount = await diaryExportService.cleanupExpired();
+        rounds++;
+      } while (batchCount >= EXPORT_CLEANUP_BATCH_SIZE && rounds < 10);
+    } catch (error) {
+      logger.error('Failed to clean up diary exports', {
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  }
+
+  /**
+   * Gentle notifications for couples who are both having a hard week
+   */
+  private async sendMoodCheckIns(): Promise<void> {
+    try {
+      await diaryMoodService.notifyLowMoodCouples();
+    } catch (error) {
+      logger.error('Failed to send mood check-ins', {
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  }
+
+  /**
+   * Push calendar reminders that are due to the note's author and partner
+   */
+  private async dispatchCalendarReminders(): Promise<void> {
+    try {
+      let batchCount: number;
+      let rounds = 0;
+      do {
+        batchCount = await calendarReminderService.dispatchDue();
+        rounds++;
+      } while (batchCount >= REMINDER_DISPATCH_BATCH_SIZE && rounds < 10);
+    } catch (error) {
+      logger.error('Failed to dispatch calendar reminders', {
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  }
+
   /**
    * Health check for background workers
    */
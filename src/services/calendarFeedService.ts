@@ -0,0 +1,431 @@
+import crypto from 'crypto';
+import CalendarFeed, { ICalendarFeed } from '@/models/CalendarFeed';
+import CalendarNote, { ICalendarNote, ICalendarOccurrenceOverride, ICalendarRecurrence } from '@/models/CalendarNote';
+import User from '@/models/User';
+import { AppError } from '@/middleware/errorHandler';
+import {
+  escapeText,
+  foldLine,
+  formatDateTime,
+  formatLocalDateTime,
+  getProperties,
+  getProperty,
+  ICalComponent,
+  parseDateValue,
+  parseDuration,
+  parseICal,
+  splitList,
+  unescapeText
+} from '@/utils/ical';
+import { toWallClock } from '@/utils/timezone';
+import calendarRecurrenceService from './calendarRecurrenceService';
+import calendarReminderService, { MAX_REMINDER_OFFSET_MINUTES, MAX_REMINDERS_PER_NOTE } from './calendarReminderService';
+import logger from '@/utils/logger';
+
+export const CALENDAR_UID_DOMAIN = 'bond-mate';
+export const MAX_FEED_NOTES = 1000;
+export const MAX_IMPORT_EVENTS = 500;
+export const MAX_NOTE_TEXT_LENGTH = 600;
+
+// Past notes older than this are left out of the feed
+const FEED_HISTORY_DAYS = 365;
+const SUMMARY_LENGTH = 100;
+const OWN_UID_PATTERN = new RegExp(`^([a-f0-9]{24})@${CALENDAR_UID_DOMAIN}$`, 'i');
+
+export interface CalendarImportResult {
+  imported: number;
+  duplicates: number;
+  skipped: Array<{ uid?: string; reason: string }>;
+  notes: ICalendarNote[];
+}
+
+type FeedNote = Pick<ICalendarNote, 'id' | 'date' | 'text' | 'tags' | 'privacy' | 'reminderAt' | 'reminderOffsets' |
+  'recurrence' | 'icalUid' | 'createdAt' | 'updatedAt'>;
+
+// What an unordered insertMany throws when some documents fail; Mongoose spreads the
+// driver's WriteErrors, so the code can sit on the error itself or on its `err`
+interface InsertManyWriteError {
+  code?: number;
+  err?: { code?: number };
+}
+
+interface InsertManyError {
+  writeErrors?: InsertManyWriteError[];
+  insertedDocs?: ICalendarNote[];
+}
+
+const hashToken = (token: string) => crypto.createHash('sha256').update(token).digest('hex');
+
+const uidFor = (note: Pick<ICalendarNote, 'id' | 'icalUid'>) => note.icalUid || `${note.id}@${CALENDAR_UID_DOMAIN}`;
+
+// DTSTART-style line: local time with TZID for recurring notes (so DST is handled by the calendar app), UTC otherwise
+const dateLine = (name: string, date: Date, timezone?: string): string =>
+  timezone && timezone !== 'UTC'
+    ? `${name};TZID=${timezone}:${formatLocalDateTime(toWallClock(date, timezone))}`
+    : `${name}:${formatDateTime(date)}`;
+
+const textLines = (text: string, tags: string[]): string[] => {
+  const summary = text.split('\n')[0].trim().slice(0, SUMMARY_LENGTH) || 'Note';
+  const lines = [`SUMMARY:${escapeText(summary)}`];
+  if (text.trim() !== summary) lines.push(`DESCRIPTION:${escapeText(text)}`);
+  if (tags.length > 0) lines.push(`CATEGORIES:${tags.map(escapeText).join(',')}`);
+  return lines;
+};
+
+// One VALARM per reminder offset, or for a one-off note's fixed reminder time
+const alarmLines = (note: FeedNote): string[] => {
+  let triggers: string[] = [];
+  if (note.reminderOffsets?.length) {
+    triggers = note.reminderOffsets.map(offset => `TRIGGER:-PT${offset}M`);
+  } else if (!note.recurrence && note.reminderAt) {
+    triggers = [`TRIGGER;VALUE=DATE-TIME:${formatDateTime(note.reminderAt)}`];
+  }
+
+  const description = `DESCRIPTION:${escapeText(note.text.split('\n')[0].slice(0, SUMMARY_LENGTH) || 'Reminder')}`;
+  return triggers.flatMap(trigger => ['BEGIN:VALARM', 'ACTION:DISPLAY', description, trigger, 'END:VALARM']);
+};
+
+const textOf = (event: ICalComponent): string => {
+  const summary = unescapeText(getProperty(event, 'SUMMARY')?.value || '').trim();
+  const description = unescapeText(getProperty(event, 'DESCRIPTION')?.value || '').trim();
+  // Our own feed repeats the first line of the text as the summary
+  const text = description.startsWith(summary) ? description : [summary, description].filter(Boolean).join('\n\n');
+  return text.slice(0, MAX_NOTE_TEXT_LENGTH);
+};
+
+class CalendarFeedService {
+  /**
+   * Issue a new feed token for the user, replacing (and so revoking) any previous
+   * one. The token is only returned here.
+   */
+  async issueToken(userId: string): Promise<{ token: string; feed: ICalendarFeed }> {
+    const token = crypto.randomBytes(32).toString('base64url');
+    const now = new Date();
+    const feed = await CalendarFeed.findOneAndUpdate(
+      { userId },
+      { $set: { tokenHash: hashToken(token), createdAt: now, updatedAt: now }, $unset: { lastAccessedAt: 1 } },
+      { upsert: true, new: true, timestamps: false }
+    );
+    return { token, feed };
+  }
+
+  async revokeToken(userId: string): Promise<boolean> {
+    const { deletedCount } = await CalendarFeed.deleteOne({ userId });
+    return deletedCount > 0;
+  }
+
+  async getFeed(userId: string): Promise<ICalendarFeed | null> {
+    return CalendarFeed.findOne({ userId });
+  }
+
+  /**
+   * The iCalendar document for a feed token: the couple's public notes plus the
+   * token owner's private ones. Throws 404 for unknown or revoked tokens.
+   */
+  async renderFeed(token: string): Promise<string> {
+    const feed = await CalendarFeed.findOneAndUpdate(
+      { tokenHash: hashToken(token) },
+      { $set: { lastAccessedAt: new Date() } },
+      { new: true, timestamps: false }
+    );
+    if (!feed) {
+      throw new AppError('Calendar feed not found', 404);
+    }
+
+    const userId = feed.userId.toString();
+    const user = await User.findById(userId).select('partners');
+    const partnerUserId = user?.partners?.find(p => p.status === 'active')?.partnerId?.toString();
+
+    const since = new Date(Date.now() - FEED_HISTORY_DAYS * 24 * 60 * 60 * 1000);
+    const notes = await CalendarNote.find({
+      isDeleted: false,
+      $and: [
+        {
+          $or: [
+            { authorId: userId },
+            ...(partnerUserId ? [{ authorId: partnerUserId, privacy: 'public' }] : [])
+          ]
+        },
+        {
+          $or: [
+            { date: { $gte: since } },
+            { recurrence: { $exists: true }, 'recurrence.endsAt': { $exists: false } },
+            { 'recurrence.endsAt': { $gte: since } }
+          ]
+        }
+      ]
+    })
+      .sort({ date: 1 })
+      .limit(MAX_FEED_NOTES);
+
+    return this.buildCalendar(notes);
+  }
+
+  /**
+   * VCALENDAR text for notes; recurring notes carry their RRULE, EXDATEs and one
+   * VEVENT per override
+   */
+  buildCalendar(notes: FeedNote[]): string {
+    const lines = [
+      'BEGIN:VCALENDAR',
+      'VERSION:2.0',
+      'PRODID:-//Bond Mate//Couple Calendar//EN',
+      'CALSCALE:GREGORIAN',
+      'METHOD:PUBLISH',
+      'X-WR-CALNAME:Our calendar'
+    ];
+
+    for (const note of notes) {
+      const uid = uidFor(note);
+      const timezone = note.recurrence?.timezone;
+      const common = [
+        `UID:${uid}`,
+        `DTSTAMP:${formatDateTime(note.updatedAt)}`,
+        `CREATED:${formatDateTime(note.createdAt)}`,
+        `LAST-MODIFIED:${formatDateTime(note.updatedAt)}`,
+        `CLASS:${note.privacy === 'private' ? 'PRIVATE' : 'PUBLIC'}`
+      ];
+
+      lines.push('BEGIN:VEVENT', ...common, dateLine('DTSTART', note.date, timezone), ...textLines(note.text, note.tags || []));
+      if (note.recurrence) {
+        lines.push(`RRULE:${note.recurrence.rrule}`);
+        (note.recurrence.exdates || []).forEach(exdate => lines.push(dateLine('EXDATE', exdate, timezone)));
+      }
+      lines.push(...alarmLines(note), 'END:VEVENT');
+
+      (note.recurrence?.overrides || []).forEach(override => {
+        lines.push(
+          'BEGIN:VEVENT',
+          ...common,
+          dateLine('RECURRENCE-ID', override.originalDate, timezone),
+          dateLine('DTSTART', override.date || override.originalDate, timezone),
+          ...textLines(override.text ?? note.text, override.tags ?? note.tags ?? []),
+          ...alarmLines(note),
+          'END:VEVENT'
+        );
+      });
+    }
+
+    lines.push('END:VCALENDAR');
+    return lines.map(foldLine).join('\r\n') + '\r\n';
+  }
+
+  /**
+   * Create notes from an .ics file. Events whose UID the user already has (imported
+   * before, or exported from this app's feed) are counted as duplicates and skipped.
+   */
+  async importCalendar(
+    userId: string,
+    authorName: string,
+    content: string,
+    options: { privacy?: 'public' | 'private' } = {}
+  ): Promise<CalendarImportResult> {
+    let components: ICalComponent[];
+    try {
+      components = parseICal(content);
+    } catch (error) {
+      throw new AppError(`Invalid iCalendar file: ${error instanceof Error ? error.message : 'could not parse'}`, 400);
+    }
+
+    const events = components
+      .filter(component => component.type === 'VCALENDAR')
+      .flatMap(calendar => calendar.components.filter(component => component.type === 'VEVENT'));
+    if (events.length === 0) {
+      throw new AppError('No events found in the iCalendar file', 400);
+    }
+
+    const masters = events.filter(event => !getProperty(event, 'RECURRENCE-ID'));
+    if (masters.length > MAX_IMPORT_EVENTS) {
+      throw new AppError(`A file can contain at most ${MAX_IMPORT_EVENTS} events`, 400);
+    }
+
+    const user = await User.findById(userId).select('partners');
+    const partnerUserId = user?.partners?.find(p => p.status === 'active')?.partnerId?.toString();
+
+    const result: CalendarImportResult = { imported: 0, duplicates: 0, skipped: [], notes: [] };
+    const seen = new Set<string>(await this.existingUids(userId, partnerUserId, masters));
+    const docs: Array<Partial<ICalendarNote>> = [];
+
+    for (const event of masters) {
+      const uid = getProperty(event, 'UID')?.value.trim();
+      if (uid && seen.has(uid)) {
+        result.duplicates++;
+        continue;
+      }
+
+      try {
+        docs.push(this.noteFromEvent(event, events, userId, authorName, partnerUserId, options.privacy || 'public'));
+        if (uid) seen.add(uid);
+      } catch (error) {
+        result.skipped.push({ uid, reason: error instanceof Error ? error.message : 'Could not read event' });
+      }
+    }
+
+    if (docs.length > 0) {
+      try {
+        result.notes = await CalendarNote.insertMany(docs, { ordered: false }) as unknown as ICalendarNote[];
+      } catch (error) {
+        // The unique UID index catches events a concurrent import of the same file added first
+        const bulkError = error as InsertManyError;
+        const writeErrors = bulkError.writeErrors || [];
+        const isDuplicate = (writeError: InsertManyWriteError) => (writeError.err?.code ?? writeError.code) === 11000;
+        if (writeErrors.length === 0 || !writeErrors.every(isDuplicate)) throw error;
+
+        result.notes = bulkError.insertedDocs || [];
+        result.duplicates += writeErrors.length;
+      }
+      result.imported = result.notes.length;
+    }
+
+    logger.info('Imported calendar notes', {
+      userId,
+      imported: result.imported,
+      duplicates: result.duplicates,
+      skipped: result.skipped.length
+    });
+    return result;
+  }
+
+  // UIDs among the events the user already has as notes
+  private async existingUids(userId: string, partnerUserId: string | undefined, events: ICalComponent[]): Promise<string[]> {
+    const uids = events.map(event => getProperty(event, 'UID')?.value.trim()).filter((uid): uid is string => !!uid);
+    if (uids.length === 0) return [];
+
+    const ownIds = uids.map(uid => uid.match(OWN_UID_PATTERN)?.[1]).filter((id): id is string => !!id);
+    const existing = await CalendarNote.find({
+      isDeleted: false,
+      $or: [
+        { authorId: userId, icalUid: { $in: uids } },
+        // Notes from this app's own feed: the user's, or the partner's shared ones
+        ...(ownIds.length > 0 ? [{
+          _id: { $in: ownIds },
+          $or: [{ authorId: userId }, ...(partnerUserId ? [{ authorId: partnerUserId, privacy: 'public' }] : [])]
+        }] : [])
+      ]
+    }).select('icalUid');
+
+    return existing.map(note => uidFor(note));
+  }
+
+  private noteFromEvent(
+    event: ICalComponent,
+    allEvents: ICalComponent[],
+    userId: string,
+    authorName: string,
+    partnerUserId: string | undefined,
+    defaultPrivacy: 'public' | 'private'
+  ): Partial<ICalendarNote> {
+    const uid = getProperty(event, 'UID')?.value.trim();
+    const start = getProperty(event, 'DTSTART');
+    const startDate = start && parseDateValue(start.value, start.params);
+    if (!startDate) {
+      throw new Error('Missing or invalid DTSTART');
+    }
+
+    const text = textOf(event);
+    if (!text) {
+      throw new Error('Event has no summary or description');
+    }
+
+    const classification = getProperty(event, 'CLASS')?.value.trim().toUpperCase();
+    const rrule = getProperty(event, 'RRULE')?.value;
+
+    let recurrence: ICalendarRecurrence | undefined;
+    if (rrule) {
+      recurrence = {
+        rrule: calendarRecurrenceService.normalizeRule(rrule),
+        timezone: startDate.timezone || 'UTC',
+        exdates: getProperties(event, 'EXDATE')
+          .flatMap(property => splitList(property.value).map(value => parseDateValue(value, property.params)?.date))
+          .filter((date): date is Date => !!date),
+        overrides: []
+      };
+      if (uid) this.applyOverrides(recurrence, uid, allEvents);
+      recurrence.endsAt = calendarRecurrenceService.computeEndsAt(startDate.date, recurrence);
+    }
+
+    const note: Partial<ICalendarNote> = {
+      partnerId: partnerUserId,
+      date: startDate.date,
+      text,
+      authorId: userId,
+      authorName,
+      privacy: classification === 'PRIVATE' || classification === 'CONFIDENTIAL' ? 'private' : defaultPrivacy,
+      tags: getProperties(event, 'CATEGORIES').flatMap(property => splitList(property.value).map(unescapeText)),
+      reminderSent: false,
+      recurrence,
+      icalUid: uid,
+      auditTrail: [{
+        action: 'created',
+        userId,
+        userName: authorName,
+        timestamp: new Date(),
+        reason: 'Imported from iCalendar file'
+      }]
+    };
+
+    this.applyAlarm(note, event);
+    return note;
+  }
+
+  // Events with the same UID and a RECURRENCE-ID change or cancel single occurrences
+  private applyOverrides(recurrence: ICalendarRecurrence, uid: string, allEvents: ICalComponent[]): void {
+    allEvents
+      .filter(candidate => getProperty(candidate, 'UID')?.value.trim() === uid)
+      .forEach(candidate => {
+        const recurrenceId = getProperty(candidate, 'RECURRENCE-ID');
+        const originalDate = recurrenceId && parseDateValue(recurrenceId.value, recurrenceId.params)?.date;
+        if (!originalDate) return;
+
+        if (getProperty(candidate, 'STATUS')?.value.trim().toUpperCase() === 'CANCELLED') {
+          recurrence.exdates.push(originalDate);
+          return;
+        }
+
+        const start = getProperty(candidate, 'DTSTART');
+        const movedTo = start && parseDateValue(start.value, start.params)?.date;
+        const override: ICalendarOccurrenceOverride = { originalDate };
+        if (movedTo && movedTo.getTime() !== originalDate.getTime()) override.date = movedTo;
+        const text = textOf(candidate);
+        if (text) override.text = text;
+        recurrence.overrides.push(override);
+      });
+  }
+
+  // VALARMs become the note's reminder offsets (before each occurrence for recurring notes)
+  private applyAlarm(note: Partial<ICalendarNote>, event: ICalComponent): void {
+    const noteDate = note.date;
+    if (!noteDate) return;
+
+    const offsets = event.components
+      .filter(component => component.type === 'VALARM')
+      .map(alarm => {
+        const trigger = getProperty(alarm, 'TRIGGER');
+        if (!trigger) return null;
+        if (trigger.params.VALUE === 'DATE-TIME') {
+          const reminderAt = parseDateValue(trigger.value, trigger.params)?.date;
+          return reminderAt ? noteDate.getTime() - reminderAt.getTime() : null;
+        }
+        // Alarms relative to the end are read as relative to the start; notes have no end
+        const offset = parseDuration(trigger.value);
+        return offset === null ? null : -offset;
+      })
+      .filter((offset): offset is number => offset !== null)
+      // Alarms after the start go off at the start
+      .map(offset => Math.max(Math.round(offset / 60000), 0))
+      .filter(minutes => minutes <= MAX_REMINDER_OFFSET_MINUTES);
+    if (!offsets.length) return;
+
+    note.reminderOffsets = calendarReminderService.parseOffsets(offsets.slice(0, MAX_REMINDERS_PER_NOTE));
+    // Alarms already in the past aren't raised again
+    Object.assign(note, calendarReminderService.schedule({
+      date: noteDate,
+      text: note.text || '',
+      tags: note.tags || [],
+      recurrence: note.recurrence,
+      reminderOffsets: note.reminderOffsets
+    }));
+  }
+}
+
+export default new CalendarFeedService();
@@ -0,0 +1,217 @@
+import { Frequency, Options, RRule } from 'rrule';
+import { ICalendarNote, ICalendarRecurrence } from '@/models/CalendarNote';
+import { AppError } from '@/middleware/errorHandler';
+import { fromWallClock, isValidTimezone, toWallClock } from '@/utils/timezone';
+
+// Guards against rules that would expand forever (or into huge responses)
+export const MAX_OCCURRENCES_PER_NOTE = 500;
+export const MAX_RRULE_COUNT = 1000;
+
+const MINUTE_MS = 60 * 1000;
+
+export interface CalendarOccurrence {
+  originalDate: Date; // start the rule gives it; identifies the occurrence
+  date: Date; // actual start, after any override
+  text: string;
+  tags: string[];
+  isOverridden: boolean;
+}
+
+export interface NextReminder {
+  reminderAt: Date;
+  reminderOccurrence: Date;
+}
+
+type RecurringNote = Pick<ICalendarNote, 'date' | 'text' | 'tags'> & { recurrence?: ICalendarRecurrence | null };
+
+const sameInstant = (a: Date, b: Date) => a.getTime() === b.getTime();
+
+class CalendarRecurrenceService {
+  /**
+   * Validate an RRULE value (with or without the `RRULE:` prefix) and return it
+   * in normalized form. DTSTART comes from the note's date, so it isn't allowed
+   * here, and rules may repeat at most daily.
+   */
+  normalizeRule(rrule: unknown): string {
+    if (typeof rrule !== 'string' || !rrule.trim()) {
+      throw new AppError('Recurrence rule is required', 400);
+    }
+
+    const value = rrule.trim().replace(/^RRULE:/i, '');
+    if (/(^|[\s;])DTSTART/i.test(value) || value.includes('\n')) {
+      throw new AppError('Recurrence rule must be a single RRULE without DTSTART', 400);
+    }
+
+    let options: Partial<Options>;
+    try {
+      options = RRule.parseString(value);
+    } catch (error) {
+      throw new AppError(`Invalid recurrence rule: ${error instanceof Error ? error.message : 'could not parse'}`, 400);
+    }
+
+    if (options.freq === undefined || options.freq === null) {
+      throw new AppError('Recurrence rule needs a FREQ', 400);
+    }
+    if (options.freq > Frequency.DAILY) {
+      throw new AppError('Notes can repeat at most daily', 400);
+    }
+    if (options.count && options.count > MAX_RRULE_COUNT) {
+      throw new AppError(`Recurrence COUNT can be at most ${MAX_RRULE_COUNT}`, 400);
+    }
+    if (options.count && options.until) {
+      throw new AppError('Recurrence rule can have COUNT or UNTIL, not both', 400);
+    }
+
+    return RRule.optionsToString(options).replace(/^RRULE:/, '');
+  }
+
+  parseTimezone(timezone?: unknown): string {
+    if (timezone === undefined || timezone === null || timezone === '') return 'UTC';
+    if (typeof timezone !== 'string' || !isValidTimezone(timezone)) {
+      throw new AppError('Invalid timezone', 400);
+    }
+    return timezone;
+  }
+
+  /**
+   * Occurrences of a recurring note starting within [start, end], with exceptions
+   * left out and overrides applied. An occurrence moved into the range is included
+   * and one moved out of it isn't.
+   */
+  expand(note: RecurringNote, start: Date, end: Date): CalendarOccurrence[] {
+    const recurrence = note.recurrence;
+    if (!recurrence) return [];
+
+    const { rule, timezone } = this.ruleFor(note.date, recurrence);
+    const originals = rule
+      .between(toWallClock(start, timezone), toWallClock(end, timezone), true, (_date, count) => count < MAX_OCCURRENCES_PER_NOTE)
+      .map(date => fromWallClock(date, timezone));
+
+    // Occurrences moved in from outside the range
+    (recurrence.overrides || []).forEach(override => {
+      const movedIn = override.date && override.date >= start && override.date <= end;
+      if (movedIn && !originals.some(date => sameInstant(date, override.originalDate))) {
+        originals.push(override.originalDate);
+      }
+    });
+
+    return originals
+      .filter(date => !this.isCancelled(recurrence, date))
+      .map(date => this.toOccurrence(note, date))
+      .filter(occurrence => occurrence.date >= start && occurrence.date <= end)
+      .sort((a, b) => a.date.getTime() - b.date.getTime());
+  }
+
+  /**
+   * Whether the rule produces an occurrence starting exactly at `date` (cancelled
+   * ones included)
+   */
+  isOccurrence(note: RecurringNote, date: Date): boolean {
+    if (!note.recurrence) return false;
+    const { rule, timezone } = this.ruleFor(note.date, note.recurrence);
+    const wallClock = toWallClock(date, timezone);
+    return rule.between(wallClock, wallClock, true).some(candidate => sameInstant(fromWallClock(candidate, timezone), date));
+  }
+
+  /**
+   * The next occurrence after `after` (by original start), skipping cancelled ones
+   */
+  nextOccurrence(note: RecurringNote, after: Date): CalendarOccurrence | null {
+    if (!note.recurrence) return null;
+    const { rule, timezone } = this.ruleFor(note.date, note.recurrence);
+
+    let cursor = toWallClock(after, timezone);
+    for (let i = 0; i < MAX_OCCURRENCES_PER_NOTE; i++) {
+      const next = rule.after(cursor, false);
+      if (!next) return null;
+
+      const originalDate = fromWallClock(next, timezone);
+      if (!this.isCancelled(note.recurrence, originalDate)) {
+        return this.toOccurrence(note, originalDate);
+      }
+      cursor = next;
+    }
+    return null;
+  }
+
+  /**
+   * Start of the last occurrence (including ones moved later by an override), or
+   * undefined when the rule repeats forever. Stored so range queries can skip
+   * series that have ended.
+   */
+  computeEndsAt(date: Date, recurrence: ICalendarRecurrence): Date | undefined {
+    const { rule, timezone } = this.ruleFor(date, recurrence);
+    if (!rule.options.count && !rule.options.until) return undefined;
+
+    const last = rule.all((_date, count) => count < MAX_RRULE_COUNT).pop();
+    const candidates = [
+      last ? fromWallClock(last, timezone) : date,
+      ...(recurrence.overrides || []).map(override => override.date).filter((moved): moved is Date => !!moved)
+    ];
+    return new Date(Math.max(...candidates.map(candidate => candidate.getTime())));
+  }
+
+  /**
+   * The occurrence the rule starts at `originalDate`, with any override applied
+   */
+  getOccurrence(note: RecurringNote, originalDate: Date): CalendarOccurrence {
+    return this.toOccurrence(note, originalDate);
+  }
+
+  /**
+   * The first reminder due after `after`, reminding `offsets` minutes before each
+   * occurrence, or null when the series has no reminders left
+   */
+  nextReminder(note: RecurringNote, offsets: number[], after: Date = new Date()): NextReminder | null {
+    if (!offsets.length) return null;
+    const maxOffsetMs = Math.max(...offsets) * MINUTE_MS;
+
+    let next: NextReminder | null = null;
+    let cursor = after;
+    for (let i = 0; i < MAX_OCCURRENCES_PER_NOTE; i++) {
+      const occurrence = this.nextOccurrence(note, cursor);
+      if (!occurrence) break;
+      // Later occurrences' reminders can't come any sooner
+      if (next && occurrence.date.getTime() - maxOffsetMs > next.reminderAt.getTime()) break;
+
+      for (const offset of offsets) {
+        const reminderAt = new Date(occurrence.date.getTime() - offset * MINUTE_MS);
+        if (reminderAt > after && (!next || reminderAt < next.reminderAt)) {
+          next = { reminderAt, reminderOccurrence: occurrence.originalDate };
+        }
+      }
+      cursor = occurrence.originalDate;
+    }
+    return next;
+  }
+
+  private ruleFor(date: Date, recurrence: ICalendarRecurrence): { rule: RRule; timezone: string } {
+    const timezone = recurrence.timezone || 'UTC';
+    const options = RRule.parseString(recurrence.rrule);
+
+    // The rule runs on wall-clock times so e.g. a 20:00 date night stays at 20:00 after DST changes
+    const rule = new RRule({
+      ...options,
+      dtstart: toWallClock(date, timezone),
+      until: options.until ? toWallClock(options.until, timezone) : null
+    });
+    return { rule, timezone };
+  }
+
+  private isCancelled(recurrence: ICalendarRecurrence, date: Date): boolean {
+    return (recurrence.exdates || []).some(exdate => sameInstant(exdate, date));
+  }
+
+  private toOccurrence(note: RecurringNote, originalDate: Date): CalendarOccurrence {
+    const override = note.recurrence?.overrides?.find(candidate => sameInstant(candidate.originalDate, originalDate));
+    return {
+      originalDate,
+      date: override?.date || originalDate,
+      text: override?.text ?? note.text,
+      tags: override?.tags ?? note.tags,
+      isOverridden: !!override
+    };
+  }
+}
+
+export default new CalendarRecurrenceService();
@@ -0,0 +1,197 @@
+import CalendarNote, { ICalendarNote } from '@/models/CalendarNote';
+import Notification from '@/models/Notification';
+import User from '@/models/User';
+import { AppError } from '@/middleware/errorHandler';
+import calendarRecurrenceService from './calendarRecurrenceService';
+import notificationService from './notificationService';
+import logger from '@/utils/logger';
+
+export const REMINDER_DISPATCH_BATCH_SIZE = 100;
+export const MAX_REMINDERS_PER_NOTE = 5;
+export const MAX_REMINDER_OFFSET_MINUTES = 30 * 24 * 60;
+
+const MINUTE_MS = 60 * 1000;
+// Reminders this overdue (missed while the server was down) are skipped rather than sent late
+const MAX_REMINDER_DELAY_MS = 60 * MINUTE_MS;
+const SUMMARY_LENGTH = 80;
+
+export type ReminderFields = Pick<ICalendarNote, 'reminderAt' | 'reminderOccurrence' | 'reminderSent'>;
+
+type SchedulableNote = Pick<ICalendarNote, 'date' | 'text' | 'tags' | 'recurrence' | 'reminderOffsets'>;
+
+// "in 30 minutes", "now", "2 hours ago"
+const describeStart = (start: Date, now: Date): string => {
+  const minutes = Math.round((start.getTime() - now.getTime()) / MINUTE_MS);
+  const absolute = Math.abs(minutes);
+  if (absolute < 1) return 'now';
+
+  let amount = absolute;
+  let unit = 'minute';
+  if (absolute >= 2 * 24 * 60) {
+    amount = Math.round(absolute / (24 * 60));
+    unit = 'day';
+  } else if (absolute >= 60) {
+    amount = Math.round(absolute / 60);
+    unit = 'hour';
+  }
+
+  const span = `${amount} ${unit}${amount === 1 ? '' : 's'}`;
+  return minutes > 0 ? `in ${span}` : `${span} ago`;
+};
+
+class CalendarReminderService {
+  /**
+   * Validate reminder offsets (minutes before the note starts), given as one number
+   * or a list. Duplicates are dropped; an empty list turns reminders off.
+   */
+  parseOffsets(value: unknown): number[] | undefined {
+    if (value === undefined || value === null || value === '') return undefined;
+
+    const values = Array.isArray(value) ? value : [value];
+    if (values.length > MAX_REMINDERS_PER_NOTE) {
+      throw new AppError(`A note can have at most ${MAX_REMINDERS_PER_NOTE} reminders`, 400);
+    }
+
+    const offsets = values.map(item => {
+      const minutes = Number(item);
+      if (item === null || item === '' || !Number.isInteger(minutes) || minutes < 0 || minutes > MAX_REMINDER_OFFSET_MINUTES) {
+        throw new AppError(`Reminder offsets must be whole numbers of minutes from 0 to ${MAX_REMINDER_OFFSET_MINUTES}`, 400);
+      }
+      return minutes;
+    });
+    return [...new Set(offsets)].sort((a, b) => b - a);
+  }
+
+  /**
+   * The note's first reminder due after `after`, from its offsets. With none left
+   * the note counts as reminded.
+   */
+  schedule(note: SchedulableNote, after: Date = new Date()): ReminderFields {
+    const offsets = note.reminderOffsets || [];
+
+    if (note.recurrence) {
+      const next = calendarRecurrenceService.nextReminder(note, offsets, after);
+      return next
+        ? { reminderAt: next.reminderAt, reminderOccurrence: next.reminderOccurrence, reminderSent: false }
+        : { reminderAt: undefined, reminderOccurrence: undefined, reminderSent: true };
+    }
+
+    const upcoming = offsets
+      .map(offset => note.date.getTime() - offset * MINUTE_MS)
+      .filter(time => time > after.getTime());
+    return upcoming.length
+      ? { reminderAt: new Date(Math.min(...upcoming)), reminderOccurrence: undefined, reminderSent: false }
+      : { reminderAt: undefined, reminderOccurrence: undefined, reminderSent: true };
+  }
+
+  /**
+   * Move the note past its pending reminder, on to the next one or to reminded.
+   * Only succeeds while the note still has the reminder the caller saw, so of
+   * several callers racing for the same reminder exactly one gets true.
+   */
+  async advance(note: ICalendarNote, now: Date = new Date()): Promise<boolean> {
+    const after = new Date(Math.max(note.reminderAt?.getTime() || 0, now.getTime()));
+    const next: ReminderFields = note.reminderOffsets?.length
+      ? this.schedule(note, after)
+      : { reminderAt: note.reminderAt, reminderOccurrence: note.reminderOccurrence, reminderSent: true };
+
+    const result = await CalendarNote.updateOne(
+      { _id: note._id, reminderSent: false, reminderAt: note.reminderAt ?? { $exists: false } },
+      { $set: next }
+    );
+    return result.modifiedCount === 1;
+  }
+
+  /**
+   * Deliver every due reminder to the note's author, and to their partner for
+   * public notes. A reminder is claimed by advancing its note before anything is
+   * sent, so with several server instances running each one goes out once.
+   * Returns the number of reminders claimed.
+   */
+  async dispatchDue(): Promise<number> {
+    let claimedCount = 0;
+    let sentCount = 0;
+
+    for (let i = 0; i < REMINDER_DISPATCH_BATCH_SIZE; i++) {
+      const now = new Date();
+      const note = await CalendarNote.findOne({
+        isDeleted: false,
+        reminderSent: false,
+        reminderAt: { $lte: now }
+      }).sort({ reminderAt: 1 });
+
+      if (!note) break;
+
+      // Lost the race to another instance, or the note just changed
+      if (!(await this.advance(note, now))) continue;
+      claimedCount++;
+
+      const dueAt = note.reminderAt as Date;
+      if (now.getTime() - dueAt.getTime() > MAX_REMINDER_DELAY_MS) {
+        logger.info('Skipped overdue calendar reminder', { noteId: note.id, reminderAt: dueAt });
+        continue;
+      }
+
+      try {
+        sentCount += await this.deliver(note, now);
+      } catch (error) {
+        logger.error('Failed to deliver calendar reminder', {
+          noteId: note.id,
+          error: error instanceof Error ? error.message : 'Unknown error'
+        });
+      }
+    }
+
+    if (claimedCount > 0) {
+      logger.info('Delivered calendar reminders', { claimedCount, sentCount });
+    }
+    return claimedCount;
+  }
+
+  // Notify the author (and partner) about the note's pending reminder; returns the number of recipients
+  private async deliver(note: ICalendarNote, now: Date): Promise<number> {
+    const occurrence = note.recurrence && note.reminderOccurrence
+      ? calendarRecurrenceService.getOccurrence(note, note.reminderOccurrence)
+      : null;
+    const start = occurrence?.date || note.date;
+    const text = occurrence?.text ?? note.text;
+
+    const recipientIds = [note.authorId];
+    if (note.privacy === 'public') {
+      const author = await User.findById(note.authorId).select('partners');
+      const partnerId = author?.partners?.find(p => p.status === 'active')?.partnerId;
+      if (partnerId && partnerId !== note.authorId) {
+        recipientIds.push(partnerId);
+      }
+    }
+
+    const summary = text.split('\n')[0].trim().slice(0, SUMMARY_LENGTH) || 'Calendar note';
+    const message = `${summary} · ${describeStart(start, now)}`;
+
+    for (const recipientId of recipientIds) {
+      const title = recipientId === note.authorId ? 'Reminder' : `Reminder from ${note.authorName}`;
+      await Notification.create({
+        userId: recipientId,
+        type: 'calendar_reminder',
+        title,
+        message,
+        data: { noteId: note._id, date: start, occurrenceDate: note.reminderOccurrence }
+      });
+
+      // Push is best effort; the notification is already stored
+      notificationService.sendPushNotification(recipientId, title, message, {
+        type: 'calendar_reminder',
+        noteId: note.id,
+        date: start.toISOString()
+      }).catch(error => {
+        logger.warn('Failed to send calendar reminder push notification', {
+          userId: recipientId,
+          error: error instanceof Error ? error.message : 'Unknown error'
+        });
+      });
+    }
+    return recipientIds.length;
+  }
+}
+
+export default new CalendarReminderService();
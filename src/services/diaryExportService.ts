@@ -0,0 +1,537 @@
+import fs from 'fs';
+import path from 'path';
+import { Readable } from 'stream';
+import archiver, { Archiver } from 'archiver';
+import PDFDocument from 'pdfkit';
+import sharp from 'sharp';
+import { Types } from 'mongoose';
+import DiaryExport, { DiaryExportFilters, DiaryExportFormat, IDiaryExport } from '@/models/DiaryExport';
+import DiaryEntry, { IDiaryEntry } from '@/models/DiaryEntry';
+import { Partner } from '@/models/Partner';
+import { AppError } from '@/middleware/errorHandler';
+import { config } from '@/config/env';
+import { getSocketHandler } from '@/socket/socketHandler';
+import fileAccessService, { SignedFileUrl } from './fileAccessService';
+import storageService from './storageService';
+import logger from '@/utils/logger';
+
+export const DIARY_EXPORT_PREFIX = 'exports';
+export const DIARY_EXPORT_FORMATS: DiaryExportFormat[] = ['zip', 'pdf'];
+export const MAX_EXPORT_ENTRIES = 1000;
+export const MAX_ACTIVE_EXPORTS_PER_USER = 2;
+export const EXPORT_CLEANUP_BATCH_SIZE = 100;
+
+const MAX_EXPORT_ATTEMPTS = 3;
+const STALE_PROCESSING_MS = 30 * 60 * 1000;
+const PDF_IMAGE_MAX_WIDTH = 1200;
+
+const CONTENT_TYPES: Record<DiaryExportFormat, string> = {
+  zip: 'application/zip',
+  pdf: 'application/pdf'
+};
+
+type ExportEntry = Pick<IDiaryEntry, 'title' | 'description' | 'authorName' | 'privacy' | 'tags' | 'images' | 'createdAt'> & {
+  _id: Types.ObjectId;
+  authorId: Types.ObjectId;
+};
+
+// Characters Helvetica (WinAnsi encoding) can draw; anything else is dropped from PDFs without a custom font
+const NON_WIN_ANSI = /[^\t\n\r -~\u00a0-\u00ff\u2013\u2014\u2018\u2019\u201a\u201c\u201d\u201e\u2020\u2021\u2022\u2026\u2030\u2039\u203a\u20ac\u2122]/g;
+
+const slugify = (text: string): string =>
+  text.normalize('NFKD').replace(/[\u0300-\u036f]/g, '').toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '').slice(0, 50) || 'entry';
+
+const readAll = async (stream: Readable): Promise<Buffer> => {
+  const chunks: Buffer[] = [];
+  for await (const chunk of stream) {
+    chunks.push(Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk));
+  }
+  return Buffer.concat(chunks);
+};
+
+// Resolves once archiver has written the entry, so only one image is held in memory at a time
+const appendEntry = (archive: Archiver, source: string | Buffer, name: string, date: Date): Promise<void> =>
+  new Promise((resolve, reject) => {
+    const onError = (error: Error) => {
+      archive.off('entry', onEntry);
+      reject(error);
+    };
+    const onEntry = () => {
+      archive.off('error', onError);
+      resolve();
+    };
+    archive.once('entry', onEntry);
+    archive.once('error', onError);
+    archive.append(source, { name, date });
+  });
+
+class DiaryExportService {
+  private processing = false;
+
+  /**
+   * Validate export filters from a request. They match the diary list filters:
+   * date range, tags, author and privacy, plus the timezone dates are printed in.
+   */
+  parseFilters(input: Record<string, any>): DiaryExportFilters {
+    const filters: DiaryExportFilters = {};
+
+    for (const field of ['startDate', 'endDate'] as const) {
+      if (!input[field]) continue;
+      const date = new Date(input[field]);
+      if (isNaN(date.getTime())) {
+        throw new AppError(`Invalid ${field}`, 400);
+      }
+      filters[field] = date;
+    }
+    if (filters.startDate && filters.endDate && filters.startDate > filters.endDate) {
+      throw new AppError('startDate must be before endDate', 400);
+    }
+
+    if (input.tags) {
+      const tags = Array.isArray(input.tags) ? input.tags : String(input.tags).split(',');
+      filters.tags = tags.map((tag: unknown) => String(tag).trim()).filter(Boolean);
+    }
+
+    if (input.author) {
+      if (!Types.ObjectId.isValid(input.author)) {
+        throw new AppError('Invalid author', 400);
+      }
+      filters.author = new Types.ObjectId(String(input.author));
+    }
+
+    if (input.privacy) {
+      if (!['public', 'private'].includes(input.privacy)) {
+        throw new AppError('privacy must be public or private', 400);
+      }
+      filters.privacy = input.privacy;
+    }
+
+    if (input.timezone) {
+      try {
+        new Intl.DateTimeFormat('en-GB', { timeZone: String(input.timezone) });
+      } catch {
+        throw new AppError('Invalid timezone', 400);
+      }
+      filters.timezone = String(input.timezone);
+    }
+
+    return filters;
+  }
+
+  /**
+   * Queue an export of the diary entries the user can see that match the filters.
+   * It is built in the background; the user is told over the socket when it's ready.
+   */
+  async request(userId: string, format: DiaryExportFormat, filters: DiaryExportFilters): Promise<IDiaryExport> {
+    if (!DIARY_EXPORT_FORMATS.includes(format)) {
+      throw new AppError('format must be zip or pdf', 400);
+    }
+
+    const active = await DiaryExport.countDocuments({ userId, status: { $in: ['pending', 'processing'] } });
+    if (active >= MAX_ACTIVE_EXPORTS_PER_USER) {
+      throw new AppError('You already have exports in progress; wait for them to finish', 429);
+    }
+
+    const entryFilter = await this.buildEntryFilter(userId, filters);
+    const count = entryFilter ? await DiaryEntry.countDocuments(entryFilter) : 0;
+    if (count === 0) {
+      throw new AppError('No diary entries match these filters', 404);
+    }
+    if (count > MAX_EXPORT_ENTRIES) {
+      throw new AppError(`Exports are limited to ${MAX_EXPORT_ENTRIES} entries; narrow the date range or filters`, 400);
+    }
+
+    const job = await DiaryExport.create({ userId, format, filters, entryCount: count });
+
+    this.processPending().catch(error => {
+      logger.error('Failed to process diary exports', {
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+    });
+
+    return job;
+  }
+
+  async listForUser(userId: string): Promise<IDiaryExport[]> {
+    return DiaryExport.find({ userId }).sort({ createdAt: -1 }).limit(20);
+  }
+
+  async getForUser(exportId: string, userId: string): Promise<IDiaryExport> {
+    const job = Types.ObjectId.isValid(exportId) ? await DiaryExport.findOne({ _id: exportId, userId }) : null;
+    if (!job) {
+      throw new AppError('Export not found', 404);
+    }
+    return job;
+  }
+
+  /**
+   * Signed link to a finished export, or null while it is running, after it
+   * failed or once it has expired
+   */
+  downloadLink(job: IDiaryExport): SignedFileUrl | null {
+    if (job.status !== 'completed' || !job.fileUrl || !job.expiresAt || job.expiresAt <= new Date()) {
+      return null;
+    }
+    const link = fileAccessService.signUrl(job.fileUrl, job.userId.toString());
+    // The link can't outlive the file
+    return link.expiresAt > job.expiresAt ? { ...link, expiresAt: job.expiresAt } : link;
+  }
+
+  /**
+   * Build queued exports one at a time, including ones whose worker died part way.
+   * Returns the number built; a call while another is running returns 0 and
+   * leaves the new jobs to it.
+   */
+  async processPending(): Promise<number> {
+    if (this.processing) return 0;
+    this.processing = true;
+
+    let processedCount = 0;
+    try {
+      let job = await this.claimNext();
+      while (job) {
+        await this.run(job);
+        processedCount++;
+        job = await this.claimNext();
+      }
+    } finally {
+      this.processing = false;
+    }
+    return processedCount;
+  }
+
+  /**
+   * Delete the files of expired exports and give up on jobs that kept dying.
+   * Job records are kept so the app can show the export as expired.
+   */
+  async cleanupExpired(): Promise<number> {
+    let expiredCount = 0;
+
+    for (let i = 0; i < EXPORT_CLEANUP_BATCH_SIZE; i++) {
+      const job = await DiaryExport.findOneAndUpdate(
+        { status: 'completed', expiresAt: { $lte: new Date() } },
+        { $set: { status: 'expired' } },
+        { sort: { expiresAt: 1 }, new: true }
+      );
+      if (!job) break;
+
+      await storageService.deleteByUrls([job.fileUrl]);
+      expiredCount++;
+    }
+
+    await DiaryExport.updateMany(
+      {
+        status: 'processing',
+        attempts: { $gte: MAX_EXPORT_ATTEMPTS },
+        startedAt: { $lt: new Date(Date.now() - STALE_PROCESSING_MS) }
+      },
+      { $set: { status: 'failed', failureReason: 'Export timed out' } }
+    );
+
+    if (expiredCount > 0) {
+      logger.info('Deleted expired diary exports', { expiredCount });
+    }
+    return expiredCount;
+  }
+
+  private async claimNext(): Promise<IDiaryExport | null> {
+    return DiaryExport.findOneAndUpdate(
+      {
+        attempts: { $lt: MAX_EXPORT_ATTEMPTS },
+        $or: [
+          { status: 'pending' },
+          { status: 'processing', startedAt: { $lt: new Date(Date.now() - STALE_PROCESSING_MS) } }
+        ]
+      },
+      { $set: { status: 'processing', startedAt: new Date() }, $inc: { attempts: 1 } },
+      { sort: { createdAt: 1 }, new: true }
+    );
+  }
+
+  private async run(job: IDiaryExport): Promise<void> {
+    const userId = job.userId.toString();
+    const timezone = job.filters?.timezone || 'UTC';
+    const fileName = `diary-${this.dateKey(new Date(), timezone)}.${job.format}`;
+    const filePath = path.join(storageService.getStagingDir('exports'), `${job.id}.${job.format}`);
+
+    try {
+      const entryFilter = await this.buildEntryFilter(userId, job.filters || {});
+      const entries = entryFilter
+        ? await DiaryEntry.find(entryFilter)
+          .select('title description authorId authorName privacy tags images createdAt')
+          .sort({ createdAt: 1 })
+          .limit(MAX_EXPORT_ENTRIES)
+          .lean<ExportEntry[]>()
+        : [];
+
+      if (job.format === 'zip') {
+        await this.writeZip(entries, filePath, timezone);
+      } else {
+        await this.writePdf(entries, filePath, timezone);
+      }
+
+      const { size } = await fs.promises.stat(filePath);
+      const fileUrl = await storageService.putFile(
+        path.posix.join(DIARY_EXPORT_PREFIX, userId, job.id, fileName),
+        filePath,
+        CONTENT_TYPES[job.format]
+      );
+
+      job.set({
+        status: 'completed',
+        entryCount: entries.length,
+        fileUrl,
+        fileName,
+        fileSize: size,
+        completedAt: new Date(),
+        expiresAt: new Date(Date.now() + config.diaryExport.expiryHours * 60 * 60 * 1000)
+      });
+      await job.save();
+
+      getSocketHandler()?.emitDiaryUpdate(userId, 'export_completed', {
+        exportId: job.id,
+        format: job.format,
+        entryCount: job.entryCount,
+        expiresAt: job.expiresAt
+      });
+    } catch (error) {
+      await fs.promises.unlink(filePath).catch(() => undefined);
+
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      logger.error('Diary export failed', { exportId: job.id, userId, error: message });
+
+      job.set({ status: 'failed', failureReason: 'The export could not be created' });
+      await job.save();
+
+      getSocketHandler()?.emitDiaryUpdate(userId, 'export_failed', { exportId: job.id, format: job.format });
+    }
+  }
+
+  /**
+   * Same visibility as the diary list: the couple's shared entries plus the user's own
+   * private ones. Drafts are left out. Null when the user has no diary.
+   */
+  private async buildEntryFilter(userId: string, filters: DiaryExportFilters): Promise<Record<string, any> | null> {
+    const partner = await Partner.findOne({
+      status: 'active',
+      $or: [{ user1Id: userId }, { user2Id: userId }]
+    }).select('_id');
+    if (!partner) return null;
+
+    const filter: Record<string, any> = {
+      partnerId: partner._id,
+      isDeleted: false,
+      status: { $ne: 'draft' },
+      $or: [
+        { privacy: 'public' },
+        { authorId: userId }
+      ]
+    };
+
+    if (filters.tags?.length) filter.tags = { $in: filters.tags };
+    if (filters.author) filter.authorId = filters.author;
+    if (filters.privacy) filter.privacy = filters.privacy;
+    if (filters.startDate || filters.endDate) {
+      filter.createdAt = {};
+      if (filters.startDate) filter.createdAt.$gte = filters.startDate;
+      if (filters.endDate) filter.createdAt.$lte = filters.endDate;
+    }
+
+    return filter;
+  }
+
+  /**
+   * A Markdown file per entry (with YAML front matter), their images and an index
+   */
+  private async writeZip(entries: ExportEntry[], filePath: string, timezone: string): Promise<void> {
+    const output = fs.createWriteStream(filePath);
+    const archive = archiver('zip', { zlib: { level: 6 } });
+
+    const finished = new Promise<void>((resolve, reject) => {
+      output.on('close', resolve);
+      output.on('error', reject);
+      archive.on('error', reject);
+    });
+    // Rejections are picked up by the awaits below
+    finished.catch(() => undefined);
+
+    const add = (source: string | Buffer, name: string, date: Date) =>
+      Promise.race([appendEntry(archive, source, name, date), finished]);
+
+    archive.pipe(output);
+
+    const index: string[] = ['# Our diary', '', `Exported ${this.formatDate(new Date(), timezone)}`, ''];
+
+    for (const entry of entries) {
+      const baseName = `${this.dateKey(entry.createdAt, timezone)}-${slugify(entry.title)}-${entry._id.toString().slice(-6)}`;
+      const imageLinks: string[] = [];
+
+      for (const [position, url] of (entry.images || []).entries()) {
+        const image = await this.loadImage(url);
+        if (!image) continue;
+
+        const imageName = `${baseName}-${position + 1}${path.extname(image.key) || '.jpg'}`;
+        await add(image.data, `images/${imageName}`, entry.createdAt);
+        imageLinks.push(`![](../images/${imageName})`);
+      }
+
+      const markdown = [
+        '---',
+        `title: ${JSON.stringify(entry.title)}`,
+        `date: ${entry.createdAt.toISOString()}`,
+        `author: ${JSON.stringify(entry.authorName)}`,
+        `privacy: ${entry.privacy}`,
+        `tags: ${JSON.stringify(entry.tags || [])}`,
+        '---',
+        '',
+        `# ${entry.title}`,
+        '',
+        `*${this.formatDate(entry.createdAt, timezone)} · ${entry.authorName}*`,
+        '',
+        entry.description,
+        ...(imageLinks.length ? ['', ...imageLinks] : []),
+        ''
+      ].join('\n');
+
+      await add(markdown, `entries/${baseName}.md`, entry.createdAt);
+      index.push(`- [${entry.title}](entries/${baseName}.md) — ${this.formatDate(entry.createdAt, timezone)}, ${entry.authorName}`);
+    }
+
+    await add(index.join('\n') + '\n', 'index.md', new Date());
+    await archive.finalize();
+    await finished;
+  }
+
+  /**
+   * A book: title page, then each entry on a new page with its images, page numbers in the footer
+   */
+  private async writePdf(entries: ExportEntry[], filePath: string, timezone: string): Promise<void> {
+    const doc = new PDFDocument({ size: 'A5', margin: 50, bufferPages: true, info: { Title: 'Our diary' } });
+    const output = fs.createWriteStream(filePath);
+
+    const finished = new Promise<void>((resolve, reject) => {
+      output.on('finish', resolve);
+      output.on('error', reject);
+      doc.on('error', reject);
+    });
+    finished.catch(() => undefined);
+    doc.pipe(output);
+
+    const fontPath = config.diaryExport.pdfFontPath;
+    const customFont = !!fontPath && fs.existsSync(fontPath);
+    if (customFont) {
+      doc.registerFont('body', fontPath);
+      doc.font('body');
+    } else if (fontPath) {
+      logger.warn('Diary export font not found, using Helvetica', { fontPath });
+    }
+    const text = (value: string) => (customFont ? value : value.replace(NON_WIN_ANSI, ''));
+
+    const contentWidth = doc.page.width - doc.page.margins.left - doc.page.margins.right;
+    const contentBottom = () => doc.page.height - doc.page.margins.bottom;
+
+    // Title page
+    const authors = [...new Set(entries.map(entry => entry.authorName))];
+    doc.y = doc.page.height / 3;
+    doc.fillColor('#000').fontSize(28).text(text('Our Diary'), { align: 'center' });
+    doc.moveDown(0.5);
+    doc.fontSize(14).text(text(authors.join(' & ')), { align: 'center' });
+    if (entries.length > 0) {
+      const first = this.formatDate(entries[0].createdAt, timezone);
+      const last = this.formatDate(entries[entries.length - 1].createdAt, timezone);
+      doc.moveDown(2);
+      doc.fontSize(11).fillColor('#555').text(text(first === last ? first : `${first} – ${last}`), { align: 'center' });
+    }
+    doc.moveDown(0.5);
+    doc.fontSize(9).fillColor('#555').text(
+      text(`${entries.length} ${entries.length === 1 ? 'entry' : 'entries'} · exported ${this.formatDate(new Date(), timezone)}`),
+      { align: 'center' }
+    );
+
+    for (const entry of entries) {
+      doc.addPage();
+      doc.fillColor('#000').fontSize(18).text(text(entry.title));
+      doc.moveDown(0.3);
+      const meta = [this.formatDate(entry.createdAt, timezone), entry.authorName];
+      if (entry.privacy === 'private') meta.push('Private');
+      doc.fontSize(9).fillColor('#666').text(text(meta.join(' · ')));
+      if (entry.tags?.length) {
+        doc.text(text(entry.tags.map(tag => `#${tag}`).join(' ')));
+      }
+      doc.moveDown();
+      doc.fontSize(11).fillColor('#000').text(text(entry.description), { lineGap: 2 });
+
+      for (const url of entry.images || []) {
+        const image = await this.loadImage(url);
+        if (!image) continue;
+
+        let jpeg: { data: Buffer; info: sharp.OutputInfo };
+        try {
+          jpeg = await sharp(image.data)
+            .rotate()
+            .resize({ width: PDF_IMAGE_MAX_WIDTH, withoutEnlargement: true })
+            .jpeg({ quality: 80 })
+            .toBuffer({ resolveWithObject: true });
+        } catch (error) {
+          logger.warn('Skipping diary image that could not be converted for PDF export', {
+            url,
+            error: error instanceof Error ? error.message : 'Unknown error'
+          });
+          continue;
+        }
+
+        const maxHeight = (contentBottom() - doc.page.margins.top) * 0.6;
+        const scale = Math.min(contentWidth / jpeg.info.width, maxHeight / jpeg.info.height);
+        const width = jpeg.info.width * scale;
+        const height = jpeg.info.height * scale;
+
+        doc.moveDown();
+        if (doc.y + height > contentBottom()) doc.addPage();
+        doc.image(jpeg.data, doc.page.margins.left + (contentWidth - width) / 2, doc.y, { width, height });
+        doc.y += height;
+      }
+    }
+
+    // Page numbers, skipping the title page. The bottom margin is lifted while
+    // writing so the footer doesn't start a new page.
+    const range = doc.bufferedPageRange();
+    for (let i = 1; i < range.count; i++) {
+      doc.switchToPage(range.start + i);
+      const bottomMargin = doc.page.margins.bottom;
+      doc.page.margins.bottom = 0;
+      doc.fontSize(9).fillColor('#666').text(String(i), 0, doc.page.height - 30, { width: doc.page.width, align: 'center' });
+      doc.page.margins.bottom = bottomMargin;
+    }
+
+    doc.end();
+    await finished;
+  }
+
+  // Missing or unreadable images are left out rather than failing the export
+  private async loadImage(url: string): Promise<{ key: string; data: Buffer } | null> {
+    const key = storageService.keyFromUrl(url);
+    if (!key) return null;
+
+    try {
+      return { key, data: await readAll(await storageService.getStream(key)) };
+    } catch (error) {
+      logger.warn('Skipping diary image missing from storage', {
+        url,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+      return null;
+    }
+  }
+
+  private formatDate(date: Date, timezone: string): string {
+    return new Intl.DateTimeFormat('en-GB', { dateStyle: 'long', timeZone: timezone }).format(date);
+  }
+
+  // YYYY-MM-DD in the export's timezone, for file names
+  private dateKey(date: Date, timezone: string): string {
+    return new Intl.DateTimeFormat('en-CA', { year: 'numeric', month: '2-digit', day: '2-digit', timeZone: timezone }).format(date);
+  }
+}
+
+export default new DiaryExportService();
@@ -0,0 +1,328 @@
+import { Types } from 'mongoose';
+import DiaryEntry, { DIARY_MOOD_SCALE, IDiaryMoodLevel } from '@/models/DiaryEntry';
+import { Partner } from '@/models/Partner';
+import Chat from '@/models/Chat';
+import Message from '@/models/Message';
+import Notification from '@/models/Notification';
+import User from '@/models/User';
+import { AppError } from '@/middleware/errorHandler';
+import notificationService from './notificationService';
+import logger from '@/utils/logger';
+
+export type MoodInterval = 'day' | 'week' | 'month';
+
+// Moods at or below this count as low
+export const LOW_MOOD_THRESHOLD = 2;
+export const DEFAULT_MOOD_RANGE_DAYS = 90;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const SIGNAL_WINDOW_DAYS = 7;
+// Correlations over fewer days than this are reported as null
+const MIN_CORRELATION_DAYS = 5;
+
+const PERIOD_FORMATS: Record<MoodInterval, string> = {
+  day: '%Y-%m-%d',
+  week: '%G-W%V', // ISO week, e.g. 2024-W18
+  month: '%Y-%m'
+};
+
+export interface MoodAnalyticsOptions {
+  startDate?: Date;
+  endDate?: Date;
+  interval?: MoodInterval;
+  timezone?: string;
+}
+
+export interface MoodPeriod {
+  userId: string;
+  period: string;
+  averageMood: number;
+  averageEnergy: number | null;
+  entries: number;
+}
+
+export interface MoodWeekday {
+  userId: string;
+  weekday: number; // ISO: 1 = Monday ... 7 = Sunday
+  averageMood: number;
+  entries: number;
+}
+
+export interface ChatMoodCorrelation {
+  userId: string;
+  coefficient: number | null; // Pearson, -1 to 1
+  days: number; // days with a logged mood
+}
+
+export interface LowMoodSignal {
+  bothLow: boolean;
+  since: Date;
+  partners: Array<{ userId: string; lowestMood: number | null }>;
+}
+
+export interface MoodAnalytics {
+  scale: IDiaryMoodLevel[];
+  range: { startDate: Date; endDate: Date };
+  interval: MoodInterval;
+  timezone: string;
+  partners: Array<{ userId: string; name: string }>;
+  overTime: MoodPeriod[];
+  byWeekday: MoodWeekday[];
+  chatActivity: ChatMoodCorrelation[];
+  lowMoodSignal: LowMoodSignal;
+}
+
+const round = (value: number | null, digits = 2): number | null =>
+  value === null ? null : Math.round(value * 10 ** digits) / 10 ** digits;
+
+const pearson = (xs: number[], ys: number[]): number | null => {
+  const n = xs.length;
+  if (n < MIN_CORRELATION_DAYS) return null;
+
+  const meanX = xs.reduce((sum, x) => sum + x, 0) / n;
+  const meanY = ys.reduce((sum, y) => sum + y, 0) / n;
+  let covariance = 0;
+  let varianceX = 0;
+  let varianceY = 0;
+  for (let i = 0; i < n; i++) {
+    covariance += (xs[i] - meanX) * (ys[i] - meanY);
+    varianceX += (xs[i] - meanX) ** 2;
+    varianceY += (ys[i] - meanY) ** 2;
+  }
+  // Constant mood or chat volume says nothing either way
+  return varianceX && varianceY ? covariance / Math.sqrt(varianceX * varianceY) : null;
+};
+
+class DiaryMoodService {
+  /**
+   * Mood analytics for the user's couple: mood over time and by weekday for each
+   * partner, how daily mood tracks chat volume, and whether both partners had a
+   * low week. Only entries the user can see are counted (the partner's private
+   * entries and drafts are not). Null when the user has no diary.
+   */
+  async getAnalytics(userId: string, options: MoodAnalyticsOptions = {}): Promise<MoodAnalytics | null> {
+    const interval = options.interval || 'week';
+    if (!Object.keys(PERIOD_FORMATS).includes(interval)) {
+      throw new AppError('interval must be day, week or month', 400);
+    }
+
+    const timezone = options.timezone || 'UTC';
+    try {
+      new Intl.DateTimeFormat('en-GB', { timeZone: timezone });
+    } catch {
+      throw new AppError('Invalid timezone', 400);
+    }
+
+    const endDate = options.endDate || new Date();
+    const startDate = options.startDate || new Date(endDate.getTime() - DEFAULT_MOOD_RANGE_DAYS * DAY_MS);
+    if (startDate > endDate) {
+      throw new AppError('startDate must be before endDate', 400);
+    }
+
+    const partner = await Partner.findOne({
+      status: 'active',
+      $or: [{ user1Id: userId }, { user2Id: userId }]
+    }).select('user1Id user2Id');
+    if (!partner) return null;
+
+    const memberIds = [...new Set([partner.user1Id.toString(), partner.user2Id.toString()])];
+    const match = {
+      partnerId: partner._id,
+      isDeleted: false,
+      status: { $ne: 'draft' },
+      mood: { $exists: true },
+      createdAt: { $gte: startDate, $lte: endDate },
+      $or: [{ privacy: 'public' }, { authorId: new Types.ObjectId(userId) }]
+    };
+
+    const [members, periods, weekdays, dailyMoods, lowMoodSignal] = await Promise.all([
+      User.find({ _id: { $in: memberIds } }).select('name'),
+      DiaryEntry.aggregate([
+        { $match: match },
+        {
+          $group: {
+            _id: { userId: '$authorId', period: { $dateToString: { format: PERIOD_FORMATS[interval], date: '$createdAt', timezone } } },
+            averageMood: { $avg: '$mood' },
+            averageEnergy: { $avg: '$energy' },
+            entries: { $sum: 1 }
+          }
+        },
+        { $sort: { '_id.period': 1 } }
+      ]),
+      DiaryEntry.aggregate([
+        { $match: match },
+        {
+          $group: {
+            _id: { userId: '$authorId', weekday: { $isoDayOfWeek: { date: '$createdAt', timezone } } },
+            averageMood: { $avg: '$mood' },
+            entries: { $sum: 1 }
+          }
+        },
+        { $sort: { '_id.weekday': 1 } }
+      ]),
+      DiaryEntry.aggregate([
+        { $match: match },
+        {
+          $group: {
+            _id: { userId: '$authorId', day: { $dateToString: { format: '%Y-%m-%d', date: '$createdAt', timezone } } },
+            averageMood: { $avg: '$mood' }
+          }
+        }
+      ]),
+      this.getLowMoodSignal(partner._id as Types.ObjectId, memberIds)
+    ]);
+
+    const messagesByDay = await this.countMessagesByDay(memberIds, startDate, endDate, timezone);
+
+    const chatActivity = memberIds.map(memberId => {
+      const days = dailyMoods.filter(row => row._id.userId.toString() === memberId);
+      return {
+        userId: memberId,
+        coefficient: round(pearson(
+          days.map(row => row.averageMood),
+          days.map(row => messagesByDay.get(row._id.day) || 0)
+        )),
+        days: days.length
+      };
+    });
+
+    return {
+      scale: DIARY_MOOD_SCALE,
+      range: { startDate, endDate },
+      interval,
+      timezone,
+      partners: members.map(member => ({ userId: member.id, name: member.name })),
+      overTime: periods.map(row => ({
+        userId: row._id.userId.toString(),
+        period: row._id.period,
+        averageMood: round(row.averageMood) as number,
+        averageEnergy: round(row.averageEnergy),
+        entries: row.entries
+      })),
+      byWeekday: weekdays.map(row => ({
+        userId: row._id.userId.toString(),
+        weekday: row._id.weekday,
+        averageMood: round(row.averageMood) as number,
+        entries: row.entries
+      })),
+      chatActivity,
+      lowMoodSignal
+    };
+  }
+
+  /**
+   * Send a gentle check-in to couples where both partners logged a low mood in the
+   * past week. Only shared entries count, so nobody learns about a private entry,
+   * and each person gets at most one check-in a week. Returns the number sent.
+   */
+  async notifyLowMoodCouples(): Promise<number> {
+    const since = new Date(Date.now() - SIGNAL_WINDOW_DAYS * DAY_MS);
+    const couples = await DiaryEntry.aggregate([
+      {
+        $match: {
+          createdAt: { $gte: since },
+          isDeleted: false,
+          status: { $ne: 'draft' },
+          privacy: 'public',
+          mood: { $lte: LOW_MOOD_THRESHOLD }
+        }
+      },
+      { $group: { _id: '$partnerId', authors: { $addToSet: '$authorId' } } },
+      { $match: { 'authors.1': { $exists: true } } }
+    ]);
+
+    const title = 'Thinking of you both';
+    const message = 'It sounds like this week has been a hard one for both of you. Maybe plan something gentle together? 💛';
+    let sentCount = 0;
+
+    for (const couple of couples) {
+      const partner = await Partner.findOne({ _id: couple._id, status: 'active' }).select('user1Id user2Id');
+      if (!partner || partner.user1Id.toString() === partner.user2Id.toString()) continue;
+
+      for (const recipientId of [partner.user1Id.toString(), partner.user2Id.toString()]) {
+        const alreadySent = await Notification.exists({
+          userId: recipientId,
+          type: 'mood_check_in',
+          createdAt: { $gte: since }
+        });
+        if (alreadySent) continue;
+
+        await Notification.create({
+          userId: recipientId,
+          type: 'mood_check_in',
+          title,
+          message,
+          data: { partnerId: partner._id }
+        });
+        sentCount++;
+
+        // Push is best effort; the notification is already stored
+        notificationService.sendPushNotification(recipientId, title, message, { type: 'mood_check_in' }).catch(error => {
+          logger.warn('Failed to send mood check-in push notification', {
+            userId: recipientId,
+            error: error instanceof Error ? error.message : 'Unknown error'
+          });
+        });
+      }
+    }
+
+    if (sentCount > 0) {
+      logger.info('Sent mood check-ins', { couples: couples.length, sentCount });
+    }
+    return sentCount;
+  }
+
+  /**
+   * Lowest mood each partner shared in the past week, and whether both were low
+   */
+  private async getLowMoodSignal(partnerId: Types.ObjectId, memberIds: string[]): Promise<LowMoodSignal> {
+    const since = new Date(Date.now() - SIGNAL_WINDOW_DAYS * DAY_MS);
+    const rows = await DiaryEntry.aggregate([
+      {
+        $match: {
+          partnerId,
+          createdAt: { $gte: since },
+          isDeleted: false,
+          status: { $ne: 'draft' },
+          privacy: 'public',
+          mood: { $exists: true }
+        }
+      },
+      { $group: { _id: '$authorId', lowestMood: { $min: '$mood' } } }
+    ]);
+
+    const partners = memberIds.map(memberId => ({
+      userId: memberId,
+      lowestMood: rows.find(row => row._id.toString() === memberId)?.lowestMood ?? null
+    }));
+
+    return {
+      bothLow: memberIds.length === 2 && partners.every(p => p.lowestMood !== null && p.lowestMood <= LOW_MOOD_THRESHOLD),
+      since,
+      partners
+    };
+  }
+
+  // Messages the couple exchanged per local day, keyed YYYY-MM-DD
+  private async countMessagesByDay(memberIds: string[], startDate: Date, endDate: Date, timezone: string): Promise<Map<string, number>> {
+    if (memberIds.length !== 2) return new Map();
+
+    const chat = await Chat.findOne({ participants: { $all: memberIds } }).select('_id');
+    if (!chat) return new Map();
+
+    const rows = await Message.aggregate([
+      {
+        $match: {
+          chatId: chat._id,
+          createdAt: { $gte: startDate, $lte: endDate },
+          type: { $ne: 'system' }
+        }
+      },
+      { $group: { _id: { $dateToString: { format: '%Y-%m-%d', date: '$createdAt', timezone } }, count: { $sum: 1 } } }
+    ]);
+
+    return new Map(rows.map(row => [row._id as string, row.count as number]));
+  }
+}
+
+export default new DiaryMoodService();
@@ -0,0 +1,123 @@
+import Chat, { IChat } from '@/models/Chat';
+import Message from '@/models/Message';
+import StarredMessage from '@/models/StarredMessage';
+import { getSocketHandler } from '@/socket/socketHandler';
+import mediaProcessingService from './mediaProcessingService';
+import storageService from './storageService';
+import storageQuotaService from './storageQuotaService';
+import { AppError } from '@/middleware/errorHandler';
+import logger from '@/utils/logger';
+
+export const MIN_MESSAGE_TTL_SECONDS = 5;
+export const MAX_MESSAGE_TTL_SECONDS = 90 * 24 * 60 * 60; // 90 days
+
+export const MESSAGE_SWEEP_BATCH_SIZE = 500;
+
+class DisappearingMessageService {
+  /**
+   * Validate a client supplied TTL. Returns null for "no timer", throws on invalid values
+   */
+  parseTtl(value: unknown): number | null {
+    if (value === undefined || value === null || value === '' || value === 0 || value === '0') {
+      return null;
+    }
+
+    const ttl = Number(value);
+    if (!Number.isInteger(ttl) || ttl < MIN_MESSAGE_TTL_SECONDS || ttl > MAX_MESSAGE_TTL_SECONDS) {
+      throw new AppError(`TTL must be a whole number of seconds between ${MIN_MESSAGE_TTL_SECONDS} and ${MAX_MESSAGE_TTL_SECONDS}`, 400);
+    }
+
+    return ttl;
+  }
+
+  /**
+   * Work out when a new message should expire: an explicit per-message TTL wins,
+   * otherwise the chat's default timer applies
+   */
+  resolveExpiresAt(chat: Pick<IChat, 'defaultMessageTtl'>, requestedTtl?: unknown): Date | undefined {
+    const ttl = requestedTtl !== undefined ? this.parseTtl(requestedTtl) : chat.defaultMessageTtl || null;
+    return ttl ? new Date(Date.now() + ttl * 1000) : undefined;
+  }
+
+  /**
+   * Human readable TTL used in the system message
+   */
+  describeTtl(ttl: number | null): string {
+    if (!ttl) return 'off';
+
+    const units: Array<[number, string]> = [
+      [24 * 60 * 60, 'day'],
+      [60 * 60, 'hour'],
+      [60, 'minute'],
+      [1, 'second']
+    ];
+    const [size, label] = units.find(([unitSize]) => ttl % unitSize === 0) || [1, 'second'];
+    const amount = ttl / size;
+    return `${amount} ${label}${amount === 1 ? '' : 's'}`;
+  }
+
+  /**
+   * Delete expired messages with their uploaded files and notify both participants.
+   * Each message is deleted on its own so that when several instances sweep at
+   * once, only the one that deleted a message cleans up after it and refunds it.
+   */
+  async sweepExpiredMessages(): Promise<number> {
+    const now = new Date();
+    const candidates = await Message.find({ expiresAt: { $lte: now } })
+      .select('_id')
+      .limit(MESSAGE_SWEEP_BATCH_SIZE);
+
+    const expired = (await Promise.all(candidates.map(candidate =>
+      Message.findOneAndDelete({ _id: candidate._id, expiresAt: { $lte: now } })
+        .select('chatId senderId type fileUrl fileSize thumbnailUrl thumbnails isDeleted')
+    ))).filter((message): message is NonNullable<typeof message> => !!message);
+
+    if (expired.length === 0) {
+      return 0;
+    }
+
+    const expiredIds = expired.map(message => message._id);
+    await StarredMessage.deleteMany({ messageId: { $in: expiredIds } });
+
+    await storageService.deleteByUrls(expired.flatMap(message => [message.fileUrl, ...mediaProcessingService.getDerivedUrls(message)]));
+    // Give the senders their storage back
+    await Promise.all(expired
+      .filter(message => message.fileSize && !message.isDeleted)
+      .map(message => storageQuotaService.record(message.senderId, message.type === 'voice' ? 'voiceNotes' : 'chatFiles', -(message.fileSize || 0))));
+
+    const expiredByChat = new Map<string, string[]>();
+    expired.forEach(message => {
+      const chatId = message.chatId.toString();
+      expiredByChat.set(chatId, [...(expiredByChat.get(chatId) || []), message.id]);
+    });
+
+    const socketHandler = getSocketHandler();
+
+    for (const [chatId, messageIds] of expiredByChat) {
+      const chat = await Chat.findById(chatId);
+      if (!chat) continue;
+
+      // Point the chat preview at the newest surviving message
+      if (chat.lastMessage && messageIds.includes(chat.lastMessage.toString())) {
+        const latest = await Message.findOne({ chatId }).sort({ createdAt: -1, _id: -1 }).select('_id createdAt');
+        chat.lastMessage = latest?._id as any;
+        await chat.save();
+      }
+
+      if (socketHandler) {
+        chat.participants.forEach(participant => {
+          socketHandler.emitToUser(participant.toString(), 'message_expired', {
+            chatId,
+            messageIds
+          });
+        });
+      }
+    }
+
+    logger.info('Swept expired messages', { count: expired.length, chats: expiredByChat.size });
+
+    return expired.length;
+  }
+}
+
+export default new DisappearingMessageService();
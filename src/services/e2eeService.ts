@@ -0,0 +1,202 @@
+import mongoose from 'mongoose';
+import DeviceKey, { IDeviceKey, IPreKey, ISignedPreKey, MAX_ONE_TIME_PREKEYS } from '@/models/DeviceKey';
+import { IKeyEnvelope } from '@/models/Message';
+import { IChat } from '@/models/Chat';
+import User from '@/models/User';
+import { AppError } from '@/middleware/errorHandler';
+
+const BASE64_PATTERN = /^[A-Za-z0-9+/=_-]+$/;
+const MAX_CIPHERTEXT_LENGTH = 64 * 1024;
+const MAX_ENVELOPES_PER_MESSAGE = 20;
+
+export interface DeviceKeyBundleInput {
+  registrationId?: number;
+  identityKey: string;
+  signedPreKey: ISignedPreKey;
+  oneTimePreKeys?: IPreKey[];
+}
+
+export interface EncryptedPayloadInput {
+  ciphertext?: unknown;
+  keyEnvelopes?: unknown;
+}
+
+class E2EEService {
+  /**
+   * Devices that are currently logged in according to the user's login history
+   */
+  async getLoggedInDeviceIds(userId: string): Promise<Set<string>> {
+    const user = await User.findById(userId).select('currentDeviceId loginHistory');
+    const deviceIds = new Set<string>();
+
+    if (user?.currentDeviceId) {
+      deviceIds.add(user.currentDeviceId);
+    }
+    user?.loginHistory?.forEach(entry => {
+      if (!entry.logoutAt) deviceIds.add(entry.deviceId);
+    });
+
+    return deviceIds;
+  }
+
+  /**
+   * Register or replace the key bundle for one of the user's devices
+   */
+  async publishDeviceKeys(userId: string, deviceId: string, bundle: DeviceKeyBundleInput): Promise<IDeviceKey> {
+    const loggedInDevices = await this.getLoggedInDeviceIds(userId);
+    if (!loggedInDevices.has(deviceId)) {
+      throw new AppError('Device is not logged in for this user', 403);
+    }
+
+    this.assertKey(bundle.identityKey, 'identityKey');
+    this.assertSignedPreKey(bundle.signedPreKey);
+    const oneTimePreKeys = this.normalizePreKeys(bundle.oneTimePreKeys || []);
+
+    const deviceKey = await DeviceKey.findOneAndUpdate(
+      { userId, deviceId },
+      {
+        $set: {
+          registrationId: bundle.registrationId,
+          identityKey: bundle.identityKey,
+          signedPreKey: bundle.signedPreKey,
+          oneTimePreKeys,
+          isActive: true
+        },
+        $unset: { revokedAt: 1 }
+      },
+      { new: true, upsert: true, setDefaultsOnInsert: true }
+    );
+
+    return deviceKey as IDeviceKey;
+  }
+
+  /**
+   * Top up a device's one-time prekeys
+   */
+  async addOneTimePreKeys(userId: string, deviceId: string, preKeys: IPreKey[]): Promise<number> {
+    const deviceKey = await DeviceKey.findOne({ userId, deviceId, isActive: true });
+    if (!deviceKey) {
+      throw new AppError('Device keys not found', 404);
+    }
+
+    const existingIds = new Set(deviceKey.oneTimePreKeys.map(preKey => preKey.keyId));
+    const additions = this.normalizePreKeys(preKeys).filter(preKey => !existingIds.has(preKey.keyId));
+
+    if (deviceKey.oneTimePreKeys.length + additions.length > MAX_ONE_TIME_PREKEYS) {
+      throw new AppError(`A device can hold at most ${MAX_ONE_TIME_PREKEYS} one-time prekeys`, 400);
+    }
+
+    deviceKey.oneTimePreKeys.push(...additions);
+    await deviceKey.save();
+
+    return deviceKey.oneTimePreKeys.length;
+  }
+
+  /**
+   * Fetch a user's active device bundles, claiming one one-time prekey per device
+   */
+  async claimPreKeyBundles(userId: string) {
+    const loggedInDevices = await this.getLoggedInDeviceIds(userId);
+    const devices = await DeviceKey.find({ userId, isActive: true, deviceId: { $in: [...loggedInDevices] } });
+
+    return Promise.all(devices.map(async (device) => {
+      // Pop atomically so two senders never receive the same one-time prekey
+      const before = await DeviceKey.findOneAndUpdate(
+        { _id: device._id, 'oneTimePreKeys.0': { $exists: true } },
+        { $pop: { oneTimePreKeys: -1 } }
+      );
+      const oneTimePreKey = before?.oneTimePreKeys[0];
+
+      return {
+        userId,
+        deviceId: device.deviceId,
+        registrationId: device.registrationId,
+        identityKey: device.identityKey,
+        signedPreKey: {
+          keyId: device.signedPreKey.keyId,
+          publicKey: device.signedPreKey.publicKey,
+          signature: device.signedPreKey.signature
+        },
+        oneTimePreKey: oneTimePreKey
+          ? { keyId: oneTimePreKey.keyId, publicKey: oneTimePreKey.publicKey }
+          : undefined
+      };
+    }));
+  }
+
+  /**
+   * Check an encrypted message before storing it. The ciphertext itself is opaque;
+   * only the envelope addressing is validated.
+   */
+  validateEncryptedPayload(chat: Pick<IChat, 'participants'>, senderId: string, payload: EncryptedPayloadInput): {
+    ciphertext: string;
+    keyEnvelopes: IKeyEnvelope[];
+  } {
+    const { ciphertext, keyEnvelopes } = payload;
+
+    if (typeof ciphertext !== 'string' || !ciphertext || ciphertext.length > MAX_CIPHERTEXT_LENGTH || !BASE64_PATTERN.test(ciphertext)) {
+      throw new AppError('Encrypted messages require a base64 ciphertext', 400);
+    }
+
+    if (!Array.isArray(keyEnvelopes) || keyEnvelopes.length === 0 || keyEnvelopes.length > MAX_ENVELOPES_PER_MESSAGE) {
+      throw new AppError('Encrypted messages require key envelopes for the recipient devices', 400);
+    }
+
+    const participantIds = chat.participants.map(participant => participant.toString());
+    const envelopes = keyEnvelopes.map((envelope: any) => {
+      const userId = envelope?.userId?.toString();
+      if (!userId || !participantIds.includes(userId)) {
+        throw new AppError('Key envelopes can only be addressed to chat participants', 400);
+      }
+      if (typeof envelope.deviceId !== 'string' || !envelope.deviceId) {
+        throw new AppError('Key envelopes require a deviceId', 400);
+      }
+      this.assertKey(envelope.encryptedKey, 'encryptedKey');
+
+      return {
+        userId: new mongoose.Types.ObjectId(userId),
+        deviceId: envelope.deviceId,
+        encryptedKey: envelope.encryptedKey,
+        preKeyId: Number.isInteger(envelope.preKeyId) ? envelope.preKeyId : undefined
+      };
+    });
+
+    if (!envelopes.some(envelope => envelope.userId.toString() !== senderId)) {
+      throw new AppError('Encrypted messages need at least one envelope for your partner', 400);
+    }
+
+    return { ciphertext, keyEnvelopes: envelopes };
+  }
+
+  private normalizePreKeys(preKeys: IPreKey[]): IPreKey[] {
+    if (!Array.isArray(preKeys) || preKeys.length > MAX_ONE_TIME_PREKEYS) {
+      throw new AppError(`Provide up to ${MAX_ONE_TIME_PREKEYS} one-time prekeys`, 400);
+    }
+
+    const seen = new Set<number>();
+    return preKeys.map(preKey => {
+      if (!Number.isInteger(preKey?.keyId) || preKey.keyId < 0 || seen.has(preKey.keyId)) {
+        throw new AppError('One-time prekeys need unique non-negative integer keyIds', 400);
+      }
+      seen.add(preKey.keyId);
+      this.assertKey(preKey.publicKey, 'oneTimePreKeys.publicKey');
+      return { keyId: preKey.keyId, publicKey: preKey.publicKey };
+    });
+  }
+
+  private assertSignedPreKey(signedPreKey: ISignedPreKey) {
+    if (!signedPreKey || !Number.isInteger(signedPreKey.keyId) || signedPreKey.keyId < 0) {
+      throw new AppError('signedPreKey requires an integer keyId', 400);
+    }
+    this.assertKey(signedPreKey.publicKey, 'signedPreKey.publicKey');
+    this.assertKey(signedPreKey.signature, 'signedPreKey.signature', 1024);
+  }
+
+  private assertKey(value: unknown, field: string, maxLength: number = 512) {
+    if (typeof value !== 'string' || !value || value.length > maxLength || !BASE64_PATTERN.test(value)) {
+      throw new AppError(`${field} must be a base64 string`, 400);
+    }
+  }
+}
+
+export default new E2EEService();
@@ -0,0 +1,99 @@
+import { Types } from 'mongoose';
+import EventJournal, { EventSequence } from '@/models/EventJournal';
+import { config } from '@/config/env';
+import logger from '@/utils/logger';
+
+// Socket events that are journaled so reconnecting clients can catch up
+export const JOURNALED_EVENTS = new Set([
+  'new_message',
+  'message_reaction_update',
+  'partner_location_update',
+  'notification'
+]);
+
+const MAX_REPLAY_BATCH = 200;
+
+export interface JournaledEvent {
+  seq: number;
+  event: string;
+  data: unknown;
+  createdAt: Date;
+}
+
+class EventJournalService {
+  /**
+   * Append an event to the user's journal and return its sequence number
+   */
+  async record(userId: string, event: string, data: unknown): Promise<number> {
+    const sequence = await EventSequence.findOneAndUpdate(
+      { userId: new Types.ObjectId(userId) },
+      { $inc: { seq: 1 } },
+      { new: true, upsert: true, setDefaultsOnInsert: true }
+    );
+
+    // Store plain JSON so replayed payloads match what was emitted live
+    await EventJournal.create({
+      userId,
+      seq: sequence.seq,
+      event,
+      payload: data === undefined ? undefined : JSON.parse(JSON.stringify(data))
+    });
+
+    return sequence.seq;
+  }
+
+  /**
+   * Latest sequence number handed out to the user (0 if none)
+   */
+  async getLatestSeq(userId: string): Promise<number> {
+    const sequence = await EventSequence.findOne({ userId: new Types.ObjectId(userId) }).select('seq');
+    return sequence?.seq || 0;
+  }
+
+  /**
+   * Events recorded after `lastSeq`, oldest first. `resyncRequired` is set when
+   * some of the missed events were already pruned and the client must refetch.
+   */
+  async getEventsSince(userId: string, lastSeq: number, limit: number = MAX_REPLAY_BATCH) {
+    const latestSeq = await this.getLatestSeq(userId);
+    const batchSize = Math.min(Math.max(limit, 1), MAX_REPLAY_BATCH);
+
+    if (lastSeq >= latestSeq) {
+      return { events: [] as JournaledEvent[], latestSeq, hasMore: false, resyncRequired: false };
+    }
+
+    const entries = await EventJournal.find({ userId: new Types.ObjectId(userId), seq: { $gt: lastSeq } })
+      .sort({ seq: 1 })
+      .limit(batchSize + 1);
+
+    const hasMore = entries.length > batchSize;
+    const trimmed = hasMore ? entries.slice(0, batchSize) : entries;
+    const resyncRequired = trimmed.length === 0 || trimmed[0].seq > lastSeq + 1;
+
+    return {
+      events: trimmed.map(entry => ({
+        seq: entry.seq,
+        event: entry.event,
+        data: entry.payload,
+        createdAt: entry.createdAt
+      })),
+      latestSeq,
+      hasMore,
+      resyncRequired
+    };
+  }
+
+  /**
+   * Delete journal entries older than the configured retention window
+   */
+  async pruneOldEntries(): Promise<number> {
+    const cutoff = new Date(Date.now() - config.eventJournal.retentionHours * 60 * 60 * 1000);
+    const result = await EventJournal.deleteMany({ createdAt: { $lt: cutoff } });
+
+    logger.info('Pruned event journal', { deletedCount: result.deletedCount, cutoff });
+
+    return result.deletedCount;
+  }
+}
+
+export default new EventJournalService();
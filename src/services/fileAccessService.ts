@@ -0,0 +1,192 @@
+import crypto from 'crypto';
+import Chat from '@/models/Chat';
+import DiaryEntry from '@/models/DiaryEntry';
+import DiaryExport from '@/models/DiaryExport';
+import MediaItem from '@/models/MediaItem';
+import Memory from '@/models/memory';
+import Message, { IMessage } from '@/models/Message';
+import { Partner } from '@/models/Partner';
+import { AppError } from '@/middleware/errorHandler';
+import { config } from '@/config/env';
+import storageService from './storageService';
+
+export const FILES_URL_PREFIX = '/api/files/';
+
+export interface SignedFileUrl {
+  url: string;
+  expiresAt: Date;
+}
+
+export interface SignedFileParams {
+  uid: string;
+  exp: number;
+  ov?: string; // one-view message id, re-checked on every request
+}
+
+export interface FileAccess {
+  oneViewMessageId?: string;
+}
+
+const ID_PATTERN = /^[a-f0-9]{24}$/i;
+
+class FileAccessService {
+  /**
+   * Signed, expiring `/api/files/<key>` URL for a stored `/uploads/...` file.
+   * Callers must have checked access already (see authorize).
+   */
+  signUrl(fileUrl: string, userId: string, access: FileAccess = {}): SignedFileUrl {
+    const key = storageService.keyFromUrl(fileUrl);
+    if (!key) {
+      throw new AppError('Not a stored file', 400);
+    }
+
+    const ttl = access.oneViewMessageId ? config.fileUrls.oneViewTtlSeconds : config.fileUrls.ttlSeconds;
+    const exp = Math.floor(Date.now() / 1000) + ttl;
+    const params: SignedFileParams = { uid: userId, exp, ov: access.oneViewMessageId };
+
+    const query = new URLSearchParams({ uid: userId, exp: String(exp) });
+    if (params.ov) query.set('ov', params.ov);
+    query.set('sig', this.signature(key, params));
+
+    const encodedKey = key.split('/').map(encodeURIComponent).join('/');
+    return { url: `${FILES_URL_PREFIX}${encodedKey}?${query.toString()}`, expiresAt: new Date(exp * 1000) };
+  }
+
+  /**
+   * Validate the signature and expiry of a signed file request. Throws on failure.
+   */
+  verify(key: string, query: Record<string, unknown>): SignedFileParams {
+    const { uid, exp, ov, sig } = query;
+    const expiresAt = Number(exp);
+
+    if (typeof uid !== 'string' || typeof sig !== 'string' || !Number.isInteger(expiresAt) ||
+      (ov !== undefined && typeof ov !== 'string')) {
+      throw new AppError('Invalid file link', 403);
+    }
+
+    const params: SignedFileParams = { uid, exp: expiresAt, ov: ov as string | undefined };
+    const expected = Buffer.from(this.signature(key, params), 'hex');
+    const provided = Buffer.from(sig, 'hex');
+    if (expected.length !== provided.length || !crypto.timingSafeEqual(expected, provided)) {
+      throw new AppError('Invalid file link', 403);
+    }
+
+    if (expiresAt * 1000 < Date.now()) {
+      throw new AppError('File link has expired', 403);
+    }
+
+    return params;
+  }
+
+  /**
+   * Check that a user may read a stored file: chat participants for message
+   * attachments, the couple for media, memories and diary images (private diary
+   * entries only for their author), diary exports for whoever requested them.
+   * Opened one-view files are refused.
+   */
+  async authorize(userId: string, fileUrl: string): Promise<FileAccess> {
+    const urlQuery = { $or: [{ fileUrl }, { thumbnailUrl: fileUrl }, { 'thumbnails.url': fileUrl }] };
+
+    const message = await Message.findOne(urlQuery)
+      .select('chatId senderId isOneView viewedBy viewedAt isDeletedForEveryone deletedFor scanStatus');
+    if (message) {
+      const isParticipant = await Chat.exists({ _id: message.chatId, participants: userId });
+      if (!isParticipant || message.isDeletedForEveryone || message.deletedFor?.some(id => id.toString() === userId)) {
+        throw new AppError('You do not have access to this file', 403);
+      }
+      if (message.scanStatus === 'quarantined') {
+        throw new AppError('This file was quarantined by the malware scan', 403);
+      }
+      if (message.isOneView) {
+        if (this.isOneViewRevoked(message)) {
+          throw new AppError('This one-view file has already been opened', 410);
+        }
+        return { oneViewMessageId: message.id };
+      }
+      return {};
+    }
+
+    const mediaItem = await MediaItem.findOne({ ...urlQuery, isDeleted: false }).select('userId partnerId scanStatus');
+    if (mediaItem) {
+      if (![mediaItem.userId, mediaItem.partnerId].some(id => id.toString() === userId)) {
+        throw new AppError('You do not have access to this file', 403);
+      }
+      if (mediaItem.scanStatus === 'quarantined') {
+        throw new AppError('This file was quarantined by the malware scan', 403);
+      }
+      return {};
+    }
+
+    const entry = await DiaryEntry.findOne({ $or: [{ images: fileUrl }, { 'imageVariants.thumbnails.url': fileUrl }] })
+      .select('partnerId authorId privacy status isDeleted');
+    if (entry) {
+      const isAuthor = entry.authorId.toString() === userId;
+      const hidden = entry.privacy === 'private' || entry.status === 'draft' || entry.isDeleted;
+      if (!isAuthor && (hidden || !(await this.isCoupleMember(entry.partnerId.toString(), userId)))) {
+        throw new AppError('You do not have access to this file', 403);
+      }
+      return {};
+    }
+
+    const diaryExport = await DiaryExport.findOne({ fileUrl, status: 'completed' }).select('userId expiresAt');
+    if (diaryExport) {
+      if (diaryExport.userId.toString() !== userId) {
+        throw new AppError('You do not have access to this file', 403);
+      }
+      if (!diaryExport.expiresAt || diaryExport.expiresAt <= new Date()) {
+        throw new AppError('This export has expired', 410);
+      }
+      return {};
+    }
+
+    const memory = await Memory.findOne({ imageUrl: fileUrl, isDeleted: false }).select('partnerId');
+    if (memory) {
+      if (!(await this.isCoupleMember(memory.partnerId.toString(), userId))) {
+        throw new AppError('You do not have access to this file', 403);
+      }
+      return {};
+    }
+
+    throw new AppError('File not found', 404);
+  }
+
+  /**
+   * Re-check a one-view message while its file is being served. The viewer gets a
+   * short grace period after opening so streaming and seeking keep working.
+   */
+  async assertOneViewAvailable(messageId: string): Promise<void> {
+    if (!ID_PATTERN.test(messageId)) {
+      throw new AppError('Invalid file link', 403);
+    }
+
+    const message = await Message.findById(messageId).select('senderId viewedBy viewedAt isDeletedForEveryone');
+    if (!message || message.isDeletedForEveryone) {
+      throw new AppError('File not found', 404);
+    }
+
+    const graceEndsAt = (message.viewedAt?.getTime() || 0) + config.fileUrls.oneViewGraceSeconds * 1000;
+    if (this.isOneViewRevoked(message) && graceEndsAt < Date.now()) {
+      throw new AppError('This one-view file has already been opened', 410);
+    }
+  }
+
+  /**
+   * A one-view file is spent once anyone other than the sender has opened it
+   */
+  isOneViewRevoked(message: Pick<IMessage, 'senderId' | 'viewedBy'>): boolean {
+    return (message.viewedBy || []).some(id => id.toString() !== message.senderId.toString());
+  }
+
+  private async isCoupleMember(partnerId: string, userId: string): Promise<boolean> {
+    return !!(await Partner.exists({ _id: partnerId, status: 'active', $or: [{ user1Id: userId }, { user2Id: userId }] }));
+  }
+
+  private signature(key: string, params: SignedFileParams): string {
+    return crypto
+      .createHmac('sha256', config.fileUrls.signingSecret)
+      .update([key, params.uid, params.exp, params.ov || ''].join('\n'))
+      .digest('hex');
+  }
+}
+
+export default new FileAccessService();
@@ -0,0 +1,378 @@
+import dns from 'dns';
+import http from 'http';
+import https from 'https';
+import net from 'net';
+import { Readable } from 'stream';
+import axios from 'axios';
+import NodeCache from 'node-cache';
+import Chat from '@/models/Chat';
+import Message, { ILinkPreview } from '@/models/Message';
+import { getSocketHandler } from '@/socket/socketHandler';
+import { config } from '@/config/env';
+import logger from '@/utils/logger';
+
+export interface FetchedPage {
+  url: string; // final URL after redirects
+  contentType: string;
+  body: string;
+}
+
+export interface FetchOptions {
+  timeoutMs: number;
+  maxBytes: number;
+}
+
+// Fetches a page for previewing. Swappable so tests can point at a local stub server.
+export type LinkPreviewFetcher = (url: string, options: FetchOptions) => Promise<FetchedPage>;
+
+const URL_PATTERN = /https?:\/\/[^\s<>"']+/i;
+const MAX_REDIRECTS = 3;
+const MAX_TITLE_LENGTH = 300;
+const MAX_DESCRIPTION_LENGTH = 1000;
+
+// Non-public ranges: loopback, private, link-local, CGNAT, multicast, reserved,
+// benchmarking, local-use NAT64, Teredo and documentation
+const PRIVATE_IPV4_RANGES: Array<[string, number]> = [
+  ['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8], ['169.254.0.0', 16],
+  ['172.16.0.0', 12], ['192.0.0.0', 16], ['192.168.0.0', 16], ['198.18.0.0', 15], ['224.0.0.0', 3]
+];
+const PRIVATE_IPV6_RANGES: Array<[string, number]> = [
+  ['::', 128], ['::1', 128], ['fc00::', 7], ['fe80::', 10], ['ff00::', 8],
+  ['64:ff9b:1::', 48], ['2001::', 32], ['2001:db8::', 32]
+];
+
+const privateRanges = new net.BlockList();
+PRIVATE_IPV4_RANGES.forEach(([network, prefix]) => privateRanges.addSubnet(network, prefix, 'ipv4'));
+PRIVATE_IPV6_RANGES.forEach(([network, prefix]) => privateRanges.addSubnet(network, prefix, 'ipv6'));
+
+// The 16 bytes of a valid IPv6 address (zone index ignored)
+const ipv6Bytes = (address: string): number[] => {
+  let text = address.toLowerCase().split('%')[0];
+  const dotted = text.match(/(\d+)\.(\d+)\.(\d+)\.(\d+)$/);
+  if (dotted) {
+    const [a, b, c, d] = dotted.slice(1).map(Number);
+    text = `${text.slice(0, -dotted[0].length)}${((a << 8) | b).toString(16)}:${((c << 8) | d).toString(16)}`;
+  }
+
+  const [head, tail] = text.split('::');
+  const headGroups = head ? head.split(':') : [];
+  const tailGroups = tail ? tail.split(':') : [];
+  const groups = text.includes('::')
+    ? [...headGroups, ...Array(8 - headGroups.length - tailGroups.length).fill('0'), ...tailGroups]
+    : headGroups;
+  return groups.flatMap(group => {
+    const value = parseInt(group, 16);
+    return [value >> 8, value & 0xff];
+  });
+};
+
+// The IPv4 address an IPv6 address carries: IPv4-mapped (::ffff:a.b.c.d),
+// IPv4-compatible (::a.b.c.d), NAT64 (64:ff9b::/96) or 6to4 (2002::/16)
+const embeddedIPv4 = (bytes: number[]): string | null => {
+  const isZero = (from: number, to: number) => bytes.slice(from, to).every(byte => byte === 0);
+  const lastFour = bytes.slice(12).join('.');
+
+  if (isZero(0, 10) && bytes[10] === 0xff && bytes[11] === 0xff) return lastFour;
+  if (isZero(0, 12)) return lastFour;
+  if (bytes[0] === 0x00 && bytes[1] === 0x64 && bytes[2] === 0xff && bytes[3] === 0x9b && isZero(4, 12)) return lastFour;
+  if (bytes[0] === 0x20 && bytes[1] === 0x02) return bytes.slice(2, 6).join('.');
+  return null;
+};
+
+/**
+ * True for loopback, private, link-local, CGNAT, multicast and other non-public
+ * addresses, including IPv4 ones wrapped in an IPv6 address
+ */
+export const isPrivateAddress = (address: string): boolean => {
+  if (net.isIPv4(address)) {
+    return privateRanges.check(address, 'ipv4');
+  }
+
+  if (net.isIPv6(address)) {
+    const embedded = embeddedIPv4(ipv6Bytes(address));
+    if (embedded) return isPrivateAddress(embedded);
+    return privateRanges.check(address.split('%')[0], 'ipv6');
+  }
+
+  return true;
+};
+
+// DNS lookup that refuses to connect to non-public addresses (checked at connect
+// time, so a hostname cannot be rebound to an internal IP after validation)
+const publicOnlyLookup: net.LookupFunction = (hostname, options, callback) => {
+  dns.lookup(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) return callback(error, '', 4);
+
+    const list = addresses as unknown as dns.LookupAddress[];
+    const blocked = list.find(entry => isPrivateAddress(entry.address));
+    if (blocked || list.length === 0) {
+      return callback(new Error(`Refusing to connect to non-public address for ${hostname}`), '', 4);
+    }
+
+    if ((options as dns.LookupOptions).all) {
+      return (callback as any)(null, list);
+    }
+    callback(null, list[0].address, list[0].family);
+  });
+};
+
+/**
+ * Default HTTP fetcher: http(s) on standard ports only, public addresses only,
+ * manual redirects (each hop re-validated), a byte cap and a total time limit.
+ */
+export const createHttpFetcher = (fetcherOptions: { allowPrivateNetworks?: boolean } = {}): LinkPreviewFetcher => {
+  const lookup = fetcherOptions.allowPrivateNetworks ? undefined : publicOnlyLookup;
+  const httpAgent = new http.Agent({ lookup } as http.AgentOptions);
+  const httpsAgent = new https.Agent({ lookup } as https.AgentOptions);
+
+  return async (url, { timeoutMs, maxBytes }) => {
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), timeoutMs);
+
+    try {
+      let currentUrl = url;
+
+      for (let hop = 0; hop <= MAX_REDIRECTS; hop++) {
+        const parsed = new URL(currentUrl);
+        if (!['http:', 'https:'].includes(parsed.protocol)) {
+          throw new Error('Only http and https links can be previewed');
+        }
+        if (!fetcherOptions.allowPrivateNetworks) {
+          if (parsed.port && !['80', '443'].includes(parsed.port)) {
+            throw new Error('Only standard ports can be previewed');
+          }
+          const host = parsed.hostname.replace(/^\[|\]$/g, '');
+          if (net.isIP(host) && isPrivateAddress(host)) {
+            throw new Error('Refusing to preview a non-public address');
+          }
+        }
+
+        const response = await axios.get<Readable>(currentUrl, {
+          responseType: 'stream',
+          maxRedirects: 0,
+          validateStatus: () => true,
+          signal: controller.signal,
+          httpAgent,
+          httpsAgent,
+          headers: {
+            'User-Agent': 'BondMateLinkPreview/1.0',
+            Accept: 'text/html,application/xhtml+xml'
+          }
+        });
+
+        if (response.status >= 300 && response.status < 400 && response.headers.location) {
+          response.data.destroy();
+          currentUrl = new URL(response.headers.location, currentUrl).toString();
+          continue;
+        }
+
+        const contentType = String(response.headers['content-type'] || '');
+        if (response.status >= 400 || !contentType.includes('html')) {
+          response.data.destroy();
+          throw new Error(`Unsupported response (${response.status} ${contentType})`);
+        }
+
+        // Read at most maxBytes; the <head> metadata is near the top anyway
+        const chunks: Buffer[] = [];
+        let size = 0;
+        for await (const chunk of response.data) {
+          const buffer = Buffer.from(chunk);
+          chunks.push(buffer);
+          size += buffer.length;
+          if (size >= maxBytes) {
+            response.data.destroy();
+            break;
+          }
+        }
+
+        return {
+          url: currentUrl,
+          contentType,
+          body: Buffer.concat(chunks).subarray(0, maxBytes).toString('utf8')
+        };
+      }
+
+      throw new Error('Too many redirects');
+    } finally {
+      clearTimeout(timer);
+    }
+  };
+};
+
+const decodeEntities = (value: string) => value
+  .replace(/&#(\d+);/g, (_, code) => String.fromCharCode(Number(code)))
+  .replace(/&#x([0-9a-f]+);/gi, (_, code) => String.fromCharCode(parseInt(code, 16)))
+  .replace(/&quot;/g, '"')
+  .replace(/&#39;|&apos;/g, '\'')
+  .replace(/&lt;/g, '<')
+  .replace(/&gt;/g, '>')
+  .replace(/&nbsp;/g, ' ')
+  .replace(/&amp;/g, '&');
+
+const clean = (value: string | undefined, maxLength: number) => {
+  if (!value) return undefined;
+  const text = decodeEntities(value).replace(/\s+/g, ' ').trim();
+  return text ? text.slice(0, maxLength) : undefined;
+};
+
+/**
+ * Pull Open Graph / Twitter card metadata out of an HTML document
+ */
+export const parsePreviewMetadata = (html: string, pageUrl: string): ILinkPreview | null => {
+  const meta: Record<string, string> = {};
+  const metaTags = html.match(/<meta\b[^>]*>/gi) || [];
+
+  metaTags.forEach(tag => {
+    const key = tag.match(/\b(?:property|name)\s*=\s*["']([^"']+)["']/i)?.[1]?.toLowerCase();
+    const content = tag.match(/\bcontent\s*=\s*(?:"([^"]*)"|'([^']*)')/i);
+    const value = content?.[1] ?? content?.[2];
+    if (key && value !== undefined && meta[key] === undefined) {
+      meta[key] = value;
+    }
+  });
+
+  const title = clean(meta['og:title'] || meta['twitter:title'] || html.match(/<title[^>]*>([^<]*)<\/title>/i)?.[1], MAX_TITLE_LENGTH);
+  const description = clean(meta['og:description'] || meta['twitter:description'] || meta.description, MAX_DESCRIPTION_LENGTH);
+  const siteName = clean(meta['og:site_name'], MAX_TITLE_LENGTH) || new URL(pageUrl).hostname;
+
+  let image: string | undefined;
+  const rawImage = meta['og:image'] || meta['og:image:url'] || meta['twitter:image'] || meta['twitter:image:src'];
+  if (rawImage) {
+    try {
+      const resolved = new URL(decodeEntities(rawImage.trim()), pageUrl);
+      if (['http:', 'https:'].includes(resolved.protocol)) {
+        image = resolved.toString();
+      }
+    } catch {
+      image = undefined;
+    }
+  }
+
+  if (!title && !description && !image) {
+    return null;
+  }
+
+  return { url: pageUrl, title, description, image, siteName };
+};
+
+export class LinkPreviewService {
+  private fetcher: LinkPreviewFetcher;
+  private cache = new NodeCache({ stdTTL: config.linkPreview.cacheTtlSeconds, maxKeys: 5000, useClones: false });
+  private inFlight = new Map<string, Promise<ILinkPreview | null>>();
+
+  constructor(fetcher: LinkPreviewFetcher = createHttpFetcher()) {
+    this.fetcher = fetcher;
+  }
+
+  /**
+   * Replace the page fetcher (used by tests)
+   */
+  setFetcher(fetcher: LinkPreviewFetcher): void {
+    this.fetcher = fetcher;
+    this.cache.flushAll();
+  }
+
+  /**
+   * First http(s) URL in a piece of text, without trailing punctuation
+   */
+  extractFirstUrl(text?: string): string | null {
+    const match = text?.match(URL_PATTERN)?.[0];
+    if (!match) return null;
+
+    const trimmed = match.replace(/[).,!?;:]+$/, '');
+    try {
+      return new URL(trimmed).toString();
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Preview for a URL, served from cache when possible. Failures are cached too
+   * so a broken link isn't refetched for every message.
+   */
+  async getPreview(url: string): Promise<ILinkPreview | null> {
+    const key = url.split('#')[0];
+    const cached = this.cache.get<ILinkPreview | false>(key);
+    if (cached !== undefined) {
+      return cached || null;
+    }
+
+    const pending = this.inFlight.get(key);
+    if (pending) return pending;
+
+    const request = (async () => {
+      try {
+        const page = await this.fetcher(key, {
+          timeoutMs: config.linkPreview.timeoutMs,
+          maxBytes: config.linkPreview.maxBytes
+        });
+        const preview = parsePreviewMetadata(page.body, page.url);
+        this.cache.set(key, preview || false);
+        return preview;
+      } catch (error) {
+        logger.debug('Link preview fetch failed', {
+          url: key,
+          error: error instanceof Error ? error.message : 'Unknown error'
+        });
+        this.cache.set(key, false, config.linkPreview.failureCacheTtlSeconds);
+        return null;
+      } finally {
+        this.inFlight.delete(key);
+      }
+    })();
+
+    this.inFlight.set(key, request);
+    return request;
+  }
+
+  /**
+   * Fetch and attach a preview for a text message in the background, then tell
+   * both participants with `message_updated`. Never throws.
+   */
+  schedulePreview(message: { _id: unknown; type: string; content?: string; isEncrypted?: boolean }): void {
+    if (!config.linkPreview.enabled || message.isEncrypted || message.type !== 'text') return;
+
+    const url = this.extractFirstUrl(message.content);
+    if (!url) return;
+
+    this.attachPreview(String(message._id), url).catch(error => {
+      logger.warn('Failed to attach link preview', {
+        messageId: String(message._id),
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+    });
+  }
+
+  private async attachPreview(messageId: string, url: string): Promise<void> {
+    const preview = await this.getPreview(url);
+    if (!preview) return;
+
+    const linkPreview = { ...preview, fetchedAt: new Date() };
+
+    // Skip if the message was deleted or edited to another link meanwhile
+    const current = await Message.findById(messageId).select('content isDeletedForEveryone');
+    if (!current || current.isDeletedForEveryone || this.extractFirstUrl(current.content) !== url) return;
+
+    const message = await Message.findOneAndUpdate(
+      { _id: messageId, content: current.content },
+      { $set: { linkPreview } },
+      { new: true }
+    ).select('chatId');
+    if (!message) return;
+
+    const chat = await Chat.findById(message.chatId).select('participants');
+    const socketHandler = getSocketHandler();
+    if (!chat || !socketHandler) return;
+
+    chat.participants.forEach(participant => {
+      socketHandler.emitToUser(participant.toString(), 'message_updated', {
+        chatId: chat.id,
+        messageId,
+        linkPreview
+      });
+    });
+  }
+}
+
+export default new LinkPreviewService();
@@ -0,0 +1,89 @@
+import fs from 'fs';
+import net from 'net';
+import { once } from 'events';
+import { config } from '@/config/env';
+
+export interface ScanVerdict {
+  infected: boolean;
+  signature?: string; // virus name reported by the scanner
+}
+
+// clamd's INSTREAM takes length-prefixed chunks; keep them well below StreamMaxLength
+const STREAM_CHUNK_BYTES = 64 * 1024;
+
+class MalwareScanService {
+  isEnabled(): boolean {
+    return !!config.malwareScan.clamavSocket;
+  }
+
+  /**
+   * Scan a local file with clamd's INSTREAM command. Anything that speaks the clamd
+   * protocol on the configured socket works (a stub in tests). Rejects when the
+   * scanner can't give a verdict (unreachable, timeout, file over its size limit).
+   */
+  async scanFile(filePath: string): Promise<ScanVerdict> {
+    const reply = await this.instream(filePath);
+
+    const found = /^stream: (.+) FOUND$/.exec(reply);
+    if (found) {
+      return { infected: true, signature: found[1] };
+    }
+    if (reply === 'stream: OK') {
+      return { infected: false };
+    }
+    throw new Error(`Unexpected clamd reply: ${reply || '(empty)'}`);
+  }
+
+  private connect(): net.Socket {
+    const target = config.malwareScan.clamavSocket;
+    const tcp = /^([\w.-]+):(\d+)$/.exec(target);
+    return tcp
+      ? net.createConnection({ host: tcp[1], port: Number(tcp[2]) })
+      : net.createConnection({ path: target });
+  }
+
+  private instream(filePath: string): Promise<string> {
+    return new Promise((resolve, reject) => {
+      const socket = this.connect();
+      const reply: Buffer[] = [];
+      let settled = false;
+
+      const finish = (error?: Error) => {
+        if (settled) return;
+        settled = true;
+        socket.destroy();
+        if (error) reject(error);
+        else resolve(Buffer.concat(reply).toString('utf8').replace(/\0/g, '').trim());
+      };
+
+      socket.setTimeout(config.malwareScan.timeoutMs, () => finish(new Error('clamd timed out')));
+      socket.on('error', finish);
+      // Replies to z-prefixed commands end with a NUL; clamd may also answer early (size limit)
+      socket.on('data', (chunk: Buffer) => {
+        reply.push(chunk);
+        if (chunk.includes(0)) finish();
+      });
+      socket.on('end', () => finish());
+
+      socket.on('connect', async () => {
+        try {
+          socket.write('zINSTREAM\0');
+          for await (const chunk of fs.createReadStream(filePath, { highWaterMark: STREAM_CHUNK_BYTES })) {
+            if (settled) return;
+            const length = Buffer.alloc(4);
+            length.writeUInt32BE((chunk as Buffer).length);
+            if (!socket.write(Buffer.concat([length, chunk as Buffer]))) {
+              await Promise.race([once(socket, 'drain'), once(socket, 'close')]);
+            }
+          }
+          // A zero-length chunk ends the stream
+          socket.write(Buffer.alloc(4));
+        } catch (error) {
+          finish(error instanceof Error ? error : new Error('Failed to stream file to clamd'));
+        }
+      });
+    });
+  }
+}
+
+export default new MalwareScanService();
@@ -0,0 +1,330 @@
+import { FilterQuery, PipelineStage, Types } from 'mongoose';
+import Chat from '@/models/Chat';
+import MediaItem, { IMediaItem } from '@/models/MediaItem';
+import Message, { IMessage } from '@/models/Message';
+import User from '@/models/User';
+import { AppError } from '@/middleware/errorHandler';
+import { decodeMessageCursor, encodeMessageCursor } from '@/utils/cursor';
+
+export const DEFAULT_GALLERY_PAGE_SIZE = 50;
+export const MAX_GALLERY_PAGE_SIZE = 100;
+
+export const CHAT_ALBUM_ID = 'from-chats';
+export const CHAT_ALBUM_NAME = 'From our chats';
+export const FAVORITES_ALBUM_ID = 'favorites';
+export const FAVORITES_ALBUM_NAME = 'Favourites';
+
+export type TimelineGrouping = 'month' | 'year';
+
+export interface Couple {
+  userId: Types.ObjectId;
+  partnerId: Types.ObjectId;
+}
+
+export interface GalleryPage<T> {
+  items: T[];
+  nextCursor: string | null;
+  hasMore: boolean;
+}
+
+export interface GalleryQuery {
+  cursor?: string;
+  limit?: unknown;
+  favoritesOnly?: boolean;
+  period?: string; // YYYY or YYYY-MM
+  timezone?: string;
+}
+
+// An image or video sent in the couple's chat, shaped like a media item
+export interface ChatMediaEntry {
+  _id: string;
+  source: 'chat';
+  messageId: string;
+  chatId: string;
+  userId: Types.ObjectId;
+  fileName?: string;
+  fileUrl?: string;
+  fileSize?: number;
+  mimeType?: string;
+  thumbnailUrl?: string;
+  thumbnails?: IMessage['thumbnails'];
+  width?: number;
+  height?: number;
+  duration?: number;
+  uploadedAt: Date;
+}
+
+const PERIOD_FORMATS: Record<TimelineGrouping, string> = {
+  month: '%Y-%m',
+  year: '%Y'
+};
+
+const CHAT_MEDIA_FIELDS = 'chatId senderId fileName fileUrl fileSize mimeType thumbnailUrl thumbnails width height duration createdAt';
+
+export const parsePageSize = (value: unknown): number =>
+  Math.min(Math.max(Number(value) || DEFAULT_GALLERY_PAGE_SIZE, 1), MAX_GALLERY_PAGE_SIZE);
+
+class MediaGalleryService {
+  /**
+   * The user and their active partner, or null without one
+   */
+  async getCouple(userId: string): Promise<Couple | null> {
+    const user = await User.findById(userId).select('partners');
+    const activePartner = user?.partners?.find(p => p.status === 'active');
+    if (!activePartner) return null;
+
+    return { userId: new Types.ObjectId(userId), partnerId: new Types.ObjectId(activePartner.partnerId.toString()) };
+  }
+
+  async requireCouple(userId: string): Promise<Couple> {
+    const couple = await this.getCouple(userId);
+    if (!couple) {
+      throw new AppError('No partner found', 404);
+    }
+    return couple;
+  }
+
+  /**
+   * Media shared between the two of them, whoever uploaded it
+   */
+  coupleMediaFilter(couple: Couple): FilterQuery<IMediaItem> {
+    return {
+      isDeleted: false,
+      $or: [
+        { userId: couple.userId, partnerId: couple.partnerId },
+        { userId: couple.partnerId, partnerId: couple.userId }
+      ]
+    };
+  }
+
+  /**
+   * Validate `YYYY`/`YYYY-MM` periods and IANA time zones from the query string
+   */
+  parsePeriod(period?: string): string | undefined {
+    if (period === undefined) return undefined;
+    if (!/^\d{4}(-(0[1-9]|1[0-2]))?$/.test(period)) {
+      throw new AppError('period must look like 2024 or 2024-06', 400);
+    }
+    return period;
+  }
+
+  parseTimezone(timezone?: string): string {
+    if (!timezone) return 'UTC';
+    try {
+      new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+      return timezone;
+    } catch {
+      throw new AppError('Invalid timezone', 400);
+    }
+  }
+
+  /**
+   * The couple's media, newest first, optionally only the caller's favourites or one
+   * month/year of the timeline
+   */
+  async listMedia(couple: Couple, query: GalleryQuery): Promise<GalleryPage<IMediaItem>> {
+    const limit = parsePageSize(query.limit);
+    const filters: FilterQuery<IMediaItem>[] = [this.coupleMediaFilter(couple)];
+
+    if (query.favoritesOnly) {
+      filters.push({ favoritedBy: couple.userId });
+    }
+
+    const period = this.parsePeriod(query.period);
+    if (period) {
+      const format = period.length === 4 ? PERIOD_FORMATS.year : PERIOD_FORMATS.month;
+      filters.push({
+        $expr: {
+          $eq: [{ $dateToString: { format, date: '$uploadedAt', timezone: this.parseTimezone(query.timezone) } }, period]
+        }
+      });
+    }
+
+    if (query.cursor) {
+      filters.push(this.cursorFilter('uploadedAt', query.cursor));
+    }
+
+    const items = await MediaItem.find({ $and: filters })
+      .sort({ uploadedAt: -1, _id: -1 })
+      .limit(limit + 1)
+      .populate('userId', 'name email')
+      .populate('partnerId', 'name email');
+
+    return this.toPage(items, limit, item => ({ createdAt: item.uploadedAt.toISOString(), id: item.id }));
+  }
+
+  /**
+   * Month or year buckets of the couple's media, newest first, each with its item
+   * count and latest item as the cover. The cursor is the last period returned.
+   */
+  async timeline(couple: Couple, grouping: TimelineGrouping, query: GalleryQuery): Promise<GalleryPage<Record<string, unknown>>> {
+    const limit = parsePageSize(query.limit);
+    const timezone = this.parseTimezone(query.timezone);
+
+    const pipeline: PipelineStage[] = [
+      { $match: this.coupleMediaFilter(couple) },
+      { $sort: { uploadedAt: -1, _id: -1 } },
+      {
+        $group: {
+          _id: { $dateToString: { format: PERIOD_FORMATS[grouping], date: '$uploadedAt', timezone } },
+          count: { $sum: 1 },
+          latestAt: { $first: '$uploadedAt' },
+          cover: {
+            $first: {
+              _id: '$_id',
+              fileUrl: '$fileUrl',
+              thumbnailUrl: '$thumbnailUrl',
+              thumbnails: '$thumbnails',
+              mimeType: '$mimeType'
+            }
+          }
+        }
+      }
+    ];
+
+    if (query.cursor) {
+      const cursor = this.parsePeriod(query.cursor);
+      pipeline.push({ $match: { _id: { $lt: cursor } } });
+    }
+
+    pipeline.push({ $sort: { _id: -1 } }, { $limit: limit + 1 });
+
+    const groups = await MediaItem.aggregate(pipeline);
+    const hasMore = groups.length > limit;
+    const page = hasMore ? groups.slice(0, limit) : groups;
+
+    return {
+      items: page.map(({ _id, ...group }) => ({ period: _id, ...group })),
+      nextCursor: hasMore && page.length ? page[page.length - 1]._id : null,
+      hasMore
+    };
+  }
+
+  /**
+   * Every image and video ever sent in the couple's chat (the "From our chats" smart
+   * album). Read straight from the chat, so deletions, expiry and one-view rules apply.
+   */
+  async listChatMedia(couple: Couple, query: GalleryQuery): Promise<GalleryPage<ChatMediaEntry>> {
+    const limit = parsePageSize(query.limit);
+    const filter = await this.chatMediaFilter(couple);
+    if (!filter) {
+      return { items: [], nextCursor: null, hasMore: false };
+    }
+
+    const filters: FilterQuery<IMessage>[] = [filter];
+    if (query.cursor) {
+      filters.push(this.cursorFilter('createdAt', query.cursor));
+    }
+
+    const messages = await Message.find({ $and: filters })
+      .select(CHAT_MEDIA_FIELDS)
+      .sort({ createdAt: -1, _id: -1 })
+      .limit(limit + 1);
+
+    const page = this.toPage(messages, limit, message => ({ createdAt: message.createdAt.toISOString(), id: message.id }));
+    return { ...page, items: page.items.map(message => this.toChatMediaEntry(message)) };
+  }
+
+  /**
+   * Item count and newest item of the "From our chats" album
+   */
+  async chatMediaSummary(couple: Couple): Promise<{ itemCount: number; cover: ChatMediaEntry | null }> {
+    const filter = await this.chatMediaFilter(couple);
+    if (!filter) {
+      return { itemCount: 0, cover: null };
+    }
+
+    const [itemCount, latest] = await Promise.all([
+      Message.countDocuments(filter),
+      Message.findOne(filter).select(CHAT_MEDIA_FIELDS).sort({ createdAt: -1, _id: -1 })
+    ]);
+    return { itemCount, cover: latest ? this.toChatMediaEntry(latest) : null };
+  }
+
+  /**
+   * Check that every id is one of the couple's (not deleted) media items
+   */
+  async assertCoupleItems(couple: Couple, itemIds: unknown): Promise<Types.ObjectId[]> {
+    if (!Array.isArray(itemIds) || itemIds.some(id => typeof id !== 'string' || !Types.ObjectId.isValid(id))) {
+      throw new AppError('itemIds must be an array of media item IDs', 400);
+    }
+
+    const ids = [...new Set(itemIds as string[])].map(id => new Types.ObjectId(id));
+    const found = await MediaItem.countDocuments({ $and: [this.coupleMediaFilter(couple), { _id: { $in: ids } }] });
+    if (found !== ids.length) {
+      throw new AppError('Some media items were not found', 404);
+    }
+    return ids;
+  }
+
+  private async chatMediaFilter(couple: Couple): Promise<FilterQuery<IMessage> | null> {
+    const chat = await Chat.findOne({
+      participants: { $all: [couple.userId, couple.partnerId] },
+      isActive: true
+    }).select('_id');
+    if (!chat) return null;
+
+    return {
+      chatId: chat._id,
+      type: { $in: ['image', 'video'] },
+      fileUrl: { $exists: true, $ne: null },
+      isDeleted: false,
+      isDeletedForEveryone: { $ne: true },
+      deletedFor: { $ne: couple.userId },
+      // One-view, end-to-end encrypted and quarantined files don't belong in a gallery
+      isOneView: { $ne: true },
+      isEncrypted: { $ne: true },
+      scanStatus: { $ne: 'quarantined' },
+      $or: [{ expiresAt: { $exists: false } }, { expiresAt: null }, { expiresAt: { $gt: new Date() } }]
+    };
+  }
+
+  private toChatMediaEntry(message: IMessage): ChatMediaEntry {
+    return {
+      _id: message.id,
+      source: 'chat',
+      messageId: message.id,
+      chatId: message.chatId.toString(),
+      userId: message.senderId,
+      fileName: message.fileName,
+      fileUrl: message.fileUrl,
+      fileSize: message.fileSize,
+      mimeType: message.mimeType,
+      thumbnailUrl: message.thumbnailUrl,
+      thumbnails: message.thumbnails,
+      width: message.width,
+      height: message.height,
+      duration: message.duration,
+      uploadedAt: message.createdAt
+    };
+  }
+
+  private cursorFilter(dateField: 'uploadedAt' | 'createdAt', cursor: string): FilterQuery<any> {
+    let decoded: { createdAt: string; id: string };
+    try {
+      decoded = decodeMessageCursor(cursor);
+    } catch {
+      throw new AppError('Invalid cursor', 400);
+    }
+
+    const cursorDate = new Date(decoded.createdAt);
+    return {
+      $or: [
+        { [dateField]: { $lt: cursorDate } },
+        { [dateField]: cursorDate, _id: { $lt: new Types.ObjectId(decoded.id) } }
+      ]
+    };
+  }
+
+  private toPage<T>(rows: T[], limit: number, cursorOf: (row: T) => { createdAt: string; id: string }): GalleryPage<T> {
+    const hasMore = rows.length > limit;
+    const items = hasMore ? rows.slice(0, limit) : rows;
+    return {
+      items,
+      nextCursor: hasMore && items.length ? encodeMessageCursor(cursorOf(items[items.length - 1])) : null,
+      hasMore
+    };
+  }
+}
+
+export default new MediaGalleryService();
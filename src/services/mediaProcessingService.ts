@@ -0,0 +1,356 @@
+import fs from 'fs';
+import path from 'path';
+import sharp from 'sharp';
+import Chat from '@/models/Chat';
+import DiaryEntry from '@/models/DiaryEntry';
+import MediaItem from '@/models/MediaItem';
+import Message from '@/models/Message';
+import { IMediaVariant, MediaProcessingStatus } from '@/models/MediaVariant';
+import { getSocketHandler } from '@/socket/socketHandler';
+import { AppError } from '@/middleware/errorHandler';
+import storageService, { StagedFile } from './storageService';
+import { config } from '@/config/env';
+import logger from '@/utils/logger';
+import { runProcess } from '@/utils/runProcess';
+
+export const THUMBNAIL_SIZES: Array<{ size: IMediaVariant['size']; width: number }> = [
+  { size: 'small', width: 160 },
+  { size: 'medium', width: 480 },
+  { size: 'large', width: 1080 }
+];
+
+// Raster formats sharp can re-encode without losing animation or vector data
+const SANITIZABLE_IMAGE_TYPES = ['image/jpeg', 'image/png', 'image/webp', 'image/tiff', 'image/heic', 'image/heif'];
+const THUMBNAIL_IMAGE_TYPES = [...SANITIZABLE_IMAGE_TYPES, 'image/gif', 'image/bmp'];
+
+export interface UploadedImage {
+  path: string; // local file path
+  url: string;
+  mimeType: string;
+}
+
+export interface ProcessedMedia {
+  thumbnails: IMediaVariant[];
+  thumbnailUrl?: string;
+  width?: number;
+  height?: number;
+  duration?: number; // seconds, videos only
+}
+
+// URL of a derived file stored next to the original
+const siblingUrl = (fileUrl: string, fileName: string) => path.posix.join(path.posix.dirname(fileUrl), fileName);
+
+class MediaProcessingService {
+  isImage(mimeType: string): boolean {
+    return THUMBNAIL_IMAGE_TYPES.includes(mimeType);
+  }
+
+  isVideo(mimeType: string): boolean {
+    return mimeType.startsWith('video/');
+  }
+
+  /**
+   * Remove EXIF/GPS and other embedded metadata from an upload in place. Runs before
+   * the file is referenced anywhere so location data is never served.
+   */
+  async stripMetadata(filePath: string, mimeType: string): Promise<void> {
+    try {
+      if (SANITIZABLE_IMAGE_TYPES.includes(mimeType)) {
+        // Apply the EXIF orientation first, then re-encode without any metadata
+        const buffer = await sharp(filePath).rotate().toBuffer();
+        await fs.promises.writeFile(filePath, buffer);
+      } else if (this.isVideo(mimeType)) {
+        const ext = path.extname(filePath);
+        const tempPath = `${filePath}.clean${ext}`;
+        await runProcess(config.media.ffmpegPath, [
+          '-y', '-i', filePath,
+          '-map', '0', '-map_metadata', '-1', '-map_chapters', '-1',
+          '-c', 'copy', tempPath
+        ]);
+        await fs.promises.rename(tempPath, filePath);
+      }
+    } catch (error) {
+      logger.warn('Failed to strip upload metadata', {
+        filePath,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+      if (SANITIZABLE_IMAGE_TYPES.includes(mimeType)) {
+        // An image sharp cannot read is not something we want to keep
+        throw error;
+      }
+    }
+  }
+
+  /**
+   * Strip metadata from a freshly uploaded multer file and refresh its size.
+   * Unreadable images are deleted and rejected. Returns true when the file
+   * should get derivatives (processMessageMedia and friends).
+   */
+  async prepareUpload(file: StagedFile): Promise<boolean> {
+    if (!this.isImage(file.mimetype) && !this.isVideo(file.mimetype)) {
+      return false;
+    }
+
+    try {
+      await this.stripMetadata(file.path, file.mimetype);
+      file.size = (await fs.promises.stat(file.path)).size;
+    } catch {
+      await fs.promises.unlink(file.path).catch(() => undefined);
+      throw new AppError('Uploaded image could not be processed', 400);
+    }
+
+    return true;
+  }
+
+  /**
+   * Create WebP thumbnails (and for videos a poster frame and duration) next to the
+   * local original. Files stay local; process() moves them into storage.
+   */
+  async generateDerivatives(filePath: string, fileUrl: string, mimeType: string): Promise<ProcessedMedia> {
+    if (this.isImage(mimeType)) {
+      const metadata = await sharp(filePath).metadata();
+      const thumbnails = await this.createThumbnails(filePath, fileUrl);
+      const portrait = (metadata.orientation || 1) >= 5;
+
+      return {
+        thumbnails,
+        thumbnailUrl: thumbnails.find(thumbnail => thumbnail.size === 'medium')?.url,
+        width: portrait ? metadata.height : metadata.width,
+        height: portrait ? metadata.width : metadata.height
+      };
+    }
+
+    if (this.isVideo(mimeType)) {
+      const probe = await this.probeVideo(filePath);
+      const posterPath = await this.extractPosterFrame(filePath, probe.duration);
+      const posterUrl = siblingUrl(fileUrl, path.basename(posterPath));
+      const thumbnails = await this.createThumbnails(posterPath, posterUrl);
+
+      return {
+        thumbnails,
+        thumbnailUrl: posterUrl,
+        width: probe.width,
+        height: probe.height,
+        duration: probe.duration
+      };
+    }
+
+    return { thumbnails: [] };
+  }
+
+  /**
+   * Derived files belonging to an upload, for cleanup when the original is removed
+   */
+  getDerivedUrls(media: { thumbnailUrl?: string; thumbnails?: IMediaVariant[] }): string[] {
+    const urls = [media.thumbnailUrl, ...(media.thumbnails || []).map(thumbnail => thumbnail.url)]
+      .filter((url): url is string => !!url);
+    return [...new Set(urls)];
+  }
+
+  /**
+   * Generate derivatives for an uploaded chat attachment in the background, then
+   * tell both participants with `message_media_ready`. Never throws.
+   */
+  processMessageMedia(messageId: string, filePath: string): void {
+    this.attachMessageMedia(messageId, filePath).catch(error => {
+      logger.warn('Failed to process message media', {
+        messageId,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+    });
+  }
+
+  /**
+   * Same as processMessageMedia for shared gallery items; emits `media_item_ready`
+   */
+  processMediaItem(mediaItemId: string, filePath: string): void {
+    this.attachMediaItemMedia(mediaItemId, filePath).catch(error => {
+      logger.warn('Failed to process media item', {
+        mediaItemId,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+    });
+  }
+
+  /**
+   * Thumbnails for newly attached diary images, stored in imageVariants
+   */
+  processDiaryImages(entryId: string, images: UploadedImage[]): void {
+    this.attachDiaryImageVariants(entryId, images).catch(error => {
+      logger.warn('Failed to process diary images', {
+        entryId,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+    });
+  }
+
+  // Generate and store derivatives for a staged upload, then drop the local copies
+  private async process(filePath: string, fileUrl: string, mimeType: string): Promise<ProcessedMedia & { mediaStatus: MediaProcessingStatus }> {
+    const dir = path.dirname(filePath);
+    let derivedUrls: string[] = [];
+
+    try {
+      const processed = await this.generateDerivatives(filePath, fileUrl, mimeType);
+      derivedUrls = this.getDerivedUrls(processed);
+
+      await Promise.all(derivedUrls.map(url => {
+        const key = storageService.keyFromUrl(url) as string;
+        return storageService.putFile(key, path.join(dir, path.posix.basename(url)), 'image/webp');
+      }));
+
+      return { ...processed, mediaStatus: 'ready' };
+    } catch (error) {
+      logger.warn('Media derivative generation failed', {
+        fileUrl,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+      await storageService.deleteByUrls(derivedUrls);
+      return { thumbnails: [], mediaStatus: 'failed' };
+    } finally {
+      await Promise.all([filePath, ...derivedUrls.map(url => path.join(dir, path.posix.basename(url)))]
+        .map(localPath => fs.promises.unlink(localPath).catch(() => undefined)));
+    }
+  }
+
+  private async attachMessageMedia(messageId: string, filePath: string): Promise<void> {
+    const message = await Message.findById(messageId).select('fileUrl mimeType');
+    if (!message?.fileUrl || !message.mimeType) return;
+
+    const media = await this.process(filePath, message.fileUrl, message.mimeType);
+
+    // The message may have expired or been deleted while we were working
+    const updated = await Message.findOneAndUpdate(
+      { _id: messageId, isDeletedForEveryone: { $ne: true } },
+      { $set: media },
+      { new: true }
+    ).select('chatId');
+    if (!updated) {
+      await storageService.deleteByUrls(this.getDerivedUrls(media));
+      return;
+    }
+
+    const chat = await Chat.findById(updated.chatId).select('participants');
+    const socketHandler = getSocketHandler();
+    if (!chat || !socketHandler) return;
+
+    chat.participants.forEach(participant => {
+      socketHandler.emitToUser(participant.toString(), 'message_media_ready', {
+        chatId: chat.id,
+        messageId,
+        ...media
+      });
+    });
+  }
+
+  private async attachMediaItemMedia(mediaItemId: string, filePath: string): Promise<void> {
+    const mediaItem = await MediaItem.findById(mediaItemId).select('fileUrl mimeType');
+    if (!mediaItem) return;
+
+    const media = await this.process(filePath, mediaItem.fileUrl, mediaItem.mimeType);
+
+    const updated = await MediaItem.findOneAndUpdate(
+      { _id: mediaItemId, isDeleted: false },
+      { $set: media },
+      { new: true }
+    ).select('userId partnerId');
+    if (!updated) {
+      await storageService.deleteByUrls(this.getDerivedUrls(media));
+      return;
+    }
+
+    const socketHandler = getSocketHandler();
+    if (!socketHandler) return;
+
+    [updated.userId, updated.partnerId].forEach(userId => {
+      socketHandler.emitToUser(userId.toString(), 'media_item_ready', {
+        mediaItemId,
+        ...media
+      });
+    });
+  }
+
+  private async attachDiaryImageVariants(entryId: string, images: UploadedImage[]): Promise<void> {
+    const imageVariants = [];
+    for (const image of images.filter(upload => this.isImage(upload.mimeType))) {
+      const media = await this.process(image.path, image.url, image.mimeType);
+      if (media.thumbnails.length > 0) {
+        imageVariants.push({ original: image.url, thumbnails: media.thumbnails });
+      }
+    }
+    if (imageVariants.length === 0) return;
+
+    // Entries can replace their images while we work; drop variants of removed ones
+    const entry = await DiaryEntry.findById(entryId).select('images');
+    const current = new Set(entry?.images || []);
+    const kept = imageVariants.filter(variant => current.has(variant.original));
+
+    await storageService.deleteByUrls(imageVariants
+      .filter(variant => !current.has(variant.original))
+      .flatMap(variant => this.getDerivedUrls(variant)));
+
+    if (kept.length > 0) {
+      await DiaryEntry.updateOne({ _id: entryId }, { $push: { imageVariants: { $each: kept } } });
+    }
+  }
+
+  private async createThumbnails(sourcePath: string, sourceUrl: string): Promise<IMediaVariant[]> {
+    const { dir, name } = path.parse(sourcePath);
+    const urlName = path.posix.parse(sourceUrl).name;
+
+    return Promise.all(THUMBNAIL_SIZES.map(async ({ size, width }) => {
+      const fileName = `${name}-${size}.webp`;
+      const info = await sharp(sourcePath, { animated: false })
+        .rotate()
+        .resize({ width, height: width, fit: 'inside', withoutEnlargement: true })
+        .webp({ quality: 80 })
+        .toFile(path.join(dir, fileName));
+
+      return {
+        size,
+        url: siblingUrl(sourceUrl, `${urlName}-${size}.webp`),
+        width: info.width,
+        height: info.height
+      };
+    }));
+  }
+
+  private async probeVideo(filePath: string): Promise<{ duration?: number; width?: number; height?: number }> {
+    const output = await runProcess(config.media.ffprobePath, [
+      '-v', 'error',
+      '-select_streams', 'v:0',
+      '-show_entries', 'format=duration:stream=width,height',
+      '-of', 'json',
+      filePath
+    ]);
+    const parsed = JSON.parse(output.toString() || '{}');
+    const duration = Number(parsed.format?.duration);
+
+    return {
+      duration: Number.isFinite(duration) ? Math.round(duration * 10) / 10 : undefined,
+      width: parsed.streams?.[0]?.width,
+      height: parsed.streams?.[0]?.height
+    };
+  }
+
+  private async extractPosterFrame(filePath: string, duration?: number): Promise<string> {
+    const { dir, name } = path.parse(filePath);
+    const framePath = path.join(dir, `${name}-poster.png`);
+    const posterPath = path.join(dir, `${name}-poster.webp`);
+    // One second in, unless the clip is shorter than that
+    const offset = duration !== undefined && duration < 2 ? 0 : 1;
+
+    await runProcess(config.media.ffmpegPath, [
+      '-y', '-ss', String(offset), '-i', filePath, '-frames:v', '1', framePath
+    ]);
+
+    try {
+      await sharp(framePath).webp({ quality: 80 }).toFile(posterPath);
+    } finally {
+      await fs.promises.unlink(framePath).catch(() => undefined);
+    }
+
+    return posterPath;
+  }
+}
+
+export default new MediaProcessingService();
@@ -0,0 +1,85 @@
+import { IChat } from '@/models/Chat';
+import { IMessage } from '@/models/Message';
+import Notification from '@/models/Notification';
+import { getSocketHandler } from '@/socket/socketHandler';
+import notificationService from '@/services/notificationService';
+import linkPreviewService from '@/services/linkPreviewService';
+import { getMessagePreview } from '@/utils/messagePreview';
+import logger from '@/utils/logger';
+
+class MessageDispatchService {
+  /**
+   * Deliver a freshly created chat message: update the chat preview, notify the
+   * partner (in-app and push), broadcast `new_message` and queue a link preview.
+   * Used by direct sends and by the scheduled message worker so both behave the same.
+   */
+  async dispatch(chat: IChat, message: IMessage, senderId: string): Promise<void> {
+    const chatId = chat.id;
+
+    // Update chat last message
+    chat.lastMessage = message._id as any;
+    chat.lastMessageAt = new Date();
+    await chat.save();
+
+    // Get other participant
+    const otherParticipant = chat.participants.find(p => p.toString() !== senderId);
+
+    if (otherParticipant) {
+      const preview = getMessagePreview(message);
+
+      // Create notification for other participant
+      await Notification.create({
+        userId: otherParticipant,
+        type: 'message',
+        title: 'New Message',
+        message: preview,
+        data: { chatId, messageId: message._id }
+      });
+
+      // Push is best effort; the message is already stored
+      notificationService.sendPushNotification(otherParticipant.toString(), 'New Message', preview, {
+        type: 'message',
+        chatId,
+        messageId: message.id
+      }).catch(error => {
+        logger.warn('Failed to send message push notification', {
+          messageId: message.id,
+          error: error instanceof Error ? error.message : 'Unknown error'
+        });
+      });
+    }
+
+    // Emit socket event to chat participants
+    const socketHandler = getSocketHandler();
+    if (socketHandler) {
+      socketHandler.sendMessageToChat(chatId, {
+        chatId,
+        message: {
+          _id: message._id,
+          content: message.content,
+          senderId: message.senderId,
+          createdAt: message.createdAt,
+          type: message.type,
+          fileUrl: message.fileUrl,
+          thumbnailUrl: message.thumbnailUrl,
+          isOneView: message.isOneView,
+          viewedBy: message.viewedBy,
+          viewCount: message.viewCount,
+          replyTo: message.replyTo,
+          isEncrypted: message.isEncrypted,
+          ciphertext: message.ciphertext,
+          keyEnvelopes: message.keyEnvelopes,
+          expiresAt: message.expiresAt,
+          status: message.status
+        }
+      });
+    } else {
+      logger.debug('Socket handler not available - message sent via API only');
+    }
+
+    // Fetched in the background; clients get `message_updated` when it lands
+    linkPreviewService.schedulePreview(message);
+  }
+}
+
+export default new MessageDispatchService();
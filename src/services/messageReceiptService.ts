@@ -0,0 +1,225 @@
+import { FilterQuery, Types } from 'mongoose';
+import Chat, { IChat } from '@/models/Chat';
+import Message, { IMessage } from '@/models/Message';
+import { getSocketHandler } from '@/socket/socketHandler';
+import { AppError } from '@/middleware/errorHandler';
+import { decodeMessageCursor } from '@/utils/cursor';
+import logger from '@/utils/logger';
+
+const MAX_DELIVERY_BATCH = 200;
+
+class MessageReceiptService {
+  /**
+   * Mark messages as delivered to the recipient once their socket or push handler acknowledges them.
+   * Returns the ids that actually changed state.
+   */
+  async markDelivered(userId: string, messageIds: unknown): Promise<string[]> {
+    if (!Array.isArray(messageIds) || messageIds.length === 0) {
+      throw new AppError('messageIds must be a non-empty array', 400);
+    }
+    if (messageIds.length > MAX_DELIVERY_BATCH) {
+      throw new AppError(`At most ${MAX_DELIVERY_BATCH} messages can be acknowledged at once`, 400);
+    }
+
+    const ids = messageIds
+      .map(id => String(id))
+      .filter(id => Types.ObjectId.isValid(id))
+      .map(id => new Types.ObjectId(id));
+
+    const pending = await Message.find({
+      _id: { $in: ids },
+      senderId: { $ne: new Types.ObjectId(userId) },
+      status: 'sent'
+    }).select('chatId senderId');
+
+    if (pending.length === 0) {
+      return [];
+    }
+
+    // Only acknowledge messages from chats the caller belongs to
+    const chats = await Chat.find({
+      _id: { $in: [...new Set(pending.map(message => message.chatId.toString()))] },
+      participants: userId
+    }).select('_id');
+    const allowedChatIds = new Set(chats.map(chat => chat.id));
+    const deliverable = pending.filter(message => allowedChatIds.has(message.chatId.toString()));
+
+    if (deliverable.length === 0) {
+      return [];
+    }
+
+    const deliveredAt = new Date();
+    // Re-check the status so a concurrent read receipt is never downgraded
+    await Message.updateMany(
+      { _id: { $in: deliverable.map(message => message._id) }, status: 'sent' },
+      { $set: { status: 'delivered', deliveredAt } }
+    );
+
+    const socketHandler = getSocketHandler();
+    if (socketHandler) {
+      const bySender = new Map<string, { chatId: string; messageIds: string[] }[]>();
+      deliverable.forEach(message => {
+        const senderId = message.senderId.toString();
+        const chatId = message.chatId.toString();
+        const groups = bySender.get(senderId) || [];
+        const group = groups.find(entry => entry.chatId === chatId);
+        if (group) {
+          group.messageIds.push(message.id);
+        } else {
+          groups.push({ chatId, messageIds: [message.id] });
+        }
+        bySender.set(senderId, groups);
+      });
+
+      bySender.forEach((groups, senderId) => {
+        groups.forEach(group => {
+          socketHandler.emitToUser(senderId, 'message_delivered', {
+            ...group,
+            deliveredTo: userId,
+            deliveredAt
+          });
+        });
+      });
+    }
+
+    return deliverable.map(message => message.id);
+  }
+
+  /**
+   * Mark a chat as read up to a message cursor (or the newest message when omitted)
+   * and advance the caller's last-read pointer
+   */
+  async markChatRead(chat: IChat, userId: string, cursor?: string) {
+    let upTo: { createdAt: Date; id: string } | null = null;
+
+    if (cursor) {
+      try {
+        const payload = decodeMessageCursor(cursor);
+        upTo = { createdAt: new Date(payload.createdAt), id: payload.id };
+      } catch (error) {
+        throw new AppError('Invalid cursor', 400);
+      }
+    } else {
+      const latest = await Message.findOne({ chatId: chat._id })
+        .sort({ createdAt: -1, _id: -1 })
+        .select('_id createdAt');
+      if (latest) {
+        upTo = { createdAt: latest.createdAt, id: latest.id };
+      }
+    }
+
+    if (!upTo) {
+      return { lastRead: this.getReadPointer(chat, userId), updatedCount: 0 };
+    }
+
+    const current = this.getReadPointer(chat, userId);
+    const readAt = new Date();
+
+    // Pointers only move forward
+    if (!current || this.compareCursor(upTo, { createdAt: current.messageCreatedAt, id: current.messageId.toString() }) > 0) {
+      chat.lastRead = [
+        ...(chat.lastRead || []).filter(pointer => pointer.userId.toString() !== userId),
+        {
+          userId: new Types.ObjectId(userId),
+          messageId: new Types.ObjectId(upTo.id),
+          messageCreatedAt: upTo.createdAt,
+          readAt
+        }
+      ];
+      await chat.save();
+    }
+
+    const readFilter: FilterQuery<IMessage> = {
+      chatId: chat._id,
+      senderId: { $ne: new Types.ObjectId(userId) },
+      status: { $ne: 'read' },
+      $or: [
+        { createdAt: { $lt: upTo.createdAt } },
+        { createdAt: upTo.createdAt, _id: { $lte: new Types.ObjectId(upTo.id) } }
+      ]
+    };
+
+    // Read implies delivered for anything the recipient never acknowledged
+    await Message.updateMany(
+      { ...readFilter, deliveredAt: { $exists: false } },
+      { $set: { deliveredAt: readAt } }
+    );
+    const result = await Message.updateMany(readFilter, { $set: { status: 'read', readAt } });
+
+    if (result.modifiedCount > 0) {
+      const socketHandler = getSocketHandler();
+      if (socketHandler) {
+        chat.participants
+          .filter(participant => participant.toString() !== userId)
+          .forEach(participant => {
+            socketHandler.emitToUser(participant.toString(), 'messages_read', {
+              chatId: chat.id,
+              readBy: userId,
+              upToMessageId: upTo!.id,
+              readAt
+            });
+          });
+      }
+
+      logger.info('Chat marked as read', { chatId: chat.id, userId, count: result.modifiedCount });
+    }
+
+    return { lastRead: this.getReadPointer(chat, userId), updatedCount: result.modifiedCount };
+  }
+
+  /**
+   * Unread message counts for the given chats, keyed by chat id
+   */
+  async getUnreadCounts(userId: string, chatIds: Types.ObjectId[]): Promise<Map<string, number>> {
+    const userObjectId = new Types.ObjectId(userId);
+    const counts = await Message.aggregate<{ _id: Types.ObjectId; count: number }>([
+      {
+        $match: {
+          chatId: { $in: chatIds },
+          senderId: { $ne: userObjectId },
+          status: { $ne: 'read' },
+          isDeleted: false,
+          isDeletedForEveryone: { $ne: true },
+          deletedFor: { $ne: userObjectId },
+          $or: [
+            { expiresAt: { $exists: false } },
+            { expiresAt: null },
+            { expiresAt: { $gt: new Date() } }
+          ]
+        }
+      },
+      { $group: { _id: '$chatId', count: { $sum: 1 } } }
+    ]);
+
+    return new Map(counts.map(entry => [entry._id.toString(), entry.count]));
+  }
+
+  /**
+   * Messages sent before receipts existed have no status and would all count as
+   * unread; treat them as read. Returns the number of messages updated.
+   */
+  async markLegacyMessagesRead(): Promise<number> {
+    const result = await Message.updateMany(
+      { status: { $exists: false } },
+      { $set: { status: 'read' } },
+      { timestamps: false }
+    );
+
+    if (result.modifiedCount > 0) {
+      logger.info('Marked messages without a receipt status as read', { count: result.modifiedCount });
+    }
+    return result.modifiedCount;
+  }
+
+  getReadPointer(chat: Pick<IChat, 'lastRead'>, userId: string) {
+    return chat.lastRead?.find(pointer => pointer.userId.toString() === userId);
+  }
+
+  private compareCursor(a: { createdAt: Date; id: string }, b: { createdAt: Date; id: string }): number {
+    const timeDiff = a.createdAt.getTime() - b.createdAt.getTime();
+    if (timeDiff !== 0) return timeDiff;
+    return a.id.localeCompare(b.id);
+  }
+}
+
+export default new MessageReceiptService();
@@ -6,7 +6,7 @@ import { getFirebaseMessaging } from '@/config/firebaseAdmin';
 
 interface NotificationData {
   userId: string;
-  type: 'message' | 'partner_request' | 'partner_accepted' | 'partner_rejected' | 'file_shared' | 'one_view_opened' | 'partner_invitation';
+  type: 'message' | 'partner_request' | 'partner_accepted' | 'partner_rejected' | 'file_shared' | 'one_view_opened' | 'partner_invitation' | 'diary_comment' | 'diary_reaction' | 'mood_check_in' | 'calendar_reminder';
   title: string;
   message: string;
   data?: Record<string, unknown>;
@@ -0,0 +1,265 @@
+import fs from 'fs';
+import path from 'path';
+import crypto from 'crypto';
+import mongoose from 'mongoose';
+import { v4 as uuidv4 } from 'uuid';
+import ResumableUpload, { IResumableUpload, ResumableUploadTarget } from '@/models/ResumableUpload';
+import { AppError } from '@/middleware/errorHandler';
+import { config } from '@/config/env';
+import storageService, { StagedFile } from './storageService';
+import storageQuotaService from './storageQuotaService';
+import logger from '@/utils/logger';
+
+export const MAX_ACTIVE_UPLOADS_PER_USER = 20;
+export const UPLOAD_CLEANUP_BATCH_SIZE = 100;
+
+// Status code tus uses for a chunk whose checksum doesn't match
+export const CHECKSUM_MISMATCH_STATUS = 460;
+
+const CHECKSUM_ALGORITHMS = ['sha256', 'sha1', 'md5'];
+const FINALIZE_TIMEOUT_MS = 60 * 60 * 1000; // a finalize still running after this is assumed dead
+const FINISHED_RETENTION_DAYS = 7;
+
+export interface CreateResumableUploadInput {
+  target: ResumableUploadTarget;
+  chatId?: string;
+  fileName: string;
+  mimeType: string;
+  totalSize: number;
+  isOneView?: boolean;
+  ttlSeconds?: number;
+}
+
+class ResumableUploadService {
+  // Uploads with a chunk being written by this process; clients must send chunks one at a time
+  private writing = new Set<string>();
+
+  /**
+   * Start an upload: an empty staging file plus the record that tracks its offset
+   */
+  async create(userId: string, input: CreateResumableUploadInput): Promise<IResumableUpload> {
+    const activeCount = await ResumableUpload.countDocuments({ userId, status: { $in: ['uploading', 'finalizing'] } });
+    if (activeCount >= MAX_ACTIVE_UPLOADS_PER_USER) {
+      throw new AppError(`You can have at most ${MAX_ACTIVE_UPLOADS_PER_USER} uploads in progress`, 429);
+    }
+
+    // Refuse up front rather than after the whole file has been sent
+    await storageQuotaService.assertCanStore(userId, input.totalSize);
+
+    const id = new mongoose.Types.ObjectId();
+    const stagingPath = path.join(storageService.getStagingDir('resumable'), `${id.toString()}.part`);
+    await fs.promises.writeFile(stagingPath, '');
+
+    try {
+      return await ResumableUpload.create({
+        _id: id,
+        userId,
+        ...input,
+        stagingPath,
+        expiresAt: this.nextExpiry()
+      });
+    } catch (error) {
+      await fs.promises.unlink(stagingPath).catch(() => undefined);
+      throw error;
+    }
+  }
+
+  /**
+   * The caller's upload, or a 404 for anyone else's
+   */
+  async getForUser(uploadId: string, userId: string): Promise<IResumableUpload> {
+    const upload = mongoose.Types.ObjectId.isValid(uploadId)
+      ? await ResumableUpload.findOne({ _id: uploadId, userId })
+      : null;
+    if (!upload) {
+      throw new AppError('Upload not found', 404);
+    }
+    return upload;
+  }
+
+  /**
+   * Verify a chunk against its `Upload-Checksum` header and write it at `offset`.
+   * The offset must equal what the server already has, so a client that lost a
+   * response asks for the offset and resends from there. Returns the new offset.
+   */
+  async appendChunk(upload: IResumableUpload, offset: number, chunk: Buffer, checksumHeader?: string): Promise<number> {
+    this.assertWritable(upload);
+
+    if (offset !== upload.offset) {
+      throw new AppError(`Upload-Offset ${offset} does not match the current offset ${upload.offset}`, 409);
+    }
+    if (chunk.length === 0) {
+      throw new AppError('Chunk is empty', 400);
+    }
+    if (offset + chunk.length > upload.totalSize) {
+      throw new AppError('Chunk goes past the declared upload length', 413);
+    }
+
+    this.verifyChecksum(chunk, checksumHeader);
+
+    const id = upload.id as string;
+    if (this.writing.has(id)) {
+      throw new AppError('Another chunk for this upload is still being written', 409);
+    }
+
+    this.writing.add(id);
+    try {
+      const handle = await fs.promises.open(upload.stagingPath, 'r+');
+      try {
+        await handle.write(chunk, 0, chunk.length, offset);
+      } finally {
+        await handle.close();
+      }
+
+      // Only advance from the offset we wrote at, in case another server took a chunk meanwhile
+      const updated = await ResumableUpload.findOneAndUpdate(
+        { _id: upload._id, status: 'uploading', offset },
+        { $set: { offset: offset + chunk.length, expiresAt: this.nextExpiry() } },
+        { new: true }
+      );
+      if (!updated) {
+        throw new AppError('Upload changed while the chunk was being written; check the offset and retry', 409);
+      }
+      return updated.offset;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        await this.markFailed(upload, 'Staging file missing');
+        throw new AppError('Upload data is no longer available; start a new upload', 410);
+      }
+      throw error;
+    } finally {
+      this.writing.delete(id);
+    }
+  }
+
+  /**
+   * Move a fully received upload to `finalizing`. Returns null when it isn't
+   * complete or was already claimed; the caller re-reads it to explain why.
+   */
+  async claimForFinalize(upload: IResumableUpload): Promise<IResumableUpload | null> {
+    return ResumableUpload.findOneAndUpdate(
+      {
+        _id: upload._id,
+        status: 'uploading',
+        expiresAt: { $gt: new Date() },
+        $expr: { $eq: ['$offset', '$totalSize'] }
+      },
+      { $set: { status: 'finalizing', expiresAt: new Date(Date.now() + FINALIZE_TIMEOUT_MS) } },
+      { new: true }
+    );
+  }
+
+  /**
+   * Rename a claimed upload's data to a normal staged file, the same shape multer
+   * produces, so finalize can hand it to the regular message/media code
+   */
+  async toStagedFile(upload: IResumableUpload): Promise<StagedFile> {
+    const filename = `${uuidv4()}-${Date.now()}${path.extname(upload.fileName)}`;
+    const stagingDir = storageService.getStagingDir(upload.target === 'media' ? 'media' : '');
+    const filePath = path.join(stagingDir, filename);
+
+    await fs.promises.rename(upload.stagingPath, filePath);
+    await ResumableUpload.updateOne({ _id: upload._id }, { $set: { stagingPath: filePath } });
+
+    return {
+      path: filePath,
+      filename,
+      originalname: upload.fileName,
+      mimetype: upload.mimeType,
+      size: upload.totalSize
+    };
+  }
+
+  async markCompleted(upload: IResumableUpload, result: { messageId?: unknown; mediaItemId?: unknown }): Promise<IResumableUpload | null> {
+    return ResumableUpload.findByIdAndUpdate(upload._id, {
+      $set: { status: 'completed', completedAt: new Date(), ...result }
+    }, { new: true });
+  }
+
+  /**
+   * Give up on an upload and delete whatever data is left on the staging disk
+   */
+  async markFailed(upload: IResumableUpload, reason: string, filePath = upload.stagingPath): Promise<void> {
+    await ResumableUpload.updateOne({ _id: upload._id }, { $set: { status: 'failed', failureReason: reason } });
+    await fs.promises.unlink(filePath).catch(() => undefined);
+  }
+
+  /**
+   * Cancel an upload that is still receiving chunks
+   */
+  async abort(upload: IResumableUpload): Promise<void> {
+    const aborted = await ResumableUpload.findOneAndUpdate(
+      { _id: upload._id, status: 'uploading' },
+      { $set: { status: 'aborted' } }
+    );
+    if (!aborted) {
+      throw new AppError(`Upload is already ${upload.status}`, 409);
+    }
+    await fs.promises.unlink(upload.stagingPath).catch(() => undefined);
+  }
+
+  /**
+   * Expire uploads that stopped receiving chunks (or whose finalize died) and
+   * delete their partial files. Finished records are forgotten after a week.
+   */
+  async cleanupAbandoned(): Promise<number> {
+    let expiredCount = 0;
+
+    for (let i = 0; i < UPLOAD_CLEANUP_BATCH_SIZE; i++) {
+      const upload = await ResumableUpload.findOneAndUpdate(
+        { status: { $in: ['uploading', 'finalizing'] }, expiresAt: { $lte: new Date() } },
+        { $set: { status: 'expired' } },
+        { sort: { expiresAt: 1 }, new: true }
+      );
+      if (!upload) break;
+
+      await fs.promises.unlink(upload.stagingPath).catch(() => undefined);
+      expiredCount++;
+    }
+
+    const { deletedCount } = await ResumableUpload.deleteMany({
+      status: { $nin: ['uploading', 'finalizing'] },
+      updatedAt: { $lte: new Date(Date.now() - FINISHED_RETENTION_DAYS * 24 * 60 * 60 * 1000) }
+    });
+
+    if (expiredCount > 0 || deletedCount > 0) {
+      logger.info('Cleaned up resumable uploads', { expiredCount, deletedCount });
+    }
+
+    return expiredCount;
+  }
+
+  private assertWritable(upload: IResumableUpload): void {
+    if (upload.status === 'expired' || (upload.status === 'uploading' && upload.expiresAt <= new Date())) {
+      throw new AppError('Upload has expired; start a new upload', 410);
+    }
+    if (upload.status !== 'uploading') {
+      throw new AppError(`Upload is already ${upload.status}`, 409);
+    }
+  }
+
+  /**
+   * `Upload-Checksum: <algorithm> <base64 digest>`, as in the tus checksum extension
+   */
+  private verifyChecksum(chunk: Buffer, header?: string): void {
+    const [algorithm, digest] = (header || '').trim().split(/\s+/);
+    if (!algorithm || !digest) {
+      throw new AppError('Upload-Checksum header is required (e.g. "sha256 <base64 digest>")', 400);
+    }
+    if (!CHECKSUM_ALGORITHMS.includes(algorithm.toLowerCase())) {
+      throw new AppError(`Unsupported checksum algorithm; use one of ${CHECKSUM_ALGORITHMS.join(', ')}`, 400);
+    }
+
+    const expected = Buffer.from(digest, 'base64');
+    const actual = crypto.createHash(algorithm.toLowerCase()).update(chunk).digest();
+    if (expected.length !== actual.length || !crypto.timingSafeEqual(expected, actual)) {
+      throw new AppError('Chunk checksum mismatch', CHECKSUM_MISMATCH_STATUS);
+    }
+  }
+
+  private nextExpiry(): Date {
+    return new Date(Date.now() + config.resumableUploads.expiryHours * 60 * 60 * 1000);
+  }
+}
+
+export default new ResumableUploadService();
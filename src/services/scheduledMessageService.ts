@@ -0,0 +1,187 @@
+import Chat, { IChat } from '@/models/Chat';
+import Message from '@/models/Message';
+import ScheduledMessage, { IScheduledMessage } from '@/models/ScheduledMessage';
+import User from '@/models/User';
+import { AppError } from '@/middleware/errorHandler';
+import disappearingMessageService from './disappearingMessageService';
+import messageDispatchService from './messageDispatchService';
+import logger from '@/utils/logger';
+
+export const MIN_SCHEDULE_DELAY_SECONDS = 60;
+export const MAX_SCHEDULE_AHEAD_DAYS = 365;
+export const MAX_PENDING_SCHEDULED_MESSAGES = 50;
+export const SCHEDULED_DISPATCH_BATCH_SIZE = 100;
+
+const MAX_DISPATCH_ATTEMPTS = 3;
+const STALE_LOCK_MS = 5 * 60 * 1000; // a worker that claimed a message this long ago is assumed dead
+const RETRY_BACKOFF_MS = 60 * 1000; // doubled after each failed attempt
+
+class ScheduledMessageService {
+  /**
+   * Validate the requested delivery time
+   */
+  parseScheduledFor(value: unknown): Date {
+    const scheduledFor = new Date(value as string);
+    if (!value || Number.isNaN(scheduledFor.getTime())) {
+      throw new AppError('scheduledFor must be a valid date', 400);
+    }
+
+    const now = Date.now();
+    if (scheduledFor.getTime() < now + MIN_SCHEDULE_DELAY_SECONDS * 1000) {
+      throw new AppError(`Messages must be scheduled at least ${MIN_SCHEDULE_DELAY_SECONDS} seconds ahead`, 400);
+    }
+    if (scheduledFor.getTime() > now + MAX_SCHEDULE_AHEAD_DAYS * 24 * 60 * 60 * 1000) {
+      throw new AppError(`Messages can be scheduled at most ${MAX_SCHEDULE_AHEAD_DAYS} days ahead`, 400);
+    }
+
+    return scheduledFor;
+  }
+
+  /**
+   * The chat with the user's active partner, created if it doesn't exist yet
+   */
+  async getActivePartnerChat(userId: string): Promise<IChat> {
+    const user = await User.findById(userId).select('partners');
+    const activePartner = user?.partners?.find(p => p.status === 'active');
+    if (!activePartner) {
+      throw new AppError('No active partner found', 404);
+    }
+
+    const chat = await Chat.findOne({
+      participants: { $all: [userId, activePartner.partnerId] },
+      isActive: true
+    });
+
+    return chat || Chat.create({ participants: [userId, activePartner.partnerId] });
+  }
+
+  /**
+   * Send every scheduled message that is due, including ones missed while the
+   * server was down. Each message is claimed atomically so it is sent once.
+   */
+  async dispatchDueMessages(): Promise<number> {
+    let dispatched = 0;
+
+    for (let i = 0; i < SCHEDULED_DISPATCH_BATCH_SIZE; i++) {
+      const now = new Date();
+      const claimed = await ScheduledMessage.findOneAndUpdate(
+        {
+          $or: [
+            {
+              status: 'scheduled',
+              scheduledFor: { $lte: now },
+              $or: [{ nextAttemptAt: { $exists: false } }, { nextAttemptAt: { $lte: now } }]
+            },
+            { status: 'sending', lockedAt: { $lte: new Date(now.getTime() - STALE_LOCK_MS) } }
+          ]
+        },
+        { $set: { status: 'sending', lockedAt: now }, $inc: { attempts: 1 }, $unset: { nextAttemptAt: 1 } },
+        { sort: { scheduledFor: 1 }, new: true }
+      );
+
+      if (!claimed) break;
+
+      if (await this.dispatchOne(claimed)) {
+        dispatched++;
+      }
+    }
+
+    if (dispatched > 0) {
+      logger.info('Dispatched scheduled messages', { count: dispatched });
+    }
+
+    return dispatched;
+  }
+
+  private async dispatchOne(scheduled: IScheduledMessage): Promise<boolean> {
+    try {
+      const senderId = scheduled.senderId.toString();
+      const chat = await Chat.findById(scheduled.chatId);
+      const chatAvailable = !!chat && chat.isActive && chat.participants.some(p => p.toString() === senderId);
+
+      // A previous attempt may have created the message before dying; finish delivering it
+      const existing = await Message.findOne({ scheduledMessageId: scheduled._id });
+      if (existing) {
+        let dispatched = false;
+        if (!existing.dispatchedAt && chat && chatAvailable) {
+          await existing.populate('senderId', 'name avatar');
+          await messageDispatchService.dispatch(chat, existing, senderId);
+          await Message.updateOne({ _id: existing._id }, { $set: { dispatchedAt: new Date() } });
+          dispatched = true;
+        }
+        await this.markSent(scheduled, existing.id);
+        return dispatched;
+      }
+
+      if (!chat || !chatAvailable) {
+        await this.markFailed(scheduled, 'Chat is no longer available');
+        return false;
+      }
+
+      let message;
+      try {
+        message = await Message.create({
+          chatId: chat._id,
+          senderId: scheduled.senderId,
+          content: scheduled.content,
+          type: scheduled.type,
+          replyTo: scheduled.replyTo,
+          scheduledMessageId: scheduled._id,
+          expiresAt: disappearingMessageService.resolveExpiresAt(chat, scheduled.ttlSeconds ?? undefined)
+        });
+      } catch (error) {
+        // Unique index on scheduledMessageId: another worker already sent it
+        if ((error as { code?: number }).code === 11000) {
+          return false;
+        }
+        throw error;
+      }
+
+      await message.populate('senderId', 'name avatar');
+      await messageDispatchService.dispatch(chat, message, senderId);
+      await Message.updateOne({ _id: message._id }, { $set: { dispatchedAt: new Date() } });
+      await this.markSent(scheduled, message.id);
+
+      return true;
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : 'Unknown error';
+      logger.error('Failed to dispatch scheduled message', { scheduledMessageId: scheduled.id, error: reason });
+
+      if (scheduled.attempts >= MAX_DISPATCH_ATTEMPTS) {
+        await this.markFailed(scheduled, reason);
+      } else {
+        // Back off so the retry isn't claimed again straight away
+        const backoffMs = RETRY_BACKOFF_MS * 2 ** (scheduled.attempts - 1);
+        await ScheduledMessage.updateOne(
+          { _id: scheduled._id, status: 'sending' },
+          { $set: { status: 'scheduled', nextAttemptAt: new Date(Date.now() + backoffMs) }, $unset: { lockedAt: 1 } }
+        );
+      }
+      return false;
+    }
+  }
+
+  private async markSent(scheduled: IScheduledMessage, messageId: string) {
+    await ScheduledMessage.updateOne(
+      { _id: scheduled._id },
+      { $set: { status: 'sent', messageId, sentAt: new Date() }, $unset: { lockedAt: 1 } }
+    );
+  }
+
+  private async markFailed(scheduled: IScheduledMessage, reason: string) {
+    // Once the chat message exists it was sent, even if its notifications weren't
+    const existing = await Message.findOne({ scheduledMessageId: scheduled._id }).select('_id');
+    if (existing) {
+      logger.warn('Scheduled message sent but not fully delivered', { scheduledMessageId: scheduled.id, error: reason });
+      await this.markSent(scheduled, existing.id);
+      return;
+    }
+
+    await ScheduledMessage.updateOne(
+      { _id: scheduled._id },
+      { $set: { status: 'failed', failureReason: reason }, $unset: { lockedAt: 1 } }
+    );
+  }
+}
+
+export default new ScheduledMessageService();
@@ -0,0 +1,110 @@
+import path from 'path';
+import { Readable } from 'stream';
+import { pipeline } from 'stream/promises';
+import axios from 'axios';
+import { v2 as cloudinary } from 'cloudinary';
+import { ByteRange, StorageProvider, StoredObjectInfo } from './storageProvider';
+
+export interface CloudinaryStorageOptions {
+  cloudName: string;
+  apiKey: string;
+  apiSecret: string;
+  folder?: string;
+}
+
+type CloudinaryResourceType = 'image' | 'video' | 'raw';
+
+const IMAGE_EXTENSIONS = ['.jpg', '.jpeg', '.png', '.gif', '.webp', '.bmp', '.tiff', '.heic', '.heif'];
+// Cloudinary files audio under the video resource type
+const VIDEO_EXTENSIONS = ['.mp4', '.mov', '.avi', '.wmv', '.flv', '.webm', '.mkv', '.mp3', '.m4a', '.aac', '.wav', '.ogg', '.flac'];
+
+/**
+ * Cloudinary, with every asset uploaded as `private` so it is only reachable
+ * through signed download URLs
+ */
+export class CloudinaryStorageProvider implements StorageProvider {
+  readonly name = 'cloudinary' as const;
+  private folder: string;
+
+  constructor(options: CloudinaryStorageOptions) {
+    if (!options.cloudName || !options.apiKey || !options.apiSecret) {
+      throw new Error('Cloudinary storage requires a cloud name, API key and API secret');
+    }
+
+    this.folder = (options.folder || '').replace(/\/+$/, '');
+    cloudinary.config({
+      cloud_name: options.cloudName,
+      api_key: options.apiKey,
+      api_secret: options.apiSecret,
+      secure: true
+    });
+  }
+
+  async put(key: string, body: Readable | Buffer): Promise<void> {
+    const { publicId, resourceType } = this.locate(key);
+
+    await new Promise<void>((resolve, reject) => {
+      const uploadStream = cloudinary.uploader.upload_stream({
+        public_id: publicId,
+        resource_type: resourceType,
+        type: 'private',
+        overwrite: true,
+        use_filename: false,
+        unique_filename: false
+      }, error => (error ? reject(new Error(error.message)) : resolve()));
+
+      const source = Buffer.isBuffer(body) ? Readable.from([body]) : body;
+      pipeline(source, uploadStream).catch(reject);
+    });
+  }
+
+  async getStream(key: string, range?: ByteRange): Promise<Readable> {
+    const url = await this.getSignedUrl(key, 60);
+    const response = await axios.get<Readable>(url, {
+      responseType: 'stream',
+      headers: range ? { Range: `bytes=${range.start}-${range.end ?? ''}` } : undefined
+    });
+    return response.data;
+  }
+
+  async stat(key: string): Promise<StoredObjectInfo | null> {
+    const { publicId, resourceType } = this.locate(key);
+    try {
+      const resource = await cloudinary.api.resource(publicId, { resource_type: resourceType, type: 'private' });
+      return { size: resource.bytes };
+    } catch (error) {
+      const apiError = error as { http_code?: number; error?: { http_code?: number } };
+      if (apiError.error?.http_code === 404 || apiError.http_code === 404) return null;
+      throw error;
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    const { publicId, resourceType } = this.locate(key);
+    await cloudinary.uploader.destroy(publicId, { resource_type: resourceType, type: 'private', invalidate: true });
+  }
+
+  async getSignedUrl(key: string, expiresInSeconds: number): Promise<string> {
+    const { publicId, resourceType, format } = this.locate(key);
+    return cloudinary.utils.private_download_url(publicId, format, {
+      resource_type: resourceType,
+      type: 'private',
+      expires_at: Math.floor(Date.now() / 1000) + expiresInSeconds
+    });
+  }
+
+  // Image and video public IDs exclude the extension (it becomes the format); raw ones keep it
+  private locate(key: string): { publicId: string; resourceType: CloudinaryResourceType; format: string } {
+    const ext = path.posix.extname(key).toLowerCase();
+    const resourceType: CloudinaryResourceType = IMAGE_EXTENSIONS.includes(ext)
+      ? 'image'
+      : VIDEO_EXTENSIONS.includes(ext) ? 'video' : 'raw';
+    const name = resourceType === 'raw' ? key : key.slice(0, key.length - ext.length);
+
+    return {
+      publicId: this.folder ? `${this.folder}/${name}` : name,
+      resourceType,
+      format: resourceType === 'raw' ? '' : ext.slice(1)
+    };
+  }
+}
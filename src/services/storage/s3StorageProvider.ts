@@ -0,0 +1,103 @@
+import { Readable } from 'stream';
+import {
+  DeleteObjectCommand,
+  GetObjectCommand,
+  HeadObjectCommand,
+  S3Client
+} from '@aws-sdk/client-s3';
+import { Upload } from '@aws-sdk/lib-storage';
+import { getSignedUrl } from '@aws-sdk/s3-request-presigner';
+import { ByteRange, PutObjectOptions, StorageProvider, StoredObjectInfo } from './storageProvider';
+
+export interface S3StorageOptions {
+  bucket: string;
+  region: string;
+  endpoint?: string; // for MinIO and other S3-compatible services
+  forcePathStyle?: boolean;
+  accessKeyId?: string;
+  secretAccessKey?: string;
+  keyPrefix?: string;
+}
+
+/**
+ * AWS S3 or any S3-compatible object store (MinIO, R2, Spaces, ...)
+ */
+export class S3StorageProvider implements StorageProvider {
+  readonly name = 's3' as const;
+  private client: S3Client;
+  private bucket: string;
+  private keyPrefix: string;
+
+  constructor(options: S3StorageOptions) {
+    if (!options.bucket) {
+      throw new Error('S3 storage requires a bucket name');
+    }
+
+    this.bucket = options.bucket;
+    this.keyPrefix = options.keyPrefix ? `${options.keyPrefix.replace(/\/+$/, '')}/` : '';
+    this.client = new S3Client({
+      region: options.region,
+      endpoint: options.endpoint || undefined,
+      forcePathStyle: options.forcePathStyle,
+      credentials: options.accessKeyId && options.secretAccessKey
+        ? { accessKeyId: options.accessKeyId, secretAccessKey: options.secretAccessKey }
+        : undefined
+    });
+  }
+
+  async put(key: string, body: Readable | Buffer, options: PutObjectOptions = {}): Promise<void> {
+    // Multipart upload handles streams of unknown length and large videos
+    const upload = new Upload({
+      client: this.client,
+      params: {
+        Bucket: this.bucket,
+        Key: this.objectKey(key),
+        Body: body,
+        ContentType: options.contentType,
+        ContentLength: options.contentLength
+      }
+    });
+    await upload.done();
+  }
+
+  async getStream(key: string, range?: ByteRange): Promise<Readable> {
+    const response = await this.client.send(new GetObjectCommand({
+      Bucket: this.bucket,
+      Key: this.objectKey(key),
+      Range: range ? `bytes=${range.start}-${range.end ?? ''}` : undefined
+    }));
+    return response.Body as Readable;
+  }
+
+  async stat(key: string): Promise<StoredObjectInfo | null> {
+    try {
+      const response = await this.client.send(new HeadObjectCommand({
+        Bucket: this.bucket,
+        Key: this.objectKey(key)
+      }));
+      return { size: response.ContentLength ?? 0, contentType: response.ContentType };
+    } catch (error) {
+      const serviceError = error as { name?: string; $metadata?: { httpStatusCode?: number } };
+      if (serviceError.name === 'NotFound' || serviceError.$metadata?.httpStatusCode === 404) return null;
+      throw error;
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.client.send(new DeleteObjectCommand({
+      Bucket: this.bucket,
+      Key: this.objectKey(key)
+    }));
+  }
+
+  async getSignedUrl(key: string, expiresInSeconds: number): Promise<string> {
+    return getSignedUrl(this.client, new GetObjectCommand({
+      Bucket: this.bucket,
+      Key: this.objectKey(key)
+    }), { expiresIn: expiresInSeconds });
+  }
+
+  private objectKey(key: string): string {
+    return `${this.keyPrefix}${key}`;
+  }
+}
@@ -0,0 +1,39 @@
+import { Readable } from 'stream';
+
+export interface PutObjectOptions {
+  contentType?: string;
+  contentLength?: number;
+}
+
+// Inclusive byte range, as in an HTTP Range header
+export interface ByteRange {
+  start: number;
+  end?: number;
+}
+
+export interface StoredObjectInfo {
+  size: number;
+  contentType?: string;
+}
+
+/**
+ * Where uploaded files live. Keys are relative paths such as `media/<uuid>.jpg`;
+ * the public `/uploads/<key>` URLs stored on documents stay the same whichever
+ * backend is configured.
+ */
+export interface StorageProvider {
+  readonly name: 'local' | 's3' | 'cloudinary';
+
+  put(key: string, body: Readable | Buffer, options?: PutObjectOptions): Promise<void>;
+
+  // Throws if the object does not exist; use stat() to check first
+  getStream(key: string, range?: ByteRange): Promise<Readable>;
+
+  // null when the object does not exist
+  stat(key: string): Promise<StoredObjectInfo | null>;
+
+  // Deleting a missing object is not an error
+  delete(key: string): Promise<void>;
+
+  getSignedUrl(key: string, expiresInSeconds: number): Promise<string>;
+}
@@ -0,0 +1,356 @@
+import fs from 'fs';
+import { Types } from 'mongoose';
+import StorageUsage, { IStorageUsage, STORAGE_CATEGORIES, StorageBreakdown, StorageCategory } from '@/models/StorageUsage';
+import Message from '@/models/Message';
+import MediaItem from '@/models/MediaItem';
+import DiaryEntry from '@/models/DiaryEntry';
+import Memory from '@/models/memory';
+import User from '@/models/User';
+import { AppError } from '@/middleware/errorHandler';
+import { config } from '@/config/env';
+import storageService, { StagedFile } from './storageService';
+import { formatBytes } from '@/utils/formatBytes';
+import logger from '@/utils/logger';
+
+export const STORAGE_QUOTA_EXCEEDED_STATUS = 413;
+export const DIARY_BACKFILL_BATCH_SIZE = 200;
+
+export interface StorageUsageSummary {
+  usedBytes: number;
+  quotaBytes: number | null; // null when unlimited
+  remainingBytes: number | null;
+  categories: StorageBreakdown;
+}
+
+export interface StorageUsageReport {
+  user: StorageUsageSummary & { reconciledAt?: Date };
+  couple: (StorageUsageSummary & { partnerId: string; partnerUsedBytes: number }) | null;
+}
+
+interface UsageRow {
+  userId: Types.ObjectId;
+  category: StorageCategory;
+  bytes: number;
+}
+
+const emptyBreakdown = (): StorageBreakdown =>
+  Object.fromEntries(STORAGE_CATEGORIES.map(category => [category, 0])) as StorageBreakdown;
+
+const summarize = (usedBytes: number, quotaBytes: number, categories: StorageBreakdown): StorageUsageSummary => ({
+  usedBytes,
+  quotaBytes: quotaBytes || null,
+  remainingBytes: quotaBytes ? Math.max(quotaBytes - usedBytes, 0) : null,
+  categories
+});
+
+class StorageQuotaService {
+  /**
+   * Refuse to store `bytes` more for the user when it would take them, or them and
+   * their partner together, past the configured quota. Only a pre-check (e.g. before
+   * a resumable upload starts); reserve() is what holds the space.
+   */
+  async assertCanStore(userId: string, bytes: number): Promise<void> {
+    const { userBytes, coupleBytes } = config.storageQuota;
+    if (bytes <= 0 || (!userBytes && !coupleBytes)) return;
+
+    const partnerId = await this.getPartnerId(userId);
+    const usages = await this.loadUsages(partnerId ? [userId, partnerId] : [userId]);
+    const userUsed = usages.get(userId)?.totalBytes || 0;
+
+    if (userBytes && userUsed + bytes > userBytes) {
+      throw this.userQuotaError(bytes, userUsed, userBytes);
+    }
+
+    if (partnerId && coupleBytes) {
+      const coupleUsed = userUsed + (usages.get(partnerId)?.totalBytes || 0);
+      if (coupleUsed + bytes > coupleBytes) {
+        throw this.coupleQuotaError(bytes, coupleUsed, coupleBytes);
+      }
+    }
+  }
+
+  /**
+   * Count `bytes` against one of the user's categories before the upload is stored,
+   * refusing like assertCanStore() when they don't fit. The user's total only grows
+   * while it still has room, so concurrent uploads can't all pass on the same usage.
+   * The couple's total spans two records: it is checked after the increment and the
+   * bytes are handed back when it went over. release() the bytes if the upload fails.
+   */
+  async reserve(userId: string, category: StorageCategory, bytes: number): Promise<void> {
+    const { userBytes, coupleBytes } = config.storageQuota;
+    if (bytes <= 0) return;
+    if (!userBytes && !coupleBytes) {
+      await this.record(userId, category, bytes);
+      return;
+    }
+
+    // Accounts that predate accounting are reconciled first so the condition sees real usage
+    await this.loadUsages([userId]);
+
+    const usage = await StorageUsage.findOneAndUpdate(
+      userBytes ? { userId, totalBytes: { $lte: userBytes - bytes } } : { userId },
+      { $inc: { [`categories.${category}`]: bytes, totalBytes: bytes } },
+      { new: true }
+    );
+    if (!usage) {
+      const current = await StorageUsage.findOne({ userId }).select('totalBytes');
+      throw this.userQuotaError(bytes, current?.totalBytes || 0, userBytes);
+    }
+
+    const partnerId = coupleBytes ? await this.getPartnerId(userId) : undefined;
+    if (partnerId) {
+      const partnerUsed = (await this.loadUsages([partnerId])).get(partnerId)?.totalBytes || 0;
+      const coupleUsed = usage.totalBytes - bytes + partnerUsed;
+      if (coupleUsed + bytes > coupleBytes) {
+        await this.release(userId, category, bytes);
+        throw this.coupleQuotaError(bytes, coupleUsed, coupleBytes);
+      }
+    }
+  }
+
+  /**
+   * reserve() for staged uploads: the files are deleted when they don't fit.
+   * Returns the bytes reserved.
+   */
+  async reserveUploads(userId: string, category: StorageCategory, files: StagedFile[]): Promise<number> {
+    const bytes = files.reduce((sum, file) => sum + file.size, 0);
+    try {
+      await this.reserve(userId, category, bytes);
+    } catch (error) {
+      await Promise.all(files.map(file => fs.promises.unlink(file.path).catch(() => undefined)));
+      throw error;
+    }
+    return bytes;
+  }
+
+  /**
+   * Hand back bytes reserved for an upload that failed
+   */
+  async release(userId: string, category: StorageCategory, bytes: number): Promise<void> {
+    await this.record(userId, category, -bytes);
+  }
+
+  /**
+   * Add (or with a negative count, release) bytes in one of the user's categories.
+   * Failures are only logged: the upload is already stored and reconciliation
+   * corrects the totals.
+   */
+  async record(userId: string | Types.ObjectId, category: StorageCategory, bytes: number | undefined): Promise<void> {
+    if (!bytes) return;
+
+    try {
+      await StorageUsage.updateOne(
+        { userId },
+        { $inc: { [`categories.${category}`]: bytes, totalBytes: bytes } },
+        { upsert: true }
+      );
+    } catch (error) {
+      logger.error('Failed to record storage usage', {
+        userId: userId.toString(),
+        category,
+        bytes,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  }
+
+  /**
+   * The user's usage per category against their quota, plus the couple's combined usage
+   * against the shared quota when they have an active partner
+   */
+  async getUsage(userId: string): Promise<StorageUsageReport> {
+    const { userBytes, coupleBytes } = config.storageQuota;
+    const partnerId = await this.getPartnerId(userId);
+    const usages = await this.loadUsages(partnerId ? [userId, partnerId] : [userId]);
+
+    const userUsage = usages.get(userId);
+    const userCategories = this.breakdownOf(userUsage);
+    const report: StorageUsageReport = {
+      user: { ...summarize(userUsage?.totalBytes || 0, userBytes, userCategories), reconciledAt: userUsage?.reconciledAt },
+      couple: null
+    };
+
+    if (partnerId) {
+      const partnerUsage = usages.get(partnerId);
+      const partnerCategories = this.breakdownOf(partnerUsage);
+      const coupleCategories = Object.fromEntries(STORAGE_CATEGORIES.map(category =>
+        [category, userCategories[category] + partnerCategories[category]])) as StorageBreakdown;
+
+      report.couple = {
+        ...summarize(report.user.usedBytes + (partnerUsage?.totalBytes || 0), coupleBytes, coupleCategories),
+        partnerId,
+        partnerUsedBytes: partnerUsage?.totalBytes || 0
+      };
+    }
+
+    return report;
+  }
+
+  /**
+   * Recompute usage from the messages, media items, diary entries and memories that
+   * reference stored files, for the given users or everyone. Uploads recorded while
+   * this runs can be missed until the next run. Returns the number of users updated.
+   */
+  async reconcile(userIds?: Array<string | Types.ObjectId>): Promise<number> {
+    const startedAt = new Date();
+    const ids = userIds?.map(id => new Types.ObjectId(id.toString()));
+
+    await this.backfillDiaryImageBytes(ids);
+    const rows = await this.sumUploads(ids);
+
+    const byUser = new Map<string, StorageBreakdown>();
+    rows.forEach(row => {
+      const key = row.userId.toString();
+      const categories = byUser.get(key) || emptyBreakdown();
+      categories[row.category] += row.bytes;
+      byUser.set(key, categories);
+    });
+
+    // Everyone in scope gets a record, so users without uploads show up as zero
+    ids?.forEach(id => {
+      if (!byUser.has(id.toString())) byUser.set(id.toString(), emptyBreakdown());
+    });
+
+    if (byUser.size > 0) {
+      await StorageUsage.bulkWrite([...byUser].map(([userId, categories]) => ({
+        updateOne: {
+          filter: { userId: new Types.ObjectId(userId) },
+          update: {
+            $set: {
+              categories,
+              totalBytes: Object.values(categories).reduce((sum, bytes) => sum + bytes, 0),
+              reconciledAt: startedAt
+            }
+          },
+          upsert: true
+        }
+      })));
+    }
+
+    // A full run also clears users whose files are all gone
+    if (!ids) {
+      await StorageUsage.updateMany(
+        { $or: [{ reconciledAt: { $exists: false } }, { reconciledAt: { $lt: startedAt } }] },
+        { $set: { categories: emptyBreakdown(), totalBytes: 0, reconciledAt: startedAt } }
+      );
+    }
+
+    logger.info('Reconciled storage usage', { users: byUser.size, scope: ids ? 'users' : 'all' });
+    return byUser.size;
+  }
+
+  private userQuotaError(bytes: number, used: number, quota: number): AppError {
+    return new AppError(
+      `Not enough storage: this upload needs ${formatBytes(bytes)} but you have used ${formatBytes(used)} of your ${formatBytes(quota)}`,
+      STORAGE_QUOTA_EXCEEDED_STATUS
+    );
+  }
+
+  private coupleQuotaError(bytes: number, used: number, quota: number): AppError {
+    return new AppError(
+      `Not enough storage: this upload needs ${formatBytes(bytes)} but the two of you have used ${formatBytes(used)} of your shared ${formatBytes(quota)}`,
+      STORAGE_QUOTA_EXCEEDED_STATUS
+    );
+  }
+
+  private async getPartnerId(userId: string): Promise<string | undefined> {
+    const user = await User.findById(userId).select('partners');
+    return user?.partners?.find(p => p.status === 'active')?.partnerId.toString();
+  }
+
+  /**
+   * Usage records by user id; users without one yet (accounts that predate
+   * accounting) are reconciled first
+   */
+  private async loadUsages(userIds: string[]): Promise<Map<string, IStorageUsage>> {
+    let usages = await StorageUsage.find({ userId: { $in: userIds } });
+    const missing = userIds.filter(id => !usages.some(usage => usage.userId.toString() === id));
+
+    if (missing.length > 0) {
+      await this.reconcile(missing);
+      usages = await StorageUsage.find({ userId: { $in: userIds } });
+    }
+
+    return new Map(usages.map(usage => [usage.userId.toString(), usage]));
+  }
+
+  private breakdownOf(usage?: IStorageUsage): StorageBreakdown {
+    const categories = emptyBreakdown();
+    STORAGE_CATEGORIES.forEach(category => {
+      categories[category] = usage?.categories?.[category] || 0;
+    });
+    return categories;
+  }
+
+  private async sumUploads(userIds?: Types.ObjectId[]): Promise<UsageRow[]> {
+    const ownedBy = (field: string) => (userIds ? { [field]: { $in: userIds } } : {});
+
+    const [messages, mediaItems, diaryEntries, memories] = await Promise.all([
+      // Deleted messages have had their files removed; ones deleted for everyone keep them
+      Message.aggregate([
+        { $match: { ...ownedBy('senderId'), isDeleted: false, fileSize: { $gt: 0 } } },
+        { $group: { _id: { userId: '$senderId', voice: { $eq: ['$type', 'voice'] } }, bytes: { $sum: '$fileSize' } } }
+      ]),
+      MediaItem.aggregate([
+        { $match: { ...ownedBy('userId'), isDeleted: false } },
+        { $group: { _id: '$userId', bytes: { $sum: '$fileSize' } } }
+      ]),
+      // Deleted diary entries and memories can be restored, so their files still count
+      DiaryEntry.aggregate([
+        { $match: { ...ownedBy('authorId'), imageBytes: { $gt: 0 } } },
+        { $group: { _id: '$authorId', bytes: { $sum: '$imageBytes' } } }
+      ]),
+      Memory.aggregate([
+        { $match: ownedBy('uploadedBy') },
+        { $group: { _id: '$uploadedBy', bytes: { $sum: '$fileSize' } } }
+      ])
+    ]);
+
+    const owned = (category: StorageCategory) => (row: { _id: Types.ObjectId; bytes: number }): UsageRow =>
+      ({ userId: row._id, category, bytes: row.bytes });
+
+    return [
+      ...messages.map(row => ({ userId: row._id.userId, category: row._id.voice ? 'voiceNotes' : 'chatFiles', bytes: row.bytes } as UsageRow)),
+      ...mediaItems.map(owned('mediaItems')),
+      ...diaryEntries.map(owned('diaryImages')),
+      ...memories.map(owned('memories'))
+    ];
+  }
+
+  /**
+   * Diary entries saved before image sizes were tracked: read the sizes back from
+   * storage. Entries are marked as checked, so ones whose files are gone (and stay
+   * at zero) don't hold up the rest.
+   */
+  private async backfillDiaryImageBytes(userIds?: Types.ObjectId[]): Promise<void> {
+    const entries = await DiaryEntry.find({
+      ...(userIds ? { authorId: { $in: userIds } } : {}),
+      imageBytes: { $in: [0, null] },
+      imageBytesCheckedAt: { $exists: false },
+      'images.0': { $exists: true }
+    })
+      .select('images')
+      .limit(DIARY_BACKFILL_BATCH_SIZE);
+
+    for (const entry of entries) {
+      try {
+        const sizes = await Promise.all(entry.images.map(async url => {
+          const key = storageService.keyFromUrl(url);
+          return key ? (await storageService.stat(key))?.size || 0 : 0;
+        }));
+        await DiaryEntry.updateOne(
+          { _id: entry._id },
+          { $set: { imageBytes: sizes.reduce((sum, size) => sum + size, 0), imageBytesCheckedAt: new Date() } },
+          { timestamps: false }
+        );
+      } catch (error) {
+        logger.warn('Could not read diary image sizes', {
+          entryId: entry.id,
+          error: error instanceof Error ? error.message : 'Unknown error'
+        });
+      }
+    }
+  }
+}
+
+export default new StorageQuotaService();
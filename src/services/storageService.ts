@@ -0,0 +1,126 @@
+import fs from 'fs';
+import path from 'path';
+import { Readable } from 'stream';
+import { config } from '@/config/env';
+import { ByteRange, StorageProvider, StoredObjectInfo } from './storage/storageProvider';
+import { LocalStorageProvider } from './storage/localStorageProvider';
+import { S3StorageProvider } from './storage/s3StorageProvider';
+import { CloudinaryStorageProvider } from './storage/cloudinaryStorageProvider';
+import logger from '@/utils/logger';
+
+export const UPLOADS_URL_PREFIX = '/uploads/';
+
+// The parts of a multer file we need; resumable uploads build the same shape
+export type StagedFile = Pick<Express.Multer.File, 'path' | 'filename' | 'originalname' | 'mimetype' | 'size'>;
+
+export const createStorageProvider = (storageConfig = config.storage): StorageProvider => {
+  switch (storageConfig.provider) {
+  case 's3':
+    return new S3StorageProvider(storageConfig.s3);
+  case 'cloudinary':
+    return new CloudinaryStorageProvider(storageConfig.cloudinary);
+  case 'local':
+    return new LocalStorageProvider(config.upload.path);
+  default:
+    throw new Error(`Unknown storage provider: ${storageConfig.provider}`);
+  }
+};
+
+class StorageService {
+  private provider: StorageProvider;
+
+  constructor(provider: StorageProvider = createStorageProvider()) {
+    this.provider = provider;
+  }
+
+  get providerName(): StorageProvider['name'] {
+    return this.provider.name;
+  }
+
+  /**
+   * Replace the storage backend (used by tests, e.g. against a local MinIO)
+   */
+  setProvider(provider: StorageProvider): void {
+    this.provider = provider;
+  }
+
+  /**
+   * Directory multer writes incoming files to before they are processed and stored
+   */
+  getStagingDir(subdir = ''): string {
+    const dir = path.join(config.upload.tempPath, subdir);
+    if (!fs.existsSync(dir)) {
+      fs.mkdirSync(dir, { recursive: true });
+    }
+    return dir;
+  }
+
+  /**
+   * Storage key for an `/uploads/...` URL, or null for anything else (external links)
+   */
+  keyFromUrl(url?: string): string | null {
+    if (!url?.startsWith(UPLOADS_URL_PREFIX)) return null;
+
+    const key = path.posix.normalize(url.slice(UPLOADS_URL_PREFIX.length).split('?')[0]);
+    return key && !key.startsWith('..') && !path.posix.isAbsolute(key) ? key : null;
+  }
+
+  urlForKey(key: string): string {
+    return `${UPLOADS_URL_PREFIX}${key}`;
+  }
+
+  /**
+   * Move a staged local file into storage and return its public URL. The local
+   * copy is removed unless keepLocal is set (media processing still needs it).
+   */
+  async putFile(key: string, filePath: string, contentType?: string, options: { keepLocal?: boolean } = {}): Promise<string> {
+    const { size } = await fs.promises.stat(filePath);
+    await this.provider.put(key, fs.createReadStream(filePath), { contentType, contentLength: size });
+
+    if (!options.keepLocal) {
+      await fs.promises.unlink(filePath).catch(() => undefined);
+    }
+    return this.urlForKey(key);
+  }
+
+  /**
+   * Store a multer upload under `<prefix>/<generated filename>`
+   */
+  async putUpload(file: StagedFile, options: { prefix?: string; keepLocal?: boolean } = {}): Promise<string> {
+    const key = options.prefix ? path.posix.join(options.prefix, file.filename) : file.filename;
+    return this.putFile(key, file.path, file.mimetype, options);
+  }
+
+  async stat(key: string): Promise<StoredObjectInfo | null> {
+    return this.provider.stat(key);
+  }
+
+  async getStream(key: string, range?: ByteRange): Promise<Readable> {
+    return this.provider.getStream(key, range);
+  }
+
+  async getSignedUrl(key: string, expiresInSeconds = config.storage.signedUrlTtlSeconds): Promise<string> {
+    return this.provider.getSignedUrl(key, expiresInSeconds);
+  }
+
+  /**
+   * Delete stored files by their `/uploads/...` URLs. Best effort: failures are logged.
+   */
+  async deleteByUrls(urls: Array<string | undefined>): Promise<void> {
+    const keys = [...new Set(urls.map(url => this.keyFromUrl(url)).filter((key): key is string => !!key))];
+
+    await Promise.all(keys.map(async key => {
+      try {
+        await this.provider.delete(key);
+      } catch (error) {
+        logger.warn('Failed to delete stored file', {
+          key,
+          provider: this.provider.name,
+          error: error instanceof Error ? error.message : 'Unknown error'
+        });
+      }
+    }));
+  }
+}
+
+export default new StorageService();
@@ -0,0 +1,142 @@
+import fs from 'fs';
+import { AppError } from '@/middleware/errorHandler';
+import { UploadScanStatus } from '@/models/MediaVariant';
+import { config } from '@/config/env';
+import malwareScanService from './malwareScanService';
+import { StagedFile } from './storageService';
+import { SNIFF_BYTES, checkSignature } from '@/utils/fileSignature';
+import logger from '@/utils/logger';
+
+// Storage prefix for infected uploads; these keys are never signed or served
+export const QUARANTINE_PREFIX = 'quarantine';
+
+export interface UploadScanResult {
+  scanStatus?: UploadScanStatus;
+  threat?: string;
+}
+
+const SVG_ACTIVE_CONTENT: Array<[RegExp, string]> = [
+  [/<script[\s>/]/i, 'scripts'],
+  [/<(foreignObject|iframe|embed|object)[\s>/]/i, 'embedded documents'],
+  [/[\s"'/]on[a-z]+\s*=/i, 'event handler attributes'],
+  [/<!ENTITY/i, 'entity declarations']
+];
+
+const codePoint = (code: number) => (code <= 0x10ffff ? String.fromCodePoint(code) : '');
+
+/**
+ * What makes an SVG unsafe to open in a browser (scripts, handlers, script URLs),
+ * or null when it is plain vector art
+ */
+export const findSvgActiveContent = (svg: string): string | null => {
+  for (const [pattern, description] of SVG_ACTIVE_CONTENT) {
+    if (pattern.test(svg)) return description;
+  }
+
+  // Browsers decode entities and ignore whitespace inside URL schemes
+  const normalized = svg
+    .replace(/&#x([0-9a-f]+);?/gi, (_, hex) => codePoint(parseInt(hex, 16)))
+    .replace(/&#(\d+);?/g, (_, dec) => codePoint(parseInt(dec, 10)))
+    .replace(/&colon;/gi, ':')
+    .replace(/&(tab|newline);/gi, '')
+    .replace(/\s+/g, '')
+    .split('')
+    .filter(char => char > '\u001f')
+    .join('');
+  if (/(javascript|vbscript):|data:text\/html/i.test(normalized)) {
+    return 'script URLs';
+  }
+
+  return null;
+};
+
+const readHeader = async (filePath: string): Promise<Buffer> => {
+  const handle = await fs.promises.open(filePath, 'r');
+  try {
+    const buffer = Buffer.alloc(SNIFF_BYTES);
+    const { bytesRead } = await handle.read(buffer, 0, SNIFF_BYTES, 0);
+    return buffer.subarray(0, bytesRead);
+  } finally {
+    await handle.close();
+  }
+};
+
+class UploadSafetyService {
+  /**
+   * Check an upload before it is stored: its content must really be the declared
+   * type (and fit its extension), SVGs may not carry scripts, and when a scanner is
+   * configured the file is scanned. Files failing a check are deleted and rejected;
+   * infected files come back as `quarantined` for the caller to store out of reach.
+   */
+  async inspect(file: StagedFile): Promise<UploadScanResult> {
+    try {
+      await this.checkContent(file);
+    } catch (error) {
+      await fs.promises.unlink(file.path).catch(() => undefined);
+      throw error;
+    }
+
+    return this.scan(file);
+  }
+
+  /**
+   * inspect() for uploads that have no quarantine state (diary, memories):
+   * infected files are deleted and refused
+   */
+  async assertSafe(file: StagedFile): Promise<void> {
+    const result = await this.inspect(file);
+    if (result.scanStatus === 'quarantined') {
+      await fs.promises.unlink(file.path).catch(() => undefined);
+      throw new AppError('File was rejected by the malware scan', 422);
+    }
+  }
+
+  private async checkContent(file: StagedFile): Promise<void> {
+    const header = await readHeader(file.path);
+    const check = checkSignature(header, file.mimetype, file.originalname);
+    if (!check.ok) {
+      logger.warn('Rejected upload whose content does not match its type', {
+        fileName: file.originalname,
+        mimeType: file.mimetype,
+        reason: check.reason
+      });
+      throw new AppError(check.reason || 'File type not allowed', 400);
+    }
+
+    if (file.mimetype.toLowerCase() === 'image/svg+xml') {
+      const activeContent = findSvgActiveContent(await fs.promises.readFile(file.path, 'utf8'));
+      if (activeContent) {
+        logger.warn('Rejected SVG upload with active content', { fileName: file.originalname, activeContent });
+        throw new AppError(`SVG files may not contain ${activeContent}`, 400);
+      }
+    }
+  }
+
+  private async scan(file: StagedFile): Promise<UploadScanResult> {
+    if (!malwareScanService.isEnabled()) {
+      return {};
+    }
+
+    try {
+      const verdict = await malwareScanService.scanFile(file.path);
+      if (verdict.infected) {
+        logger.warn('Quarantined infected upload', { fileName: file.originalname, threat: verdict.signature });
+        return { scanStatus: 'quarantined', threat: verdict.signature };
+      }
+      return { scanStatus: 'clean' };
+    } catch (error) {
+      logger.error('Malware scan failed', {
+        fileName: file.originalname,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+
+      if (config.malwareScan.failClosed) {
+        await fs.promises.unlink(file.path).catch(() => undefined);
+        throw new AppError('Uploads cannot be scanned right now, please try again later', 503);
+      }
+      return {};
+    }
+  }
+}
+
+export default new UploadSafetyService();
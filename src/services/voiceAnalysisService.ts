@@ -0,0 +1,125 @@
+import fs from 'fs';
+import { AppError } from '@/middleware/errorHandler';
+import { config } from '@/config/env';
+import logger from '@/utils/logger';
+import { runProcess } from '@/utils/runProcess';
+
+export interface VoiceAnalysis {
+  duration: number; // seconds, one decimal
+  waveform: number[]; // peaks in 0..1, loudest = 1
+}
+
+// Decoded to mono 16-bit PCM at a low rate; plenty for peaks and duration
+const ANALYSIS_SAMPLE_RATE = 8000;
+const BYTES_PER_SAMPLE = 2;
+const DECODE_TIMEOUT_MS = 30 * 1000;
+
+/**
+ * Reduce PCM samples to `length` peaks normalised so the loudest bar is 1.
+ * Silence yields all zeros.
+ */
+export const computeWaveform = (samples: Int16Array, length: number): number[] => {
+  const peaks = new Array<number>(length).fill(0);
+  if (samples.length === 0) return peaks;
+
+  for (let bar = 0; bar < length; bar++) {
+    const start = Math.floor((bar * samples.length) / length);
+    const end = Math.max(Math.floor(((bar + 1) * samples.length) / length), start + 1);
+    let peak = 0;
+    for (let i = start; i < end && i < samples.length; i++) {
+      const value = Math.abs(samples[i]);
+      if (value > peak) peak = value;
+    }
+    peaks[bar] = peak;
+  }
+
+  const loudest = Math.max(...peaks);
+  return loudest === 0 ? peaks : peaks.map(peak => Math.round((peak / loudest) * 100) / 100);
+};
+
+class VoiceAnalysisService {
+  /**
+   * Decode an uploaded voice note (ogg/m4a/aac/mp3/wav/...) and measure its
+   * duration and waveform. Corrupt or overlong audio is deleted and rejected
+   * with a 400. Returns null when no decoder is installed on this server.
+   */
+  async analyzeUpload(file: Express.Multer.File): Promise<VoiceAnalysis | null> {
+    try {
+      return await this.analyze(file.path);
+    } catch (error) {
+      const spawnError = error as NodeJS.ErrnoException;
+      if (spawnError.code === 'ENOENT' && spawnError.path) {
+        logger.error('ffmpeg is not installed; voice messages are stored without server-side analysis', {
+          command: spawnError.path
+        });
+        return null;
+      }
+
+      await fs.promises.unlink(file.path).catch(() => undefined);
+      if (error instanceof AppError) throw error;
+
+      logger.warn('Rejected undecodable voice upload', {
+        fileName: file.originalname,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+      throw new AppError('Voice message could not be decoded', 400);
+    }
+  }
+
+  async analyze(filePath: string): Promise<VoiceAnalysis> {
+    const maxDuration = config.media.voiceMaxDurationSeconds;
+
+    // Containers usually state their length; refuse long files before decoding them
+    const declared = await this.probeDuration(filePath);
+    if (declared !== null && declared > maxDuration + 1) {
+      throw new AppError(`Voice messages can be at most ${maxDuration} seconds long`, 400);
+    }
+
+    // Decode at most one second past the limit, so a lying header can't make us decode forever
+    const pcm = await runProcess(config.media.ffmpegPath, [
+      '-v', 'error',
+      '-i', filePath,
+      '-t', String(maxDuration + 1),
+      '-vn', '-ac', '1', '-ar', String(ANALYSIS_SAMPLE_RATE),
+      '-f', 's16le', 'pipe:1'
+    ], {
+      timeoutMs: DECODE_TIMEOUT_MS,
+      maxOutputBytes: (maxDuration + 2) * ANALYSIS_SAMPLE_RATE * BYTES_PER_SAMPLE
+    });
+
+    const sampleCount = Math.floor(pcm.length / BYTES_PER_SAMPLE);
+    if (sampleCount === 0) {
+      throw new AppError('Voice message contains no audio', 400);
+    }
+
+    const duration = sampleCount / ANALYSIS_SAMPLE_RATE;
+    if (duration > maxDuration + 0.5) {
+      throw new AppError(`Voice messages can be at most ${maxDuration} seconds long`, 400);
+    }
+
+    // Copy into an aligned buffer; the decoder output may start at an odd offset
+    const samples = new Int16Array(sampleCount);
+    for (let i = 0; i < sampleCount; i++) {
+      samples[i] = pcm.readInt16LE(i * BYTES_PER_SAMPLE);
+    }
+
+    return {
+      duration: Math.round(duration * 10) / 10,
+      waveform: computeWaveform(samples, config.media.voiceWaveformLength)
+    };
+  }
+
+  private async probeDuration(filePath: string): Promise<number | null> {
+    const output = await runProcess(config.media.ffprobePath, [
+      '-v', 'error',
+      '-show_entries', 'format=duration',
+      '-of', 'default=noprint_wrappers=1:nokey=1',
+      filePath
+    ], { timeoutMs: DECODE_TIMEOUT_MS });
+
+    const duration = parseFloat(output.toString().trim());
+    return Number.isFinite(duration) ? duration : null;
+  }
+}
+
+export default new VoiceAnalysisService();
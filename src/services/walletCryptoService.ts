@@ -0,0 +1,241 @@
+import crypto from 'crypto';
+import WalletKey from '@/models/WalletKey';
+import WalletItem, { IWalletItem } from '@/models/WalletItem';
+import { config } from '@/config/env';
+import logger from '@/utils/logger';
+
+const CIPHER_ALGORITHM = 'aes-256-gcm';
+const IV_LENGTH = 12;
+const DATA_KEY_LENGTH = 32;
+
+export interface EncryptedSecret {
+  ciphertext: string;
+  keyVersion: number;
+}
+
+export interface KeyRotationResult {
+  version: number;
+  reencryptedCount: number;
+}
+
+class WalletCryptoService {
+  /**
+   * Couples are identified by their sorted user id pair, so both partners share one key
+   */
+  getCoupleId(userId: string, partnerId: string): string {
+    return [userId.toString(), partnerId.toString()].sort().join(':');
+  }
+
+  /**
+   * Encrypt a wallet secret with the couple's active data key
+   */
+  async encryptSecret(userId: string, partnerId: string, plaintext: string): Promise<EncryptedSecret> {
+    const { version, dataKey } = await this.getActiveDataKey(userId, partnerId);
+
+    return {
+      ciphertext: this.seal(dataKey, Buffer.from(plaintext, 'utf8')),
+      keyVersion: version
+    };
+  }
+
+  /**
+   * Seal a social media item's password with the couple's data key if it changed.
+   * Call before saving an item whose password may have been set.
+   */
+  async sealPassword(item: IWalletItem): Promise<void> {
+    if (item.category !== 'socialmedia' || !item.password || !item.isModified('password')) {
+      return;
+    }
+
+    const { ciphertext, keyVersion } = await this.encryptSecret(
+      item.userId.toString(),
+      item.partnerId.toString(),
+      item.password
+    );
+
+    item.password = ciphertext;
+    item.isEncrypted = true;
+    item.encryptionKeyVersion = keyVersion;
+  }
+
+  /**
+   * Decrypt a wallet secret using the data key version it was sealed with
+   */
+  async decryptSecret(userId: string, partnerId: string, ciphertext: string, keyVersion: number): Promise<string> {
+    const coupleId = this.getCoupleId(userId, partnerId);
+    const walletKey = await WalletKey.findOne({ coupleId, version: keyVersion });
+
+    if (!walletKey) {
+      throw new Error(`Wallet data key v${keyVersion} not found`);
+    }
+
+    const dataKey = this.unwrapDataKey(walletKey.wrappedKey, walletKey.masterKeyId);
+    return this.open(dataKey, ciphertext).toString('utf8');
+  }
+
+  /**
+   * Issue a new data key for the couple and re-encrypt every secret with it
+   */
+  async rotateCoupleKey(userId: string, partnerId: string): Promise<KeyRotationResult> {
+    const coupleId = this.getCoupleId(userId, partnerId);
+
+    const previousKey = await WalletKey.findOne({ coupleId, status: 'active' }).sort({ version: -1 });
+    const newKey = await this.createDataKey(userId, partnerId, (previousKey?.version || 0) + 1);
+
+    if (previousKey) {
+      previousKey.status = 'retired';
+      previousKey.retiredAt = new Date();
+      await previousKey.save();
+    }
+
+    const items = await WalletItem.find({
+      category: 'socialmedia',
+      encryptionKeyVersion: { $exists: true },
+      $or: [
+        { userId, partnerId },
+        { userId: partnerId, partnerId: userId }
+      ]
+    });
+
+    let reencryptedCount = 0;
+    for (const item of items) {
+      if (item.encryptionKeyVersion === newKey.version) continue;
+
+      item.password = await this.decryptSecret(userId, partnerId, item.password as string, item.encryptionKeyVersion as number);
+      await this.sealPassword(item);
+      await item.save();
+      reencryptedCount++;
+    }
+
+    logger.info('Rotated wallet data key', { coupleId, version: newKey.version, reencryptedCount });
+
+    return { version: newKey.version, reencryptedCount };
+  }
+
+  /**
+   * Re-wrap every data key that is still sealed with an older master key
+   */
+  async rewrapDataKeys(): Promise<number> {
+    const { masterKeyId } = config.wallet;
+    const staleKeys = await WalletKey.find({ masterKeyId: { $ne: masterKeyId } });
+
+    for (const walletKey of staleKeys) {
+      const dataKey = this.unwrapDataKey(walletKey.wrappedKey, walletKey.masterKeyId);
+      walletKey.wrappedKey = this.seal(this.getMasterKey(masterKeyId), dataKey);
+      walletKey.masterKeyId = masterKeyId;
+      await walletKey.save();
+    }
+
+    logger.info('Re-wrapped wallet data keys', { count: staleKeys.length, masterKeyId });
+
+    return staleKeys.length;
+  }
+
+  /**
+   * Encrypt social media passwords that were stored before encryption existed.
+   * Only a key version marks a password as sealed by the server; `isEncrypted`
+   * on older items was set by clients and says nothing about the stored value.
+   */
+  async migratePlaintextItems(): Promise<number> {
+    const items = await WalletItem.find({
+      category: 'socialmedia',
+      encryptionKeyVersion: { $exists: false },
+      password: { $exists: true, $ne: '' }
+    });
+
+    for (const item of items) {
+      item.markModified('password');
+      await this.sealPassword(item);
+      await item.save();
+    }
+
+    logger.info('Encrypted plaintext wallet items', { count: items.length });
+
+    return items.length;
+  }
+
+  private async getActiveDataKey(userId: string, partnerId: string): Promise<{ version: number; dataKey: Buffer }> {
+    const coupleId = this.getCoupleId(userId, partnerId);
+    let walletKey = await WalletKey.findOne({ coupleId, status: 'active' }).sort({ version: -1 });
+
+    if (!walletKey) {
+      try {
+        walletKey = await this.createDataKey(userId, partnerId, 1);
+      } catch (error) {
+        // Both partners saved at once; use the key the other request created
+        if ((error as { code?: number }).code !== 11000) throw error;
+        walletKey = await WalletKey.findOne({ coupleId, status: 'active' }).sort({ version: -1 });
+        if (!walletKey) throw error;
+      }
+    }
+
+    return {
+      version: walletKey.version,
+      dataKey: this.unwrapDataKey(walletKey.wrappedKey, walletKey.masterKeyId)
+    };
+  }
+
+  private async createDataKey(userId: string, partnerId: string, version: number) {
+    const { masterKeyId } = config.wallet;
+    const dataKey = crypto.randomBytes(DATA_KEY_LENGTH);
+
+    return WalletKey.create({
+      coupleId: this.getCoupleId(userId, partnerId),
+      userIds: [userId, partnerId],
+      version,
+      wrappedKey: this.seal(this.getMasterKey(masterKeyId), dataKey),
+      masterKeyId,
+      status: 'active'
+    });
+  }
+
+  private unwrapDataKey(wrappedKey: string, masterKeyId: string): Buffer {
+    return this.open(this.getMasterKey(masterKeyId), wrappedKey);
+  }
+
+  private getMasterKey(masterKeyId: string): Buffer {
+    const secrets = new Map<string, string>();
+
+    config.wallet.previousMasterKeys
+      .split(',')
+      .map(entry => entry.trim())
+      .filter(Boolean)
+      .forEach(entry => {
+        const separator = entry.indexOf(':');
+        if (separator > 0) {
+          secrets.set(entry.slice(0, separator), entry.slice(separator + 1));
+        }
+      });
+    secrets.set(config.wallet.masterKeyId, config.wallet.masterKey);
+
+    const secret = secrets.get(masterKeyId);
+    if (!secret) {
+      throw new Error(`Wallet master key "${masterKeyId}" is not configured`);
+    }
+
+    // Derive a fixed-length AES key from whatever secret format the env provides
+    return crypto.createHash('sha256').update(secret).digest();
+  }
+
+  private seal(key: Buffer, plaintext: Buffer): string {
+    const iv = crypto.randomBytes(IV_LENGTH);
+    const cipher = crypto.createCipheriv(CIPHER_ALGORITHM, key, iv);
+    const encrypted = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+    const authTag = cipher.getAuthTag();
+
+    return [iv, authTag, encrypted].map(part => part.toString('base64')).join(':');
+  }
+
+  private open(key: Buffer, payload: string): Buffer {
+    const [iv, authTag, encrypted] = payload.split(':').map(part => Buffer.from(part, 'base64'));
+    if (!iv || !authTag || !encrypted) {
+      throw new Error('Malformed encrypted payload');
+    }
+
+    const decipher = crypto.createDecipheriv(CIPHER_ALGORITHM, key, iv);
+    decipher.setAuthTag(authTag);
+    return Buffer.concat([decipher.update(encrypted), decipher.final()]);
+  }
+}
+
+export default new WalletCryptoService();
@@ -8,6 +8,13 @@ import Notification from '@/models/Notification';
 import { IUser } from '@/models/User';
 import { config } from '@/config/env';
 import logger from '@/utils/logger';
+import disappearingMessageService from '@/services/disappearingMessageService';
+import e2eeService from '@/services/e2eeService';
+import messageReceiptService from '@/services/messageReceiptService';
+import eventJournalService, { JOURNALED_EVENTS } from '@/services/eventJournalService';
+import linkPreviewService from '@/services/linkPreviewService';
+import { IKeyEnvelope } from '@/models/Message';
+import { getMessagePreview } from '@/utils/messagePreview';
 
 interface JwtPayload {
   userId: string;
@@ -23,6 +30,7 @@ interface AuthenticatedSocket extends Socket {
 export class SocketHandler {
   private io: SocketIOServer;
   private connectedUsers: Map<string, string> = new Map(); // userId -> socketId
+  private journalQueues: Map<string, Promise<void>> = new Map(); // userId -> pending journaled emits
 
   constructor(server: HTTPServer) {
     this.io = new SocketIOServer(server, {
@@ -132,11 +140,20 @@ export class SocketHandler {
         type: string;
         replyTo?: string;
         isOneView?: boolean;
+        ttlSeconds?: number;
+        isEncrypted?: boolean;
+        ciphertext?: string;
+        keyEnvelopes?: IKeyEnvelope[];
       }) => {
         try {
           if (!authSocket.user) return;
 
-          const { chatId, content, type, replyTo, isOneView } = data;
+          const { chatId, content, type, replyTo, isOneView, ttlSeconds, isEncrypted, ciphertext, keyEnvelopes } = data;
+
+          if (type === 'system') {
+            socket.emit('error', { message: 'System messages cannot be sent directly' });
+            return;
+          }
 
           // Verify user is participant in chat
           const chat = await Chat.findById(chatId);
@@ -145,14 +162,33 @@ export class SocketHandler {
             return;
           }
 
-          // Create message
+          let expiresAt: Date | undefined;
+          let encryptedPayload: ReturnType<typeof e2eeService.validateEncryptedPayload> | undefined;
+          try {
+            expiresAt = disappearingMessageService.resolveExpiresAt(chat, ttlSeconds);
+            if (isEncrypted) {
+              encryptedPayload = e2eeService.validateEncryptedPayload(chat, (authSocket.user._id as any).toString(), { ciphertext, keyEnvelopes });
+              if (!['text', 'emoji'].includes(type)) {
+                throw new Error('Only text messages can be end-to-end encrypted');
+              }
+            }
+          } catch (error) {
+            socket.emit('error', { message: (error as Error).message });
+            return;
+          }
+
+          // Create message (encrypted messages keep only the opaque payload)
           const message = await Message.create({
             chatId,
             senderId: authSocket.user._id,
-            content,
+            content: encryptedPayload ? undefined : content,
             type,
             replyTo,
-            isOneView
+            isOneView,
+            isEncrypted: !!encryptedPayload,
+            ciphertext: encryptedPayload?.ciphertext,
+            keyEnvelopes: encryptedPayload?.keyEnvelopes,
+            expiresAt
           });
 
           await message.populate('senderId', 'name avatar');
@@ -166,26 +202,30 @@ export class SocketHandler {
           const otherParticipant = chat.participants.find(p => p.toString() !== (authSocket.user!._id as any).toString());
 
           // Send message to all participants in the chat
-          this.io.to(`chat_${chatId}`).emit('new_message', {
-            chatId,
-            message
+          chat.participants.forEach(participant => {
+            this.emitJournaled(participant.toString(), 'new_message', {
+              chatId,
+              message
+            });
           });
 
+          linkPreviewService.schedulePreview(message);
+
           // Create notification for other participant
           if (otherParticipant) {
             await Notification.create({
               userId: otherParticipant,
               type: 'message',
               title: 'New Message',
-              message: type === 'text' ? content : `Sent a ${type}`,
+              message: getMessagePreview(message),
               data: { chatId, messageId: message._id }
             });
 
             // Send real-time notification
-            this.io.to(`user_${otherParticipant}`).emit('notification', {
+            this.emitJournaled(otherParticipant.toString(), 'notification', {
               type: 'message',
               title: 'New Message',
-              message: type === 'text' ? content : `Sent a ${type}`,
+              message: getMessagePreview(message),
               data: { chatId, messageId: message._id }
             });
           }
@@ -238,7 +278,7 @@ export class SocketHandler {
             });
 
             // Send real-time notification
-            this.io.to(`user_${otherParticipant}`).emit('notification', {
+            this.emitJournaled(otherParticipant.toString(), 'notification', {
               type: 'file_shared',
               title: 'File Shared',
               message: `${fileType.charAt(0).toUpperCase() + fileType.slice(1)} shared`,
@@ -297,6 +337,62 @@ export class SocketHandler {
         }
       });
 
+      // Replay journaled events missed while disconnected
+      socket.on('resync', async (data: { lastSeq?: number }) => {
+        try {
+          if (!authSocket.user) return;
+
+          const userId = (authSocket.user._id as any).toString();
+          const lastSeq = Number(data?.lastSeq);
+
+          // Without a valid lastSeq the client only learns where the journal currently is
+          if (!Number.isInteger(lastSeq) || lastSeq < 0) {
+            socket.emit('resync_events', {
+              events: [],
+              latestSeq: await eventJournalService.getLatestSeq(userId),
+              hasMore: false,
+              resyncRequired: true
+            });
+            return;
+          }
+
+          socket.emit('resync_events', await eventJournalService.getEventsSince(userId, lastSeq));
+        } catch (error) {
+          logger.error('Error replaying journaled events:', error);
+          socket.emit('error', { message: 'Failed to resync events' });
+        }
+      });
+
+      // Recipient acknowledges that messages reached this device
+      socket.on('message_delivered', async (data: { messageIds: string[] }) => {
+        try {
+          if (!authSocket.user) return;
+
+          await messageReceiptService.markDelivered((authSocket.user._id as any).toString(), data?.messageIds);
+        } catch (error) {
+          logger.error('Error marking messages as delivered:', error);
+        }
+      });
+
+      // Recipient opened the chat; mark it read up to the given cursor
+      socket.on('mark_chat_read', async (data: { chatId: string; cursor?: string }) => {
+        try {
+          if (!authSocket.user) return;
+
+          const userId = (authSocket.user._id as any).toString();
+          const chat = await Chat.findById(data?.chatId);
+          if (!chat || !chat.participants.some(p => p.toString() === userId)) {
+            socket.emit('error', { message: 'Access denied' });
+            return;
+          }
+
+          await messageReceiptService.markChatRead(chat, userId, data.cursor);
+        } catch (error) {
+          logger.error('Error marking chat as read:', error);
+          socket.emit('error', { message: 'Failed to mark chat as read' });
+        }
+      });
+
       // Handle user online status
       socket.on('user_online', (data: { userId: string }) => {
         console.log('👤 User online event received:', data);
@@ -372,10 +468,12 @@ export class SocketHandler {
             (message.reactions as any).push({ userId: authSocket.user._id, emoji });
           }
           await message.save();
-          this.io.to(`chat_${chatId}`).emit('message_reaction_update', {
-            chatId,
-            messageId,
-            reactions: message.reactions
+          chat.participants.forEach(participant => {
+            this.emitJournaled(participant.toString(), 'message_reaction_update', {
+              chatId,
+              messageId,
+              reactions: message.reactions
+            });
           });
         } catch (error) {
           console.error('Error handling message reaction:', error);
@@ -392,7 +490,7 @@ export class SocketHandler {
           const { toUserId, fromUserId, requestId } = data;
 
           // Send real-time notification to target user
-          this.io.to(`user_${toUserId}`).emit('notification', {
+          this.emitJournaled(toUserId, 'notification', {
             type: 'partner_request',
             title: 'Partner Request',
             message: 'You have a new partner request',
@@ -413,7 +511,7 @@ export class SocketHandler {
           const { toUserId, fromUserId, status } = data;
 
           // Send real-time notification
-          this.io.to(`user_${toUserId}`).emit('notification', {
+          this.emitJournaled(toUserId, 'notification', {
             type: status === 'accepted' ? 'partner_accepted' : 'partner_rejected',
             title: status === 'accepted' ? 'Partner Request Accepted' : 'Partner Request Rejected',
             message: status === 'accepted' 
@@ -452,7 +550,7 @@ export class SocketHandler {
           const partnerId = activePartner.partnerId;
 
           // Send location to partner
-          this.io.to(`user_${partnerId}`).emit('partner_location_update', {
+          this.emitJournaled(partnerId, 'partner_location_update', {
             userId: authSocket.user._id,
             userName: authSocket.user.name,
             latitude: data.latitude,
@@ -516,10 +614,7 @@ export class SocketHandler {
 
   // Method to send notification to specific user
   public sendNotificationToUser(userId: string, notification: any) {
-    const socketId = this.connectedUsers.get(userId);
-    if (socketId) {
-      this.io.to(socketId).emit('notification', notification);
-    }
+    this.emitJournaled(userId, 'notification', notification);
   }
 
   // Method to notify partner about online status
@@ -571,18 +666,57 @@ export class SocketHandler {
   // Method to send message to chat
   public sendMessageToChat(chatId: string, message: any) {
     console.log('📡 sendMessageToChat called:', { chatId, message });
-    // Only emit to chat room, not to individual users to prevent duplicates
-    this.io.to(`chat_${chatId}`).emit('new_message', message);
-    console.log('📡 Message emitted to chat room:', `chat_${chatId}`);
+    // Deliver through each participant's personal room (not the chat room) so every
+    // message is journaled once per user and there are no duplicates
+    Chat.findById(chatId).select('participants')
+      .then(chat => {
+        chat?.participants.forEach(participant => {
+          this.emitJournaled(participant.toString(), 'new_message', message);
+        });
+      })
+      .catch(error => logger.error('Failed to send message to chat:', error));
   }
 
   // Emit event to specific user
   public emitToUser(userId: string, event: string, data: any) {
     console.log('📡 emitToUser called:', { userId, event, data });
+    if (JOURNALED_EVENTS.has(event)) {
+      this.emitJournaled(userId, event, data);
+      return;
+    }
     this.io.to(`user_${userId}`).emit(event, data);
     console.log('📡 Event emitted to user:', `user_${userId}`);
   }
 
+  // Journal an event for resync and emit it tagged with its sequence number.
+  // Emits are chained per user so live order always matches sequence order.
+  public emitJournaled(userId: string, event: string, data: any): Promise<void> {
+    const previous = this.journalQueues.get(userId) || Promise.resolve();
+    const next = previous.then(async () => {
+      try {
+        const eventSeq = await eventJournalService.record(userId, event, data);
+        this.io.to(`user_${userId}`).emit(event, { ...data, eventSeq });
+      } catch (error) {
+        // Live delivery still matters more than the journal
+        logger.error('Failed to journal socket event', {
+          userId,
+          event,
+          error: error instanceof Error ? error.message : 'Unknown error'
+        });
+        this.io.to(`user_${userId}`).emit(event, data);
+      }
+    });
+
+    this.journalQueues.set(userId, next);
+    next.then(() => {
+      if (this.journalQueues.get(userId) === next) {
+        this.journalQueues.delete(userId);
+      }
+    });
+
+    return next;
+  }
+
   // Emit to partner (both users in a relationship)
   emitToPartner(userId: string, event: string, data: any) {
     // This will be called from controllers to emit to both partners
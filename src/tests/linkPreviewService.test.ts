@@ -0,0 +1,166 @@
+import dns from 'dns';
+import { Readable } from 'stream';
+import axios from 'axios';
+import { createHttpFetcher, isPrivateAddress, parsePreviewMetadata } from '../services/linkPreviewService';
+
+jest.mock('../utils/logger');
+
+const FETCH_OPTIONS = { timeoutMs: 5000, maxBytes: 64 * 1024 };
+
+const response = (status: number, headers: Record<string, string>, body = '') => ({
+  status,
+  headers,
+  data: Readable.from([Buffer.from(body)])
+});
+
+describe('isPrivateAddress', () => {
+  it.each([
+    '127.0.0.1', '10.1.2.3', '172.16.0.1', '192.168.1.1', '169.254.169.254',
+    '100.64.0.1', '0.0.0.0', '198.18.0.1', '224.0.0.1'
+  ])('blocks the non-public IPv4 address %s', address => {
+    expect(isPrivateAddress(address)).toBe(true);
+  });
+
+  it.each(['::1', '::', 'fe80::1%eth0', 'fc00::1', 'fd12:3456::1', 'ff02::1', '2001:db8::1'])(
+    'blocks the non-public IPv6 address %s',
+    address => {
+      expect(isPrivateAddress(address)).toBe(true);
+    }
+  );
+
+  it.each(['8.8.8.8', '1.1.1.1', '2606:4700:4700::1111'])('allows the public address %s', address => {
+    expect(isPrivateAddress(address)).toBe(false);
+  });
+
+  it.each(['::ffff:127.0.0.1', '::ffff:7f00:1', '::ffff:a9fe:a9fe', '::ffff:10.0.0.1', '0:0:0:0:0:ffff:c0a8:101'])(
+    'blocks the IPv4-mapped address %s of a private IPv4 address',
+    address => {
+      expect(isPrivateAddress(address)).toBe(true);
+    }
+  );
+
+  it('allows an IPv4-mapped public address', () => {
+    expect(isPrivateAddress('::ffff:8.8.8.8')).toBe(false);
+  });
+
+  it('blocks IPv4-compatible addresses of private IPv4 addresses', () => {
+    expect(isPrivateAddress('::7f00:1')).toBe(true);
+    expect(isPrivateAddress('::10.0.0.1')).toBe(true);
+  });
+
+  it.each(['64:ff9b::7f00:1', '64:ff9b::10.0.0.1', '64:ff9b::a9fe:a9fe', '64:ff9b:1::1'])(
+    'blocks the NAT64 address %s',
+    address => {
+      expect(isPrivateAddress(address)).toBe(true);
+    }
+  );
+
+  it('allows a NAT64 address of a public IPv4 address', () => {
+    expect(isPrivateAddress('64:ff9b::808:808')).toBe(false);
+  });
+
+  it('checks the IPv4 address inside 6to4 addresses', () => {
+    expect(isPrivateAddress('2002:7f00:1::')).toBe(true);
+    expect(isPrivateAddress('2002:808:808::1')).toBe(false);
+  });
+
+  it('treats anything that is not an IP address as private', () => {
+    expect(isPrivateAddress('localhost')).toBe(true);
+    expect(isPrivateAddress('')).toBe(true);
+  });
+});
+
+describe('createHttpFetcher', () => {
+  const fetcher = createHttpFetcher();
+  let get: jest.SpyInstance;
+
+  beforeEach(() => {
+    get = jest.spyOn(axios, 'get');
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it.each([
+    'http://127.0.0.1/',
+    'http://169.254.169.254/latest/meta-data/',
+    'http://[::1]/',
+    'http://[::ffff:127.0.0.1]/',
+    'http://[::ffff:a9fe:a9fe]/',
+    'http://[64:ff9b::a00:1]/'
+  ])('refuses %s without requesting it', async url => {
+    await expect(fetcher(url, FETCH_OPTIONS)).rejects.toThrow('Refusing to preview a non-public address');
+    expect(get).not.toHaveBeenCalled();
+  });
+
+  it('refuses non-standard ports and schemes', async () => {
+    await expect(fetcher('http://example.com:8080/', FETCH_OPTIONS)).rejects.toThrow('Only standard ports can be previewed');
+    await expect(fetcher('ftp://example.com/', FETCH_OPTIONS)).rejects.toThrow('Only http and https links can be previewed');
+    expect(get).not.toHaveBeenCalled();
+  });
+
+  it.each([
+    'http://169.254.169.254/latest/meta-data/',
+    'http://[::ffff:169.254.169.254]/latest/meta-data/',
+    'http://[64:ff9b::7f00:1]/admin'
+  ])('stops at a redirect to %s', async location => {
+    get.mockResolvedValueOnce(response(302, { location }));
+
+    await expect(fetcher('https://example.com/article', FETCH_OPTIONS)).rejects.toThrow('Refusing to preview a non-public address');
+    expect(get).toHaveBeenCalledTimes(1);
+  });
+
+  it('follows redirects between public hosts', async () => {
+    get
+      .mockResolvedValueOnce(response(301, { location: '/moved' }))
+      .mockResolvedValueOnce(response(200, { 'content-type': 'text/html' }, '<title>Moved</title>'));
+
+    const page = await fetcher('https://example.com/article', FETCH_OPTIONS);
+
+    expect(page).toEqual({ url: 'https://example.com/moved', contentType: 'text/html', body: '<title>Moved</title>' });
+    expect(get).toHaveBeenCalledTimes(2);
+  });
+
+  it('gives up after too many redirects', async () => {
+    get.mockImplementation(async () => response(302, { location: 'https://example.com/again' }));
+
+    await expect(fetcher('https://example.com/', FETCH_OPTIONS)).rejects.toThrow('Too many redirects');
+  });
+
+  it('refuses to connect when a hostname resolves to a private address', async () => {
+    const lookup = jest.spyOn(dns, 'lookup').mockImplementation(((
+      hostname: string,
+      options: dns.LookupOptions,
+      callback: (error: Error | null, addresses: dns.LookupAddress[]) => void
+    ) => callback(null, [{ address: '::ffff:10.0.0.7', family: 6 }])) as unknown as typeof dns.lookup);
+
+    await expect(fetcher('http://intranet.example/', FETCH_OPTIONS)).rejects.toThrow('Refusing to connect to non-public address');
+    expect(lookup).toHaveBeenCalledWith('intranet.example', expect.objectContaining({ all: true }), expect.any(Function));
+  });
+});
+
+describe('parsePreviewMetadata', () => {
+  it('reads Open Graph tags and resolves the image against the page', () => {
+    const html = `
+      <head>
+        <meta property="og:title" content="Tom &amp; Jerry">
+        <meta name="description" content="A classic">
+        <meta property="og:image" content="/cover.jpg">
+      </head>`;
+
+    expect(parsePreviewMetadata(html, 'https://example.com/shows/1')).toEqual({
+      url: 'https://example.com/shows/1',
+      title: 'Tom & Jerry',
+      description: 'A classic',
+      image: 'https://example.com/cover.jpg',
+      siteName: 'example.com'
+    });
+  });
+
+  it('drops images with non-http schemes and returns null without metadata', () => {
+    const preview = parsePreviewMetadata('<meta property="og:title" content="x"><meta property="og:image" content="javascript:alert(1)">', 'https://example.com/');
+    expect(preview?.image).toBeUndefined();
+    expect(parsePreviewMetadata('<p>Nothing here</p>', 'https://example.com/')).toBeNull();
+  });
+});
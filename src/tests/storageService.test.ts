@@ -0,0 +1,102 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { config } from '../config/env';
+import storageService, { createStorageProvider } from '../services/storageService';
+import { LocalStorageProvider } from '../services/storage/localStorageProvider';
+import { S3StorageProvider } from '../services/storage/s3StorageProvider';
+import { CloudinaryStorageProvider } from '../services/storage/cloudinaryStorageProvider';
+
+jest.mock('../utils/logger');
+
+type StorageConfig = typeof config.storage;
+
+const storageConfig = (overrides: Partial<StorageConfig>): StorageConfig => ({
+  ...config.storage,
+  s3: { ...config.storage.s3, bucket: 'bond-mate-test', accessKeyId: 'key', secretAccessKey: 'secret' },
+  cloudinary: { ...config.storage.cloudinary, cloudName: 'demo', apiKey: 'key', apiSecret: 'secret' },
+  ...overrides
+});
+
+const readAll = async (stream: NodeJS.ReadableStream): Promise<string> => {
+  const chunks: Buffer[] = [];
+  for await (const chunk of stream) chunks.push(Buffer.from(chunk));
+  return Buffer.concat(chunks).toString('utf8');
+};
+
+describe('createStorageProvider', () => {
+  it('selects the local disk for "local"', () => {
+    const provider = createStorageProvider(storageConfig({ provider: 'local' }));
+    expect(provider).toBeInstanceOf(LocalStorageProvider);
+    expect(provider.name).toBe('local');
+  });
+
+  it('selects S3 when configured', () => {
+    const provider = createStorageProvider(storageConfig({ provider: 's3' }));
+    expect(provider).toBeInstanceOf(S3StorageProvider);
+    expect(provider.name).toBe('s3');
+  });
+
+  it('selects Cloudinary when configured', () => {
+    const provider = createStorageProvider(storageConfig({ provider: 'cloudinary' }));
+    expect(provider).toBeInstanceOf(CloudinaryStorageProvider);
+    expect(provider.name).toBe('cloudinary');
+  });
+
+  it('refuses S3 without a bucket', () => {
+    const s3 = { ...config.storage.s3, bucket: '' };
+    expect(() => createStorageProvider(storageConfig({ provider: 's3', s3 }))).toThrow('S3 storage requires a bucket name');
+  });
+
+  it('refuses Cloudinary without credentials', () => {
+    const cloudinary = { ...config.storage.cloudinary, apiSecret: '' };
+    expect(() => createStorageProvider(storageConfig({ provider: 'cloudinary', cloudinary })))
+      .toThrow('Cloudinary storage requires a cloud name, API key and API secret');
+  });
+
+  it('refuses unknown providers', () => {
+    const unknown = storageConfig({ provider: 'ftp' as StorageConfig['provider'] });
+    expect(() => createStorageProvider(unknown)).toThrow('Unknown storage provider: ftp');
+  });
+});
+
+describe('LocalStorageProvider', () => {
+  let root: string;
+  let provider: LocalStorageProvider;
+
+  beforeEach(async () => {
+    root = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'bond-mate-storage-'));
+    provider = new LocalStorageProvider(root);
+  });
+
+  afterEach(async () => {
+    await fs.promises.rm(root, { recursive: true, force: true });
+  });
+
+  it('stores, reads, ranges and deletes objects', async () => {
+    await provider.put('media/note.txt', Buffer.from('hello storage'));
+
+    expect(await provider.stat('media/note.txt')).toEqual({ size: 13 });
+    expect(await readAll(await provider.getStream('media/note.txt'))).toBe('hello storage');
+    expect(await readAll(await provider.getStream('media/note.txt', { start: 6, end: 12 }))).toBe('storage');
+
+    await provider.delete('media/note.txt');
+    expect(await provider.stat('media/note.txt')).toBeNull();
+    // Deleting again is not an error
+    await expect(provider.delete('media/note.txt')).resolves.toBeUndefined();
+  });
+
+  it('rejects keys that escape the upload directory', async () => {
+    await expect(provider.put('../outside.txt', Buffer.from('x'))).rejects.toThrow('Invalid storage key');
+    await expect(provider.stat('../../etc/passwd')).rejects.toThrow('Invalid storage key');
+  });
+});
+
+describe('storageService', () => {
+  it('maps between /uploads URLs and storage keys', () => {
+    expect(storageService.keyFromUrl('/uploads/media/a.jpg?x=1')).toBe('media/a.jpg');
+    expect(storageService.keyFromUrl('/uploads/../secret')).toBeNull();
+    expect(storageService.keyFromUrl('https://example.com/a.jpg')).toBeNull();
+    expect(storageService.urlForKey('media/a.jpg')).toBe('/uploads/media/a.jpg');
+  });
+});
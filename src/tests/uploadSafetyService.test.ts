@@ -0,0 +1,241 @@
+import fs from 'fs';
+import net from 'net';
+import os from 'os';
+import path from 'path';
+import { AppError } from '../middleware/errorHandler';
+import { config } from '../config/env';
+import uploadSafetyService, { findSvgActiveContent } from '../services/uploadSafetyService';
+import malwareScanService from '../services/malwareScanService';
+import { StagedFile } from '../services/storageService';
+import { checkSignature } from '../utils/fileSignature';
+
+jest.mock('../utils/logger');
+
+const PNG_HEADER = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0, 0, 0, 0x0d]);
+const EICAR = 'X5O!P%@AP[4\\PZX54(P^)7CC)7}$EICAR-STANDARD-ANTIVIRUS-TEST-FILE!$H+H*';
+
+interface ClamdStub {
+  address: string;
+  received: () => Buffer[]; // streamed file contents, one per scan
+  close: () => Promise<void>;
+}
+
+// Minimal clamd: reads a zINSTREAM stream of length-prefixed chunks and answers `reply(content)`
+const startClamd = async (reply: (content: Buffer) => string): Promise<ClamdStub> => {
+  const received: Buffer[] = [];
+  const server = net.createServer(socket => {
+    let buffered = Buffer.alloc(0);
+    socket.on('data', chunk => {
+      buffered = Buffer.concat([buffered, chunk]);
+      const command = 'zINSTREAM\0';
+      if (buffered.length < command.length) return;
+      if (buffered.subarray(0, command.length).toString('latin1') !== command) {
+        socket.end('UNKNOWN COMMAND\0');
+        return;
+      }
+
+      const parts: Buffer[] = [];
+      let offset = command.length;
+      while (offset + 4 <= buffered.length) {
+        const length = buffered.readUInt32BE(offset);
+        if (length === 0) {
+          const content = Buffer.concat(parts);
+          received.push(content);
+          socket.end(`${reply(content)}\0`);
+          return;
+        }
+        if (offset + 4 + length > buffered.length) return;
+        parts.push(buffered.subarray(offset + 4, offset + 4 + length));
+        offset += 4 + length;
+      }
+    });
+  });
+
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as net.AddressInfo;
+  return {
+    address: `127.0.0.1:${port}`,
+    received: () => received,
+    close: () => new Promise(resolve => server.close(() => resolve()))
+  };
+};
+
+describe('uploadSafetyService', () => {
+  let dir: string;
+  const originalScanConfig = { ...config.malwareScan };
+
+  const stage = async (name: string, mimetype: string, content: Buffer | string): Promise<StagedFile> => {
+    const filePath = path.join(dir, name);
+    await fs.promises.writeFile(filePath, content);
+    return { path: filePath, filename: name, originalname: name, mimetype, size: Buffer.byteLength(content) };
+  };
+
+  const exists = (file: StagedFile) => fs.promises.access(file.path).then(() => true, () => false);
+
+  beforeEach(async () => {
+    dir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'bond-mate-upload-'));
+  });
+
+  afterEach(async () => {
+    Object.assign(config.malwareScan, originalScanConfig);
+    await fs.promises.rm(dir, { recursive: true, force: true });
+  });
+
+  describe('content checks', () => {
+    beforeEach(() => {
+      config.malwareScan.clamavSocket = '';
+    });
+
+    it('accepts content that matches its declared type', async () => {
+      const file = await stage('photo.png', 'image/png', PNG_HEADER);
+
+      await expect(uploadSafetyService.inspect(file)).resolves.toEqual({});
+      expect(await exists(file)).toBe(true);
+    });
+
+    it('rejects and deletes content that does not match its declared type', async () => {
+      const file = await stage('photo.png', 'image/png', '<?php system($_GET["c"]); ?>');
+
+      await expect(uploadSafetyService.inspect(file)).rejects.toMatchObject({
+        statusCode: 400,
+        message: 'File content (text) does not match its declared type image/png'
+      });
+      expect(await exists(file)).toBe(false);
+    });
+
+    it('rejects an extension that does not fit the declared type', async () => {
+      const file = await stage('photo.html', 'image/png', PNG_HEADER);
+
+      await expect(uploadSafetyService.inspect(file)).rejects.toThrow('File extension .html does not match its declared type image/png');
+    });
+
+    it('rejects SVGs with active content', async () => {
+      const file = await stage('icon.svg', 'image/svg+xml', '<svg xmlns="http://www.w3.org/2000/svg"><script>alert(1)</script></svg>');
+
+      await expect(uploadSafetyService.inspect(file)).rejects.toThrow('SVG files may not contain scripts');
+      expect(await exists(file)).toBe(false);
+    });
+  });
+
+  describe('malware scanning', () => {
+    let clamd: ClamdStub;
+
+    beforeEach(async () => {
+      clamd = await startClamd(content => content.toString('latin1').includes('EICAR') ? 'stream: Eicar-Test-Signature FOUND' : 'stream: OK');
+      config.malwareScan.clamavSocket = clamd.address;
+      config.malwareScan.timeoutMs = 5000;
+    });
+
+    afterEach(async () => {
+      await clamd.close();
+    });
+
+    it('streams the file to clamd and marks clean files', async () => {
+      const file = await stage('notes.txt', 'text/plain', 'just some notes');
+
+      await expect(uploadSafetyService.inspect(file)).resolves.toEqual({ scanStatus: 'clean' });
+      expect(clamd.received().map(content => content.toString('utf8'))).toEqual(['just some notes']);
+    });
+
+    it('streams large files in several chunks', async () => {
+      const content = Buffer.alloc(200 * 1024, 'a');
+      const file = await stage('big.txt', 'text/plain', content);
+
+      await expect(malwareScanService.scanFile(file.path)).resolves.toEqual({ infected: false });
+      expect(clamd.received()[0].equals(content)).toBe(true);
+    });
+
+    it('quarantines infected files with the reported signature', async () => {
+      const file = await stage('eicar.txt', 'text/plain', EICAR);
+
+      await expect(uploadSafetyService.inspect(file)).resolves.toEqual({ scanStatus: 'quarantined', threat: 'Eicar-Test-Signature' });
+      expect(await exists(file)).toBe(true);
+    });
+
+    it('refuses and deletes infected files for uploads without a quarantine', async () => {
+      const file = await stage('eicar.txt', 'text/plain', EICAR);
+
+      await expect(uploadSafetyService.assertSafe(file)).rejects.toMatchObject({ statusCode: 422 });
+      expect(await exists(file)).toBe(false);
+    });
+
+    it('does not scan content that failed the type check', async () => {
+      const file = await stage('photo.png', 'image/png', EICAR);
+
+      await expect(uploadSafetyService.inspect(file)).rejects.toBeInstanceOf(AppError);
+      expect(clamd.received()).toHaveLength(0);
+    });
+  });
+
+  describe('when clamd is unavailable', () => {
+    beforeEach(async () => {
+      // A port nothing listens on
+      const server = net.createServer();
+      await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+      const { port } = server.address() as net.AddressInfo;
+      await new Promise<void>(resolve => server.close(() => resolve()));
+      config.malwareScan.clamavSocket = `127.0.0.1:${port}`;
+    });
+
+    it('stores files unscanned by default', async () => {
+      const file = await stage('notes.txt', 'text/plain', 'hello');
+
+      await expect(uploadSafetyService.inspect(file)).resolves.toEqual({});
+      expect(await exists(file)).toBe(true);
+    });
+
+    it('refuses and deletes files when failing closed', async () => {
+      config.malwareScan.failClosed = true;
+      const file = await stage('notes.txt', 'text/plain', 'hello');
+
+      await expect(uploadSafetyService.inspect(file)).rejects.toMatchObject({ statusCode: 503 });
+      expect(await exists(file)).toBe(false);
+    });
+
+    it('rejects the scan instead of reporting a verdict', async () => {
+      const file = await stage('notes.txt', 'text/plain', 'hello');
+
+      await expect(malwareScanService.scanFile(file.path)).rejects.toThrow();
+    });
+  });
+});
+
+describe('checkSignature', () => {
+  it.each([
+    ['image/jpeg', 'a.jpg', Buffer.from([0xff, 0xd8, 0xff, 0xe0])],
+    ['application/pdf', 'a.pdf', Buffer.from('%PDF-1.7')],
+    ['audio/mpeg', 'a.mp3', Buffer.from('ID3\u0004')],
+    ['video/mp4', 'a.mp4', Buffer.from('\0\0\0\u0018ftypisom', 'latin1')],
+    ['application/vnd.openxmlformats-officedocument.wordprocessingml.document', 'a.docx', Buffer.from([0x50, 0x4b, 0x03, 0x04])]
+  ])('accepts genuine %s content', (mimeType, fileName, header) => {
+    expect(checkSignature(header, mimeType, fileName)).toEqual({ ok: true });
+  });
+
+  it('names what the content really is', () => {
+    expect(checkSignature(Buffer.from('%PDF-1.7'), 'image/jpeg', 'a.jpg')).toEqual({
+      ok: false,
+      reason: 'File content (PDF document) does not match its declared type image/jpeg'
+    });
+  });
+
+  it('refuses types it cannot verify', () => {
+    expect(checkSignature(Buffer.from('MZ'), 'application/x-msdownload', 'a.exe').ok).toBe(false);
+  });
+
+  it('treats an HEIC brand as an image, not a video', () => {
+    const heic = Buffer.from('\0\0\0\u0018ftypheic', 'latin1');
+    expect(checkSignature(heic, 'image/heic', 'a.heic').ok).toBe(true);
+    expect(checkSignature(heic, 'video/mp4', 'a.mp4').ok).toBe(false);
+  });
+});
+
+describe('findSvgActiveContent', () => {
+  it('allows plain vector art', () => {
+    expect(findSvgActiveContent('<svg><path d="M0 0h10v10z"/></svg>')).toBeNull();
+  });
+
+  it('finds handlers and encoded script URLs', () => {
+    expect(findSvgActiveContent('<svg onload="alert(1)"></svg>')).toBe('event handler attributes');
+    expect(findSvgActiveContent('<svg><a href="jav&#x61;script&colon;alert(1)">x</a></svg>')).toBe('script URLs');
+  });
+});
@@ -0,0 +1,153 @@
+import path from 'path';
+
+// Enough of the file for every signature below (ISO BMFF brands, RIFF subtypes, SVG prologs)
+export const SNIFF_BYTES = 4100;
+
+interface FileSignature {
+  name: string; // reported when the content doesn't match the declared type
+  mimeTypes: string[]; // declared types this content may be uploaded as
+  extensions: string[];
+  test: (header: Buffer) => boolean;
+}
+
+const startsWith = (header: Buffer, bytes: number[] | string, offset = 0): boolean => {
+  const expected = typeof bytes === 'string' ? Buffer.from(bytes, 'latin1') : Buffer.from(bytes);
+  return header.length >= offset + expected.length && header.subarray(offset, offset + expected.length).equals(expected);
+};
+
+const riffType = (header: Buffer, type: string) => startsWith(header, 'RIFF') && startsWith(header, type, 8);
+
+// ISO base media (mp4/mov/m4a/heic) files open with an `ftyp` box naming their brand
+const isoBrand = (header: Buffer): string | null =>
+  startsWith(header, 'ftyp', 4) && header.length >= 12 ? header.toString('latin1', 8, 12) : null;
+
+const HEIF_BRANDS = ['heic', 'heix', 'hevc', 'hevx', 'heim', 'heis', 'mif1', 'msf1'];
+const AVIF_BRANDS = ['avif', 'avis'];
+
+/**
+ * Decoded text of a file that looks like UTF-8 text (no NUL bytes, no invalid
+ * sequences), or null for binary content
+ */
+export const decodeText = (header: Buffer): string | null => {
+  if (header.includes(0)) return null;
+  try {
+    // stream: a multi-byte character cut off at the end of the header is not an error
+    return new TextDecoder('utf-8', { fatal: true }).decode(header, { stream: true });
+  } catch {
+    return null;
+  }
+};
+
+const looksLikeSvg = (header: Buffer): boolean => {
+  const text = decodeText(header);
+  if (!text) return false;
+  // Skip the BOM, XML prolog, comments and doctype before the root element
+  const body = text.replace(/^\uFEFF/, '').replace(/<\?xml[\s\S]*?\?>|<!--[\s\S]*?-->|<!DOCTYPE[^>[]*(\[[\s\S]*?\])?\s*>/gi, '').trimStart();
+  return /^<svg[\s>]/i.test(body);
+};
+
+const SIGNATURES: FileSignature[] = [
+  // Images
+  { name: 'JPEG image', mimeTypes: ['image/jpeg', 'image/jpg'], extensions: ['.jpg', '.jpeg', '.jfif'], test: h => startsWith(h, [0xff, 0xd8, 0xff]) },
+  { name: 'PNG image', mimeTypes: ['image/png'], extensions: ['.png'], test: h => startsWith(h, [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]) },
+  { name: 'GIF image', mimeTypes: ['image/gif'], extensions: ['.gif'], test: h => startsWith(h, 'GIF87a') || startsWith(h, 'GIF89a') },
+  { name: 'WebP image', mimeTypes: ['image/webp'], extensions: ['.webp'], test: h => riffType(h, 'WEBP') },
+  { name: 'BMP image', mimeTypes: ['image/bmp', 'image/x-ms-bmp'], extensions: ['.bmp'], test: h => startsWith(h, 'BM') },
+  { name: 'TIFF image', mimeTypes: ['image/tiff'], extensions: ['.tif', '.tiff'], test: h => startsWith(h, [0x49, 0x49, 0x2a, 0x00]) || startsWith(h, [0x4d, 0x4d, 0x00, 0x2a]) },
+  { name: 'HEIF image', mimeTypes: ['image/heic', 'image/heif'], extensions: ['.heic', '.heif'], test: h => HEIF_BRANDS.includes(isoBrand(h) || '') },
+  { name: 'AVIF image', mimeTypes: ['image/avif'], extensions: ['.avif'], test: h => AVIF_BRANDS.includes(isoBrand(h) || '') },
+  { name: 'SVG image', mimeTypes: ['image/svg+xml'], extensions: ['.svg'], test: looksLikeSvg },
+  // Audio and video
+  {
+    name: 'MP4/QuickTime media',
+    mimeTypes: ['video/mp4', 'video/quicktime', 'video/mov', 'video/3gpp', 'audio/mp4', 'audio/m4a', 'audio/x-m4a', 'audio/aac'],
+    extensions: ['.mp4', '.m4v', '.mov', '.qt', '.3gp', '.m4a', '.aac'],
+    test: h => {
+      const brand = isoBrand(h);
+      return (!!brand && !HEIF_BRANDS.includes(brand) && !AVIF_BRANDS.includes(brand)) ||
+        // Old QuickTime files may start with a different atom
+        ['moov', 'mdat', 'wide', 'free', 'skip'].some(atom => startsWith(h, atom, 4));
+    }
+  },
+  { name: 'AVI video', mimeTypes: ['video/x-msvideo', 'video/avi'], extensions: ['.avi'], test: h => riffType(h, 'AVI ') },
+  { name: 'WebM/Matroska media', mimeTypes: ['video/webm', 'audio/webm', 'video/x-matroska'], extensions: ['.webm', '.weba', '.mkv'], test: h => startsWith(h, [0x1a, 0x45, 0xdf, 0xa3]) },
+  { name: 'Flash video', mimeTypes: ['video/flv', 'video/x-flv'], extensions: ['.flv'], test: h => startsWith(h, 'FLV') },
+  { name: 'Windows Media video', mimeTypes: ['video/wmv', 'video/x-ms-wmv'], extensions: ['.wmv'], test: h => startsWith(h, [0x30, 0x26, 0xb2, 0x75, 0x8e, 0x66, 0xcf, 0x11]) },
+  { name: 'Ogg media', mimeTypes: ['audio/ogg', 'audio/opus', 'video/ogg'], extensions: ['.ogg', '.oga', '.opus', '.ogv'], test: h => startsWith(h, 'OggS') },
+  { name: 'WAV audio', mimeTypes: ['audio/wav', 'audio/x-wav', 'audio/wave'], extensions: ['.wav'], test: h => riffType(h, 'WAVE') },
+  { name: 'FLAC audio', mimeTypes: ['audio/flac', 'audio/x-flac'], extensions: ['.flac'], test: h => startsWith(h, 'fLaC') },
+  // ADTS frames have layer bits 00, MPEG audio frames don't
+  { name: 'AAC audio', mimeTypes: ['audio/aac', 'audio/aacp'], extensions: ['.aac'], test: h => h.length >= 2 && h[0] === 0xff && (h[1] & 0xf6) === 0xf0 },
+  {
+    name: 'MP3 audio',
+    mimeTypes: ['audio/mpeg', 'audio/mp3'],
+    extensions: ['.mp3', '.mpga'],
+    test: h => startsWith(h, 'ID3') || (h.length >= 2 && h[0] === 0xff && (h[1] & 0xe0) === 0xe0 && (h[1] & 0x06) !== 0)
+  },
+  // Documents and archives
+  { name: 'PDF document', mimeTypes: ['application/pdf'], extensions: ['.pdf'], test: h => startsWith(h, '%PDF-') },
+  {
+    name: 'ZIP archive',
+    mimeTypes: [
+      'application/zip', 'application/x-zip-compressed',
+      'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+      'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+      'application/vnd.openxmlformats-officedocument.presentationml.presentation'
+    ],
+    extensions: ['.zip', '.docx', '.xlsx', '.pptx'],
+    test: h => startsWith(h, [0x50, 0x4b, 0x03, 0x04]) || startsWith(h, [0x50, 0x4b, 0x05, 0x06])
+  },
+  {
+    name: 'Office document',
+    mimeTypes: ['application/msword', 'application/vnd.ms-excel', 'application/vnd.ms-powerpoint'],
+    extensions: ['.doc', '.xls', '.ppt'],
+    test: h => startsWith(h, [0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1])
+  },
+  { name: 'RAR archive', mimeTypes: ['application/x-rar-compressed', 'application/vnd.rar'], extensions: ['.rar'], test: h => startsWith(h, 'Rar!\x1a\x07') },
+  { name: '7-Zip archive', mimeTypes: ['application/x-7z-compressed'], extensions: ['.7z'], test: h => startsWith(h, [0x37, 0x7a, 0xbc, 0xaf, 0x27, 0x1c]) },
+  { name: 'text', mimeTypes: ['text/plain', 'text/csv'], extensions: ['.txt', '.csv', '.log', '.md'], test: h => decodeText(h) !== null }
+];
+
+export interface SignatureCheck {
+  ok: boolean;
+  reason?: string;
+}
+
+/**
+ * What the content looks like, for error messages and logs
+ */
+export const describeContent = (header: Buffer): string =>
+  SIGNATURES.find(signature => signature.test(header))?.name || 'unknown binary data';
+
+/**
+ * Whether a file name's extension is one we'd expect for the declared type.
+ * Names without an extension are accepted (voice notes from some clients have none).
+ */
+export const isExtensionAllowed = (mimeType: string, fileName: string): boolean => {
+  const ext = path.extname(fileName).toLowerCase();
+  const signatures = SIGNATURES.filter(signature => signature.mimeTypes.includes(mimeType.toLowerCase()));
+  return signatures.length > 0 && (!ext || signatures.some(signature => signature.extensions.includes(ext)));
+};
+
+/**
+ * Check that a file's leading bytes really are the declared type, and that its
+ * extension fits that type. Types we have no signature for are refused.
+ */
+export const checkSignature = (header: Buffer, mimeType: string, fileName: string): SignatureCheck => {
+  const declared = mimeType.toLowerCase();
+  const signatures = SIGNATURES.filter(signature => signature.mimeTypes.includes(declared));
+
+  if (signatures.length === 0) {
+    return { ok: false, reason: `Files of type ${mimeType} cannot be verified` };
+  }
+
+  if (!signatures.some(signature => signature.test(header))) {
+    return { ok: false, reason: `File content (${describeContent(header)}) does not match its declared type ${mimeType}` };
+  }
+
+  if (!isExtensionAllowed(declared, fileName)) {
+    return { ok: false, reason: `File extension ${path.extname(fileName)} does not match its declared type ${mimeType}` };
+  }
+
+  return { ok: true };
+};
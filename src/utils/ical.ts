@@ -0,0 +1,171 @@
+import { fromWallClock, isValidTimezone } from './timezone';
+
+export interface ICalProperty {
+  name: string;
+  params: Record<string, string>;
+  value: string;
+}
+
+export interface ICalComponent {
+  type: string;
+  properties: ICalProperty[];
+  components: ICalComponent[];
+}
+
+export interface ICalDate {
+  date: Date;
+  timezone?: string; // set when given with a known TZID
+  allDay: boolean;
+}
+
+const MAX_LINE_OCTETS = 75;
+
+// TEXT values (RFC 5545 3.3.11)
+export const escapeText = (value: string): string =>
+  value.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+
+export const unescapeText = (value: string): string =>
+  value.replace(/\\([\\;,nN])/g, (_match, char: string) => (char === 'n' || char === 'N' ? '\n' : char));
+
+// Split a list value (CATEGORIES, EXDATE) on commas that aren't escaped
+export const splitList = (value: string): string[] =>
+  value.split(/(?<!\\),/).map(item => item.trim()).filter(Boolean);
+
+// 20240501T180000Z
+export const formatDateTime = (date: Date): string =>
+  date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+
+// 20240501T180000, for a floating wall-clock time used with TZID
+export const formatLocalDateTime = (wallClock: Date): string => formatDateTime(wallClock).slice(0, -1);
+
+/**
+ * Fold a content line to 75 octets per line (RFC 5545 3.1), without splitting characters
+ */
+export const foldLine = (line: string): string => {
+  if (Buffer.byteLength(line) <= MAX_LINE_OCTETS) return line;
+
+  const lines: string[] = [];
+  let current = '';
+  let currentBytes = 0;
+  for (const char of line) {
+    const charBytes = Buffer.byteLength(char);
+    // Continuation lines start with a space, which counts towards their length
+    const limit = lines.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+    if (currentBytes + charBytes > limit) {
+      lines.push(current);
+      current = '';
+      currentBytes = 0;
+    }
+    current += char;
+    currentBytes += charBytes;
+  }
+  lines.push(current);
+  return lines.join('\r\n ');
+};
+
+// One content line: NAME;PARAM=value;PARAM="quoted":value
+const parseLine = (line: string): ICalProperty | null => {
+  let inQuotes = false;
+  let colon = -1;
+  for (let i = 0; i < line.length; i++) {
+    if (line[i] === '"') inQuotes = !inQuotes;
+    if (line[i] === ':' && !inQuotes) {
+      colon = i;
+      break;
+    }
+  }
+  if (colon <= 0) return null;
+
+  const [name, ...rawParams] = line.slice(0, colon).match(/(?:[^;"]+|"[^"]*")+/g) || [];
+  if (!name) return null;
+
+  const params: Record<string, string> = {};
+  rawParams.forEach(param => {
+    const equals = param.indexOf('=');
+    if (equals > 0) {
+      params[param.slice(0, equals).toUpperCase()] = param.slice(equals + 1).replace(/^"|"$/g, '');
+    }
+  });
+
+  return { name: name.toUpperCase(), params, value: line.slice(colon + 1) };
+};
+
+/**
+ * Parse iCalendar text into its top-level components (normally one VCALENDAR).
+ * Unbalanced BEGIN/END lines throw.
+ */
+export const parseICal = (content: string): ICalComponent[] => {
+  const lines = content.replace(/\r?\n[ \t]/g, '').split(/\r?\n/);
+  const root: ICalComponent = { type: 'ROOT', properties: [], components: [] };
+  const stack: ICalComponent[] = [root];
+
+  for (const line of lines) {
+    if (!line.trim()) continue;
+    const property = parseLine(line);
+    if (!property) continue;
+
+    const current = stack[stack.length - 1];
+    if (property.name === 'BEGIN') {
+      const component: ICalComponent = { type: property.value.trim().toUpperCase(), properties: [], components: [] };
+      current.components.push(component);
+      stack.push(component);
+    } else if (property.name === 'END') {
+      if (stack.length === 1 || current.type !== property.value.trim().toUpperCase()) {
+        throw new Error(`Unexpected END:${property.value}`);
+      }
+      stack.pop();
+    } else {
+      current.properties.push(property);
+    }
+  }
+
+  if (stack.length !== 1) {
+    throw new Error(`Missing END:${stack[stack.length - 1].type}`);
+  }
+  return root.components;
+};
+
+export const getProperty = (component: ICalComponent, name: string): ICalProperty | undefined =>
+  component.properties.find(property => property.name === name);
+
+export const getProperties = (component: ICalComponent, name: string): ICalProperty[] =>
+  component.properties.filter(property => property.name === name);
+
+/**
+ * A DATE or DATE-TIME value: UTC (`Z`), local to a TZID, or floating (read as UTC).
+ * All-day dates start at midnight UTC. Null when malformed.
+ */
+export const parseDateValue = (value: string, params: Record<string, string> = {}): ICalDate | null => {
+  const match = value.trim().match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/);
+  if (!match) return null;
+
+  const [, year, month, day, hour, minute, second, utc] = match;
+  const wallClock = new Date(Date.UTC(
+    Number(year), Number(month) - 1, Number(day),
+    Number(hour || 0), Number(minute || 0), Number(second || 0)
+  ));
+  if (isNaN(wallClock.getTime())) return null;
+
+  if (!hour) {
+    return { date: wallClock, allDay: true };
+  }
+
+  const timezone = params.TZID?.replace(/^\//, '');
+  if (!utc && timezone && isValidTimezone(timezone)) {
+    return { date: fromWallClock(wallClock, timezone), timezone, allDay: false };
+  }
+  return { date: wallClock, allDay: false };
+};
+
+/**
+ * DURATION value in milliseconds, e.g. -PT15M -> -900000. Null when malformed.
+ */
+export const parseDuration = (value: string): number | null => {
+  const match = value.trim().match(/^([+-])?P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/);
+  if (!match || value.trim().endsWith('T')) return null;
+
+  const [, sign, weeks, days, hours, minutes, seconds] = match;
+  const totalSeconds = Number(weeks || 0) * 604800 + Number(days || 0) * 86400 +
+    Number(hours || 0) * 3600 + Number(minutes || 0) * 60 + Number(seconds || 0);
+  return (sign === '-' ? -1 : 1) * totalSeconds * 1000;
+};
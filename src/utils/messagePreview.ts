@@ -0,0 +1,17 @@
+export const ENCRYPTED_MESSAGE_PREVIEW = '🔒 Encrypted message';
+
+interface PreviewableMessage {
+  type: string;
+  content?: string;
+  isEncrypted?: boolean;
+}
+
+// Text shown in notifications and reply/preview snippets. The server cannot read
+// end-to-end encrypted messages, so those always get a fixed placeholder.
+export const getMessagePreview = (message: PreviewableMessage): string => {
+  if (message.isEncrypted) {
+    return ENCRYPTED_MESSAGE_PREVIEW;
+  }
+
+  return message.type === 'text' ? message.content || '' : `Sent a ${message.type}`;
+};
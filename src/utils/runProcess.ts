@@ -0,0 +1,47 @@
+import path from 'path';
+import { spawn } from 'child_process';
+
+export interface RunProcessOptions {
+  timeoutMs?: number;
+  maxOutputBytes?: number; // the process is killed once stdout grows past this
+}
+
+const DEFAULT_TIMEOUT_MS = 60 * 1000;
+
+/**
+ * Run an external tool (ffmpeg, ffprobe, ...) and collect its stdout. Rejects on a
+ * non-zero exit, a timeout or too much output, with the tail of stderr in the message.
+ */
+export const runProcess = (command: string, args: string[], options: RunProcessOptions = {}): Promise<Buffer> => new Promise((resolve, reject) => {
+  const child = spawn(command, args);
+  const chunks: Buffer[] = [];
+  let size = 0;
+  let stderr = '';
+  let failure: Error | undefined;
+
+  const timer = setTimeout(() => {
+    failure = new Error(`${path.basename(command)} timed out`);
+    child.kill('SIGKILL');
+  }, options.timeoutMs ?? DEFAULT_TIMEOUT_MS);
+
+  child.stdout.on('data', (chunk: Buffer) => {
+    size += chunk.length;
+    if (options.maxOutputBytes !== undefined && size > options.maxOutputBytes) {
+      failure = failure || new Error(`${path.basename(command)} produced too much output`);
+      child.kill('SIGKILL');
+      return;
+    }
+    chunks.push(chunk);
+  });
+  child.stderr.on('data', chunk => { stderr = (stderr + chunk).slice(-2000); });
+  child.on('error', error => {
+    clearTimeout(timer);
+    reject(error);
+  });
+  child.on('close', code => {
+    clearTimeout(timer);
+    if (failure) reject(failure);
+    else if (code === 0) resolve(Buffer.concat(chunks));
+    else reject(new Error(`${path.basename(command)} exited with code ${code}: ${stderr.trim()}`));
+  });
+});
@@ -0,0 +1,46 @@
+export interface SearchSnippet {
+  snippet: string;
+  highlights: { start: number; end: number }[]; // offsets into `snippet`
+}
+
+const SNIPPET_CONTEXT_CHARS = 40;
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Split a search query into the literal terms/phrases to highlight
+export const getSearchTerms = (query: string): string[] => {
+  const phrases = Array.from(query.matchAll(/"([^"]+)"/g), match => match[1].trim());
+  const words = query
+    .replace(/"[^"]*"/g, ' ')
+    .split(/\s+/)
+    .filter(word => word && !word.startsWith('-'));
+
+  return [...phrases, ...words].filter(Boolean);
+};
+
+// Cut a window of text around the first matching term and mark every match inside it
+export const buildSearchSnippet = (content: string, query: string): SearchSnippet => {
+  const terms = getSearchTerms(query);
+  if (!content || terms.length === 0) {
+    return { snippet: content || '', highlights: [] };
+  }
+
+  const pattern = new RegExp(terms.map(escapeRegExp).join('|'), 'gi');
+  const firstMatch = pattern.exec(content);
+
+  const start = firstMatch ? Math.max(firstMatch.index - SNIPPET_CONTEXT_CHARS, 0) : 0;
+  const end = firstMatch
+    ? Math.min(firstMatch.index + firstMatch[0].length + SNIPPET_CONTEXT_CHARS, content.length)
+    : Math.min(SNIPPET_CONTEXT_CHARS * 2, content.length);
+
+  const prefix = start > 0 ? '…' : '';
+  const suffix = end < content.length ? '…' : '';
+  const window = content.slice(start, end);
+
+  const highlights = Array.from(window.matchAll(pattern), match => ({
+    start: prefix.length + (match.index || 0),
+    end: prefix.length + (match.index || 0) + match[0].length
+  }));
+
+  return { snippet: `${prefix}${window}${suffix}`, highlights };
+};
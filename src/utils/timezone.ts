@@ -0,0 +1,60 @@
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+const formatterFor = (timeZone: string): Intl.DateTimeFormat => {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      second: 'numeric'
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+};
+
+export const isValidTimezone = (timeZone: string): boolean => {
+  try {
+    formatterFor(timeZone);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * The wall-clock time of `date` in `timeZone`, as a Date whose UTC fields hold
+ * it (a "floating" time, e.g. 20:00 in London -> 20:00Z)
+ */
+export const toWallClock = (date: Date, timeZone: string): Date => {
+  const parts = Object.fromEntries(formatterFor(timeZone).formatToParts(date).map(part => [part.type, part.value]));
+  return new Date(Date.UTC(
+    Number(parts.year),
+    Number(parts.month) - 1,
+    Number(parts.day),
+    Number(parts.hour),
+    Number(parts.minute),
+    Number(parts.second),
+    date.getUTCMilliseconds()
+  ));
+};
+
+/**
+ * The instant a floating wall-clock time (see toWallClock) happens in `timeZone`.
+ * Times skipped by a DST change resolve to the same offset as just before it.
+ */
+export const fromWallClock = (wallClock: Date, timeZone: string): Date => {
+  const target = wallClock.getTime();
+  const firstOffset = toWallClock(wallClock, timeZone).getTime() - target;
+  let instant = target - firstOffset;
+  const secondOffset = toWallClock(new Date(instant), timeZone).getTime() - instant;
+  if (secondOffset !== firstOffset) {
+    instant = target - secondOffset;
+  }
+  return new Date(instant);
+};
@@ -0,0 +1,83 @@
+export interface DiffPart {
+  type: 'equal' | 'added' | 'removed';
+  text: string;
+}
+
+// Words and the whitespace between them, so joining the tokens gives the text back
+const tokenize = (text: string): string[] => text.split(/(\s+)/).filter(token => token.length > 0);
+
+const pushPart = (parts: DiffPart[], type: DiffPart['type'], text: string) => {
+  const last = parts[parts.length - 1];
+  if (last && last.type === type) {
+    last.text += text;
+  } else {
+    parts.push({ type, text });
+  }
+};
+
+/**
+ * Word-level diff of two texts as runs of equal, removed and added text (longest
+ * common subsequence over words). Removed runs come before the added runs replacing them.
+ */
+export const diffWords = (before: string, after: string): DiffPart[] => {
+  const a = tokenize(before);
+  const b = tokenize(after);
+
+  // Skip the unchanged start and end so the table only covers the edited middle
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) start++;
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+
+  const midA = a.slice(start, endA);
+  const midB = b.slice(start, endB);
+  const width = midB.length + 1;
+
+  // lengths[i * width + j] = LCS length of midA[i..] and midB[j..]
+  const lengths = new Uint32Array((midA.length + 1) * width);
+  for (let i = midA.length - 1; i >= 0; i--) {
+    for (let j = midB.length - 1; j >= 0; j--) {
+      lengths[i * width + j] = midA[i] === midB[j]
+        ? lengths[(i + 1) * width + j + 1] + 1
+        : Math.max(lengths[(i + 1) * width + j], lengths[i * width + j + 1]);
+    }
+  }
+
+  const parts: DiffPart[] = [];
+  if (start > 0) pushPart(parts, 'equal', a.slice(0, start).join(''));
+
+  let i = 0;
+  let j = 0;
+  while (i < midA.length && j < midB.length) {
+    if (midA[i] === midB[j]) {
+      pushPart(parts, 'equal', midA[i]);
+      i++;
+      j++;
+    } else if (lengths[(i + 1) * width + j] >= lengths[i * width + j + 1]) {
+      pushPart(parts, 'removed', midA[i++]);
+    } else {
+      pushPart(parts, 'added', midB[j++]);
+    }
+  }
+  while (i < midA.length) pushPart(parts, 'removed', midA[i++]);
+  while (j < midB.length) pushPart(parts, 'added', midB[j++]);
+
+  if (endA < a.length) pushPart(parts, 'equal', a.slice(endA).join(''));
+
+  return parts;
+};
+
+/**
+ * Number of words added and removed in a diff
+ */
+export const countChangedWords = (parts: DiffPart[]): { added: number; removed: number } => {
+  const words = (text: string) => tokenize(text).filter(token => token.trim().length > 0).length;
+  return parts.reduce((counts, part) => ({
+    added: counts.added + (part.type === 'added' ? words(part.text) : 0),
+    removed: counts.removed + (part.type === 'removed' ? words(part.text) : 0)
+  }), { added: 0, removed: 0 });
+};